@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKnowledgeStats, searchKnowledgeBase } from '@features/knowledge/lib/knowledge-store';
+import { KNOWLEDGE } from '@shared/utils/constants';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Knowledge - 本地知识库检索
+ *
+ * GET /api/knowledge?q=问题&limit=3 BM25 检索，返回带出处（文件、章节、行号）的片段
+ * GET /api/knowledge 返回文档数与片段数；?rescan=1 重新扫描目录
+ */
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim();
+
+    try {
+        if (!query) {
+            return NextResponse.json(await getKnowledgeStats(Boolean(params.get('rescan'))));
+        }
+
+        const maxLimit = KNOWLEDGE.MAX_LIMIT * KNOWLEDGE.RERANK_CANDIDATES;
+        const limit = Math.min(Math.max(parseInt(params.get('limit') || '', 10) || KNOWLEDGE.DEFAULT_LIMIT, 1), maxLimit);
+        return NextResponse.json({ hits: await searchKnowledgeBase(query, limit) });
+    } catch (error) {
+        return NextResponse.json({ hits: [], error: String(error) }, { status: 500 });
+    }
+}
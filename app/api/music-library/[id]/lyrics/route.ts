@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibraryLyrics } from '@features/music-search/lib/library-indexer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Music Library Lyrics - 曲库歌词
+ *
+ * GET /api/music-library/:id/lyrics
+ * 返回 { lyric }：同名 .lrc 文件优先，其次为音频内嵌歌词（USLT / LYRICS 标签）
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const lyrics = await getLibraryLyrics(id);
+    if (!lyrics) {
+        return NextResponse.json({ error: 'Lyrics not found' }, { status: 404 });
+    }
+    return NextResponse.json(lyrics);
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createFileResponse } from '@shared/services/storage-service/file-response';
+import { getAudioType, getLibraryIndex } from '@features/music-search/lib/library-indexer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Music Library File - 曲库音频
+ *
+ * GET /api/music-library/:id
+ * 只按索引中的 ID 查找文件（不接受路径），支持 Range 请求以便拖动进度
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const entry = (await getLibraryIndex()).get(id);
+    if (!entry) {
+        return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    return createFileResponse(request, { filePath: entry.filePath, type: getAudioType(entry.filePath), size: entry.size });
+}
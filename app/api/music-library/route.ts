@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibraryIndex, searchLibraryIndex } from '@features/music-search/lib/library-indexer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Music Library - 本地曲库搜索
+ *
+ * GET /api/music-library?q=关键词&count=10
+ *   可选过滤：artist、genre、decade（如 90年代）、culture（如 华语）、mood（如 治愈）
+ *   可选 hint=90年代｜欧美｜摇滚（writer 的 genre_hint，命中的维度排名靠前）
+ * GET /api/music-library?rescan=1 重新扫描目录并返回曲目数
+ */
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+
+    if (params.get('rescan')) {
+        try {
+            const index = await getLibraryIndex(true);
+            return NextResponse.json({ count: index.size });
+        } catch (error) {
+            return NextResponse.json({ count: 0, error: String(error) }, { status: 500 });
+        }
+    }
+
+    const keyword = params.get('q') || '';
+    const count = Math.min(Math.max(parseInt(params.get('count') || '10', 10) || 10, 1), 50);
+
+    try {
+        const tracks = await searchLibraryIndex(keyword, count, {
+            artist: params.get('artist') || undefined,
+            genre: params.get('genre') || undefined,
+            decade: params.get('decade') || undefined,
+            culture: params.get('culture') || undefined,
+            mood: params.get('mood') || undefined,
+            genreHint: params.get('hint') || undefined
+        });
+        return NextResponse.json({ tracks });
+    } catch (error) {
+        return NextResponse.json({ tracks: [], error: String(error) }, { status: 500 });
+    }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createFileResponse } from '@shared/services/storage-service/file-response';
+import { EpisodeFileKind, resolveEpisodeFile } from '@features/podcast/lib/episode-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FILE_KINDS: EpisodeFileKind[] = ['audio', 'transcript', 'lrc', 'chapters'];
+
+/**
+ * Podcast Episode File - 单集音频 / 字幕 / 章节
+ *
+ * GET /api/podcast/episodes/:id/(audio|transcript|lrc|chapters)
+ * 音频支持 Range 请求（播客客户端拖动进度需要）
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; file: string }> }
+) {
+    const { id, file } = await params;
+    if (!FILE_KINDS.includes(file as EpisodeFileKind)) {
+        return NextResponse.json({ error: 'Unknown file' }, { status: 404 });
+    }
+
+    let resolved: Awaited<ReturnType<typeof resolveEpisodeFile>>;
+    try {
+        resolved = await resolveEpisodeFile(id, file as EpisodeFileKind);
+    } catch {
+        resolved = null;
+    }
+    if (!resolved) {
+        return NextResponse.json({ error: 'Episode not found' }, { status: 404 });
+    }
+
+    return createFileResponse(request, resolved);
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteEpisode } from '@features/podcast/lib/episode-store';
+import { requireBearerToken } from '@shared/services/auth-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Podcast Episode - 删除单集
+ *
+ * DELETE /api/podcast/episodes/:id
+ * 口令要求与发布相同（Authorization: Bearer <PODCAST_PUBLISH_TOKEN>）
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const rejected = requireBearerToken(request, 'PODCAST_PUBLISH_TOKEN', 'Publishing');
+    if (rejected) return rejected;
+
+    const { id } = await params;
+    const removed = await deleteEpisode(id);
+    if (!removed) {
+        return NextResponse.json({ error: 'Episode not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ShowTimeline } from '@shared/types/radio-core';
+import { buildEpisodeMeta } from '@features/podcast/lib/podcast-feed';
+import { listEpisodes, saveEpisode } from '@features/podcast/lib/episode-store';
+import { requireBearerToken, requireContentLength } from '@shared/services/auth-service';
+import { PODCAST } from '@shared/utils/constants';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Podcast Episodes - 单集列表与发布
+ *
+ * GET  /api/podcast/episodes
+ * POST /api/podcast/episodes (multipart/form-data)
+ * Fields: timeline (JSON), durationSec, audio (File), vtt?, lrc?, chapters?
+ * 需要 Authorization: Bearer <PODCAST_PUBLISH_TOKEN>；服务端未配置口令时发布关闭（403），
+ * 请求体超过 PODCAST.MAX_UPLOAD_BYTES 时直接拒绝（413），不读取上传内容
+ */
+export async function GET() {
+    const episodes = await listEpisodes();
+    return NextResponse.json(episodes.map(episode => ({
+        id: episode.id,
+        title: episode.title,
+        description: episode.description,
+        publishedAt: episode.publishedAt,
+        durationSec: episode.durationSec,
+        showType: episode.showType,
+        cast: episode.cast,
+    })));
+}
+
+export async function POST(request: NextRequest) {
+    const rejected = requireBearerToken(request, 'PODCAST_PUBLISH_TOKEN', 'Publishing')
+        ?? requireContentLength(request, PODCAST.MAX_UPLOAD_BYTES);
+    if (rejected) return rejected;
+
+    try {
+        const form = await request.formData();
+        const audio = form.get('audio');
+        const timelineRaw = form.get('timeline');
+        const durationSec = Number(form.get('durationSec'));
+
+        if (!(audio instanceof Blob) || audio.size === 0) {
+            return NextResponse.json({ error: 'audio is required' }, { status: 400 });
+        }
+        if (typeof timelineRaw !== 'string') {
+            return NextResponse.json({ error: 'timeline is required' }, { status: 400 });
+        }
+
+        const timeline = JSON.parse(timelineRaw) as ShowTimeline;
+        if (!timeline || !Array.isArray(timeline.blocks)) {
+            return NextResponse.json({ error: 'timeline is invalid' }, { status: 400 });
+        }
+
+        const text = (key: string) => {
+            const value = form.get(key);
+            return typeof value === 'string' && value.trim() ? value : undefined;
+        };
+        const files = {
+            audio: new Uint8Array(await audio.arrayBuffer()),
+            vtt: text('vtt'),
+            lrc: text('lrc'),
+            chapters: text('chapters')
+        };
+
+        const meta = buildEpisodeMeta(
+            timeline,
+            {
+                type: audio.type || 'audio/wav',
+                size: audio.size,
+                durationSec: Number.isFinite(durationSec) ? durationSec : timeline.estimatedDuration
+            },
+            { hasTranscript: Boolean(files.vtt), hasChapters: Boolean(files.chapters) }
+        );
+        const episode = await saveEpisode(meta, files);
+
+        return NextResponse.json({ id: episode.id, title: episode.title }, { status: 201 });
+    } catch (error) {
+        console.error('Podcast publish error:', error);
+        return NextResponse.json(
+            { error: `Publish failed: ${String(error)}` },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { buildPodcastFeed } from '@features/podcast/lib/podcast-feed';
+import { getPodcastChannel, listEpisodes } from '@features/podcast/lib/episode-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Podcast Feed - 精选节目 RSS 2.0 / iTunes 订阅源
+ *
+ * GET /api/podcast/feed
+ */
+export async function GET(request: NextRequest) {
+    const baseUrl = (process.env.PODCAST_BASE_URL || request.nextUrl.origin).replace(/\/$/, '');
+    const episodes = await listEpisodes();
+    const feed = buildPodcastFeed(getPodcastChannel(baseUrl), episodes, baseUrl);
+
+    return new Response(feed, {
+        headers: {
+            'Content-Type': 'application/rss+xml; charset=utf-8',
+            'Cache-Control': 'public, max-age=300',
+        },
+    });
+}
@@ -28,6 +28,30 @@ export async function POST(request: NextRequest) {
 
         const response = await fetch(url, fetchOptions);
 
+        // 流式响应（SSE / Ollama 的 NDJSON）直接透传，不做缓冲
+        const contentType = response.headers.get('content-type') || '';
+        const streamType = contentType.includes('text/event-stream')
+            ? 'text/event-stream'
+            : contentType.includes('application/x-ndjson') ? 'application/x-ndjson' : null;
+
+        if (streamType && response.body) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: {
+                    'Content-Type': `${streamType}; charset=utf-8`,
+                    'Cache-Control': 'no-cache'
+                }
+            });
+        }
+
+        // 音频（如本地 TTS 返回的 WAV）按二进制透传
+        if (contentType.startsWith('audio/') && response.body) {
+            return new Response(response.body, {
+                status: response.status,
+                headers: { 'Content-Type': contentType }
+            });
+        }
+
         // 尝试解析 JSON，失败则返回原始文本
         const text = await response.text();
         let data;
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createFileResponse } from '@shared/services/storage-service/file-response';
+import { requireBearerToken } from '@shared/services/auth-service';
+import {
+    isBundledSoundEffect,
+    removeSoundEffect,
+    resolveSoundEffectFile
+} from '@features/sound-effects/lib/sound-effect-library';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Sound Effect File - 音效音频
+ *
+ * GET    /api/sound-effects/:id 只按登记的 ID 查找文件，支持 Range 请求
+ * DELETE /api/sound-effects/:id 删除用户上传的音效（内置音效返回 403），口令要求与上传相同
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const resolved = await resolveSoundEffectFile(id);
+    if (!resolved) {
+        return NextResponse.json({ error: 'Sound effect not found' }, { status: 404 });
+    }
+
+    return createFileResponse(request, resolved);
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const rejected = requireBearerToken(request, 'SOUND_EFFECTS_TOKEN', 'Sound effect uploads');
+    if (rejected) return rejected;
+
+    const { id } = await params;
+    if (isBundledSoundEffect(id)) {
+        return NextResponse.json({ error: 'Bundled sound effects cannot be deleted' }, { status: 403 });
+    }
+
+    const removed = await removeSoundEffect(id);
+    if (!removed) {
+        return NextResponse.json({ error: 'Sound effect not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addSoundEffect, getSoundEffects } from '@features/sound-effects/lib/sound-effect-library';
+import { isSoundEffectCategory } from '@features/sound-effects/lib/sound-effect-service';
+import { requireBearerToken, requireContentLength } from '@shared/services/auth-service';
+import { SOUND_EFFECTS } from '@shared/utils/constants';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Sound Effects - 音效库列表与上传
+ *
+ * GET  /api/sound-effects?category=ambience
+ * POST /api/sound-effects (multipart/form-data)
+ * Fields: file (File), name, category?, tags?（逗号分隔）
+ * 上传需要 Authorization: Bearer <SOUND_EFFECTS_TOKEN>；服务端未配置口令时上传关闭（403），
+ * 请求体超过 SOUND_EFFECTS.MAX_REQUEST_BYTES 时直接拒绝（413）
+ */
+export async function GET(request: NextRequest) {
+    const category = request.nextUrl.searchParams.get('category');
+
+    try {
+        const effects = await getSoundEffects();
+        return NextResponse.json({
+            effects: category ? effects.filter(effect => effect.category === category) : effects
+        });
+    } catch (error) {
+        return NextResponse.json({ effects: [], error: String(error) }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const rejected = requireBearerToken(request, 'SOUND_EFFECTS_TOKEN', 'Sound effect uploads')
+        ?? requireContentLength(request, SOUND_EFFECTS.MAX_REQUEST_BYTES);
+    if (rejected) return rejected;
+
+    try {
+        const form = await request.formData();
+        const file = form.get('file');
+        const name = form.get('name');
+
+        if (!(file instanceof File) || file.size === 0) {
+            return NextResponse.json({ error: 'file is required' }, { status: 400 });
+        }
+        if (typeof name !== 'string' || !name.trim()) {
+            return NextResponse.json({ error: 'name is required' }, { status: 400 });
+        }
+
+        const category = form.get('category') || 'foley';
+        if (!isSoundEffectCategory(category)) {
+            return NextResponse.json({ error: 'Unknown category' }, { status: 400 });
+        }
+
+        const tags = form.get('tags');
+        const effect = await addSoundEffect({
+            name,
+            category,
+            tags: typeof tags === 'string' ? tags.split(/[,，]/) : [],
+            fileName: file.name,
+            data: new Uint8Array(await file.arrayBuffer())
+        });
+
+        return NextResponse.json(effect, { status: 201 });
+    } catch (error) {
+        console.error('Sound effect upload error:', error);
+        return NextResponse.json(
+            { error: `Upload failed: ${String(error)}` },
+            { status: 400 }
+        );
+    }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { broadcastStation } from '@features/broadcast/lib/broadcast-station';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Live Stream - 服务端无头广播的连续音频流
+ *
+ * GET /api/stream
+ * 返回 audio/wav (24kHz, mono, 16-bit) 流；所有听众收听同一档节目
+ */
+export async function GET() {
+    if (!broadcastStation.isReady()) {
+        return NextResponse.json(
+            { error: 'Broadcast is not configured (set RADIO_API_KEY etc. on the server)' },
+            { status: 503 }
+        );
+    }
+
+    return new Response(broadcastStation.createListenerStream(), {
+        headers: {
+            'Content-Type': 'audio/wav',
+            'Cache-Control': 'no-cache, no-store',
+            'Connection': 'keep-alive',
+        },
+    });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { broadcastStation } from '@features/broadcast/lib/broadcast-station';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Stream Status - 当前直播状态（听众数、节目、正在播放）
+ *
+ * GET /api/stream/status
+ */
+export async function GET() {
+    return NextResponse.json(broadcastStation.getStatus());
+}
@@ -14,17 +14,21 @@ import {
     MusicControlBlock,
     PlayerState
 } from '@shared/types/radio-core';
-import { writerAgent } from '@features/content/lib/writer-agent';
+import { writerAgent, TimelineBlockListener } from '@features/content/lib/writer-agent';
 import { ttsAgent } from '@features/tts/lib/tts-agent';
 import { audioMixer } from '@shared/services/audio-service/mixer';
 import { globalState } from '@shared/stores/global-state';
 import { radioMonitor } from '@shared/services/monitor-service';
 import { getSettings } from '@shared/services/storage-service/settings';
-import { saveSession } from '@shared/services/storage-service/session';
+import { saveSession, RadioSession } from '@shared/services/storage-service/session';
 import { mailQueue } from '@features/feedback/lib/mail-queue';
-import { AUDIO, SHOW, AGENT } from '@shared/utils/constants';
+import { AUDIO, AGENT, PROGRAM_CLOCK } from '@shared/utils/constants';
 import { timeAnnouncementService } from '@features/time-announcement/lib/announcer';
 import { recordShow } from '@features/history-tracking/lib/history-manager';
+import { programClock, ProgramPlan } from '@features/program-clock/lib/program-clock';
+import { showRecorder } from '@features/recording/lib/show-recorder';
+import { Cast } from '@features/content/lib/cast-system';
+import { refreshLocalWeather } from '@features/weather/lib/weather-service';
 
 // ================== 导入模块 ==================
 import { DirectorState, createDefaultState } from './director-types';
@@ -33,6 +37,8 @@ import * as PreloadManager from './preload-manager';
 import * as WarmupContent from './warmup-content';
 import * as TalkExecutor from './talk-executor';
 import * as MusicExecutor from './music-executor';
+import * as TimelineStream from './timeline-stream';
+import * as SessionResume from './session-resume';
 
 // ================== Director Agent Class ==================
 
@@ -43,14 +49,28 @@ export class DirectorAgent {
     // 后台预加载 worker
     private preloadWorkerRef: { current: ReturnType<typeof setInterval> | null } = { current: null };
 
+    // 节目编排结果（timeline id -> plan），用于统计超时/提前
+    private programPlans: Map<string, ProgramPlan> = new Map();
+
+    // 流式生成的首期节目完成写入（预生成下一期需等待编剧空闲）
+    private timelineStreamDone: Promise<void> | null = null;
+
+    // 会话进度保存（刷新页面后从中断处继续）
+    private sessionSaveTimer: ReturnType<typeof setInterval> | null = null;
+    private blockElapsedMs = 0;
+    private lastSaveTickAt = 0;
+    private currentCast: Cast | null = null;
+    private resumeMusicSeek: { blockId: string; seconds: number } | null = null;
+
     // ================== 公开方法 ==================
 
     /**
-     * 启动电台节目
+     * 启动电台节目（提供 resumeSession 时从上次保存的进度继续）
      */
     async startShow(options?: {
         theme?: string;
         userRequest?: string;
+        resumeSession?: RadioSession;
         onStateChange?: (state: PlayerState) => void;
         onBlockStart?: (block: TimelineBlock, index: number) => void;
         onBlockEnd?: (block: TimelineBlock) => void;
@@ -81,7 +101,8 @@ export class DirectorAgent {
         }
 
         timeAnnouncementService.start();
-        await this.runShowLoop(options?.theme, options?.userRequest, sessionId);
+        this.startSessionSaver();
+        await this.runShowLoop(options?.theme, options?.userRequest, sessionId, options?.resumeSession);
     }
 
     /**
@@ -97,9 +118,18 @@ export class DirectorAgent {
         this.state.preparedAudio.clear();
         this.state.musicDataCache.clear();
         this.state.musicCoverCache.clear();
+        this.state.musicLoudnessCache.clear();
+        this.state.musicLyricsCache.clear();
         this.state.isPreparing.clear();
         this.state.nextTimeline = null;
         this.state.isPreparingNext = false;
+        this.state.isTimelineStreaming = false;
+        this.timelineStreamDone = null;
+        this.programPlans.clear();
+        this.stopSessionSaver();
+        this.currentCast = null;
+        this.resumeMusicSeek = null;
+        showRecorder.finishTimeline();
         globalState.reset();
         radioMonitor.updateStatus('DIRECTOR', 'IDLE', 'Disconnected');
         radioMonitor.updateStatus('WRITER', 'IDLE', 'Disconnected');
@@ -173,7 +203,12 @@ export class DirectorAgent {
     /**
      * 内部主运行循环
      */
-    private async runShowLoop(theme?: string, userRequest?: string, sessionId?: number): Promise<void> {
+    private async runShowLoop(
+        theme?: string,
+        userRequest?: string,
+        sessionId?: number,
+        resumeSession?: RadioSession
+    ): Promise<void> {
         console.log('[Director] Entering show loop... (session:', sessionId, ')');
         radioMonitor.updateStatus('DIRECTOR', 'READY', 'Ready to start loop');
 
@@ -181,17 +216,26 @@ export class DirectorAgent {
         let nextTimelineReady = false;
         let isFirstRun = true;
 
+        // 恢复上下文；节目未播完时从中断处继续，否则照常生成新节目
+        const resumePoint = resumeSession ? this.restoreSession(resumeSession) : null;
+
         const isValidSession = () => sessionId === undefined || sessionId === this.state.currentSessionId;
 
         while (this.state.isRunning && isValidSession()) {
             try {
                 let currentTimeline: ShowTimeline;
 
-                if (isFirstRun) {
+                if (isFirstRun && resumePoint) {
+                    isFirstRun = false;
+                    currentTimeline = resumePoint.timeline;
+                    await this.resumeTimeline(resumePoint);
+                } else if (isFirstRun) {
                     isFirstRun = false;
 
                     WarmupContent.playWarmupContent(() => this.searchAndPlayIntroMusic());
-                    const timelinePromise = this.generateMainTimeline(theme, userRequest);
+                    const timelinePromise = getSettings().streamTimeline
+                        ? this.generateStreamingTimeline(theme, userRequest)
+                        : this.generateMainTimeline(theme, userRequest);
 
                     currentTimeline = await timelinePromise;
                     await this.setupTimeline(currentTimeline);
@@ -204,8 +248,9 @@ export class DirectorAgent {
                         this.state, currentTimeline, 15000, (ms) => this.delay(ms)
                     );
 
-                    await audioMixer.fadeMusic(0, 1500);
-                    audioMixer.stopAll();
+                    // 暖场音乐在后台淡出，与第一段重叠
+                    audioMixer.stopVoice();
+                    audioMixer.releaseMusic(1500);
                     audioMixer.setMusicVolume(AUDIO.MUSIC_DEFAULT_VOLUME);
                     await this.delay(300);
 
@@ -218,8 +263,8 @@ export class DirectorAgent {
                     nextTimeline = null;
                     nextTimelineReady = false;
 
-                    // 确保当前音频完全停止
-                    audioMixer.stopAll();
+                    // 停止语音；上一期的音乐继续播放，由过渡音乐交叉淡化接上
+                    audioMixer.stopVoice();
                     await this.delay(200);
 
                     // 清空旧节目的 TTS 缓存，防止音频串用
@@ -234,6 +279,7 @@ export class DirectorAgent {
                     radioMonitor.updateStatus('DIRECTOR', 'BUSY', 'Preparing audio...');
                     const preloadCount = getSettings().preloadBlockCount;
                     await this.prepareBlocks(0, preloadCount);
+                    WarmupContent.handOffTransitionMusic();
                 } else {
                     radioMonitor.log('DIRECTOR', 'Waiting for timeline generation...', 'warn');
                     await audioMixer.fadeMusic(0, 1000);
@@ -255,10 +301,14 @@ export class DirectorAgent {
                 // 启动后台预加载
                 this.startPreloadWorker();
 
+                const timelineStartedAt = Date.now();
                 const executePromise = this.executeTimeline(sessionId);
 
                 // 并行准备下一期
                 (async () => {
+                    // 编剧仍在流式写入当前节目时不能开始下一期
+                    await this.timelineStreamDone;
+
                     const halfwayDelay = Math.max(AGENT.HALFWAY_DELAY_MIN_MS, (currentTimeline.blocks.length * 3000) / 2);
                     await this.delay(halfwayDelay);
 
@@ -266,7 +316,11 @@ export class DirectorAgent {
 
                     radioMonitor.log('DIRECTOR', 'Pre-generating next timeline...', 'info');
                     const pendingMail = mailQueue.getNext();
-                    nextTimeline = await this.generateMainTimeline(undefined, pendingMail?.content);
+                    const expectedStartAt = Math.max(
+                        Date.now(),
+                        timelineStartedAt + currentTimeline.estimatedDuration * 1000
+                    );
+                    nextTimeline = await this.generateMainTimeline(undefined, pendingMail?.content, expectedStartAt);
 
                     if (!this.state.isRunning || !isValidSession() || !nextTimeline) return;
 
@@ -279,6 +333,16 @@ export class DirectorAgent {
                 })();
 
                 await executePromise;
+                this.reportProgramEnded(currentTimeline, timelineStartedAt);
+
+                // 预生成的下一期按预计结束时间编排，实际结束时间对不上时段时丢弃重新生成
+                // （nextTimeline 由后台任务赋值，需放宽控制流收窄）
+                const prepared = nextTimeline as ShowTimeline | null;
+                if (prepared && nextTimelineReady && !this.fitsProgramClock(prepared)) {
+                    this.programPlans.delete(prepared.id);
+                    nextTimeline = null;
+                    nextTimelineReady = false;
+                }
                 this.cleanupOldCaches([currentTimeline, nextTimeline]);
 
             } catch (error) {
@@ -293,11 +357,220 @@ export class DirectorAgent {
         console.log('[Director] Show loop ended.');
     }
 
-    private async generateMainTimeline(theme?: string, userRequest?: string): Promise<ShowTimeline> {
-        const duration = SHOW.MAIN_DURATION;
+    /**
+     * 生成主节目：按节目编排时钟决定类型、时长、主题与演员
+     * @param startsAt 预计开播时间（预生成下一期时为当前节目预计结束时间）
+     * @param onBlock 流式生成时逐块回调
+     */
+    private async generateMainTimeline(
+        theme?: string,
+        userRequest?: string,
+        startsAt?: number,
+        onBlock?: TimelineBlockListener
+    ): Promise<ShowTimeline> {
+        const plan = programClock.planNext(startsAt ?? Date.now());
+        const duration = plan.duration;
+
+        if (plan.slot) {
+            radioMonitor.log('DIRECTOR', `Program clock: "${plan.slot.slot.label}" (${plan.showType}, ${duration}s)`, 'info');
+        }
+
         console.log(`[Director] Generating new timeline (${duration}s)...`);
         radioMonitor.updateStatus('DIRECTOR', 'BUSY', 'Generating timeline...');
-        return writerAgent.generateTimeline(duration, theme, userRequest);
+
+        // 本地天气写入上下文（按地点缓存，失败不影响生成）
+        await refreshLocalWeather();
+
+        const timeline = await writerAgent.generateTimeline(
+            duration, theme || plan.theme, userRequest, plan.showType, plan.castOverrides, onBlock
+        );
+
+        this.programPlans.set(timeline.id, plan);
+        return timeline;
+    }
+
+    /**
+     * 流式生成主节目：第一个块写好即返回可播放的时间线，
+     * 后续块与最终提交在后台并入（已开播的块不再变动）
+     */
+    private generateStreamingTimeline(theme?: string, userRequest?: string): Promise<ShowTimeline> {
+        const timeline = TimelineStream.createStreamingTimeline();
+        this.state.isTimelineStreaming = true;
+
+        return new Promise(resolve => {
+            let started = false;
+            const start = () => {
+                if (started) return;
+                started = true;
+                resolve(timeline);
+            };
+
+            const onBlock: TimelineBlockListener = (block, index) => {
+                if (!TimelineStream.applyStreamedBlock(this.state, timeline, block, index)) return;
+
+                if (!started) {
+                    radioMonitor.log('DIRECTOR', 'First block streamed, starting playback early', 'info');
+                    start();
+                } else {
+                    this.publishStreamingTimeline(timeline);
+                }
+            };
+
+            this.timelineStreamDone = this.generateMainTimeline(theme, userRequest, undefined, onBlock)
+                .then(final => {
+                    TimelineStream.finalizeStreamingTimeline(this.state, timeline, final);
+
+                    // 编排记录改挂到流式时间线 ID 上
+                    const plan = this.programPlans.get(final.id);
+                    if (plan) {
+                        this.programPlans.delete(final.id);
+                        this.programPlans.set(timeline.id, plan);
+                    }
+                    radioMonitor.log('DIRECTOR', `Streamed timeline finalized (${timeline.blocks.length} blocks)`, 'info');
+                })
+                .catch(error => {
+                    radioMonitor.log('DIRECTOR', `Streaming generation failed: ${error}`, 'error');
+                })
+                .finally(() => {
+                    this.state.isTimelineStreaming = false;
+                    this.publishStreamingTimeline(timeline);
+                    start();
+                });
+        });
+    }
+
+    /**
+     * 流式时间线有更新时通知界面（仅当其已成为当前节目）
+     */
+    private publishStreamingTimeline(timeline: ShowTimeline): void {
+        if (this.state.context?.timeline === timeline) {
+            radioMonitor.emitTimeline(timeline);
+        }
+    }
+
+    /**
+     * 节目结束后回报编排时钟，记录实际结束时间与计划的偏差
+     */
+    private reportProgramEnded(timeline: ShowTimeline, startedAt: number): void {
+        const plan = this.programPlans.get(timeline.id);
+        if (!plan) return;
+
+        this.programPlans.delete(timeline.id);
+        // 预生成的节目以实际开播时间为准
+        programClock.reportShowEnded({ ...plan, plannedStartAt: startedAt }, Date.now());
+    }
+
+    /**
+     * 预生成的节目按当前时间重新编排后是否仍然适用（时段与节目类型一致，超时后时长仍放得下）
+     */
+    private fitsProgramClock(timeline: ShowTimeline): boolean {
+        const plan = this.programPlans.get(timeline.id);
+        if (!plan) return true;
+
+        const actual = programClock.planNext(Date.now());
+        const drift = programClock.getLastDrift();
+        const reason = actual.slot?.slot.id !== plan.slot?.slot.id || actual.showType !== plan.showType
+            ? `slot changed to "${actual.slot?.slot.label ?? 'none'}"`
+            : drift > PROGRAM_CLOCK.REPLAN_DRIFT_SECONDS && actual.duration < plan.duration
+                ? `overran by ${drift}s, only ${actual.duration}s left in slot`
+                : null;
+
+        if (reason) {
+            radioMonitor.log('DIRECTOR', `Program clock: discarding pre-generated timeline (${reason})`, 'warn');
+        }
+        return reason === null;
+    }
+
+    // ================== 会话恢复 ==================
+
+    /**
+     * 恢复会话上下文并计算恢复起点
+     */
+    private restoreSession(session: RadioSession): SessionResume.ResumePoint | null {
+        this.currentCast = SessionResume.restoreSessionContext(session);
+        const resumePoint = SessionResume.buildResumePoint(session);
+
+        if (!resumePoint) {
+            radioMonitor.log('DIRECTOR', 'Saved show already finished, starting a new one', 'info');
+        }
+        return resumePoint;
+    }
+
+    /**
+     * 从保存的块与块内位置继续播出（音频优先从持久化缓存重建）
+     */
+    private async resumeTimeline(resumePoint: SessionResume.ResumePoint): Promise<void> {
+        const { timeline, blockIndex, musicSeek, musicBed } = resumePoint;
+        radioMonitor.log('DIRECTOR', `Resuming "${timeline.title}" at block ${blockIndex + 1}/${timeline.blocks.length}`, 'info');
+
+        radioMonitor.emitTimeline(timeline);
+        if (this.currentCast) {
+            ttsAgent.setActiveCast(this.currentCast);
+        }
+        if (this.state.context) {
+            this.state.context.timeline = timeline;
+            this.state.context.currentBlockIndex = blockIndex;
+            this.state.context.onTimelineReady?.(timeline);
+        } else {
+            this.state.context = { timeline, currentBlockIndex: blockIndex, isPaused: false };
+        }
+
+        if (musicSeek > 0) {
+            this.resumeMusicSeek = { blockId: timeline.blocks[blockIndex].id, seconds: musicSeek };
+        }
+
+        radioMonitor.updateStatus('DIRECTOR', 'BUSY', 'Restoring audio...');
+        const preparePromise = this.prepareBlocks(blockIndex, getSettings().preloadBlockCount);
+
+        if (musicBed) {
+            await MusicExecutor.prepareMusicBlock(this.state, musicBed.block, (ms) => this.delay(ms));
+            await MusicExecutor.resumeMusicBed(this.state, musicBed.block, musicBed.seek);
+        }
+
+        await PreloadManager.waitForFirstBlockReady(
+            this.state, timeline, 15000, (ms) => this.delay(ms), blockIndex
+        );
+
+        preparePromise.catch(err => {
+            radioMonitor.log('DIRECTOR', `Background prepare warning: ${err}`, 'warn');
+        });
+    }
+
+    /**
+     * 定时保存会话进度（暂停期间不计入块内进度）
+     */
+    private startSessionSaver(): void {
+        this.stopSessionSaver();
+        this.lastSaveTickAt = Date.now();
+
+        this.sessionSaveTimer = setInterval(() => {
+            const now = Date.now();
+            const context = this.state.context;
+            if (context && !context.isPaused) {
+                this.blockElapsedMs += now - this.lastSaveTickAt;
+                this.persistSession();
+            }
+            this.lastSaveTickAt = now;
+        }, AGENT.SESSION_SAVE_INTERVAL_MS);
+    }
+
+    private stopSessionSaver(): void {
+        if (this.sessionSaveTimer) {
+            clearInterval(this.sessionSaveTimer);
+            this.sessionSaveTimer = null;
+        }
+    }
+
+    private persistSession(): void {
+        const context = this.state.context;
+        if (!context || context.timeline.blocks.length === 0) return;
+
+        saveSession(SessionResume.captureSession(
+            context.timeline,
+            context.currentBlockIndex,
+            this.blockElapsedMs / 1000,
+            this.currentCast
+        ));
     }
 
     private async setupTimeline(timeline: ShowTimeline, broadcast: boolean = true): Promise<void> {
@@ -313,6 +586,7 @@ export class DirectorAgent {
         }
 
         if (broadcast) {
+            this.currentCast = cast;
             if (this.state.context) {
                 this.state.context.timeline = timeline;
                 this.state.context.currentBlockIndex = 0;
@@ -434,6 +708,18 @@ export class DirectorAgent {
             }
         }
 
+        for (const key of this.state.musicLoudnessCache.keys()) {
+            if (!activeSearches.has(key)) {
+                this.state.musicLoudnessCache.delete(key);
+            }
+        }
+
+        for (const key of this.state.musicLyricsCache.keys()) {
+            if (!activeSearches.has(key)) {
+                this.state.musicLyricsCache.delete(key);
+            }
+        }
+
         for (const key of this.state.musicCache.keys()) {
             if (!activeSearches.has(key)) {
                 this.state.musicCache.delete(key);
@@ -446,8 +732,14 @@ export class DirectorAgent {
 
         const { timeline } = this.state.context;
         const isValidSession = () => sessionId === undefined || sessionId === this.state.currentSessionId;
+        showRecorder.beginTimeline(timeline);
 
-        while (this.state.isRunning && isValidSession() && this.state.context.currentBlockIndex < timeline.blocks.length) {
+        let waitingForWriter = false;
+        const hasMoreBlocks = () => this.state.context !== null && (
+            this.state.context.currentBlockIndex < timeline.blocks.length || this.state.isTimelineStreaming
+        );
+
+        while (this.state.isRunning && isValidSession() && hasMoreBlocks()) {
             if (this.state.skipRequested) {
                 this.state.skipRequested = false;
                 if (this.state.targetBlockIndex >= 0 && this.state.targetBlockIndex < timeline.blocks.length) {
@@ -469,6 +761,17 @@ export class DirectorAgent {
 
             const block = timeline.blocks[this.state.context.currentBlockIndex];
 
+            // 流式生成中，后续块尚未写好
+            if (!block) {
+                if (!waitingForWriter) {
+                    waitingForWriter = true;
+                    radioMonitor.updateStatus('DIRECTOR', 'BUSY', 'Waiting for writer...');
+                }
+                await this.delay(200);
+                continue;
+            }
+            waitingForWriter = false;
+
             if (!PreloadManager.isBlockPrepared(this.state, block)) {
                 radioMonitor.log('DIRECTOR', `Block ${this.state.context.currentBlockIndex} not ready, waiting...`, 'warn');
 
@@ -491,6 +794,9 @@ export class DirectorAgent {
                 }
             }
 
+            this.blockElapsedMs = 0;
+            this.lastSaveTickAt = Date.now();
+            showRecorder.markBlock(block);
             this.state.context.onBlockStart?.(block, this.state.context.currentBlockIndex);
             radioMonitor.emitScript(block.type === 'talk' ? 'host1' : 'system', `Playing: ${block.type}`, block.id);
 
@@ -515,13 +821,8 @@ export class DirectorAgent {
 
             if (!this.state.skipRequested) {
                 this.state.context.currentBlockIndex++;
-
-                saveSession({
-                    id: timeline.id,
-                    timeline: timeline,
-                    currentBlockIndex: this.state.context.currentBlockIndex,
-                    playbackPosition: 0
-                });
+                this.blockElapsedMs = 0;
+                this.persistSession();
             }
         }
 
@@ -530,6 +831,8 @@ export class DirectorAgent {
             recordShow(timeline.title || 'Untitled', showType, []);
             radioMonitor.log('DIRECTOR', `Show completed: ${timeline.title}`, 'info');
         }
+
+        showRecorder.finishTimeline();
     }
 
     private async executeBlock(block: TimelineBlock): Promise<void> {
@@ -537,9 +840,15 @@ export class DirectorAgent {
             case 'talk':
                 await TalkExecutor.executeTalkBlock(this.state, block as TalkBlock, (ms) => this.delay(ms));
                 break;
-            case 'music':
-                await MusicExecutor.executeMusicBlock(this.state, block as MusicBlock, (ms) => this.delay(ms));
+            case 'music': {
+                const seek = this.resumeMusicSeek?.blockId === block.id ? this.resumeMusicSeek.seconds : 0;
+                this.resumeMusicSeek = null;
+                const context = this.state.context;
+                const previous = context?.timeline.blocks[context.currentBlockIndex - 1];
+                const followsMusic = previous?.type === 'music' && !previous.duration;
+                await MusicExecutor.executeMusicBlock(this.state, block as MusicBlock, (ms) => this.delay(ms), seek, followsMusic);
                 break;
+            }
             case 'music_control':
                 await MusicExecutor.executeMusicControlBlock(block as MusicControlBlock, (ms) => this.delay(ms));
                 break;
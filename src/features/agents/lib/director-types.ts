@@ -42,12 +42,17 @@ export interface DirectorState {
     musicUrlCache: Map<string, { url: string; cachedAt: number }>;
     musicDataCache: Map<string, Blob>;
     musicCoverCache: Map<string, string>;  // search keyword -> cover URL
+    musicLoudnessCache: Map<string, number>;  // search keyword -> 积分响度 (LUFS)
+    musicLyricsCache: Map<string, string>;  // search keyword -> 带时间轴的 LRC 歌词（段落定位用）
     isPreparing: Set<string>;
 
     // 双缓冲
     nextTimeline: ShowTimeline | null;
     isPreparingNext: boolean;
 
+    // 流式生成：当前时间线仍在由编剧逐块写入
+    isTimelineStreaming: boolean;
+
     // 常量
     MUSIC_URL_TTL_MS: number;
 }
@@ -67,9 +72,12 @@ export function createDefaultState(): DirectorState {
         musicUrlCache: new Map(),
         musicDataCache: new Map(),
         musicCoverCache: new Map(),
+        musicLoudnessCache: new Map(),
+        musicLyricsCache: new Map(),
         isPreparing: new Set(),
         nextTimeline: null,
         isPreparingNext: false,
+        isTimelineStreaming: false,
         MUSIC_URL_TTL_MS: 20 * 60 * 1000
     };
 }
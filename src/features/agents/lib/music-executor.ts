@@ -6,11 +6,18 @@
 import { MusicBlock, MusicControlBlock } from '@shared/types/radio-core';
 import { ttsAgent } from '@features/tts/lib/tts-agent';
 import { audioMixer } from '@shared/services/audio-service/mixer';
+import { measureEncodedLoudness } from '@shared/services/audio-service/loudness';
 import { radioMonitor } from '@shared/services/monitor-service';
 import { globalState } from '@shared/stores/global-state';
-import { searchMusic, getMusicUrl, getLyrics, getAlbumArt } from '@features/music-search/lib/gd-music-service';
+import { IGDMusicTrack } from '@features/music-search/lib/gd-music-service';
+import { searchTracks, getTrackUrl, getTrackLyrics, getTrackArtwork } from '@features/music-search/lib/music-provider';
+import { parseLRC } from '@features/music-search/lib/lyrics-parser';
+import { findSegmentStart } from '@features/music-search/lib/song-structure';
+import type { MusicRequestPriority } from '@features/music-search/lib/music-request-scheduler';
 import { recordSong } from '@features/history-tracking/lib/history-manager';
 import { addProhibitedArtist } from '@features/music-search/lib/diversity-manager';
+import { audioCache, hashKey } from '@shared/services/storage-service/audio-cache';
+import { getSettings } from '@shared/services/storage-service/settings';
 import { AUDIO } from '@shared/utils/constants';
 import { DirectorState } from './director-types';
 
@@ -18,19 +25,96 @@ import { DirectorState } from './director-types';
  * 解析 LRC 格式歌词为纯文本
  */
 export function parseLrcToText(lrc: string): string {
+    const { lines } = parseLRC(lrc);
+    if (lines.length > 0) {
+        return lines.map(line => line.text).join('\n');
+    }
+
+    // 无时间轴的纯文本歌词（如本地曲库内嵌歌词）
     return lrc
-        .split('\n')
+        .split(/\r?\n/)
         .map(line => line.replace(/\[\d{2}:\d{2}(\.\d+)?\]/g, '').trim())
         .filter(line => line.length > 0)
         .join('\n');
 }
 
+/** 持久化缓存中随音频保存的曲目信息 */
+interface CachedMusicInfo {
+    track: IGDMusicTrack;
+    albumArt?: string;
+    lyrics?: string;
+    lrc?: string;          // 带时间轴的原始歌词（段落定位用）
+    loudness?: number;     // 积分响度 (LUFS)
+}
+
+/**
+ * 当前节目类型（决定音乐来源顺序）
+ */
+function getShowType(state: DirectorState): string | undefined {
+    return state.context?.timeline.metadata?.showType;
+}
+
+/**
+ * 记录已播放曲目（近期歌曲、历史与歌手多样性）
+ */
+function recordPlayedTrack(track: IGDMusicTrack, lyrics: string): void {
+    globalState.addRecentlyPlayedSong({
+        name: track.name,
+        artist: track.artist.join(', '),
+        lyrics: lyrics.slice(0, 500)
+    });
+
+    recordSong(track.name, track.artist.join(', '));
+    for (const artistName of track.artist) {
+        addProhibitedArtist(artistName);
+    }
+}
+
+/**
+ * 分析音乐响度，播放时按目标响度归一化（已有结果时直接使用）
+ */
+async function analyzeLoudness(state: DirectorState, block: MusicBlock, data: Blob, known?: number): Promise<number | undefined> {
+    const loudness = known ?? await measureEncodedLoudness(data);
+    if (loudness == null || !Number.isFinite(loudness)) return undefined;
+
+    state.musicLoudnessCache.set(block.search, loudness);
+    radioMonitor.log('DIRECTOR', `Music loudness: ${loudness.toFixed(1)} LUFS (${block.search})`, 'trace');
+    return loudness;
+}
+
+/**
+ * 从持久化缓存恢复音乐块（命中时无需下载音频与歌词）
+ * 缓存也可能由混音器的 playMusicFromSearch 写入，此时没有附带曲目信息
+ */
+async function restoreFromAudioCache(state: DirectorState, block: MusicBlock, track: IGDMusicTrack, cacheKey: string): Promise<boolean> {
+    const hit = await audioCache.get(cacheKey);
+    if (!hit) return false;
+
+    const { albumArt, lyrics, lrc, loudness } = (hit.info ?? {}) as Partial<CachedMusicInfo>;
+    state.musicDataCache.set(block.search, hit.data);
+    await analyzeLoudness(state, block, hit.data, loudness);
+    if (albumArt) {
+        state.musicCoverCache.set(block.search, albumArt);
+    }
+    if (lrc) {
+        state.musicLyricsCache.set(block.search, lrc);
+    }
+    if (lyrics) {
+        recordPlayedTrack(track, lyrics);
+    }
+
+    radioMonitor.log('DIRECTOR', `Music cache hit (disk): ${track.name}`, 'info');
+    return true;
+}
+
 /**
  * 续期音乐 URL（如果即将过期）
+ * @param priority 接口排队优先级（预加载时为 next，即将播放时为 playing）
  */
 export async function renewMusicUrlIfNeeded(
     state: DirectorState,
-    block: MusicBlock
+    block: MusicBlock,
+    priority: MusicRequestPriority = 'next'
 ): Promise<void> {
     const cached = state.musicUrlCache.get(block.search);
     if (!cached) return;
@@ -43,7 +127,7 @@ export async function renewMusicUrlIfNeeded(
     if (!track) return;
 
     try {
-        const newUrl = await getMusicUrl(track.id, 320, track.source);
+        const newUrl = await getTrackUrl(track.id, track.source, priority);
         if (newUrl) {
             state.musicUrlCache.set(block.search, { url: newUrl, cachedAt: Date.now() });
             radioMonitor.log('DIRECTOR', `Music URL renewed: ${block.search}`, 'info');
@@ -68,11 +152,13 @@ export async function prepareMusicBlock(
 
     let cachedUrl = state.musicUrlCache.get(block.search);
     let urlToDownload = cachedUrl?.url;
+    let cleanLyrics: string | undefined;
 
     try {
+        // 先解析出曲目再查持久化缓存，搜索时的禁播歌手与近期播放检查照常生效
         if (!state.musicCache.has(block.search)) {
             radioMonitor.log('DIRECTOR', `Searching music: ${block.search}`, 'info');
-            const tracks = await searchMusic(block.search);
+            const tracks = await searchTracks(block.search, undefined, getShowType(state));
             if (tracks.length > 0) {
                 state.musicCache.set(block.search, tracks[0]);
             } else {
@@ -83,6 +169,12 @@ export async function prepareMusicBlock(
 
         const track = state.musicCache.get(block.search)!;
 
+        // 按解析出的曲目而非搜索词命中持久化缓存（与混音器的键一致）
+        const cacheKey = await hashKey(`track|${track.source}|${track.id}`);
+        if (await restoreFromAudioCache(state, block, track, cacheKey)) {
+            return;
+        }
+
         await renewMusicUrlIfNeeded(state, block);
         cachedUrl = state.musicUrlCache.get(block.search);
         urlToDownload = cachedUrl?.url;
@@ -98,9 +190,9 @@ export async function prepareMusicBlock(
 
         if (!urlToDownload) {
             const [newUrl, lyrics, albumArt] = await Promise.all([
-                getMusicUrl(track.id, 320, track.source),
-                getLyrics(track.lyricId, track.source),
-                getAlbumArt(track.picId, 500, track.source)
+                getTrackUrl(track.id, track.source),
+                getTrackLyrics(track.lyricId, track.source),
+                getTrackArtwork(track.picId, 500, track.source)
             ]);
 
             if (newUrl) {
@@ -114,17 +206,9 @@ export async function prepareMusicBlock(
             }
 
             if (lyrics?.lyric) {
-                const cleanLyrics = parseLrcToText(lyrics.lyric);
-                globalState.addRecentlyPlayedSong({
-                    name: track.name,
-                    artist: track.artist.join(', '),
-                    lyrics: cleanLyrics.slice(0, 500)
-                });
-
-                recordSong(track.name, track.artist.join(', '));
-                for (const artistName of track.artist) {
-                    addProhibitedArtist(artistName);
-                }
+                state.musicLyricsCache.set(block.search, lyrics.lyric);
+                cleanLyrics = parseLrcToText(lyrics.lyric);
+                recordPlayedTrack(track, cleanLyrics);
             }
         }
 
@@ -140,6 +224,15 @@ export async function prepareMusicBlock(
                     const blob = await response.blob();
                     state.musicDataCache.set(block.search, blob);
 
+                    const info: CachedMusicInfo = {
+                        track,
+                        albumArt: state.musicCoverCache.get(block.search),
+                        lyrics: cleanLyrics,
+                        lrc: state.musicLyricsCache.get(block.search),
+                        loudness: await analyzeLoudness(state, block, blob)
+                    };
+                    void audioCache.put('music', cacheKey, blob, `${track.name} - ${track.artist.join(', ')}`, info);
+
                     radioMonitor.log('DIRECTOR', `✓ Music downloaded: ${track.name} (${(blob.size / 1024 / 1024).toFixed(2)} MB)`, 'info');
                     break;
                 } catch (err) {
@@ -161,18 +254,80 @@ export async function prepareMusicBlock(
     }
 }
 
+/**
+ * 计算起播位置（秒）：segment 按歌词时间轴定位并提前一小段让淡入落在段落之前，
+ * 定位失败时退回 startAt
+ */
+async function resolveStartPosition(state: DirectorState, block: MusicBlock): Promise<number> {
+    const fallback = Math.max(0, block.startAt ?? 0);
+    if (!block.segment) return fallback;
+
+    const track = state.musicCache.get(block.search);
+    let lrc = state.musicLyricsCache.get(block.search);
+    if (lrc === undefined) {
+        // 曲目尚未确定时由实时搜索分支重新计算
+        if (!track) return fallback;
+        try {
+            lrc = (await getTrackLyrics(track.lyricId, track.source, 'playing'))?.lyric ?? '';
+        } catch {
+            lrc = '';
+        }
+        state.musicLyricsCache.set(block.search, lrc);
+    }
+
+    const segmentStart = lrc ? findSegmentStart(lrc, block.segment) : null;
+    if (segmentStart === null) {
+        radioMonitor.log('DIRECTOR', `Segment "${block.segment}" not found in lyrics, starting at ${fallback}s: ${block.search}`, 'warn');
+        return fallback;
+    }
+
+    const leadIn = Math.max(AUDIO.SEGMENT_LEAD_IN_MS, block.fadeIn ?? AUDIO.MUSIC_DEFAULT_FADE_IN);
+    const position = Math.max(0, segmentStart - leadIn / 1000);
+    radioMonitor.log('DIRECTOR', `Starting at ${block.segment} (${position.toFixed(1)}s): ${block.search}`, 'info');
+    return position;
+}
+
+/**
+ * 播放到 duration 后让音乐在后台淡出，下一段在淡出期间开始，不留空白
+ * @param playedMs 本块已播放的时长（起播后念介绍词、会话恢复前已播放的部分）
+ */
+async function releaseAfter(
+    block: MusicBlock,
+    playedMs: number,
+    delay: (ms: number) => Promise<void>
+): Promise<void> {
+    const totalMs = block.duration! * 1000;
+    const fadeOut = Math.min(block.fadeOut ?? AUDIO.RELEASE_FADE_MS, totalMs / 2);
+    await delay(Math.max(0, totalMs - playedMs - fadeOut));
+    audioMixer.releaseMusic(fadeOut);
+    audioMixer.setMusicVolume(AUDIO.MUSIC_DEFAULT_VOLUME);
+}
+
 /**
  * 执行音乐块
+ * @param seekSeconds 起播位置（会话恢复时从中途继续，跳过介绍词）
+ * @param followsMusic 紧接在一首完整播放的歌曲之后：等到上一首尾声再交叉淡化，而不是直接切断
  */
 export async function executeMusicBlock(
     state: DirectorState,
     block: MusicBlock,
-    delay: (ms: number) => Promise<void>
+    delay: (ms: number) => Promise<void>,
+    seekSeconds: number = 0,
+    followsMusic: boolean = false
 ): Promise<void> {
+    const isResuming = seekSeconds > 0;
+    const { crossfadeDuration, crossfadeCurve } = getSettings();
+    let startPosition = 0;
+    let startedAt = 0;
+
+    // 会话恢复时 seekSeconds 为曲目内的绝对位置，已播放时长从起播位置算起
+    const getPlayedMs = () =>
+        Math.max(0, seekSeconds - startPosition) * 1000 + (Date.now() - startedAt);
+
     try {
         // 1. 先生成介绍词 TTS
         let introAudio: ArrayBuffer | null = null;
-        if (block.intro) {
+        if (block.intro && !isResuming) {
             try {
                 const result = await ttsAgent.generateSpeech(
                     block.intro.text,
@@ -193,6 +348,13 @@ export async function executeMusicBlock(
             }
         };
 
+        startPosition = await resolveStartPosition(state, block);
+        const seek = isResuming ? seekSeconds : startPosition;
+
+        if (followsMusic && !isResuming) {
+            await audioMixer.waitForMusicOutro(crossfadeDuration);
+        }
+
         // 2. 优先播放已下载的 Blob
         const cachedData = state.musicDataCache.get(block.search);
         if (cachedData) {
@@ -202,12 +364,17 @@ export async function executeMusicBlock(
 
             const result = await audioMixer.playMusic(blobUrl, {
                 fadeIn: block.fadeIn ?? AUDIO.MUSIC_DEFAULT_FADE_IN,
+                seek,
                 format: 'mp3',
-                html5: true
+                html5: true,
+                crossfade: crossfadeDuration,
+                curve: crossfadeCurve,
+                loudness: state.musicLoudnessCache.get(block.search)
             });
 
             if (result.success) {
                 shouldRevokeUrl = false;
+                startedAt = Date.now();
 
                 // 发送带元数据的音乐播放事件
                 const track = state.musicCache.get(block.search);
@@ -223,14 +390,13 @@ export async function executeMusicBlock(
                 }
 
                 await playIntroOverlay();
-                globalState.addTrack(block.search);
+                if (!isResuming) {
+                    globalState.addTrack(block.search);
+                }
 
                 if (block.duration) {
-                    await delay(block.duration * 1000);
-                    await audioMixer.fadeMusic(0, 2000);
-                    audioMixer.stopMusic();
-                    URL.revokeObjectURL(blobUrl);
-                    audioMixer.setMusicVolume(AUDIO.MUSIC_DEFAULT_VOLUME);
+                    await releaseAfter(block, getPlayedMs(), delay);
+                    setTimeout(() => URL.revokeObjectURL(blobUrl), (block.fadeOut ?? AUDIO.RELEASE_FADE_MS) + 1000);
                 } else {
                     setTimeout(() => URL.revokeObjectURL(blobUrl), 30 * 60 * 1000);
                 }
@@ -250,16 +416,17 @@ export async function executeMusicBlock(
         let track = state.musicCache.get(block.search);
         if (!track) {
             radioMonitor.log('DIRECTOR', `Searching music (fallback): ${block.search}`, 'info');
-            const tracks = await searchMusic(block.search);
+            const tracks = await searchTracks(block.search, undefined, getShowType(state), 'playing');
             if (tracks.length === 0) {
                 radioMonitor.log('DIRECTOR', `Music not found: ${block.search}`, 'warn');
                 return;
             }
             track = tracks[0];
             state.musicCache.set(block.search, track);
+            startPosition = await resolveStartPosition(state, block);
         }
 
-        const url = await getMusicUrl(track.id, 320, track.source);
+        const url = await getTrackUrl(track.id, track.source, 'playing');
         if (!url) {
             radioMonitor.log('DIRECTOR', `Failed to get music URL (fallback): ${block.search}`, 'error');
             return;
@@ -269,20 +436,24 @@ export async function executeMusicBlock(
         radioMonitor.log('DIRECTOR', `Playing music (live): ${track.name}`, 'info');
 
         const playResult = await audioMixer.playMusic(url, {
-            fadeIn: block.fadeIn ?? AUDIO.MUSIC_DEFAULT_FADE_IN
+            fadeIn: block.fadeIn ?? AUDIO.MUSIC_DEFAULT_FADE_IN,
+            seek: isResuming ? seekSeconds : startPosition,
+            crossfade: crossfadeDuration,
+            curve: crossfadeCurve
         });
 
         if (!playResult.success) {
             radioMonitor.log('DIRECTOR', `Live music playback failed: ${block.search} - ${playResult.error}`, 'error');
             return;
         }
+        startedAt = Date.now();
 
         // 发送带元数据的音乐播放事件
         let coverUrl = state.musicCoverCache.get(block.search) || null;
         // 如果还没有封面，尝试获取
         if (!coverUrl && track.picId) {
             try {
-                coverUrl = await getAlbumArt(track.picId, 500, track.source);
+                coverUrl = await getTrackArtwork(track.picId, 500, track.source, 'playing');
                 if (coverUrl) {
                     state.musicCoverCache.set(block.search, coverUrl);
                 }
@@ -299,19 +470,49 @@ export async function executeMusicBlock(
         );
 
         await playIntroOverlay();
-        globalState.addTrack(block.search);
+        if (!isResuming) {
+            globalState.addTrack(block.search);
+        }
 
         if (block.duration) {
-            await delay(block.duration * 1000);
-            await audioMixer.fadeMusic(0, 2000);
-            audioMixer.stopMusic();
-            audioMixer.setMusicVolume(AUDIO.MUSIC_DEFAULT_VOLUME);
+            await releaseAfter(block, getPlayedMs(), delay);
         }
     } catch (err) {
         radioMonitor.log('DIRECTOR', `executeMusicBlock error: ${err}`, 'error');
     }
 }
 
+/**
+ * 恢复背景音乐（会话恢复时，当前块之前的歌曲仍应在对话下继续播放）
+ */
+export async function resumeMusicBed(
+    state: DirectorState,
+    block: MusicBlock,
+    seekSeconds: number
+): Promise<void> {
+    const cachedData = state.musicDataCache.get(block.search);
+    if (!cachedData) {
+        radioMonitor.log('DIRECTOR', `Music bed not available: ${block.search}`, 'warn');
+        return;
+    }
+
+    const blobUrl = URL.createObjectURL(cachedData);
+    const result = await audioMixer.playMusic(blobUrl, {
+        fadeIn: AUDIO.MUSIC_DEFAULT_FADE_IN,
+        seek: seekSeconds,
+        format: 'mp3',
+        html5: true,
+        loudness: state.musicLoudnessCache.get(block.search)
+    });
+
+    if (result.success) {
+        radioMonitor.log('DIRECTOR', `Music bed resumed at ${Math.round(seekSeconds)}s: ${block.search}`, 'info');
+        setTimeout(() => URL.revokeObjectURL(blobUrl), 30 * 60 * 1000);
+    } else {
+        URL.revokeObjectURL(blobUrl);
+    }
+}
+
 /**
  * 执行音乐控制块
  */
@@ -30,18 +30,19 @@ export function isBlockPrepared(state: DirectorState, block: TimelineBlock): boo
 }
 
 /**
- * 等待第一个块准备好（带超时保护）
+ * 等待第一个块准备好（带超时保护；会话恢复时从 startIndex 开始）
  */
 export async function waitForFirstBlockReady(
     state: DirectorState,
     timeline: ShowTimeline,
     timeoutMs: number,
-    delay: (ms: number) => Promise<void>
+    delay: (ms: number) => Promise<void>,
+    startIndex: number = 0
 ): Promise<void> {
-    if (!timeline.blocks.length) return;
+    const firstBlock = timeline.blocks[startIndex];
+    if (!firstBlock) return;
 
     const startTime = Date.now();
-    const firstBlock = timeline.blocks[0];
 
     while (Date.now() - startTime < timeoutMs) {
         if (isBlockPrepared(state, firstBlock)) {
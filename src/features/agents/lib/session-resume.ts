@@ -0,0 +1,176 @@
+/**
+ * Session Resume - 会话恢复
+ * 保存：时间线、当前块与块内进度、背景音乐进度、上下文记忆与演员阵容；
+ * 恢复：重建全局记忆、演员阵容与歌手禁播列表，并从中断的块与块内位置继续播出
+ */
+
+import {
+    ALL_VOICES,
+    MusicBlock,
+    ShowTimeline,
+    TalkBlock,
+    TimelineBlock,
+    VoiceName
+} from '@shared/types/radio-core';
+import { RadioSession, SessionCast } from '@shared/services/storage-service/session';
+import { audioMixer } from '@shared/services/audio-service/mixer';
+import { globalState } from '@shared/stores/global-state';
+import { radioMonitor } from '@shared/services/monitor-service';
+import { writerAgent } from '@features/content/lib/writer-agent';
+import { ttsAgent } from '@features/tts/lib/tts-agent';
+import { Cast, SHOW_TEMPLATES, ShowType } from '@features/content/lib/cast-system';
+import { estimateSpeechSeconds } from '@features/content/lib/timeline-validator';
+import { loadProhibitedArtists } from '@features/music-search/lib/diversity-manager';
+
+// ================== Types ==================
+
+/** 恢复播出的起点 */
+export interface ResumePoint {
+    timeline: ShowTimeline;
+    blockIndex: number;
+    musicSeek: number;                                  // 当前块为音乐时的起播位置（秒）
+    musicBed: { block: MusicBlock; seek: number } | null;  // 当前块之前仍在播放的背景音乐
+}
+
+// ================== Capture ==================
+
+/**
+ * 采集当前会话（块内进度：音乐块取音乐进度，其他块取已播放时长）
+ */
+export function captureSession(
+    timeline: ShowTimeline,
+    blockIndex: number,
+    blockElapsedSeconds: number,
+    cast: Cast | null
+): Omit<RadioSession, 'savedAt'> {
+    const block = timeline.blocks[blockIndex];
+    const musicPosition = audioMixer.getMusicState().position ?? 0;
+
+    return {
+        id: timeline.id,
+        timeline,
+        currentBlockIndex: blockIndex,
+        playbackPosition: block?.type === 'music' ? musicPosition : blockElapsedSeconds,
+        musicPosition,
+        globalContext: globalState.getContextForPrompt(),
+        memory: globalState.exportSnapshot(),
+        cast: cast ?? undefined
+    };
+}
+
+// ================== Restore ==================
+
+/**
+ * 校验并还原演员阵容（节目类型或音色已不存在时放弃）
+ */
+function toCast(saved?: SessionCast): Cast | null {
+    if (!saved || !SHOW_TEMPLATES.some(template => template.type === saved.showType)) {
+        return null;
+    }
+    if (!saved.members.every(member => member.voiceName in ALL_VOICES)) {
+        return null;
+    }
+
+    return {
+        showType: saved.showType as ShowType,
+        showName: saved.showName,
+        members: saved.members.map(member => ({
+            ...member,
+            voiceName: member.voiceName as VoiceName
+        }))
+    };
+}
+
+/**
+ * 恢复上下文：全局记忆、演员阵容、歌手禁播列表
+ */
+export function restoreSessionContext(session: RadioSession): Cast | null {
+    if (session.memory) {
+        globalState.restoreSnapshot(session.memory);
+    } else if (session.globalContext) {
+        globalState.restoreSnapshot({ compressedSummary: session.globalContext });
+    }
+
+    // 禁播列表与节目历史本身持久化在 localStorage，这里重新载入以清理过期条目
+    loadProhibitedArtists();
+
+    const cast = toCast(session.cast);
+    if (cast) {
+        writerAgent.restoreCast(cast);
+        ttsAgent.setActiveCast(cast);
+    }
+
+    radioMonitor.log('DIRECTOR', `Session context restored (${cast ? cast.showName : 'no cast'})`, 'info');
+    return cast;
+}
+
+/**
+ * 裁掉说话块中已播完的台词（从进行中的那句重新开始）
+ */
+function trimTalkBlock(block: TalkBlock, offsetSeconds: number): TalkBlock {
+    let elapsed = 0;
+    let startLine = 0;
+
+    for (; startLine < block.scripts.length - 1; startLine++) {
+        const script = block.scripts[startLine];
+        elapsed += estimateSpeechSeconds(script.text) + (script.pause ?? 0) / 1000;
+        if (elapsed > offsetSeconds) break;
+    }
+
+    return startLine > 0
+        ? { ...block, scripts: block.scripts.slice(startLine) }
+        : block;
+}
+
+/**
+ * 按块内进度裁剪块
+ */
+function trimBlock(block: TimelineBlock, offsetSeconds: number): TimelineBlock {
+    if (offsetSeconds <= 0) return block;
+
+    switch (block.type) {
+        case 'talk':
+            return trimTalkBlock(block, offsetSeconds);
+        case 'silence':
+            return { ...block, duration: Math.max(0, block.duration - offsetSeconds * 1000) };
+        default:
+            return block;
+    }
+}
+
+/**
+ * 查找当前块之前仍在播放的背景音乐（遇到 stop 视为已结束）
+ */
+function findMusicBed(blocks: TimelineBlock[], index: number): MusicBlock | null {
+    for (let i = index - 1; i >= 0; i--) {
+        const block = blocks[i];
+        if (block.type === 'music') return block;
+        if (block.type === 'music_control' && block.action === 'stop') return null;
+    }
+    return null;
+}
+
+/**
+ * 计算恢复起点；节目已全部播完时返回 null
+ */
+export function buildResumePoint(session: RadioSession): ResumePoint | null {
+    const blocks = session.timeline.blocks || [];
+    const blockIndex = session.currentBlockIndex;
+    const block = blocks[blockIndex];
+    if (!block) return null;
+
+    const offset = session.playbackPosition || 0;
+    const timeline: ShowTimeline = {
+        ...session.timeline,
+        blocks: blocks.map((item, index) => index === blockIndex ? trimBlock(item, offset) : item)
+    };
+
+    const bedBlock = block.type === 'music' ? null : findMusicBed(blocks, blockIndex);
+
+    return {
+        timeline,
+        blockIndex,
+        musicSeek: block.type === 'music' ? offset : 0,
+        musicBed: bedBlock ? { block: bedBlock, seek: session.musicPosition || 0 } : null
+    };
+}
@@ -1,17 +1,21 @@
 /**
  * Talk Executor - 对话执行模块
- * 处理 TalkBlock 的准备和执行
+ * 处理 TalkBlock 的准备和执行（含 soundEffects 音效提示）
  */
 
 import { TalkBlock } from '@shared/types/radio-core';
 import { ttsAgent } from '@features/tts/lib/tts-agent';
+import { ttsProviderChain } from '@features/tts/lib/provider-chain';
 import { audioMixer } from '@shared/services/audio-service/mixer';
 import { radioMonitor } from '@shared/services/monitor-service';
 import { globalState } from '@shared/stores/global-state';
 import { getSettings } from '@shared/services/storage-service/settings';
-import { AUDIO } from '@shared/utils/constants';
+import { AUDIO, SOUND_EFFECTS } from '@shared/utils/constants';
+import { getSoundEffectUrl, resolveCue, SoundEffectInfo } from '@features/sound-effects/lib/sound-effect-service';
 import { DirectorState } from './director-types';
 
+type SoundEffectCue = NonNullable<TalkBlock['soundEffects']>[number];
+
 /**
  * 预处理说话块（智能选择批量/分开 TTS）
  */
@@ -22,7 +26,9 @@ export async function prepareTalkBlock(
     const settings = getSettings();
     const uniqueSpeakers = new Set(block.scripts.map(s => s.speaker));
 
-    if (settings.ttsProvider === 'gemini' && uniqueSpeakers.size <= 2 && block.scripts.length >= 1) {
+    // Gemini 熔断时批量合成必然失败，直接逐句走渠道链
+    if (settings.ttsProvider === 'gemini' && ttsProviderChain.isAvailable('gemini')
+        && uniqueSpeakers.size <= 2 && block.scripts.length >= 1) {
         await prepareTalkBlockBatched(state, block);
     } else {
         await prepareTalkBlockSingle(state, block);
@@ -105,7 +111,8 @@ export async function executeTalkBlock(
         const { action, volume } = block.backgroundMusic;
         switch (action) {
             case 'fade':
-                await audioMixer.fadeMusic(volume || 0.1, 1000);
+                // 侧链闪避：说话时音乐按语音包络压到 volume，句间停顿时回升
+                audioMixer.setDucking({ depth: volume || AUDIO.MUSIC_FADE_LOW });
                 break;
             case 'pause':
                 audioMixer.pauseMusic();
@@ -118,6 +125,9 @@ export async function executeTalkBlock(
         }
     }
 
+    await playSoundEffects(state, block, 'before');
+    const hasUnderlay = await startUnderlay(block);
+
     const batchAudioId = `${block.id}-batch`;
     const batchAudioData = state.preparedAudio.get(batchAudioId);
 
@@ -145,10 +155,15 @@ export async function executeTalkBlock(
         await executeTalkBlockSingle(state, block, delay);
     }
 
+    if (hasUnderlay) {
+        audioMixer.stopUnderlay(SOUND_EFFECTS.UNDERLAY_FADE_MS);
+    }
+    await playSoundEffects(state, block, 'after');
+
     if (hadBackgroundMusic) {
         if (hadBackgroundMusic.action === 'fade') {
-            await audioMixer.fadeMusic(AUDIO.MUSIC_DEFAULT_VOLUME, AUDIO.FADE_DURATION_NORMAL);
-            radioMonitor.log('DIRECTOR', 'Restored music volume after talk', 'trace');
+            audioMixer.setDucking(null);
+            radioMonitor.log('DIRECTOR', 'Released music ducking after talk', 'trace');
         } else if (hadBackgroundMusic.action === 'pause') {
             audioMixer.resumeMusic();
             radioMonitor.log('DIRECTOR', 'Resumed music after talk', 'trace');
@@ -220,6 +235,8 @@ export async function executeTalkBlockSingle(
                 );
                 if (result.success && result.audioData) {
                     await audioMixer.playVoice(result.audioData);
+                } else {
+                    radioMonitor.log('DIRECTOR', `All TTS providers failed, line skipped: ${result.error}`, 'error');
                 }
             } catch (e) {
                 console.warn('[Director] TTS error, continuing:', e);
@@ -233,3 +250,72 @@ export async function executeTalkBlockSingle(
         globalState.addTopic(script.text.slice(0, 50), script.speaker);
     }
 }
+
+// ================== Sound Effects ==================
+
+/**
+ * 匹配 cue 对应的音效（音效库不可用或无匹配时跳过）
+ */
+async function findSoundEffect(cue: SoundEffectCue): Promise<SoundEffectInfo | null> {
+    try {
+        const effect = await resolveCue(cue.cue);
+        if (!effect) {
+            radioMonitor.log('DIRECTOR', `No sound effect matches cue "${cue.cue}", skipped`, 'warn');
+        }
+        return effect;
+    } catch (error) {
+        console.warn('[Director] Sound effect lookup failed:', error);
+        return null;
+    }
+}
+
+/**
+ * 依次播放 before / after 音效（未写 position 的按 before 处理）
+ * 单个音效最多等待 MAX_CUE_MS，较长的音效在台词下继续播完
+ */
+async function playSoundEffects(
+    state: DirectorState,
+    block: TalkBlock,
+    position: 'before' | 'after'
+): Promise<void> {
+    const cues = (block.soundEffects ?? []).filter(cue => (cue.position ?? 'before') === position);
+
+    for (const cue of cues) {
+        if (!state.isRunning || state.skipRequested) return;
+
+        const effect = await findSoundEffect(cue);
+        if (!effect) continue;
+
+        radioMonitor.log('DIRECTOR', `Sound effect (${position}): ${effect.name}`, 'trace');
+        await Promise.race([
+            audioMixer.playEffect(getSoundEffectUrl(effect), {
+                volume: cue.volume ?? SOUND_EFFECTS.DEFAULT_VOLUME,
+                format: effect.format
+            }),
+            new Promise(resolve => setTimeout(resolve, SOUND_EFFECTS.MAX_CUE_MS))
+        ]);
+    }
+}
+
+/**
+ * 开始铺底音效（同一时间只有一条铺底，取第一个能匹配到的 underlay cue）
+ */
+async function startUnderlay(block: TalkBlock): Promise<boolean> {
+    const cues = (block.soundEffects ?? []).filter(cue => cue.position === 'underlay');
+
+    for (const cue of cues) {
+        const effect = await findSoundEffect(cue);
+        if (!effect) continue;
+
+        const started = await audioMixer.startUnderlay(getSoundEffectUrl(effect), {
+            volume: cue.volume ?? SOUND_EFFECTS.UNDERLAY_VOLUME,
+            format: effect.format,
+            fadeIn: SOUND_EFFECTS.UNDERLAY_FADE_MS
+        });
+        if (started) {
+            radioMonitor.log('DIRECTOR', `Sound effect (underlay): ${effect.name}`, 'trace');
+            return true;
+        }
+    }
+    return false;
+}
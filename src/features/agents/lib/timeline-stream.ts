@@ -0,0 +1,82 @@
+/**
+ * Timeline Stream - 流式时间线合并模块
+ * 编剧逐块输出时维护一份"正在写入"的时间线：已开播的块保持不变，
+ * 未开播的块随模型重写或最终提交而替换
+ */
+
+import { ShowTimeline, TimelineBlock } from '@shared/types/radio-core';
+import { DirectorState } from './director-types';
+
+/**
+ * 创建空的流式时间线
+ */
+export function createStreamingTimeline(): ShowTimeline {
+    return {
+        id: `stream-${Date.now()}`,
+        title: 'On Air',
+        estimatedDuration: 0,
+        blocks: []
+    };
+}
+
+/**
+ * 已锁定（正在或已经播放）的块数
+ */
+function getLockedCount(state: DirectorState, timeline: ShowTimeline): number {
+    if (state.context?.timeline !== timeline) return 0;
+    return Math.min(state.context.currentBlockIndex + 1, timeline.blocks.length);
+}
+
+/**
+ * 丢弃被替换块的整段语音缓存（分句缓存的 key 含台词文本，不会串用）
+ */
+function forgetPreparedBlock(state: DirectorState, block: TimelineBlock): void {
+    if (block.type === 'talk') {
+        state.preparedAudio.delete(`${block.id}-batch`);
+    }
+}
+
+/**
+ * 写入一个流式块，返回时间线是否变化
+ * 同一次输出中 index 递增；index 回落说明模型在重写，丢弃其后未开播的旧块
+ */
+export function applyStreamedBlock(
+    state: DirectorState,
+    timeline: ShowTimeline,
+    block: TimelineBlock,
+    index: number
+): boolean {
+    const locked = getLockedCount(state, timeline);
+    if (index < locked) return false;
+
+    if (index < timeline.blocks.length) {
+        timeline.blocks.splice(index).forEach(stale => forgetPreparedBlock(state, stale));
+    }
+    if (index !== timeline.blocks.length) return false;
+
+    timeline.blocks.push(block);
+    return true;
+}
+
+/**
+ * 用最终提交的时间线替换未开播部分（保留流式时间线的 ID）
+ */
+export function finalizeStreamingTimeline(
+    state: DirectorState,
+    timeline: ShowTimeline,
+    final: ShowTimeline
+): void {
+    const locked = getLockedCount(state, timeline);
+
+    timeline.blocks.slice(locked).forEach((streamed, offset) => {
+        const replacement = final.blocks[locked + offset];
+        if (!replacement || JSON.stringify(replacement) !== JSON.stringify(streamed)) {
+            forgetPreparedBlock(state, streamed);
+        }
+    });
+
+    timeline.title = final.title;
+    timeline.estimatedDuration = final.estimatedDuration;
+    timeline.metadata = final.metadata;
+    timeline.blocks = [...timeline.blocks.slice(0, locked), ...final.blocks.slice(locked)];
+}
@@ -6,7 +6,8 @@
 import { ttsAgent } from '@features/tts/lib/tts-agent';
 import { audioMixer } from '@shared/services/audio-service/mixer';
 import { radioMonitor } from '@shared/services/monitor-service';
-import { searchMusic, getMusicUrl } from '@features/music-search/lib/gd-music-service';
+import { searchTracks, getTrackUrl } from '@features/music-search/lib/music-provider';
+import { getSettings } from '@shared/services/storage-service/settings';
 import { AUDIO, TRANSITION } from '@shared/utils/constants';
 
 /**
@@ -52,10 +53,11 @@ export async function playWarmupContent(
             { mood: 'warm', priority: 10 }
         );
 
-        // 3. 播放问候语（叠加在音乐上）
+        // 3. 播放问候语（叠加在音乐上，按语音包络闪避），之后音乐作为垫乐稍降
         if (ttsResult.success && ttsResult.audioData) {
-            await audioMixer.fadeMusic(0.15, 500);
+            audioMixer.setDucking({ depth: AUDIO.MUSIC_DURING_VOICE });
             await audioMixer.playVoice(ttsResult.audioData);
+            audioMixer.setDucking(null);
             await audioMixer.fadeMusic(0.7, 1000);
         }
 
@@ -67,6 +69,8 @@ export async function playWarmupContent(
 
 /**
  * 播放节目间过渡音乐（30-60秒轻音乐）
+ * 与上一期的音乐交叉淡化；返回时过渡音乐仍在播放，垫在下一期准备期间，
+ * 由 handOffTransitionMusic 在下一期开播时淡出
  */
 export async function playTransitionMusic(delay: (ms: number) => Promise<void>): Promise<void> {
     console.log('[Director] Playing transition music...');
@@ -76,7 +80,7 @@ export async function playTransitionMusic(delay: (ms: number) => Promise<void>):
         const queries = TRANSITION.SEARCH_QUERIES;
         const query = queries[Math.floor(Math.random() * queries.length)];
 
-        const tracks = await searchMusic(query, 5);
+        const tracks = await searchTracks(query, 5);
         if (tracks.length === 0) {
             await delay(5000);
             return;
@@ -84,14 +88,22 @@ export async function playTransitionMusic(delay: (ms: number) => Promise<void>):
 
         // 随机选择一首
         const track = tracks[Math.floor(Math.random() * tracks.length)];
-        const sourceType = track.source === 'tencent' ? 'tencent' : 'netease';
-        const url = await getMusicUrl(String(track.id), 320, sourceType);
+        const url = await getTrackUrl(String(track.id), track.source);
 
         if (url) {
-            audioMixer.setMusicVolume(TRANSITION.MUSIC_VOLUME);
+            if (audioMixer.getMusicState().isPlaying) {
+                await audioMixer.fadeMusic(TRANSITION.MUSIC_VOLUME, AUDIO.FADE_DURATION_QUICK);
+            } else {
+                audioMixer.setMusicVolume(TRANSITION.MUSIC_VOLUME);
+            }
 
+            const { crossfadeDuration, crossfadeCurve } = getSettings();
             const transitionDuration = TRANSITION.MIN_DURATION_MS + Math.random() * (TRANSITION.MAX_DURATION_MS - TRANSITION.MIN_DURATION_MS);
-            const playResult = await audioMixer.playMusic(url, { fadeIn: TRANSITION.FADE_IN_MS });
+            const playResult = await audioMixer.playMusic(url, {
+                fadeIn: TRANSITION.FADE_IN_MS,
+                crossfade: crossfadeDuration,
+                curve: crossfadeCurve
+            });
             if (!playResult.success) {
                 radioMonitor.log('DIRECTOR', `Transition music playback failed: ${playResult.error}`, 'warn');
                 await delay(3000);
@@ -99,12 +111,17 @@ export async function playTransitionMusic(delay: (ms: number) => Promise<void>):
             }
 
             await delay(transitionDuration);
-            await audioMixer.fadeMusic(0, TRANSITION.FADE_OUT_MS);
-            audioMixer.stopMusic();
-            audioMixer.setMusicVolume(AUDIO.MUSIC_AFTER_TRANSITION);
         }
     } catch (error) {
         console.warn('[Director] Transition music error:', error);
         await delay(3000);
     }
 }
+
+/**
+ * 下一期开播：过渡音乐在后台淡出，与第一段内容重叠
+ */
+export function handOffTransitionMusic(): void {
+    audioMixer.releaseMusic(TRANSITION.FADE_OUT_MS);
+    audioMixer.setMusicVolume(AUDIO.MUSIC_AFTER_TRANSITION);
+}
@@ -0,0 +1,232 @@
+/**
+ * Broadcast Station - 服务端无头广播
+ * 在服务端运行 Director 循环，使用 StreamMixer 渲染为一路连续音频流，
+ * 所有听众收听同一档节目，只消耗一份 API 配额
+ *
+ * 配置通过环境变量注入（服务端没有 localStorage）：
+ * RADIO_API_TYPE / RADIO_API_ENDPOINT / RADIO_API_KEY / RADIO_MODEL_NAME / RADIO_GCP_PROJECT / RADIO_GCP_LOCATION
+ * RADIO_CONTEXT_WINDOW（本地模型 RADIO_API_TYPE=ollama / llamacpp 时可选）
+ * RADIO_TTS_PROVIDER / RADIO_TTS_ENDPOINT / RADIO_TTS_API_KEY / RADIO_TTS_MODEL / RADIO_MS_TTS_ENDPOINT / RADIO_MS_TTS_AUTH_KEY
+ * RADIO_TTS_FALLBACK（逗号分隔的备用渠道）/ RADIO_LOCAL_TTS_ENDPOINT / RADIO_LOCAL_TTS_ENGINE
+ * RADIO_MUSIC_PROVIDERS（逗号分隔的音乐来源顺序）/ RADIO_JAMENDO_CLIENT_ID，本地曲库目录为 MUSIC_LIBRARY_DIR
+ * RADIO_CROSSFADE_MS（交叉淡化时长，0 为直接切换）/ RADIO_CROSSFADE_CURVE（linear / equal_power / s_curve）
+ * RADIO_TARGET_LUFS（响度归一化目标，如 -16，0 为关闭）
+ * RADIO_EMBEDDING_MODEL（知识检索向量模型，走主 AI 接口），知识库目录为 KNOWLEDGE_DIR
+ * RADIO_NEWS_FEEDS（分号分隔的新闻源，每项 url | 名称 | 分类）
+ * RADIO_TRENDING_SOURCES（分号分隔的热点源，每项 url | 名称 | 领域）
+ * RADIO_QUOTE_SOURCES（分号分隔的语录源，每项 url | 名称 | 附加标签）
+ * RADIO_WEATHER_LOCATION（本地城市名或 "纬度,经度"）/ RADIO_WEATHER_ENDPOINT（Open-Meteo 兼容预报接口）
+ */
+
+import { directorAgent } from '@features/agents/lib/director-agent';
+import { setMixerBackend } from '@shared/services/audio-service/mixer';
+import { StreamMixer, createWavStreamHeader } from '@shared/services/audio-service/stream-mixer';
+import { radioMonitor, ScriptEvent } from '@shared/services/monitor-service';
+import {
+    configureServerSettings,
+    isConfigured,
+    IApiSettings,
+    ApiType,
+    CrossfadeCurve,
+    LocalTTSEngine,
+    MusicProviderId,
+    TTSProvider
+} from '@shared/services/storage-service/settings';
+import { BROADCAST } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+export interface BroadcastStatus {
+    isLive: boolean;
+    listenerCount: number;
+    startedAt: number | null;
+    showTitle: string | null;
+    nowPlaying: ScriptEvent | null;
+}
+
+// ================== Settings ==================
+
+/**
+ * 从环境变量读取服务端配置（未设置的字段使用默认值）
+ */
+export function loadServerSettingsFromEnv(): Partial<IApiSettings> {
+    const env = process.env;
+    const settings: Partial<IApiSettings> = {};
+
+    if (env.RADIO_API_TYPE) settings.apiType = env.RADIO_API_TYPE as ApiType;
+    if (env.RADIO_API_ENDPOINT) settings.endpoint = env.RADIO_API_ENDPOINT;
+    if (env.RADIO_API_KEY) settings.apiKey = env.RADIO_API_KEY;
+    if (env.RADIO_MODEL_NAME) settings.modelName = env.RADIO_MODEL_NAME;
+    if (env.RADIO_GCP_PROJECT) settings.gcpProject = env.RADIO_GCP_PROJECT;
+    if (env.RADIO_GCP_LOCATION) settings.gcpLocation = env.RADIO_GCP_LOCATION;
+    if (env.RADIO_CONTEXT_WINDOW) settings.contextWindow = Number(env.RADIO_CONTEXT_WINDOW) || 0;
+    if (env.RADIO_TTS_PROVIDER) settings.ttsProvider = env.RADIO_TTS_PROVIDER as TTSProvider;
+    if (env.RADIO_TTS_ENDPOINT) settings.ttsEndpoint = env.RADIO_TTS_ENDPOINT;
+    if (env.RADIO_TTS_API_KEY) settings.ttsApiKey = env.RADIO_TTS_API_KEY;
+    if (env.RADIO_TTS_MODEL) settings.ttsModel = env.RADIO_TTS_MODEL;
+    if (env.RADIO_MS_TTS_ENDPOINT) settings.msTtsEndpoint = env.RADIO_MS_TTS_ENDPOINT;
+    if (env.RADIO_MS_TTS_AUTH_KEY) settings.msTtsAuthKey = env.RADIO_MS_TTS_AUTH_KEY;
+    if (env.RADIO_TTS_FALLBACK) settings.ttsFallbackOrder = env.RADIO_TTS_FALLBACK.split(',').map(p => p.trim() as TTSProvider);
+    if (env.RADIO_LOCAL_TTS_ENDPOINT) settings.localTtsEndpoint = env.RADIO_LOCAL_TTS_ENDPOINT;
+    if (env.RADIO_LOCAL_TTS_ENGINE) settings.localTtsEngine = env.RADIO_LOCAL_TTS_ENGINE as LocalTTSEngine;
+    if (env.RADIO_MUSIC_PROVIDERS) settings.musicProviders = env.RADIO_MUSIC_PROVIDERS.split(',').map(p => p.trim() as MusicProviderId);
+    if (env.RADIO_JAMENDO_CLIENT_ID) settings.jamendoClientId = env.RADIO_JAMENDO_CLIENT_ID;
+    if (env.RADIO_CROSSFADE_MS) settings.crossfadeDuration = Number(env.RADIO_CROSSFADE_MS) || 0;
+    if (env.RADIO_CROSSFADE_CURVE) settings.crossfadeCurve = env.RADIO_CROSSFADE_CURVE as CrossfadeCurve;
+    if (env.RADIO_TARGET_LUFS) settings.loudnessTarget = Number(env.RADIO_TARGET_LUFS) || 0;
+    if (env.RADIO_EMBEDDING_MODEL) settings.embeddingModel = env.RADIO_EMBEDDING_MODEL;
+    if (env.RADIO_NEWS_FEEDS) settings.newsFeeds = env.RADIO_NEWS_FEEDS.split(';').map(feed => feed.trim()).join('\n');
+    if (env.RADIO_TRENDING_SOURCES) settings.trendingSources = env.RADIO_TRENDING_SOURCES.split(';').map(source => source.trim()).join('\n');
+    if (env.RADIO_QUOTE_SOURCES) settings.quoteSources = env.RADIO_QUOTE_SOURCES.split(';').map(source => source.trim()).join('\n');
+    if (env.RADIO_WEATHER_LOCATION) settings.weatherLocation = env.RADIO_WEATHER_LOCATION;
+    if (env.RADIO_WEATHER_ENDPOINT) settings.weatherEndpoint = env.RADIO_WEATHER_ENDPOINT;
+
+    return settings;
+}
+
+// ================== Broadcast Station Class ==================
+
+export class BroadcastStation {
+    private mixer = new StreamMixer();
+    private listeners: Set<ReadableStreamDefaultController<Uint8Array>> = new Set();
+    private unsubscribeMixer: (() => void) | null = null;
+    private unsubscribeMonitor: Array<() => void> = [];
+    private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    private startedAt: number | null = null;
+    private showTitle: string | null = null;
+    private nowPlaying: ScriptEvent | null = null;
+
+    /**
+     * 服务端配置是否可用
+     */
+    isReady(): boolean {
+        configureServerSettings(loadServerSettingsFromEnv());
+        return isConfigured();
+    }
+
+    /**
+     * 开播（已在播时忽略）
+     */
+    start(): void {
+        if (this.startedAt !== null) return;
+
+        configureServerSettings(loadServerSettingsFromEnv());
+        setMixerBackend(this.mixer);
+        this.mixer.start();
+        this.unsubscribeMixer = this.mixer.subscribe(frame => this.broadcastFrame(frame));
+
+        this.unsubscribeMonitor = [
+            radioMonitor.on('script', (data: ScriptEvent) => { this.nowPlaying = data; }),
+            radioMonitor.on('timeline', (timeline) => { this.showTitle = timeline.title ?? null; })
+        ];
+
+        this.startedAt = Date.now();
+        radioMonitor.log('DIRECTOR', 'Headless broadcast started', 'info');
+
+        directorAgent.startShow({
+            onError: (error) => radioMonitor.log('DIRECTOR', `Broadcast error: ${error.message}`, 'error')
+        }).catch(error => {
+            console.error('[Broadcast] Show loop crashed:', error);
+            this.stop();
+        });
+    }
+
+    /**
+     * 停播
+     */
+    stop(): void {
+        if (this.startedAt === null) return;
+
+        directorAgent.stopShow();
+        this.unsubscribeMixer?.();
+        this.unsubscribeMixer = null;
+        this.unsubscribeMonitor.forEach(unsubscribe => unsubscribe());
+        this.unsubscribeMonitor = [];
+        this.mixer.stop();
+
+        this.startedAt = null;
+        this.showTitle = null;
+        this.nowPlaying = null;
+        radioMonitor.log('DIRECTOR', 'Headless broadcast stopped', 'info');
+    }
+
+    /**
+     * 新听众接入：返回 WAV 音频流（首个听众到来时自动开播）
+     */
+    createListenerStream(): ReadableStream<Uint8Array> {
+        let controllerRef: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+        return new ReadableStream<Uint8Array>({
+            start: (controller) => {
+                controllerRef = controller;
+                controller.enqueue(createWavStreamHeader());
+                this.listeners.add(controller);
+                this.cancelIdleShutdown();
+                this.start();
+            },
+            cancel: () => {
+                if (controllerRef) {
+                    this.removeListener(controllerRef);
+                }
+            }
+        });
+    }
+
+    getStatus(): BroadcastStatus {
+        return {
+            isLive: this.startedAt !== null,
+            listenerCount: this.listeners.size,
+            startedAt: this.startedAt,
+            showTitle: this.showTitle,
+            nowPlaying: this.nowPlaying
+        };
+    }
+
+    // ================== 内部方法 ==================
+
+    private broadcastFrame(frame: Uint8Array): void {
+        for (const controller of this.listeners) {
+            // 慢速听众积压过多时丢帧，不影响其他听众
+            if ((controller.desiredSize ?? 0) < -BROADCAST.MAX_LISTENER_BACKLOG) continue;
+
+            try {
+                controller.enqueue(frame);
+            } catch {
+                this.removeListener(controller);
+            }
+        }
+    }
+
+    private removeListener(controller: ReadableStreamDefaultController<Uint8Array>): void {
+        this.listeners.delete(controller);
+        if (this.listeners.size === 0) {
+            this.scheduleIdleShutdown();
+        }
+    }
+
+    /**
+     * 无人收听一段时间后停播，避免空耗 API 配额
+     */
+    private scheduleIdleShutdown(): void {
+        this.cancelIdleShutdown();
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = null;
+            if (this.listeners.size === 0) {
+                this.stop();
+            }
+        }, BROADCAST.IDLE_SHUTDOWN_MS);
+    }
+
+    private cancelIdleShutdown(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+    }
+}
+
+// 单例导出（挂在 globalThis 上，避免开发模式热更新或多个路由各自创建电台）
+const globalForBroadcast = globalThis as typeof globalThis & { __radioBroadcastStation?: BroadcastStation };
+
+export const broadcastStation = globalForBroadcast.__radioBroadcastStation ??= new BroadcastStation();
@@ -4,6 +4,7 @@
  */
 
 import { ALL_VOICES, VoiceName } from '@shared/types/radio-core';
+import { getAvailableVoices } from '@features/tts/lib/voice-provider';
 
 // ================== Types ==================
 
@@ -50,6 +51,12 @@ export interface CastMember {
     personality: string;     // 人设描述
 }
 
+/** 演员阵容覆盖（由节目编排时段指定） */
+export interface CastOverrides {
+    roleCount?: number;                   // 指定角色数量（受模板 castSize 约束）
+    voices?: Record<string, VoiceName>;   // roleId -> 指定音色
+}
+
 /** 完整演员阵容 */
 export interface Cast {
     showType: ShowType;
@@ -338,10 +345,15 @@ export class CastDirector {
     /**
      * 为节目选角
      */
-    selectCast(showType: ShowType, customRoleCount?: number): Cast {
+    selectCast(showType: ShowType, customRoleCount?: number, voiceOverrides?: CastOverrides['voices']): Cast {
         const template = SHOW_TEMPLATES.find(t => t.type === showType) || SHOW_TEMPLATES[0];
         this.usedVoices.clear();
 
+        // 预先占用覆盖指定的音色，避免被其他角色匹配到
+        for (const voice of Object.values(voiceOverrides || {})) {
+            if (voice in ALL_VOICES) this.usedVoices.add(voice);
+        }
+
         // 确定实际角色数量
         const [minCast, maxCast] = template.castSize;
         const roleCount = customRoleCount
@@ -352,7 +364,10 @@ export class CastDirector {
         const members: CastMember[] = [];
         for (let i = 0; i < roleCount && i < template.roles.length; i++) {
             const role = template.roles[i];
-            const voice = this.matchVoice(role.voiceTraits);
+            const overrideVoice = voiceOverrides?.[role.id];
+            const voice = overrideVoice && overrideVoice in ALL_VOICES
+                ? overrideVoice
+                : this.matchVoice(role.voiceTraits);
 
             members.push({
                 roleId: role.id,
@@ -378,6 +393,9 @@ export class CastDirector {
         // 筛选可用音色（排除已使用的）
         const available = voiceEntries.filter(([name]) => !this.usedVoices.has(name));
 
+        // 当前渠道（微软 / 本地）实际可用的音色，用于判断映射后能否保持性别与语言
+        const providerVoices = getAvailableVoices();
+
         // 评分系统
         const scored = available.map(([name, info]) => {
             let score = 0;
@@ -399,6 +417,11 @@ export class CastDirector {
                 }
             }
 
+            // 当前渠道有同性别、同语言音色 (+4)
+            if (providerVoices.some(v => v.gender === info.gender && (v.language === info.lang || v.language === 'multi'))) {
+                score += 4;
+            }
+
             // 风格匹配 (+3 each)
             if (traits.style) {
                 const styleStr = info.style.toLowerCase();
@@ -6,6 +6,7 @@ export function getMusicPrompt(context: PromptTemplateContext): string {
 1. 主线是“为什么推荐这首歌/这位歌手”，不是单纯报歌单。
 2. 介绍音乐时要连接情绪、时代或场景。
 3. 至少给出 2 次“讲解 → 放歌 → 回收点评”的闭环。
+4. 只想放副歌等片段时，在 music 块写 segment（intro/verse/chorus/final_chorus）或 startAt（秒），配合 duration 控制片段长度，例如 { "segment": "chorus", "duration": 45 }。
 
 ## ✅ 正面示例
 - 主持人先讲某首歌诞生背景，再解释它为何适合当前时段。
@@ -8,6 +8,7 @@ export function getStoryPrompt(context: PromptTemplateContext): string {
 1. 采用“起因 → 发展 → 转折 → 回响”结构推进。
 2. 讲故事时要有画面细节，不只总结结论。
 3. 历史/科普内容需兼顾准确性与可听性。
+4. 涉及史实、人物与科学事实时先调用 search_knowledge，年份、数字与引语以返回的摘录为准，并在台词中自然带出出处（如“据《某书》记载”）。
 
 ## ✅ 正面示例
 - 先给背景，再抛出冲突，最后给当代关联。
@@ -28,8 +29,8 @@ export function getStoryPrompt(context: PromptTemplateContext): string {
 ## 🎭 广播剧增强要求
 1. 至少包含 3 个角色（可含旁白），角色说话风格必须可区分。
 2. 冲突与反转要明确，避免“流水账式对白”。
-3. 可选使用 \`soundEffects\` 字段描述音效提示（如门响、雨声、脚步）。
-4. 若使用音效字段，请写成结构化数组，系统会在不支持时自动降级忽略。
+3. 可选使用 \`soundEffects\` 字段加入音效（如门响、雨声、脚步）：before / after 在台词前后播放，underlay 循环铺在台词下方。
+4. 先调用 list_sound_effects 查看音效库，cue 直接使用返回的名称；库中匹配不到的音效会被跳过。
 
 ### soundEffects 示例
 "soundEffects": [
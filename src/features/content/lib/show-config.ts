@@ -50,7 +50,7 @@ export const SHOW_CONFIGS: Record<ShowType, ShowConfig> = {
         musicRatio: [10, 25],
         musicPurpose: 'background',
         requiredTools: ['check_duplicate', 'search_knowledge', 'submit_show'],
-        optionalTools: ['search_music', 'search_quotes'],
+        optionalTools: ['search_music', 'search_quotes', 'list_sound_effects'],
         promptTemplate: 'story',
         preferredSegmentOrder: ['opening', 'main_topic', 'music_break', 'closing']
     },
@@ -70,7 +70,7 @@ export const SHOW_CONFIGS: Record<ShowType, ShowConfig> = {
         musicRatio: [10, 25],
         musicPurpose: 'background',
         requiredTools: ['check_duplicate', 'search_knowledge', 'submit_show'],
-        optionalTools: ['search_quotes', 'search_music'],
+        optionalTools: ['search_quotes', 'search_music', 'list_sound_effects'],
         promptTemplate: 'story',
         preferredSegmentOrder: ['opening', 'main_topic', 'music_break', 'closing']
     },
@@ -100,7 +100,7 @@ export const SHOW_CONFIGS: Record<ShowType, ShowConfig> = {
         musicRatio: [12, 25],
         musicPurpose: 'background',
         requiredTools: ['check_duplicate', 'search_knowledge', 'search_music', 'submit_show'],
-        optionalTools: ['search_quotes'],
+        optionalTools: ['search_quotes', 'list_sound_effects'],
         promptTemplate: 'story',
         preferredSegmentOrder: ['opening', 'main_topic', 'music_break', 'closing']
     },
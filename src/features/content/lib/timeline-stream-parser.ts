@@ -0,0 +1,98 @@
+/**
+ * Timeline Stream Parser - 流式时间线增量解析
+ * 在模型仍在输出时，从 "blocks": [ ... ] 数组中逐个切出已闭合的块对象
+ * 适用于原始 JSON（直接输出 / submit_show 对象参数 / 原生函数调用参数流）；
+ * timeline_json 为转义字符串时无法增量解析，等待完整提交
+ */
+
+const BLOCKS_ARRAY_PATTERN = /"blocks"\s*:\s*\[/;
+
+export class TimelineStreamParser {
+    private buffer = '';
+    private phase: 'seek' | 'array' | 'done' = 'seek';
+    private position = 0;
+    private depth = 0;
+    private inString = false;
+    private escapeNext = false;
+    private elementStart = -1;
+
+    /**
+     * 追加文本分片，返回本次新闭合的块对象
+     */
+    push(chunk: string): unknown[] {
+        this.buffer += chunk;
+
+        if (this.phase === 'seek') {
+            this.seekBlocksArray();
+        }
+
+        return this.phase === 'array' ? this.scanElements() : [];
+    }
+
+    /**
+     * 停止后续解析（如遇到非法块时，剩余部分等待完整提交）
+     */
+    halt(): void {
+        this.phase = 'done';
+    }
+
+    private seekBlocksArray(): void {
+        const match = BLOCKS_ARRAY_PATTERN.exec(this.buffer);
+        if (!match) return;
+
+        // 文本协议中只接受 submit_show 的参数，避免把其他工具调用或草稿当成节目
+        const prefix = this.buffer.slice(0, match.index);
+        if (/"tool"\s*:/.test(prefix) && !prefix.includes('submit_show')) {
+            this.phase = 'done';
+            return;
+        }
+
+        this.phase = 'array';
+        this.position = match.index + match[0].length;
+    }
+
+    private scanElements(): unknown[] {
+        const elements: unknown[] = [];
+
+        for (; this.position < this.buffer.length; this.position++) {
+            const char = this.buffer[this.position];
+
+            if (this.inString) {
+                if (this.escapeNext) {
+                    this.escapeNext = false;
+                } else if (char === '\\') {
+                    this.escapeNext = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                this.inString = true;
+            } else if (char === '{') {
+                if (this.depth === 0) {
+                    this.elementStart = this.position;
+                }
+                this.depth++;
+            } else if (char === '}') {
+                this.depth--;
+                if (this.depth === 0 && this.elementStart !== -1) {
+                    try {
+                        elements.push(JSON.parse(this.buffer.slice(this.elementStart, this.position + 1)));
+                    } catch {
+                        // 块内 JSON 不合法，剩余部分等待完整提交
+                        this.phase = 'done';
+                        break;
+                    }
+                    this.elementStart = -1;
+                }
+            } else if (char === ']' && this.depth === 0) {
+                this.phase = 'done';
+                break;
+            }
+        }
+
+        return elements;
+    }
+}
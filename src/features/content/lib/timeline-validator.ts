@@ -0,0 +1,338 @@
+/**
+ * Timeline Validator - 节目时间线严格校验
+ * 逐块检查 ShowTimeline 结构，返回带路径的错误（如 blocks[4].scripts[2].speaker），
+ * 供 submit_show 回传给编剧自行修正
+ */
+
+import { ALL_VOICES, MoodType } from '@shared/types/radio-core';
+import { TIMELINE_VALIDATION } from '@shared/utils/constants';
+import { Cast } from './cast-system';
+import { getAvailableVoices } from '@features/tts/lib/voice-provider';
+
+// ================== Types ==================
+
+export interface TimelineIssue {
+    path: string;       // 如 blocks[4].scripts[2].speaker
+    message: string;
+}
+
+export interface TimelineValidationResult {
+    valid: boolean;
+    errors: TimelineIssue[];
+    warnings: TimelineIssue[];
+    estimatedSeconds: number;   // 按台词字数与音乐时长估算的总时长
+}
+
+export interface TimelineValidationContext {
+    cast?: Cast | null;         // 提供时校验 speaker 是否属于演员阵容
+    targetDuration?: number;    // 编排要求的时长（秒）
+}
+
+type Fields = Record<string, unknown>;
+
+const MOODS: MoodType[] = ['cheerful', 'calm', 'excited', 'serious', 'warm', 'playful', 'melancholy', 'mysterious'];
+const BLOCK_TYPES = ['talk', 'music', 'music_control', 'silence'];
+const CONTROL_ACTIONS = ['pause', 'resume', 'fade_out', 'fade_in', 'stop'];
+const SFX_POSITIONS = ['before', 'after', 'underlay'];
+const MUSIC_SEGMENTS = ['intro', 'verse', 'chorus', 'final_chorus'];
+const BACKGROUND_ACTIONS = ['continue', 'fade', 'pause'];
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+// ================== Helpers ==================
+
+function isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * 估算台词朗读时长（秒）
+ */
+export function estimateSpeechSeconds(text: string): number {
+    const cjk = text.match(CJK_PATTERN)?.length || 0;
+    const words = text.replace(CJK_PATTERN, ' ').split(/\s+/).filter(Boolean).length;
+    return cjk / TIMELINE_VALIDATION.CJK_CHARS_PER_SECOND + words / TIMELINE_VALIDATION.WORDS_PER_SECOND;
+}
+
+// ================== Validator ==================
+
+class TimelineValidation {
+    readonly errors: TimelineIssue[] = [];
+    readonly warnings: TimelineIssue[] = [];
+    estimatedSeconds = 0;
+    untimedMusic = 0;            // 未指定时长、按默认值估算的音乐块数
+
+    private readonly speakers: Set<string> | null;
+    private readonly voices: Set<string>;
+
+    constructor(context: TimelineValidationContext) {
+        this.speakers = context.cast
+            ? new Set(context.cast.members.flatMap(member => [member.roleId, member.roleName]))
+            : null;
+        // 演员阵容使用 Gemini 音色名，当前渠道（微软 / 本地）的音色 ID 同样合法
+        this.voices = new Set([...Object.keys(ALL_VOICES), ...getAvailableVoices().map(voice => voice.id)]);
+    }
+
+    error(path: string, message: string): void {
+        this.errors.push({ path, message });
+    }
+
+    warn(path: string, message: string): void {
+        this.warnings.push({ path, message });
+    }
+
+    checkOptionalNumber(fields: Fields, key: string, path: string, min: number, max: number = Infinity): void {
+        const value = fields[key];
+        if (value === undefined) return;
+        if (!isNumber(value) || value < min || value > max) {
+            const range = max === Infinity ? `>= ${min}` : `${min}-${max}`;
+            this.error(`${path}.${key}`, `must be a number ${range}`);
+        }
+    }
+
+    checkOptionalEnum(fields: Fields, key: string, path: string, allowed: readonly string[]): void {
+        const value = fields[key];
+        if (value === undefined) return;
+        if (typeof value !== 'string' || !allowed.includes(value)) {
+            this.error(`${path}.${key}`, `must be one of ${allowed.join('/')}`);
+        }
+    }
+
+    checkScriptLine(line: unknown, path: string): void {
+        if (!isObject(line)) {
+            this.error(path, 'must be an object with speaker and text');
+            return;
+        }
+
+        if (!isNonEmptyString(line.speaker)) {
+            this.error(`${path}.speaker`, 'missing');
+        } else if (this.speakers && !this.speakers.has(line.speaker)) {
+            this.error(`${path}.speaker`, `unknown "${line.speaker}", expected one of ${Array.from(this.speakers).join('/')}`);
+        }
+
+        if (!isNonEmptyString(line.text)) {
+            this.error(`${path}.text`, 'empty');
+        } else {
+            this.estimatedSeconds += estimateSpeechSeconds(line.text);
+        }
+
+        if (line.voiceName !== undefined && !(typeof line.voiceName === 'string' && this.voices.has(line.voiceName))) {
+            this.error(`${path}.voiceName`, `unknown voice "${String(line.voiceName)}"`);
+        }
+
+        this.checkOptionalEnum(line, 'mood', path, MOODS);
+        this.checkOptionalNumber(line, 'pause', path, 0);
+
+        if (isNumber(line.pause)) {
+            this.estimatedSeconds += line.pause / 1000;
+        }
+    }
+
+    checkTalk(block: Fields, path: string): void {
+        if (!Array.isArray(block.scripts) || block.scripts.length === 0) {
+            this.error(`${path}.scripts`, 'must be a non-empty array');
+        } else {
+            block.scripts.forEach((line, index) => this.checkScriptLine(line, `${path}.scripts[${index}]`));
+        }
+
+        if (block.soundEffects !== undefined) {
+            if (!Array.isArray(block.soundEffects)) {
+                this.error(`${path}.soundEffects`, 'must be an array');
+            } else {
+                block.soundEffects.forEach((effect, index) => {
+                    const effectPath = `${path}.soundEffects[${index}]`;
+                    if (!isObject(effect) || !isNonEmptyString(effect.cue)) {
+                        this.error(`${effectPath}.cue`, 'missing');
+                        return;
+                    }
+                    this.checkOptionalEnum(effect, 'position', effectPath, SFX_POSITIONS);
+                    this.checkOptionalNumber(effect, 'volume', effectPath, 0, 1);
+                });
+            }
+        }
+
+        if (block.backgroundMusic !== undefined) {
+            const bgPath = `${path}.backgroundMusic`;
+            if (!isObject(block.backgroundMusic)) {
+                this.error(bgPath, 'must be an object');
+            } else {
+                if (!BACKGROUND_ACTIONS.includes(block.backgroundMusic.action as string)) {
+                    this.error(`${bgPath}.action`, `must be one of ${BACKGROUND_ACTIONS.join('/')}`);
+                }
+                this.checkOptionalNumber(block.backgroundMusic, 'volume', bgPath, 0, 1);
+            }
+        }
+    }
+
+    checkMusic(block: Fields, path: string): void {
+        if (block.action !== 'play') {
+            this.error(`${path}.action`, 'must be "play" for music blocks (use music_control for other actions)');
+        }
+        if (!isNonEmptyString(block.search)) {
+            this.error(`${path}.search`, 'empty, must be "artist - title" or a concrete song name');
+        }
+
+        this.checkOptionalNumber(block, 'duration', path, 1);
+        this.checkOptionalNumber(block, 'fadeIn', path, 0);
+        this.checkOptionalNumber(block, 'fadeOut', path, 0);
+        this.checkOptionalNumber(block, 'startAt', path, 0);
+        this.checkOptionalEnum(block, 'segment', path, MUSIC_SEGMENTS);
+
+        if (block.intro !== undefined) {
+            this.checkScriptLine(block.intro, `${path}.intro`);
+        }
+
+        if (isNumber(block.duration) && block.duration > 0) {
+            this.estimatedSeconds += block.duration;
+        } else {
+            this.estimatedSeconds += TIMELINE_VALIDATION.DEFAULT_MUSIC_SECONDS;
+            this.untimedMusic++;
+        }
+    }
+
+    checkMusicControl(block: Fields, path: string): void {
+        if (!CONTROL_ACTIONS.includes(block.action as string)) {
+            this.error(`${path}.action`, `must be one of ${CONTROL_ACTIONS.join('/')}`);
+        }
+        this.checkOptionalNumber(block, 'fadeDuration', path, 0);
+        this.checkOptionalNumber(block, 'targetVolume', path, 0, 1);
+
+        if (isNumber(block.fadeDuration)) {
+            this.estimatedSeconds += block.fadeDuration / 1000;
+        }
+    }
+
+    checkSilence(block: Fields, path: string): void {
+        if (!isNumber(block.duration) || block.duration <= 0) {
+            this.error(`${path}.duration`, 'must be a positive number of milliseconds');
+            return;
+        }
+        this.estimatedSeconds += block.duration / 1000;
+    }
+
+    checkBlock(block: unknown, path: string, seenIds: Set<string>): void {
+        if (!isObject(block)) {
+            this.error(path, 'must be an object');
+            return;
+        }
+
+        if (!isNonEmptyString(block.id)) {
+            this.error(`${path}.id`, 'missing');
+        } else if (seenIds.has(block.id)) {
+            this.error(`${path}.id`, `duplicate "${block.id}"`);
+        } else {
+            seenIds.add(block.id);
+        }
+
+        switch (block.type) {
+            case 'talk':
+                this.checkTalk(block, path);
+                break;
+            case 'music':
+                this.checkMusic(block, path);
+                break;
+            case 'music_control':
+                this.checkMusicControl(block, path);
+                break;
+            case 'silence':
+                this.checkSilence(block, path);
+                break;
+            default:
+                this.error(`${path}.type`, `unknown "${String(block.type)}", expected one of ${BLOCK_TYPES.join('/')}`);
+        }
+    }
+
+    checkDuration(timeline: Fields, context: TimelineValidationContext): void {
+        const tolerance = TIMELINE_VALIDATION.DURATION_TOLERANCE;
+        const estimated = Math.round(this.estimatedSeconds);
+
+        if (!isNumber(timeline.estimatedDuration) || timeline.estimatedDuration <= 0) {
+            this.error('estimatedDuration', 'must be a positive number of seconds');
+            return;
+        }
+
+        // 语速与音乐时长都是估算值，偏差只作提示，不拒绝时间线
+        const declared = timeline.estimatedDuration;
+        if (estimated < declared * (1 - tolerance) || estimated > declared * (1 + tolerance)) {
+            const assumption = this.untimedMusic > 0
+                ? ` (${this.untimedMusic} music block(s) without duration counted as ${TIMELINE_VALIDATION.DEFAULT_MUSIC_SECONDS}s)`
+                : '';
+            this.warn('estimatedDuration', `declared ${declared}s but blocks add up to about ${estimated}s${assumption}`);
+        }
+
+        const target = context.targetDuration;
+        if (target && (declared < target * (1 - tolerance) || declared > target * (1 + tolerance))) {
+            this.warn('estimatedDuration', `declared ${declared}s, requested show length is ${target}s`);
+        }
+    }
+}
+
+/**
+ * 校验节目时间线
+ */
+export function validateTimeline(
+    timeline: unknown,
+    context: TimelineValidationContext = {}
+): TimelineValidationResult {
+    const validation = new TimelineValidation(context);
+
+    if (!isObject(timeline)) {
+        validation.error('$', 'timeline must be an object');
+    } else {
+        if (!isNonEmptyString(timeline.id)) {
+            validation.error('id', 'missing');
+        }
+        if (timeline.title !== undefined && typeof timeline.title !== 'string') {
+            validation.error('title', 'must be a string');
+        }
+
+        if (!Array.isArray(timeline.blocks) || timeline.blocks.length === 0) {
+            validation.error('blocks', 'must be a non-empty array');
+        } else {
+            const seenIds = new Set<string>();
+            timeline.blocks.forEach((block, index) => validation.checkBlock(block, `blocks[${index}]`, seenIds));
+            validation.checkDuration(timeline, context);
+        }
+    }
+
+    return {
+        valid: validation.errors.length === 0,
+        errors: validation.errors,
+        warnings: validation.warnings,
+        estimatedSeconds: Math.round(validation.estimatedSeconds)
+    };
+}
+
+/**
+ * 校验单个块（流式生成时逐块检查，不含时长汇总）
+ */
+export function validateTimelineBlock(
+    block: unknown,
+    index: number,
+    context: TimelineValidationContext = {}
+): TimelineIssue[] {
+    const validation = new TimelineValidation(context);
+    validation.checkBlock(block, `blocks[${index}]`, new Set());
+    return validation.errors;
+}
+
+/**
+ * 格式化问题列表（每行一条，超出上限时截断）
+ */
+export function formatTimelineIssues(issues: TimelineIssue[]): string {
+    const limit = TIMELINE_VALIDATION.MAX_REPORTED_ERRORS;
+    const lines = issues.slice(0, limit).map(issue => `- ${issue.path} ${issue.message}`);
+
+    if (issues.length > limit) {
+        lines.push(`- ...另有 ${issues.length - limit} 个问题`);
+    }
+
+    return lines.join('\n');
+}
@@ -4,23 +4,38 @@
  */
 
 import { getSettings } from '@shared/services/storage-service/settings';
-import { RADIO, AGENT } from '@shared/utils/constants';
+import {
+    estimateTokens,
+    getChatFormat,
+    getContextWindow,
+    getProxyUrl,
+    readChatStream,
+    resolveEndpoint
+} from '@shared/services/ai-service';
+import { RADIO, AGENT, LOCAL_LLM } from '@shared/utils/constants';
 import {
     ShowTimeline,
+    TimelineBlock,
 } from '@shared/types/radio-core';
 import { globalState } from '@shared/stores/global-state';
 import { radioMonitor } from '@shared/services/monitor-service';
 import { getVoiceListForPrompt } from '@features/tts/lib/voice-provider';
 import {
     executeToolCall,
+    getCompactToolsDescription,
+    getFunctionDeclarations,
     getHistoryContext,
-    getToolsDescription
+    getToolsDescription,
+    ToolResult
 } from './writer-tools';
 import { getProhibitedArtists } from '@features/music-search/lib/diversity-manager';
 import { parseResponse as parseTimelineResponse } from './response-parser';
+import { formatTimelineIssues, TimelineValidationContext, validateTimeline, validateTimelineBlock } from './timeline-validator';
+import { TimelineStreamParser } from './timeline-stream-parser';
 import { getShowConfig, ShowConfig } from './show-config';
 import { buildPromptByType } from './prompt-templates';
 import { getGenrePromptSection, getGenreSuggestions, recordUsedGenre } from '@features/music-search/lib/genre-wheel';
+import { getMusicBudgetPromptSection } from '@features/music-search/lib/music-request-scheduler';
 import { SHOW_SEGMENT_STRUCTURES } from '@shared/types/segment';
 import { getUserPreferencePromptContext } from '@features/user-preferences/lib';
 
@@ -28,6 +43,41 @@ import { getUserPreferencePromptContext } from '@features/user-preferences/lib';
 
 const MAX_REACT_LOOPS = AGENT.MAX_REACT_LOOPS;
 
+// ================== ReAct Types ==================
+
+/** 原生函数调用 */
+interface NativeToolCall {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+/** ReAct 对话消息 */
+interface ReActMessage {
+    role: 'user' | 'assistant' | 'tool';
+    content: string;
+    toolCalls?: NativeToolCall[];   // assistant：原生函数调用
+    rawParts?: unknown[];           // assistant：Gemini/Vertex 原始 parts（需原样回传 thoughtSignature）
+    toolCallId?: string;            // tool：对应的调用 ID
+    toolName?: string;              // tool：工具名
+    toolResult?: ToolResult;        // tool：工具结果
+}
+
+/** Ollama 原生函数调用（arguments 为对象） */
+interface OllamaToolCall {
+    function?: { name: string; arguments?: Record<string, unknown> };
+}
+
+/** 流式生成时逐块回调（index 从 0 重新开始表示模型重写了节目） */
+export type TimelineBlockListener = (block: TimelineBlock, index: number) => void;
+
+/** ReAct 模型回复 */
+interface ReActReply {
+    text: string;
+    toolCalls: NativeToolCall[];
+    rawParts?: unknown[];
+}
+
 // ================== Radio Setting (Dynamic) ==================
 
 function getRadioSetting(): string {
@@ -93,15 +143,19 @@ function getRadioSetting(): string {
 
 // ================== Writer Agent Class ==================
 
-import { Cast, castDirector, ShowType } from './cast-system';
+import { Cast, CastOverrides, castDirector, ShowType } from './cast-system';
 
 export class WriterAgent {
     private currentCast: Cast | null = null;
-    private conversationHistory: Array<{ role: string; content: string }> = [];
+    private conversationHistory: ReActMessage[] = [];
+    private nativeToolsUnsupported: Set<string> = new Set();
     private currentShowType: ShowType = 'talk';
     private currentShowConfig: ShowConfig = getShowConfig('talk');
     private activeToolNames: string[] = [];
     private currentGenreSuggestions: string[] = [];
+    private currentDuration: number = 120;
+    private blockListener: TimelineBlockListener | null = null;
+    private contextWindow: number = 0;
 
     /**
      * 获取当前演员阵容
@@ -110,15 +164,26 @@ export class WriterAgent {
         return this.currentCast;
     }
 
+    /**
+     * 恢复演员阵容（会话恢复时沿用上次节目的角色与音色）
+     */
+    restoreCast(cast: Cast): void {
+        this.currentCast = cast;
+        this.currentShowType = cast.showType;
+        this.currentShowConfig = getShowConfig(cast.showType);
+    }
+
     /**
      * 生成节目时间线 (ReAct 版本)
-     * 使用多轮对话和工具调用
+     * 使用多轮对话和工具调用；提供 onBlock 时流式输出，逐块回调已写好的块
      */
     async generateTimeline(
         duration: number = 120,
         theme?: string,
         userRequest?: string,
-        showType?: ShowType
+        showType?: ShowType,
+        castOverrides?: CastOverrides,
+        onBlock?: TimelineBlockListener
     ): Promise<ShowTimeline> {
         // 1. 选择节目类型、配置和演员阵容
         const selectedShowType = showType || castDirector.randomShowType();
@@ -126,12 +191,15 @@ export class WriterAgent {
 
         this.currentShowType = selectedShowType;
         this.currentShowConfig = config;
+        this.currentDuration = duration;
+        this.blockListener = onBlock ?? null;
         this.activeToolNames = this.getToolsForType(selectedShowType, config);
         this.currentGenreSuggestions = selectedShowType === 'music' ? getGenreSuggestions(3) : [];
-        this.currentCast = castDirector.selectCast(selectedShowType);
+        this.currentCast = castDirector.selectCast(selectedShowType, castOverrides?.roleCount, castOverrides?.voices);
+        this.contextWindow = await getContextWindow();
 
         radioMonitor.updateStatus('WRITER', 'BUSY', `ReAct Loop: ${selectedShowType}`);
-        radioMonitor.log('WRITER', `Starting ReAct loop for ${selectedShowType}`);
+        radioMonitor.log('WRITER', `Starting ReAct loop for ${selectedShowType}${this.isCompactMode() ? ' (compact prompt)' : ''}`);
 
         // 2. 构建 ReAct 系统提示
         const typePrompt = this.buildPromptForType(
@@ -141,7 +209,9 @@ export class WriterAgent {
             theme,
             userRequest
         );
-        const systemPrompt = this.buildReActSystemPrompt(typePrompt, selectedShowType, config);
+        const systemPrompt = this.isCompactMode()
+            ? this.buildCompactSystemPrompt(typePrompt, selectedShowType)
+            : this.buildReActSystemPrompt(typePrompt, selectedShowType, config);
 
         // 3. 初始化对话历史
         this.conversationHistory = [];
@@ -154,27 +224,51 @@ export class WriterAgent {
 
             try {
                 // 调用 AI
-                const response = await this.callReActAI(systemPrompt);
+                const reply = await this.callReActAI(systemPrompt);
+                const response = reply.text;
 
                 // 发布 AI 原始输出
-                radioMonitor.emitThought('output', response);
+                if (response) {
+                    radioMonitor.emitThought('output', response);
+                }
 
-                // 解析工具调用
-                const toolCall = this.parseToolCall(response);
+                // 原生函数调用
+                if (reply.toolCalls.length > 0) {
+                    this.conversationHistory.push({
+                        role: 'assistant',
+                        content: response,
+                        toolCalls: reply.toolCalls,
+                        rawParts: reply.rawParts
+                    });
 
-                if (toolCall) {
-                    radioMonitor.log('WRITER', `Tool call: ${toolCall.name}`, 'info');
-                    radioMonitor.emitThought('tool_call', JSON.stringify(toolCall.args, null, 2), toolCall.name);
+                    // 每个调用都必须有对应的结果回传
+                    for (const call of reply.toolCalls) {
+                        const result = await this.runTool(call.name, call.args);
+                        this.conversationHistory.push({
+                            role: 'tool',
+                            content: JSON.stringify(result, null, 2),
+                            toolCallId: call.id,
+                            toolName: call.name,
+                            toolResult: result
+                        });
 
-                    // 执行工具
-                    const result = await executeToolCall(
-                        toolCall.name,
-                        toolCall.args,
-                        (json) => this.parseResponse(json)
-                    );
+                        if (call.name === 'submit_show' && result.success && !finalTimeline) {
+                            radioMonitor.log('WRITER', 'Show submitted successfully!', 'info');
+                            finalTimeline = this.extractSubmittedTimeline(call.args);
+                        }
+                    }
 
-                    // 发布工具结果
-                    radioMonitor.emitThought('tool_result', JSON.stringify(result, null, 2), toolCall.name);
+                    if (finalTimeline) {
+                        break;
+                    }
+                    continue;
+                }
+
+                // 文本协议工具调用（不支持原生函数调用时的回退）
+                const toolCall = this.parseToolCall(response);
+
+                if (toolCall) {
+                    const result = await this.runTool(toolCall.name, toolCall.args);
 
                     // 添加到对话历史
                     this.conversationHistory.push({
@@ -189,60 +283,10 @@ export class WriterAgent {
                     // 如果是 submit_show 且成功，结束循环
                     if (toolCall.name === 'submit_show' && result.success) {
                         radioMonitor.log('WRITER', 'Show submitted successfully!', 'info');
-                        // 从工具调用参数中解析 timeline（不是从 result）
-                        try {
-                            const timelineJson = toolCall.args.timeline_json;
-
-                            // 如果 timeline_json 已经是对象，直接使用
-                            if (typeof timelineJson === 'object' && timelineJson !== null) {
-                                finalTimeline = timelineJson as ShowTimeline;
-                                break;
-                            }
-
-                            // 字符串处理
-                            if (typeof timelineJson === 'string') {
-                                let jsonStr = timelineJson;
-
-                                // 尝试多种解析策略
-                                for (let attempt = 0; attempt < 3; attempt++) {
-                                    try {
-                                        const parsed = JSON.parse(jsonStr);
-                                        if (typeof parsed === 'object' && parsed.blocks) {
-                                            finalTimeline = parsed;
-                                            radioMonitor.log('WRITER', `JSON parsed on attempt ${attempt + 1}`, 'info');
-                                            break;
-                                        } else if (typeof parsed === 'string') {
-                                            // 可能是双重 stringify，继续解析
-                                            jsonStr = parsed;
-                                        } else {
-                                            break;
-                                        }
-                                    } catch {
-                                        // 解析失败，尝试清理字符串
-                                        if (attempt === 0) {
-                                            // 第一次失败：尝试提取 JSON 对象
-                                            const firstBrace = jsonStr.indexOf('{');
-                                            const lastBrace = jsonStr.lastIndexOf('}');
-                                            if (firstBrace !== -1 && lastBrace > firstBrace) {
-                                                jsonStr = jsonStr.substring(firstBrace, lastBrace + 1);
-                                            }
-                                        }
-                                        break;
-                                    }
-                                }
-
-                                // 如果上述方法都失败，使用 parseResponse 处理
-                                if (!finalTimeline) {
-                                    finalTimeline = this.parseResponse(timelineJson);
-                                }
-                            }
-
-                            if (finalTimeline) {
-                                break;
-                            }
-                        } catch (e) {
-                            radioMonitor.log('WRITER', `Parse after submit failed: ${e}`, 'warn');
-                            // 继续循环修正
+                        finalTimeline = this.extractSubmittedTimeline(toolCall.args);
+
+                        if (finalTimeline) {
+                            break;
                         }
                     }
                 } else {
@@ -261,21 +305,39 @@ export class WriterAgent {
                         continue;
                     }
 
+                    let parsed: ShowTimeline | null = null;
                     try {
-                        finalTimeline = this.parseResponse(response);
-                        radioMonitor.log('WRITER', 'Direct JSON parse successful', 'info');
-                        break;
+                        parsed = this.parseResponse(response);
                     } catch {
-                        // 添加提示继续
-                        this.conversationHistory.push({
-                            role: 'assistant',
-                            content: response
-                        });
+                        // 不是有效 JSON，下面提示继续
+                    }
+
+                    this.conversationHistory.push({
+                        role: 'assistant',
+                        content: response
+                    });
+
+                    if (parsed) {
+                        // 直接输出的 JSON 同样需要通过严格校验
+                        const validation = validateTimeline(parsed, this.getValidationContext());
+                        if (validation.valid) {
+                            finalTimeline = parsed;
+                            radioMonitor.log('WRITER', 'Direct JSON parse successful', 'info');
+                            break;
+                        }
+
                         this.conversationHistory.push({
                             role: 'user',
-                            content: '请使用 submit_show 工具提交最终节目，或者直接输出有效的 JSON。'
+                            content: `节目校验失败，请修正以下问题后使用 submit_show 重新提交：\n${formatTimelineIssues(validation.errors)}`
                         });
+                        continue;
                     }
+
+                    // 添加提示继续
+                    this.conversationHistory.push({
+                        role: 'user',
+                        content: '请使用 submit_show 工具提交最终节目，或者直接输出有效的 JSON。'
+                    });
                 }
             } catch (error) {
                 radioMonitor.log('WRITER', `Loop error: ${error}`, 'error');
@@ -287,6 +349,8 @@ export class WriterAgent {
         }
 
         // 5. 如果循环结束仍无结果，使用默认
+        this.blockListener = null;
+
         if (!finalTimeline) {
             radioMonitor.updateStatus('WRITER', 'ERROR', 'ReAct loop failed, using fallback');
             return this.getDefaultTimeline();
@@ -296,10 +360,102 @@ export class WriterAgent {
             recordUsedGenre(this.currentGenreSuggestions[0]);
         }
 
+        // 记录节目类型与演员阵容，便于归档导出
+        finalTimeline.metadata = {
+            ...finalTimeline.metadata,
+            theme: finalTimeline.metadata?.theme || theme,
+            showType: selectedShowType,
+            cast: this.currentCast?.members.map(member => ({
+                roleName: member.roleName,
+                voiceName: member.voiceName,
+                personality: member.personality
+            }))
+        };
+
         radioMonitor.updateStatus('WRITER', 'IDLE', 'Generation complete');
         return finalTimeline;
     }
 
+    /**
+     * 时间线校验上下文（当前演员阵容与目标时长）
+     */
+    private getValidationContext(): TimelineValidationContext {
+        return { cast: this.currentCast, targetDuration: this.currentDuration };
+    }
+
+    /**
+     * 执行工具并发布思考过程
+     */
+    private async runTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+        radioMonitor.log('WRITER', `Tool call: ${name}`, 'info');
+        radioMonitor.emitThought('tool_call', JSON.stringify(args, null, 2), name);
+
+        const result = await executeToolCall(
+            name,
+            args,
+            (json) => this.parseResponse(json),
+            this.getValidationContext(),
+            this.currentShowType
+        );
+
+        radioMonitor.emitThought('tool_result', JSON.stringify(result, null, 2), name);
+        return result;
+    }
+
+    /**
+     * 从 submit_show 参数中取出 timeline（原生调用为 timeline 对象，文本协议为 timeline_json）
+     */
+    private extractSubmittedTimeline(args: Record<string, unknown>): ShowTimeline | null {
+        const submitted = args.timeline ?? args.timeline_json;
+
+        try {
+            // 已经是对象，经 parseResponse 规范化（补全缺失 ID）
+            if (typeof submitted === 'object' && submitted !== null) {
+                return this.parseResponse(JSON.stringify(submitted));
+            }
+
+            if (typeof submitted !== 'string') {
+                return null;
+            }
+
+            let jsonStr = submitted;
+
+            // 尝试多种解析策略
+            for (let attempt = 0; attempt < 3; attempt++) {
+                try {
+                    const parsed = JSON.parse(jsonStr);
+                    if (typeof parsed === 'object' && parsed.blocks) {
+                        radioMonitor.log('WRITER', `JSON parsed on attempt ${attempt + 1}`, 'info');
+                        return parsed;
+                    } else if (typeof parsed === 'string') {
+                        // 可能是双重 stringify，继续解析
+                        jsonStr = parsed;
+                    } else {
+                        break;
+                    }
+                } catch {
+                    // 解析失败，尝试清理字符串
+                    if (attempt === 0) {
+                        // 第一次失败：尝试提取 JSON 对象
+                        const firstBrace = jsonStr.indexOf('{');
+                        const lastBrace = jsonStr.lastIndexOf('}');
+                        if (firstBrace !== -1 && lastBrace > firstBrace) {
+                            jsonStr = jsonStr.substring(firstBrace, lastBrace + 1);
+                        }
+                    }
+                    break;
+                }
+            }
+
+            // 如果上述方法都失败，使用 parseResponse 处理
+            return this.parseResponse(submitted);
+        } catch (e) {
+            radioMonitor.log('WRITER', `Parse after submit failed: ${e}`, 'warn');
+            // 继续循环修正
+            return null;
+        }
+    }
+
     /**
      * 构建 ReAct 系统提示
      */
@@ -319,7 +475,7 @@ export class WriterAgent {
             this.activeToolNames.includes('fetch_news') ? '2) 若是资讯型内容，调用 fetch_news 获取素材。' : '',
             this.activeToolNames.includes('search_music') ? '3) 需要音乐时用 search_music（可附带 genre_hint）。' : '',
             this.activeToolNames.includes('check_artist_diversity') ? '4) 完稿后调用 check_artist_diversity 自检。' : '',
-            '5) 最终必须调用 submit_show 提交完整 timeline_json。'
+            '5) 最终必须调用 submit_show 提交完整节目。'
         ].filter(Boolean).join('\n');
 
         const memoryContext = globalState.getContextForPrompt();
@@ -341,6 +497,7 @@ ${memoryContext ? `\n## 🧠 全局记忆\n${memoryContext}` : ''}
 ${toolsDesc}
 
 ## 工具调用格式
+优先使用原生函数调用（submit_show 直接传入结构化的 timeline 对象）。若无法使用函数调用，则输出以下 JSON（submit_show 传 timeline_json 字符串）：
 \`\`\`json
 {"tool": "工具名", "args": {"参数名": "值"}}
 \`\`\`
@@ -349,7 +506,7 @@ ${toolsDesc}
 ${flowSteps}
 
 ## 输出格式
-最终提交时，timeline_json 必须是以下格式：
+最终提交时，timeline（或 timeline_json）必须是以下格式：
 ${this.getOutputFormatExample()}
 
 ${typePrompt}
@@ -359,6 +516,67 @@ ${getVoiceListForPrompt()}
 开始工作！先进行必要工具调用，再完成节目。`;
     }
 
+    /**
+     * 是否使用精简提示（上下文窗口较小的模型，如本地 Ollama / llama.cpp）
+     */
+    private isCompactMode(): boolean {
+        return this.contextWindow > 0 && this.contextWindow <= LOCAL_LLM.COMPACT_PROMPT_THRESHOLD;
+    }
+
+    /**
+     * 单次回复的最大输出 token 数（精简模式下按窗口比例预留）
+     */
+    private getMaxOutputTokens(): number {
+        return this.isCompactMode()
+            ? Math.min(AGENT.MAX_OUTPUT_TOKENS, Math.floor(this.contextWindow * LOCAL_LLM.OUTPUT_TOKEN_RATIO))
+            : AGENT.MAX_OUTPUT_TOKENS;
+    }
+
+    /**
+     * 构建精简系统提示（小上下文窗口）
+     * 省略节目类型目录与音色表，工具每个一行，全局记忆截断；历史约束只在 typePrompt 中出现一次
+     */
+    private buildCompactSystemPrompt(typePrompt: string, showType: ShowType): string {
+        const prohibitedArtists = this.activeToolNames.includes('search_music')
+            ? getProhibitedArtists().slice(0, 10)
+            : [];
+        const memoryContext = globalState.getContextForPrompt().slice(0, LOCAL_LLM.MEMORY_MAX_CHARS);
+
+        return `你是 **${RADIO.NAME} ${RADIO.FREQUENCY}** 网络电台的编剧，本期节目类型：${showType}。
+${prohibitedArtists.length > 0 ? `\n## ⚠️ 禁止使用的歌手\n${prohibitedArtists.join('、')}\n` : ''}${memoryContext ? `\n## 🧠 全局记忆\n${memoryContext}\n` : ''}
+## 🛠️ 可用工具
+${getCompactToolsDescription(this.activeToolNames)}
+
+## 工具调用格式
+优先使用原生函数调用；否则输出 {"tool": "工具名", "args": {"参数名": "值"}}。最终必须调用 submit_show 提交完整节目。
+
+## 输出格式
+${this.getOutputFormatExample()}
+
+${typePrompt}
+
+音色由演员阵容自动分配，无需填写 voiceName。开始工作！`;
+    }
+
+    /**
+     * 精简模式下压缩对话历史：最近两条保持完整，超出预算时截断较早的长消息
+     */
+    private compactHistory(history: ReActMessage[], systemPrompt: string): ReActMessage[] {
+        const budget = this.contextWindow - this.getMaxOutputTokens() - estimateTokens(systemPrompt);
+        let total = history.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+        if (total <= budget) return history;
+
+        const keepFrom = history.length - 2;
+        return history.map((message, index) => {
+            if (index >= keepFrom || total <= budget || message.content.length <= LOCAL_LLM.TOOL_RESULT_MAX_CHARS) {
+                return message;
+            }
+            const content = `${message.content.slice(0, LOCAL_LLM.TOOL_RESULT_MAX_CHARS)}\n...(已截断)`;
+            total -= estimateTokens(message.content) - estimateTokens(content);
+            return { ...message, content, toolResult: undefined };
+        });
+    }
+
     /**
      * 获取输出格式示例
      */
@@ -417,7 +635,10 @@ ${getVoiceListForPrompt()}
             ?.map((segment, index) => `${index + 1}. ${segment.type}（${segment.durationHint[0]}-${segment.durationHint[1]}秒）${segment.description ? `：${segment.description}` : ''}`)
             .join('\n') || '';
         const historyContext = getHistoryContext();
-        const toolsDescription = getToolsDescription(this.activeToolNames);
+        // 精简模式下工具说明已在系统提示中列出，不再重复
+        const toolsDescription = this.isCompactMode()
+            ? '见上方「可用工具」。'
+            : getToolsDescription(this.activeToolNames);
         const extraSections: string[] = [];
 
         if (segmentHints) {
@@ -428,6 +649,10 @@ ${getVoiceListForPrompt()}
             extraSections.push(getGenrePromptSection(this.currentGenreSuggestions));
         }
 
+        if (this.activeToolNames.includes('search_music')) {
+            extraSections.push(getMusicBudgetPromptSection());
+        }
+
         extraSections.push(`## 📐 比例约束\n- Talk 占比建议：${config.talkRatio[0]}%-${config.talkRatio[1]}%\n- Music 占比建议：${config.musicRatio[0]}%-${config.musicRatio[1]}%\n- 音乐用途：${config.musicPurpose}`);
 
         return buildPromptByType(type, {
@@ -445,17 +670,92 @@ ${getVoiceListForPrompt()}
     }
 
     /**
-     * 调用 ReAct AI (支持对话历史 + 指数退避重试)
+     * 调用 ReAct AI (支持对话历史 + 原生函数调用 + 指数退避重试)
      */
-    private async callReActAI(systemPrompt: string): Promise<string> {
+    private async callReActAI(systemPrompt: string): Promise<ReActReply> {
         const settings = getSettings();
         const MAX_API_RETRIES = 3;
         const BASE_DELAY_MS = 1000;
+        const toolsKey = `${settings.apiType}:${settings.endpoint}:${settings.modelName}`;
+        const stream = this.blockListener !== null;
+
+        // 指数退避重试
+        let lastError: Error | null = null;
+        let attempt = 0;
+        while (attempt < MAX_API_RETRIES) {
+            const useNativeTools = !this.nativeToolsUnsupported.has(toolsKey);
+            const { url, headers, body } = this.buildReActRequest(systemPrompt, useNativeTools, stream);
+
+            try {
+                radioMonitor.updateStatus('WRITER', 'BUSY', `Calling AI (attempt ${attempt + 1})...`);
+
+                const response = await fetch(getProxyUrl(), {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ url, method: 'POST', headers, body })
+                });
+
+                if (!response.ok) {
+                    const errorText = await response.text();
+
+                    // 模型/端点不支持原生函数调用：回退到文本协议并立即重试（不计入重试次数）
+                    if (useNativeTools && response.status >= 400 && response.status < 500 && /tool|function/i.test(errorText)) {
+                        this.nativeToolsUnsupported.add(toolsKey);
+                        radioMonitor.log('WRITER', `Native function calling unsupported by ${settings.modelName}, falling back to text protocol`, 'warn');
+                        continue;
+                    }
+
+                    throw new Error(`API Error ${response.status}: ${errorText.slice(0, 100)}`);
+                }
+
+                if (stream) {
+                    return await this.readReActStream(response);
+                }
+
+                const data = await response.json();
+                const format = getChatFormat(settings.apiType);
+
+                if (format === 'ollama') {
+                    return this.parseOllamaReply(data);
+                }
+                return format === 'openai'
+                    ? this.parseOpenAIReply(data)
+                    : this.parseGeminiReply(data);
+            } catch (error) {
+                lastError = error as Error;
+                radioMonitor.log('WRITER', `API call failed (attempt ${attempt + 1}): ${error}`, 'warn');
 
-        // 构建消息
-        const messages = [
-            { role: 'system', content: systemPrompt },
-            ...this.conversationHistory
+                if (attempt < MAX_API_RETRIES - 1) {
+                    // 指数退避: 1s, 2s, 4s
+                    const delay = BASE_DELAY_MS * Math.pow(2, attempt);
+                    radioMonitor.log('WRITER', `Retrying in ${delay}ms...`, 'info');
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                }
+                attempt++;
+            }
+        }
+
+        throw lastError || new Error('API call failed after retries');
+    }
+
+    /**
+     * 构建 ReAct 请求（按 apiType 选择格式）
+     */
+    private buildReActRequest(
+        systemPrompt: string,
+        useNativeTools: boolean,
+        stream: boolean
+    ): { url: string; headers: Record<string, string>; body: unknown } {
+        const settings = getSettings();
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+        // 不使用原生调用时，把历史中的函数调用还原为文本协议
+        const fullHistory = useNativeTools ? this.conversationHistory : this.flattenHistory();
+        const history = this.isCompactMode() ? this.compactHistory(fullHistory, systemPrompt) : fullHistory;
+        const maxTokens = this.getMaxOutputTokens();
+        const messages: ReActMessage[] = [
+            { role: 'user', content: systemPrompt },
+            ...history
         ];
 
         // 如果是首次调用，添加初始用户消息
@@ -463,108 +763,356 @@ ${getVoiceListForPrompt()}
             messages.push({ role: 'user', content: '请开始生成节目。' });
         }
 
-        let url: string;
-        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-        let body: unknown;
+        if (settings.apiType === 'vertexai' || settings.apiType === 'gemini') {
+            let url: string;
 
-        if (settings.apiType === 'vertexai') {
-            // Vertex AI 格式
-            const isGcpApiKey = settings.apiKey.startsWith('AIza');
-            url = `https://${settings.gcpLocation}-aiplatform.googleapis.com/v1/projects/${settings.gcpProject}/locations/${settings.gcpLocation}/publishers/google/models/${settings.modelName}:generateContent`;
+            if (settings.apiType === 'vertexai') {
+                // Vertex AI 格式
+                const isGcpApiKey = settings.apiKey.startsWith('AIza');
+                url = `https://${settings.gcpLocation}-aiplatform.googleapis.com/v1/projects/${settings.gcpProject}/locations/${settings.gcpLocation}/publishers/google/models/${settings.modelName}:${stream ? 'streamGenerateContent?alt=sse' : 'generateContent'}`;
 
-            if (isGcpApiKey) {
-                url += `?key=${settings.apiKey}`;
+                if (isGcpApiKey) {
+                    url += `${stream ? '&' : '?'}key=${settings.apiKey}`;
+                } else {
+                    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+                }
             } else {
-                headers['Authorization'] = `Bearer ${settings.apiKey}`;
+                // Gemini 格式
+                const endpoint = settings.endpoint || 'https://generativelanguage.googleapis.com';
+                url = `${this.normalizeEndpoint(endpoint)}/models/${settings.modelName}:${stream ? 'streamGenerateContent?alt=sse' : 'generateContent'}`;
+                headers['x-goog-api-key'] = settings.apiKey;
             }
 
-            // Vertex AI 使用 contents 格式（类似 Gemini）
-            const contents = messages.map(m => ({
-                role: m.role === 'assistant' ? 'model' : 'user',
-                parts: [{ text: m.content }]
-            }));
-
-            body = {
-                contents,
+            // Vertex AI / Gemini 使用 contents 格式
+            const body: Record<string, unknown> = {
+                contents: this.toGeminiContents(messages),
                 generationConfig: {
                     temperature: 0.8,
-                    maxOutputTokens: 8192
+                    maxOutputTokens: maxTokens
                 }
             };
-        } else if (settings.apiType === 'gemini') {
-            // Gemini 格式
-            const endpoint = settings.endpoint || 'https://generativelanguage.googleapis.com';
-            url = `${this.normalizeEndpoint(endpoint)}/models/${settings.modelName}:generateContent`;
-            headers['x-goog-api-key'] = settings.apiKey;
-
-            // Gemini 使用 contents 格式
-            const contents = messages.map(m => ({
-                role: m.role === 'assistant' ? 'model' : 'user',
-                parts: [{ text: m.content }]
-            }));
+            if (useNativeTools) {
+                body.tools = [{ functionDeclarations: getFunctionDeclarations(this.activeToolNames, 'gemini') }];
+            }
 
-            body = {
-                contents,
-                generationConfig: {
+            return { url, headers, body };
+        }
+
+        const tools = getFunctionDeclarations(this.activeToolNames).map(fn => ({ type: 'function', function: fn }));
+
+        if (settings.apiType === 'ollama') {
+            // Ollama 原生格式（num_ctx 需显式传入，否则使用服务端默认的小窗口）
+            const body: Record<string, unknown> = {
+                model: settings.modelName,
+                messages: this.toOllamaMessages(messages),
+                stream,
+                options: {
                     temperature: 0.8,
-                    maxOutputTokens: 8192
+                    num_predict: maxTokens,
+                    num_ctx: this.contextWindow || LOCAL_LLM.DEFAULT_CONTEXT_WINDOW
                 }
             };
-        } else {
-            // OpenAI 格式
-            const endpoint = settings.endpoint || '';
-            let baseUrl = endpoint.replace(/\/$/, '');
-            if (!baseUrl.endsWith('/v1')) {
-                baseUrl = `${baseUrl}/v1`;
+            if (useNativeTools) {
+                body.tools = tools;
             }
-            url = `${baseUrl}/chat/completions`;
+
+            return { url: `${resolveEndpoint(settings.endpoint, 'ollama')}/api/chat`, headers, body };
+        }
+
+        // OpenAI 格式（含 llama.cpp 兼容接口，本地服务无需 key）
+        const baseUrl = resolveEndpoint(settings.endpoint, settings.apiType);
+        if (settings.apiKey) {
             headers['Authorization'] = `Bearer ${settings.apiKey}`;
-            body = {
-                model: settings.modelName,
-                messages: messages.map(m => ({ role: m.role, content: m.content })),
-                temperature: 0.8,
-                max_tokens: 8192
-            };
         }
 
-        // 指数退避重试
-        let lastError: Error | null = null;
-        for (let attempt = 0; attempt < MAX_API_RETRIES; attempt++) {
+        const body: Record<string, unknown> = {
+            model: settings.modelName,
+            messages: this.toOpenAIMessages(messages),
+            temperature: 0.8,
+            max_tokens: maxTokens,
+            ...(stream ? { stream: true } : {})
+        };
+        if (useNativeTools) {
+            body.tools = tools;
+            body.tool_choice = 'auto';
+        }
+
+        return { url: `${baseUrl}/chat/completions`, headers, body };
+    }
+
+    /**
+     * 读取流式回复：边接收边切出已写好的块，结束后拼装为完整回复
+     */
+    private async readReActStream(response: Response): Promise<ReActReply> {
+        const format = getChatFormat(getSettings().apiType);
+        const textParser = new TimelineStreamParser();
+        const argumentParsers = new Map<number, TimelineStreamParser>();
+        const openAICalls = new Map<number, { id?: string; name?: string; arguments: string }>();
+        const geminiParts: Array<{ text?: string; thought?: boolean; functionCall?: { name: string; args?: Record<string, unknown> } }> = [];
+        const ollamaCalls: OllamaToolCall[] = [];
+        let text = '';
+        let emitted = 0;
+
+        const emitBlocks = (parser: TimelineStreamParser, chunk: string) => {
+            for (const block of parser.push(chunk)) {
+                const issues = validateTimelineBlock(block, emitted, this.getValidationContext());
+                if (issues.length > 0) {
+                    // 非法块之后的内容等待完整提交与校验
+                    parser.halt();
+                    radioMonitor.log('WRITER', `Stream paused at ${formatTimelineIssues(issues)}`, 'trace');
+                    return;
+                }
+                this.blockListener?.(block as TimelineBlock, emitted++);
+            }
+        };
+
+        await readChatStream(response, format, (data) => {
+            let chunk;
             try {
-                radioMonitor.updateStatus('WRITER', 'BUSY', `Calling AI (attempt ${attempt + 1})...`);
+                chunk = JSON.parse(data);
+            } catch {
+                return;
+            }
 
-                const response = await fetch('/api/proxy', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ url, method: 'POST', headers, body })
-                });
+            if (format === 'ollama') {
+                const message = chunk.message;
+                if (message?.content) {
+                    text += message.content;
+                    emitBlocks(textParser, message.content);
+                }
 
-                if (!response.ok) {
-                    const errorText = await response.text();
-                    throw new Error(`API Error ${response.status}: ${errorText.slice(0, 100)}`);
+                // Ollama 的函数调用整体到达，submit_show 的参数一次性切块
+                for (const call of message?.tool_calls || []) {
+                    ollamaCalls.push(call);
+                    if (call.function?.name === 'submit_show') {
+                        emitBlocks(new TimelineStreamParser(), JSON.stringify(call.function.arguments || {}));
+                    }
                 }
+                return;
+            }
 
-                const data = await response.json();
+            if (format === 'openai') {
+                const delta = chunk.choices?.[0]?.delta;
+                if (delta?.content) {
+                    text += delta.content;
+                    emitBlocks(textParser, delta.content);
+                }
 
-                if (settings.apiType === 'openai') {
-                    return data.choices?.[0]?.message?.content || '';
-                } else {
-                    return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+                for (const call of delta?.tool_calls || []) {
+                    const index = call.index ?? 0;
+                    const entry = openAICalls.get(index) || { arguments: '' };
+                    entry.id = entry.id || call.id;
+                    entry.name = entry.name || call.function?.name;
+                    entry.arguments += call.function?.arguments || '';
+                    openAICalls.set(index, entry);
+
+                    if (entry.name === 'submit_show' && call.function?.arguments) {
+                        if (!argumentParsers.has(index)) {
+                            argumentParsers.set(index, new TimelineStreamParser());
+                        }
+                        emitBlocks(argumentParsers.get(index)!, call.function.arguments);
+                    }
                 }
-            } catch (error) {
-                lastError = error as Error;
-                radioMonitor.log('WRITER', `API call failed (attempt ${attempt + 1}): ${error}`, 'warn');
+                return;
+            }
 
-                if (attempt < MAX_API_RETRIES - 1) {
-                    // 指数退避: 1s, 2s, 4s
-                    const delay = BASE_DELAY_MS * Math.pow(2, attempt);
-                    radioMonitor.log('WRITER', `Retrying in ${delay}ms...`, 'info');
-                    await new Promise(resolve => setTimeout(resolve, delay));
+            for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+                geminiParts.push(part);
+                if (typeof part.text === 'string' && !part.thought) {
+                    text += part.text;
+                    emitBlocks(textParser, part.text);
+                }
+
+                // Gemini 的函数调用整体到达，submit_show 的参数一次性切块
+                if (part.functionCall?.name === 'submit_show') {
+                    emitBlocks(new TimelineStreamParser(), JSON.stringify(part.functionCall.args || {}));
                 }
             }
+        });
+
+        if (format === 'ollama') {
+            return this.parseOllamaReply({ message: { content: text, tool_calls: ollamaCalls } });
         }
 
-        throw lastError || new Error('API call failed after retries');
+        if (format === 'openai') {
+            return this.parseOpenAIReply({
+                choices: [{
+                    message: {
+                        content: text,
+                        tool_calls: Array.from(openAICalls.values())
+                            .filter(call => call.name)
+                            .map(call => ({
+                                id: call.id,
+                                type: 'function',
+                                function: { name: call.name!, arguments: call.arguments }
+                            }))
+                    }
+                }]
+            });
+        }
+
+        return this.parseGeminiReply({ candidates: [{ content: { parts: geminiParts } }] });
+    }
+
+    /**
+     * 把原生函数调用历史还原为文本协议（回退时使用）
+     */
+    private flattenHistory(): ReActMessage[] {
+        return this.conversationHistory.map(message => {
+            if (message.role === 'tool') {
+                return { role: 'user', content: `Tool Result for ${message.toolName}:\n${message.content}` };
+            }
+            if (message.toolCalls?.length) {
+                const calls = message.toolCalls.map(call => JSON.stringify({ tool: call.name, args: call.args }));
+                return { role: 'assistant', content: [message.content, ...calls].filter(Boolean).join('\n') };
+            }
+            return message;
+        });
+    }
+
+    private toOpenAIMessages(messages: ReActMessage[]): unknown[] {
+        return messages.map((m, index) => {
+            if (index === 0) {
+                return { role: 'system', content: m.content };
+            }
+            if (m.role === 'tool') {
+                return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+            }
+            if (m.toolCalls?.length) {
+                return {
+                    role: 'assistant',
+                    content: m.content || null,
+                    tool_calls: m.toolCalls.map(call => ({
+                        id: call.id,
+                        type: 'function',
+                        function: { name: call.name, arguments: JSON.stringify(call.args) }
+                    }))
+                };
+            }
+            return { role: m.role, content: m.content };
+        });
+    }
+
+    private toOllamaMessages(messages: ReActMessage[]): unknown[] {
+        return messages.map((m, index) => {
+            if (index === 0) {
+                return { role: 'system', content: m.content };
+            }
+            if (m.role === 'tool') {
+                return { role: 'tool', tool_name: m.toolName, content: m.content };
+            }
+            if (m.toolCalls?.length) {
+                return {
+                    role: 'assistant',
+                    content: m.content,
+                    tool_calls: m.toolCalls.map(call => ({ function: { name: call.name, arguments: call.args } }))
+                };
+            }
+            return { role: m.role, content: m.content };
+        });
+    }
+
+    private toGeminiContents(messages: ReActMessage[]): Array<{ role: string; parts: unknown[] }> {
+        const contents: Array<{ role: string; parts: unknown[] }> = [];
+
+        for (const m of messages) {
+            if (m.role === 'tool') {
+                const part = { functionResponse: { name: m.toolName, response: m.toolResult ?? { content: m.content } } };
+                const previous = contents[contents.length - 1];
+
+                // 同一轮的多个函数结果合并到一条消息
+                if (previous?.parts.every(p => typeof p === 'object' && p !== null && 'functionResponse' in p)) {
+                    previous.parts.push(part);
+                } else {
+                    contents.push({ role: 'user', parts: [part] });
+                }
+                continue;
+            }
+
+            if (m.rawParts?.length) {
+                contents.push({ role: 'model', parts: m.rawParts });
+                continue;
+            }
+
+            contents.push({
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: m.content }]
+            });
+        }
+
+        return contents;
+    }
+
+    private parseOpenAIReply(data: {
+        choices?: Array<{
+            message?: {
+                content?: string | null;
+                tool_calls?: Array<{ id?: string; type?: string; function?: { name: string; arguments?: string } }>;
+            };
+        }>;
+    }): ReActReply {
+        const message = data.choices?.[0]?.message;
+        const toolCalls: NativeToolCall[] = [];
+
+        (message?.tool_calls || []).forEach((call, index) => {
+            if (!call.function?.name) return;
+
+            let args: Record<string, unknown> = {};
+            try {
+                args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+            } catch {
+                radioMonitor.log('WRITER', `Invalid arguments for ${call.function.name}`, 'warn');
+            }
+
+            toolCalls.push({
+                id: call.id || `call-${Date.now()}-${index}`,
+                name: call.function.name,
+                args
+            });
+        });
+
+        return { text: message?.content || '', toolCalls };
+    }
+
+    private parseOllamaReply(data: {
+        message?: { content?: string; tool_calls?: OllamaToolCall[] };
+    }): ReActReply {
+        const message = data.message;
+
+        const toolCalls = (message?.tool_calls || [])
+            .filter(call => call.function?.name)
+            .map((call, index) => ({
+                id: `${call.function!.name}-${Date.now()}-${index}`,
+                name: call.function!.name,
+                args: call.function!.arguments || {}
+            }));
+
+        return { text: message?.content || '', toolCalls };
+    }
+
+    private parseGeminiReply(data: {
+        candidates?: Array<{
+            content?: {
+                parts?: Array<{ text?: string; thought?: boolean; functionCall?: { name: string; args?: Record<string, unknown> } }>;
+            };
+        }>;
+    }): ReActReply {
+        const parts = data.candidates?.[0]?.content?.parts || [];
+
+        const text = parts
+            .filter(part => typeof part.text === 'string' && !part.thought)
+            .map(part => part.text)
+            .join('');
+
+        const toolCalls = parts
+            .filter(part => part.functionCall?.name)
+            .map((part, index) => ({
+                id: `${part.functionCall!.name}-${Date.now()}-${index}`,
+                name: part.functionCall!.name,
+                args: part.functionCall!.args || {}
+            }));
+
+        return { text, toolCalls, rawParts: toolCalls.length > 0 ? parts : undefined };
     }
 
     /**
@@ -3,11 +3,19 @@
  * 提供音乐搜索、歌词获取、节目提交等工具
  */
 
-import { searchMusicWithValidation, getLyrics } from '@features/music-search/lib/gd-music-service';
+import { searchPlayableTracks, getTrackLyrics } from '@features/music-search/lib/music-provider';
 import { ShowTimeline } from '@shared/types/radio-core';
 import { getRecentConcepts, getRecentSongs, isDuplicateConcept, recordSong } from '@features/history-tracking/lib/history-manager';
-import { NEWS_SERVICE } from '@shared/utils/constants';
+import { KNOWLEDGE } from '@shared/utils/constants';
 import { analyzeDiversity, addProhibitedArtist } from '@features/music-search/lib/diversity-manager';
+import { musicRequestScheduler } from '@features/music-search/lib/music-request-scheduler';
+import { isSoundEffectCategory, listSoundEffects } from '@features/sound-effects/lib/sound-effect-service';
+import { searchKnowledge } from '@features/knowledge/lib/knowledge-service';
+import { fetchNews } from '@features/news/lib/news-service';
+import { fetchTrending } from '@features/trending/lib/trending-service';
+import { recordAiredQuotes, searchQuotes } from '@features/quotes/lib/quote-service';
+import { getWeather, getWeatherAdvice, getWeatherMood } from '@features/weather/lib/weather-service';
+import { formatTimelineIssues, TimelineValidationContext, validateTimeline } from './timeline-validator';
 
 // ================== Tool Definitions ==================
 
@@ -20,12 +28,111 @@ export interface ToolDefinition {
         description: string;
         required: boolean;
     }[];
+    schema?: JsonSchema;  // 原生函数调用的参数 Schema（不填则由 parameters 推导）
 }
 
+/** JSON Schema 子集（OpenAI tools 与 Gemini functionDeclarations 通用） */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: string[];
+}
+
+/** 原生函数声明 */
+export interface FunctionDeclaration {
+    name: string;
+    description: string;
+    parameters: JsonSchema | Record<string, unknown>;  // Gemini 方言下类型名为大写
+}
+
+// ================== Timeline Schema ==================
+
+const SCRIPT_LINE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        speaker: { type: 'string', description: '说话角色（演员表中的角色名或 host1/host2/guest/news）' },
+        text: { type: 'string', description: '台词内容' },
+        voiceName: { type: 'string', description: 'TTS 音色名（可选）' },
+        mood: {
+            type: 'string',
+            enum: ['cheerful', 'calm', 'excited', 'serious', 'warm', 'playful', 'melancholy', 'mysterious']
+        },
+        voiceStyle: { type: 'string', description: 'TTS 风格指令（自然语言）' },
+        pause: { type: 'number', description: '台词后暂停毫秒数' }
+    },
+    required: ['speaker', 'text']
+};
+
+/** 时间线块：各类型字段合并为单一对象（Gemini 不支持 oneOf） */
+const TIMELINE_BLOCK_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        type: { type: 'string', enum: ['talk', 'music', 'music_control', 'silence'] },
+        id: { type: 'string' },
+        scripts: { type: 'array', items: SCRIPT_LINE_SCHEMA, description: 'talk：台词列表' },
+        soundEffects: {
+            type: 'array',
+            description: 'talk：音效（cue 使用 list_sound_effects 返回的名称）',
+            items: {
+                type: 'object',
+                properties: {
+                    cue: { type: 'string' },
+                    position: { type: 'string', enum: ['before', 'after', 'underlay'] },
+                    volume: { type: 'number', description: '0-1' }
+                },
+                required: ['cue']
+            }
+        },
+        backgroundMusic: {
+            type: 'object',
+            description: 'talk：背景音乐处理',
+            properties: {
+                action: { type: 'string', enum: ['continue', 'fade', 'pause'] },
+                volume: { type: 'number' }
+            },
+            required: ['action']
+        },
+        action: {
+            type: 'string',
+            enum: ['play', 'pause', 'resume', 'fade_out', 'fade_in', 'stop'],
+            description: 'music 固定为 play；music_control 为控制动作'
+        },
+        search: { type: 'string', description: 'music：歌曲搜索词（歌手 - 歌名）' },
+        duration: { type: 'number', description: 'music：播放秒数（从起播位置算起，到点淡出）；silence：静音毫秒数' },
+        fadeIn: { type: 'number', description: 'music：淡入毫秒数' },
+        fadeOut: { type: 'number', description: 'music：按 duration 收尾时的淡出毫秒数' },
+        startAt: { type: 'number', description: 'music：起播位置（秒）' },
+        segment: {
+            type: 'string',
+            enum: ['intro', 'verse', 'chorus', 'final_chorus'],
+            description: 'music：从指定段落起播（按歌词时间轴定位），配合 duration 播放片段'
+        },
+        intro: { ...SCRIPT_LINE_SCHEMA, description: 'music：播放前的介绍词' },
+        fadeDuration: { type: 'number', description: 'music_control：淡入淡出毫秒数' },
+        targetVolume: { type: 'number', description: 'music_control：目标音量 0-1' }
+    },
+    required: ['type', 'id']
+};
+
+const SHOW_TIMELINE_SCHEMA: JsonSchema = {
+    type: 'object',
+    description: '完整的 ShowTimeline',
+    properties: {
+        id: { type: 'string' },
+        title: { type: 'string' },
+        estimatedDuration: { type: 'number', description: '预估总时长（秒）' },
+        blocks: { type: 'array', items: TIMELINE_BLOCK_SCHEMA }
+    },
+    required: ['id', 'title', 'estimatedDuration', 'blocks']
+};
+
 const WRITER_TOOLS_MAP: Record<string, ToolDefinition> = {
     search_music: {
         name: 'search_music',
-        description: '搜索歌曲。⚠️ 重要：此API只支持搜索【具体歌手名】或【具体歌名】。可通过 genre_hint 辅助选歌方向，但 query 仍需填写具体歌手或曲名。',
+        description: '搜索歌曲。⚠️ 重要：此API只支持搜索【具体歌手名】或【具体歌名】。可通过 genre_hint 辅助选歌方向，但 query 仍需填写具体歌手或曲名；本地曲库会按 genre_hint 的流派/年代/文化/氛围优先匹配。',
         parameters: [
             { name: 'query', type: 'string', description: '搜索关键词（必须是具体歌手名或歌曲名，如"周杰伦"、"Shape of You"）', required: true },
             { name: 'mood', type: 'string', description: '期望的情绪氛围（仅供参考，不影响搜索）', required: false },
@@ -37,14 +144,16 @@ const WRITER_TOOLS_MAP: Record<string, ToolDefinition> = {
         description: '获取歌曲歌词。需要先用 search_music 获取 lyricId。',
         parameters: [
             { name: 'song_title', type: 'string', description: '歌曲名称', required: true },
-            { name: 'lyric_id', type: 'string', description: '歌词ID (从 search_music 结果获取)', required: false }
+            { name: 'lyric_id', type: 'string', description: '歌词ID (从 search_music 结果获取)', required: false },
+            { name: 'source', type: 'string', description: '音乐来源 (从 search_music 结果获取)', required: false }
         ]
     },
     fetch_news: {
         name: 'fetch_news',
-        description: '获取今日实时热点新闻。可用于任何需要话题素材的节目：新闻播报、脱口秀、时事评论、闲聊话题等。返回当日热点新闻列表，编剧可自由选用。',
+        description: '获取订阅新闻源（RSS/Atom/JSON Feed）的最新新闻。可用于任何需要话题素材的节目：新闻播报、脱口秀、时事评论、闲聊话题等。返回按时间排序、已去重的新闻列表（标题、摘要、来源、发布时间），编剧可自由选用。',
         parameters: [
-            { name: 'count', type: 'number', description: '需要的新闻条数（默认10条，最多15条）', required: false }
+            { name: 'count', type: 'number', description: '需要的新闻条数（默认10条，最多15条）', required: false },
+            { name: 'category', type: 'string', description: '分类过滤，如“科技/文化/体育/国际”，不填则返回全部', required: false }
         ]
     },
     check_duplicate: {
@@ -63,33 +172,41 @@ const WRITER_TOOLS_MAP: Record<string, ToolDefinition> = {
     },
     search_knowledge: {
         name: 'search_knowledge',
-        description: '知识/百科检索工具。用于补充历史、科学、人物、概念背景。',
+        description: '知识库检索工具。从本地资料库检索历史、科学、人物、概念背景，返回带出处的原文摘录；台词中的事实、年份与引语请以摘录为准。',
         parameters: [
-            { name: 'query', type: 'string', description: '检索问题或关键词', required: true },
+            { name: 'query', type: 'string', description: '检索问题或关键词（人名、事件、概念）', required: true },
             { name: 'limit', type: 'number', description: '返回条目数，默认 3，最多 6', required: false }
         ]
     },
     fetch_trending: {
         name: 'fetch_trending',
-        description: '获取热点话题建议，适合综艺、脱口秀和评论节目。',
+        description: '获取热点话题及背景摘要（按新鲜度、热度和与近期节目的差异度排序），适合综艺、脱口秀和评论节目。',
         parameters: [
-            { name: 'topic', type: 'string', description: '热点领域，如“科技/文娱/社会”', required: false },
+            { name: 'topic', type: 'string', description: '热点领域或关键词，如“科技/文娱/社会”', required: false },
             { name: 'count', type: 'number', description: '返回数量，默认 5，最多 10', required: false }
         ]
     },
     search_quotes: {
         name: 'search_quotes',
-        description: '检索相关名言金句，用于收束段或开场引子。',
+        description: '从语录库检索带作者与出处的名言金句，用于收束段或开场引子。近期播出过的语录不会再返回。',
         parameters: [
             { name: 'theme', type: 'string', description: '主题关键词，如“勇气/爱情/成长”', required: true },
-            { name: 'count', type: 'number', description: '返回数量，默认 3，最多 6', required: false }
+            { name: 'count', type: 'number', description: '返回数量，默认 3，最多 6', required: false },
+            { name: 'language', type: 'string', description: '语言过滤：zh（中文）或 en（英文），不填不限', required: false }
         ]
     },
     fetch_weather: {
         name: 'fetch_weather',
-        description: '获取天气简报（可降级为模拟数据），用于新闻和城市陪伴类节目。',
+        description: '获取真实天气实况与未来几天预报，附出行建议和适合的节目氛围，用于新闻和城市陪伴类节目。',
+        parameters: [
+            { name: 'city', type: 'string', description: '城市名，如“上海”；不填则使用设置中的本地城市', required: false }
+        ]
+    },
+    list_sound_effects: {
+        name: 'list_sound_effects',
+        description: '列出音效库中可用的音效（名称、分类、标签、时长）。talk 块 soundEffects 的 cue 请直接使用返回的名称，库中没有的音效会被跳过。',
         parameters: [
-            { name: 'city', type: 'string', description: '城市名，如“上海”', required: false }
+            { name: 'category', type: 'string', description: '分类过滤：jingle（台标/报时）、ambience（环境铺底）、foley（拟音）、stinger（转场）', required: false }
         ]
     },
     submit_show: {
@@ -97,7 +214,13 @@ const WRITER_TOOLS_MAP: Record<string, ToolDefinition> = {
         description: '提交最终节目。如果格式正确返回成功，否则返回错误信息供修正。这是唯一能结束循环的方式。',
         parameters: [
             { name: 'timeline_json', type: 'string', description: '完整的 ShowTimeline JSON', required: true }
-        ]
+        ],
+        // 原生函数调用时直接传结构化对象，省去 JSON 字符串转义
+        schema: {
+            type: 'object',
+            properties: { timeline: SHOW_TIMELINE_SCHEMA },
+            required: ['timeline']
+        }
     }
 };
 
@@ -119,21 +242,28 @@ export interface ToolResult {
 export async function executeToolCall(
     toolName: string,
     args: Record<string, unknown>,
-    parseTimeline: (json: string) => ShowTimeline
+    parseTimeline: (json: string) => ShowTimeline,
+    validationContext?: TimelineValidationContext,
+    showType?: string
 ): Promise<ToolResult> {
     try {
         switch (toolName) {
             case 'search_music':
                 return await executeSearchMusic(
                     args.query as string,
-                    args.genre_hint as string | undefined
+                    args.genre_hint as string | undefined,
+                    showType
                 );
 
             case 'get_lyrics':
-                return await executeGetLyrics(args.song_title as string, args.lyric_id as string | undefined);
+                return await executeGetLyrics(
+                    args.song_title as string,
+                    args.lyric_id as string | undefined,
+                    args.source as string | undefined
+                );
 
             case 'fetch_news':
-                return await executeFetchNews(args.count as number | undefined);
+                return await executeFetchNews(args.count as number | undefined, args.category as string | undefined);
 
             case 'check_duplicate':
                 return executeCheckDuplicate(args.concept as string);
@@ -148,13 +278,16 @@ export async function executeToolCall(
                 return await executeFetchTrending(args.topic as string | undefined, args.count as number | undefined);
 
             case 'search_quotes':
-                return await executeSearchQuotes(args.theme as string, args.count as number | undefined);
+                return await executeSearchQuotes(args.theme as string, args.count as number | undefined, args.language as string | undefined);
 
             case 'fetch_weather':
                 return await executeFetchWeather(args.city as string | undefined);
 
+            case 'list_sound_effects':
+                return await executeListSoundEffects(args.category as string | undefined);
+
             case 'submit_show':
-                return executeSubmitShow(args.timeline_json as string, parseTimeline);
+                return executeSubmitShow(args.timeline ?? args.timeline_json, parseTimeline, validationContext);
 
             default:
                 return { success: false, error: `Unknown tool: ${toolName}` };
@@ -166,10 +299,10 @@ export async function executeToolCall(
 
 // ================== Tool Implementations ==================
 
-async function executeSearchMusic(query: string, genreHint?: string): Promise<ToolResult> {
+async function executeSearchMusic(query: string, genreHint?: string, showType?: string): Promise<ToolResult> {
     try {
-        // 使用带验证的搜索，确保只返回可播放的歌曲
-        const validatedTracks = await searchMusicWithValidation(query, 8); // 增加搜索数量
+        // 使用带验证的搜索，确保只返回可播放的歌曲（按节目类型的来源顺序）
+        const validatedTracks = await searchPlayableTracks(query, 8, showType, genreHint); // 增加搜索数量
 
         // 过滤掉已播放的歌曲
         const recentSongs = getRecentSongs();
@@ -190,13 +323,19 @@ async function executeSearchMusic(query: string, genreHint?: string): Promise<To
             id: track.id,
             lyricId: track.lyricId,
             url: url,
-            source: track.source
+            source: track.source,
+            duration: track.duration
         }));
 
+        const budget = musicRequestScheduler.getBudget();
+        const quotaNote = budget.low
+            ? `音乐接口额度偏低（剩余约 ${budget.remaining} 次），请减少搜索，优先使用已有结果。`
+            : '';
+
         if (results.length === 0) {
             return {
                 success: false,
-                error: `未找到可播放的歌曲："${query}"。请尝试其他歌手名或歌曲名。`
+                error: `未找到可播放的歌曲："${query}"。${quotaNote || '请尝试其他歌手名或歌曲名。'}`
             };
         }
 
@@ -210,7 +349,8 @@ async function executeSearchMusic(query: string, genreHint?: string): Promise<To
                 genreHint: genreHint || null,
                 results,
                 recommendedIndex: recommendIndex,
-                note: `找到 ${results.length} 首可播放歌曲。建议优先考虑推荐索引 ${recommendIndex}，并结合 genre_hint 保持风格一致。`
+                quota: { remaining: budget.remaining, capacity: budget.capacity },
+                note: `找到 ${results.length} 首可播放歌曲。建议优先考虑推荐索引 ${recommendIndex}，并结合 genre_hint 保持风格一致。${quotaNote}`
             }
         };
     } catch (error) {
@@ -218,11 +358,11 @@ async function executeSearchMusic(query: string, genreHint?: string): Promise<To
     }
 }
 
-async function executeGetLyrics(songTitle: string, lyricId?: string): Promise<ToolResult> {
+async function executeGetLyrics(songTitle: string, lyricId?: string, source: string = 'netease'): Promise<ToolResult> {
     try {
         // 如果提供了 lyricId，直接获取歌词
         if (lyricId) {
-            const lyricsData = await getLyrics(lyricId);
+            const lyricsData = await getTrackLyrics(lyricId, source, 'explore');
             if (lyricsData) {
                 return {
                     success: true,
@@ -252,44 +392,39 @@ async function executeGetLyrics(songTitle: string, lyricId?: string): Promise<To
 /**
  * 获取实时新闻
  */
-async function executeFetchNews(count?: number): Promise<ToolResult> {
+async function executeFetchNews(count?: number, category?: string): Promise<ToolResult> {
     try {
-        const newsUrl = `${NEWS_SERVICE.API_URL}?key=${NEWS_SERVICE.API_KEY}`;
-
-        // 通过代理调用，避免 CORS
-        const response = await fetch('/api/proxy', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                url: newsUrl,
-                method: 'GET',
-                headers: { 'Accept': 'application/json' }
-            })
-        });
-
-        if (!response.ok) {
-            return { success: false, error: `新闻API请求失败: ${response.status}` };
-        }
+        const { items, feeds } = await fetchNews({ count, category });
+        const failed = feeds.filter(feed => feed.error);
 
-        const data = await response.json();
-
-        if (data.code !== 201 || !data.data?.news) {
-            return { success: false, error: '新闻API返回异常' };
+        if (items.length === 0 && failed.length === feeds.length) {
+            return {
+                success: false,
+                error: feeds.length === 0
+                    ? '未配置新闻源'
+                    : `所有新闻源均获取失败: ${failed.map(feed => `${feed.name}（${feed.error}）`).join('；')}`
+            };
         }
 
-        // 限制返回条数
-        const maxCount = Math.min(count || 10, 15);
-        const newsList = data.data.news.slice(0, maxCount);
-
         return {
             success: true,
             data: {
-                date: data.data.date || new Date().toLocaleDateString('zh-CN'),
-                title: data.data.title || '今日新闻快讯',
-                news: newsList,
-                weiyu: data.data.weiyu || null,
-                count: newsList.length,
-                note: '以上为今日实时新闻，可选择2-5条有趣新闻进行播报和点评'
+                date: new Date().toLocaleDateString('zh-CN'),
+                category: category || undefined,
+                news: items.map(item => ({
+                    title: item.title,
+                    summary: item.summary || undefined,
+                    source: item.source,
+                    published: item.publishedAt
+                        ? new Date(item.publishedAt).toLocaleString('zh-CN', { hour12: false })
+                        : undefined,
+                    categories: item.categories.length > 0 ? item.categories : undefined
+                })),
+                count: items.length,
+                failedSources: failed.length > 0 ? failed.map(feed => feed.name) : undefined,
+                note: items.length > 0
+                    ? '以上为各新闻源的最新条目（已跨源去重），可选择2-5条有趣新闻进行播报和点评，播报时可提及来源'
+                    : `没有符合分类“${category}”的新闻，可不带 category 重新获取`
             }
         };
     } catch (error) {
@@ -302,82 +437,147 @@ async function executeSearchKnowledge(query: string, limit?: number): Promise<To
         return { success: false, error: 'search_knowledge 需要 query 参数' };
     }
 
-    const safeLimit = Math.max(1, Math.min(limit || 3, 6));
+    const safeLimit = Math.max(1, Math.min(limit || KNOWLEDGE.DEFAULT_LIMIT, KNOWLEDGE.MAX_LIMIT));
 
-    return {
-        success: true,
-        data: {
-            query,
-            source: 'local_fallback',
-            items: [
-                { title: `${query} 的背景`, summary: '请在节目中解释该主题的起源、演化与现实意义。' },
-                { title: `${query} 的争议`, summary: '补充至少一个不同观点，避免单一立场叙述。' },
-                { title: `${query} 的延展`, summary: '结合听众生活场景给出可理解的类比。' }
-            ].slice(0, safeLimit),
-            note: '当前环境未接入稳定知识 API，已返回结构化引导结果。'
-        }
-    };
+    try {
+        const { hits, retrieval } = await searchKnowledge(query.trim(), safeLimit);
+
+        return {
+            success: true,
+            data: {
+                query,
+                source: 'knowledge_base',
+                retrieval,
+                items: hits.map((hit, i) => ({
+                    ref: i + 1,
+                    title: hit.title,
+                    section: hit.heading,
+                    excerpt: hit.text,
+                    citation: `${hit.title}${hit.heading ? ` · ${hit.heading}` : ''}（${hit.source} 第 ${hit.line} 行）`,
+                    url: hit.url
+                })),
+                note: hits.length > 0
+                    ? '引用时以 excerpt 原文为准，可在台词中自然带出出处（如“据《标题》记载”），不要念出 ref 编号或文件名；摘录没有提到的年份、数字与引语不要编造。'
+                    : '知识库中没有相关资料：只写常识性内容，不要编造具体年份、数字与引语，或换个关键词重试。'
+            }
+        };
+    } catch (error) {
+        return { success: false, error: `知识检索失败: ${String(error)}` };
+    }
 }
 
 async function executeFetchTrending(topic?: string, count?: number): Promise<ToolResult> {
-    const safeCount = Math.max(1, Math.min(count || 5, 10));
-    const normalizedTopic = (topic || '综合').trim() || '综合';
+    try {
+        const { topics, sources, skipped } = await fetchTrending({ topic, count });
+        const failedSources = sources.filter(source => source.error).map(source => source.name);
 
-    return {
-        success: true,
-        data: {
-            topic: normalizedTopic,
-            items: [
-                `${normalizedTopic}：AI 产品更新与行业竞争`,
-                `${normalizedTopic}：电影/剧集口碑分化讨论`,
-                `${normalizedTopic}：短视频平台新趋势`,
-                `${normalizedTopic}：年轻人消费观变化`,
-                `${normalizedTopic}：城市夜生活与陪伴经济`
-            ].slice(0, safeCount),
-            note: '热点为结构化候选话题，请在节目中选择其中 1-2 个展开。'
-        }
-    };
+        return {
+            success: true,
+            data: {
+                topic: topic?.trim() || '综合',
+                items: topics.map(item => ({
+                    title: item.title,
+                    context: item.summary,
+                    source: item.source,
+                    categories: item.categories.slice(0, 3),
+                    publishedAt: item.publishedAt ? new Date(item.publishedAt).toISOString() : undefined,
+                    score: Math.round(item.score * 100) / 100
+                })),
+                skippedAsRecent: skipped,
+                failedSources: failedSources.length > 0 ? failedSources : undefined,
+                note: topics.length > 0
+                    ? '按分数从高到低排列，请选择其中 1-2 个展开；背景以 context 为准，不要编造具体数字与当事人说法。'
+                    : '没有找到新的热点话题，可换个领域重试或改用常青话题。'
+            }
+        };
+    } catch (error) {
+        return { success: false, error: `获取热点失败: ${String(error)}` };
+    }
 }
 
-async function executeSearchQuotes(theme: string, count?: number): Promise<ToolResult> {
+async function executeSearchQuotes(theme: string, count?: number, language?: string): Promise<ToolResult> {
     if (!theme || !theme.trim()) {
         return { success: false, error: 'search_quotes 需要 theme 参数' };
     }
 
-    const safeCount = Math.max(1, Math.min(count || 3, 6));
-
-    const quotePool = [
-        { quote: '真正重要的不是速度，而是方向。', author: '匿名电台编者' },
-        { quote: '你听见的每段故事，都是别人走过的夜路。', author: '深夜主播语录' },
-        { quote: '生活没有标准答案，但有更诚实的提问。', author: '节目手记' },
-        { quote: '音乐不会替你决定，但会陪你做决定。', author: 'Radio Note' },
-        { quote: '热闹是场景，清醒是能力。', author: '评论主持人' },
-        { quote: '温柔不是退让，而是带着边界感的理解。', author: '夜谈嘉宾' }
-    ];
+    try {
+        const { quotes, skipped, availableTags } = await searchQuotes({ theme, count, language });
 
-    return {
-        success: true,
-        data: {
-            theme,
-            quotes: quotePool.slice(0, safeCount),
-            note: '可选 1-2 句用于开场或收束，不建议整段连续引用。'
-        }
-    };
+        return {
+            success: true,
+            data: {
+                theme,
+                quotes: quotes.map(quote => ({
+                    quote: quote.text,
+                    author: quote.author,
+                    work: quote.work,
+                    language: quote.language,
+                    attribution: !quote.work ? quote.author
+                        : quote.language === 'zh' ? `${quote.author}《${quote.work}》` : `${quote.author}, ${quote.work}`
+                })),
+                skippedAsRecent: skipped,
+                availableThemes: availableTags.length > 0 ? availableTags : undefined,
+                note: quotes.length > 0
+                    ? '可选 1-2 句用于开场或收束，不建议整段连续引用；引用时原文照录并按 attribution 说明作者与出处，不要改动原句或换成其他作者。'
+                    : '语录库中没有匹配的语录：请换 availableThemes 中的主题重试，或不引用名言，不要自行编造语录和作者。'
+            }
+        };
+    } catch (error) {
+        return { success: false, error: `语录检索失败: ${String(error)}` };
+    }
 }
 
 async function executeFetchWeather(city?: string): Promise<ToolResult> {
-    const resolvedCity = (city || '本地城市').trim() || '本地城市';
+    try {
+        const report = await getWeather(city);
+        const { current } = report;
+
+        return {
+            success: true,
+            data: {
+                city: report.location.name,
+                current: {
+                    condition: current.condition,
+                    temperature: `${Math.round(current.temperature)}°C`,
+                    feelsLike: `${Math.round(current.apparentTemperature)}°C`,
+                    humidity: `${Math.round(current.humidity)}%`,
+                    wind: `${Math.round(current.windSpeed)} km/h`
+                },
+                forecast: report.forecast.map(day => ({
+                    date: day.date,
+                    condition: day.condition,
+                    temperature: `${Math.round(day.min)}-${Math.round(day.max)}°C`,
+                    precipitationChance: day.precipitationChance !== undefined ? `${day.precipitationChance}%` : undefined
+                })),
+                advice: getWeatherAdvice(report),
+                mood: getWeatherMood(report),
+                source: report.source,
+                note: '天气为实时数据，播报时可取整、口语化，不必逐项念出。'
+            }
+        };
+    } catch (error) {
+        return { success: false, error: `天气获取失败: ${String(error)}。请不要编造具体天气数据` };
+    }
+}
+
+async function executeListSoundEffects(category?: string): Promise<ToolResult> {
+    const effects = await listSoundEffects();
+    const filtered = isSoundEffectCategory(category)
+        ? effects.filter(effect => effect.category === category)
+        : effects;
 
     return {
         success: true,
         data: {
-            city: resolvedCity,
-            condition: '多云转晴',
-            temperature: '18-26°C',
-            humidity: '62%',
-            advice: '早晚温差较大，外出可备薄外套。',
-            source: 'mock_weather',
-            note: '当前为降级天气信息，若需精确天气请接入真实 API。'
+            effects: filtered.map(effect => ({
+                cue: effect.name,
+                category: effect.category,
+                tags: effect.tags,
+                duration: effect.duration ? Math.round(effect.duration * 10) / 10 : undefined
+            })),
+            note: filtered.length > 0
+                ? 'before/after 在台词前后播放；ambience 适合 underlay 铺在台词下方（volume 建议 0.2-0.4），每个 talk 块最多一条铺底。'
+                : '音效库中没有可用音效，请不要使用 soundEffects 字段。'
         }
     };
 }
@@ -399,50 +599,64 @@ function executeCheckDuplicate(concept: string): ToolResult {
 }
 
 function executeSubmitShow(
-    timelineJson: string,
-    parseTimeline: (json: string) => ShowTimeline
+    submitted: unknown,
+    parseTimeline: (json: string) => ShowTimeline,
+    validationContext?: TimelineValidationContext
 ): ToolResult {
+    let timeline: ShowTimeline;
     try {
-        // 尝试解析
-        const timeline = parseTimeline(timelineJson);
-
-        // 验证基本结构
-        if (!timeline.id || !timeline.blocks || timeline.blocks.length === 0) {
-            return {
-                success: false,
-                error: 'Timeline 缺少必要字段: id, blocks 必须存在且 blocks 不能为空'
-            };
-        }
-
-        // 记录使用的歌曲（预记录，避免后续重复选曲）
-        for (const block of timeline.blocks) {
-            if (block.type === 'music' && block.search) {
-                recordSong(block.search);
-
-                // 从搜索词中提取歌手名并添加到禁止列表
-                const parts = block.search.split(' - ');
-                if (parts.length === 2) {
-                    const artistName = parts[0].trim();
-                    addProhibitedArtist(artistName);
-                }
-            }
-        }
-
-        return {
-            success: true,
-            data: {
-                id: timeline.id,
-                title: timeline.title,
-                blockCount: timeline.blocks.length,
-                message: '节目提交成功！'
-            }
-        };
+        // 尝试解析（原生函数调用传入的是对象）
+        timeline = parseTimeline(typeof submitted === 'string' ? submitted : JSON.stringify(submitted));
     } catch (error) {
         return {
             success: false,
             error: `JSON 解析失败: ${String(error)}。请检查 JSON 格式是否正确，确保所有引号、逗号、括号都正确匹配。`
         };
     }
+
+    // 严格校验，带路径的错误回传给编剧修正
+    const validation = validateTimeline(timeline, validationContext);
+    if (!validation.valid) {
+        return {
+            success: false,
+            error: `节目校验失败，请修正以下问题后重新提交：\n${formatTimelineIssues(validation.errors)}`,
+            data: {
+                errors: validation.errors,
+                estimatedSeconds: validation.estimatedSeconds
+            }
+        };
+    }
+
+    // 记录使用的歌曲（预记录，避免后续重复选曲）
+    for (const block of timeline.blocks) {
+        if (block.type === 'music' && block.search) {
+            recordSong(block.search);
+
+            // 从搜索词中提取歌手名并添加到禁止列表
+            const parts = block.search.split(' - ');
+            if (parts.length === 2) {
+                const artistName = parts[0].trim();
+                addProhibitedArtist(artistName);
+            }
+        }
+    }
+
+    // 记录台词中引用的语录，后续节目不再推荐
+    recordAiredQuotes(timeline.blocks.flatMap(block =>
+        block.type === 'talk' ? block.scripts.map(line => line.text) : []
+    ));
+
+    return {
+        success: true,
+        data: {
+            id: timeline.id,
+            title: timeline.title,
+            blockCount: timeline.blocks.length,
+            estimatedSeconds: validation.estimatedSeconds,
+            warnings: validation.warnings.length > 0 ? formatTimelineIssues(validation.warnings) : undefined,
+            message: '节目提交成功！'
+        }
+    };
 }
 
 function executeCheckArtistDiversity(artistsParam: string): ToolResult {
@@ -539,3 +753,61 @@ export function getToolsDescription(toolNames?: string[]): string {
         return `### ${tool.name}\n${tool.description}\nParameters:\n${params}`;
     }).join('\n\n');
 }
+
+/**
+ * 精简工具说明（每个工具一行，供小上下文窗口的本地模型使用）
+ */
+export function getCompactToolsDescription(toolNames?: string[]): string {
+    return getToolDefinitions(toolNames).map(tool => {
+        const params = tool.parameters.map(p => `${p.name}${p.required ? '' : '?'}`).join(', ');
+        return `- ${tool.name}(${params})：${tool.description.split(/[。\n]/)[0]}`;
+    }).join('\n');
+}
+
+// ================== Native Function Calling ==================
+
+function buildParameterSchema(tool: ToolDefinition): JsonSchema {
+    if (tool.schema) return tool.schema;
+
+    const properties: Record<string, JsonSchema> = {};
+    for (const param of tool.parameters) {
+        properties[param.name] = {
+            type: param.type as JsonSchema['type'],
+            description: param.description
+        };
+    }
+
+    return {
+        type: 'object',
+        properties,
+        required: tool.parameters.filter(p => p.required).map(p => p.name)
+    };
+}
+
+/**
+ * Gemini / Vertex 的 Schema 类型使用大写枚举
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+    return {
+        ...schema,
+        type: schema.type.toUpperCase(),
+        properties: schema.properties
+            ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+            : undefined,
+        items: schema.items ? toGeminiSchema(schema.items) : undefined
+    };
+}
+
+/**
+ * 生成原生函数声明（OpenAI tools / Gemini functionDeclarations）
+ */
+export function getFunctionDeclarations(toolNames?: string[], dialect: 'openai' | 'gemini' = 'openai'): FunctionDeclaration[] {
+    return getToolDefinitions(toolNames).map(tool => {
+        const parameters = buildParameterSchema(tool);
+        return {
+            name: tool.name,
+            description: tool.description,
+            parameters: dialect === 'gemini' ? toGeminiSchema(parameters) : parameters
+        };
+    });
+}
@@ -1,6 +1,6 @@
 /**
  * Show History - 节目历史记录 (localStorage 持久化版本)
- * 追踪近期节目和歌曲，避免重复
+ * 追踪近期节目、歌曲和语录，避免重复
  */
 
 import { HISTORY } from '@shared/utils/constants';
@@ -17,6 +17,7 @@ export interface ShowRecord {
 export interface ShowHistory {
     recentShows: ShowRecord[];
     recentSongs: Array<{ title: string; artist?: string; timestamp: number }>;  // 歌曲也带时间戳和歌手
+    recentQuotes: Array<{ text: string; author?: string; timestamp: number }>;  // 已播出的语录
     lastBreakTime: number;
 }
 
@@ -26,6 +27,7 @@ const STORAGE_KEY = 'nowhere_fm_history';
 const HISTORY_DURATION_MS = HISTORY.EXPIRY_HOURS * 60 * 60 * 1000;
 const MAX_RECENT_SHOWS = HISTORY.MAX_RECENT_SHOWS;
 const MAX_RECENT_SONGS = HISTORY.MAX_RECENT_SONGS;
+const MAX_RECENT_QUOTES = HISTORY.MAX_RECENT_QUOTES;
 
 // ================== Storage ==================
 
@@ -51,6 +53,8 @@ function loadHistory(): ShowHistory {
                     timestamp: Date.now()
                 }));
             }
+            // 旧版本没有语录记录
+            parsed.recentQuotes = parsed.recentQuotes ?? [];
             return parsed;
         }
     } catch (e) {
@@ -80,6 +84,7 @@ function getEmptyHistory(): ShowHistory {
     return {
         recentShows: [],
         recentSongs: [],
+        recentQuotes: [],
         lastBreakTime: 0
     };
 }
@@ -137,6 +142,28 @@ export function recordSong(songTitle: string, artist?: string): void {
     saveHistory();
 }
 
+/**
+ * 记录播出的语录
+ */
+export function recordQuote(text: string, author?: string): void {
+    cleanupHistory();
+
+    if (!history.recentQuotes.some(q => q.text === text)) {
+        history.recentQuotes.push({
+            text,
+            author,
+            timestamp: Date.now()
+        });
+    }
+
+    // 限制数量
+    if (history.recentQuotes.length > MAX_RECENT_QUOTES) {
+        history.recentQuotes = history.recentQuotes.slice(-MAX_RECENT_QUOTES);
+    }
+
+    saveHistory();
+}
+
 /**
  * 记录休息时间
  */
@@ -179,6 +206,14 @@ export function isSongPlayed(songTitle: string): boolean {
     );
 }
 
+/**
+ * 检查语录是否近期播出过
+ */
+export function isQuoteAired(text: string): boolean {
+    cleanupHistory();
+    return history.recentQuotes.some(q => q.text === text);
+}
+
 /**
  * 获取近期节目概念列表（用于 AI 上下文）
  */
@@ -221,12 +256,14 @@ function cleanupHistory(): void {
 
     const beforeShows = history.recentShows.length;
     const beforeSongs = history.recentSongs.length;
+    const beforeQuotes = history.recentQuotes.length;
 
     history.recentShows = history.recentShows.filter(s => s.timestamp > cutoff);
     history.recentSongs = history.recentSongs.filter(s => s.timestamp > cutoff);
+    history.recentQuotes = history.recentQuotes.filter(q => q.timestamp > cutoff);
 
     // 如果有清理，保存
-    if (history.recentShows.length < beforeShows || history.recentSongs.length < beforeSongs) {
+    if (history.recentShows.length < beforeShows || history.recentSongs.length < beforeSongs || history.recentQuotes.length < beforeQuotes) {
         saveHistory();
     }
 }
@@ -0,0 +1,96 @@
+/**
+ * BM25 - 关键词检索打分
+ * 中日韩文本没有空格分词，按相邻两字切分（单字词保留单字）；其余按单词切分并转小写
+ */
+
+import { KNOWLEDGE } from '@shared/utils/constants';
+
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+/g;
+const WORD = /[a-z0-9]+/g;
+
+export interface Bm25Hit {
+    index: number;          // 文档下标
+    score: number;
+}
+
+/**
+ * 切分检索词元
+ */
+export function tokenize(text: string): string[] {
+    const lower = text.toLowerCase();
+    const tokens: string[] = [];
+
+    for (const run of lower.match(CJK_RUN) ?? []) {
+        if (run.length === 1) {
+            tokens.push(run);
+            continue;
+        }
+        for (let i = 0; i < run.length - 1; i++) {
+            tokens.push(run.slice(i, i + 2));
+        }
+    }
+
+    for (const word of lower.replace(CJK_RUN, ' ').match(WORD) ?? []) {
+        if (word.length > 1 || /\d/.test(word)) {
+            tokens.push(word);
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * BM25 倒排索引
+ */
+export class Bm25Index {
+    private postings = new Map<string, Map<number, number>>();  // 词元 -> 文档下标 -> 词频
+    private lengths: number[] = [];
+    private averageLength = 0;
+
+    constructor(documents: string[]) {
+        documents.forEach((text, index) => {
+            const tokens = tokenize(text);
+            this.lengths.push(tokens.length);
+            for (const token of tokens) {
+                let posting = this.postings.get(token);
+                if (!posting) {
+                    posting = new Map();
+                    this.postings.set(token, posting);
+                }
+                posting.set(index, (posting.get(index) ?? 0) + 1);
+            }
+        });
+
+        const total = this.lengths.reduce((sum, length) => sum + length, 0);
+        this.averageLength = this.lengths.length > 0 ? total / this.lengths.length : 0;
+    }
+
+    get size(): number {
+        return this.lengths.length;
+    }
+
+    /**
+     * 按 BM25 得分检索，返回得分最高的 limit 个文档
+     */
+    search(query: string, limit: number): Bm25Hit[] {
+        const { BM25_K1: k1, BM25_B: b } = KNOWLEDGE;
+        const scores = new Map<number, number>();
+        const documentCount = this.lengths.length;
+
+        for (const token of new Set(tokenize(query))) {
+            const posting = this.postings.get(token);
+            if (!posting) continue;
+
+            const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+            for (const [index, frequency] of posting) {
+                const norm = frequency + k1 * (1 - b + b * this.lengths[index] / this.averageLength);
+                scores.set(index, (scores.get(index) ?? 0) + idf * frequency * (k1 + 1) / norm);
+            }
+        }
+
+        return [...scores.entries()]
+            .map(([index, score]) => ({ index, score }))
+            .sort((x, y) => y.score - x.score)
+            .slice(0, limit);
+    }
+}
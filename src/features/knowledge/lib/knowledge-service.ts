@@ -0,0 +1,122 @@
+/**
+ * Knowledge Service - 知识检索客户端
+ * 资料由服务端扫描 KNOWLEDGE_DIR 建立 BM25 索引（见 knowledge-store.ts），通过 /api/knowledge 检索；
+ * 设置了向量模型时，先多取一批 BM25 候选，再用主 AI 接口的向量相似度混合重排
+ */
+
+import { embedTexts, getAppUrl } from '@shared/services/ai-service';
+import { radioMonitor } from '@shared/services/monitor-service';
+import { getSettings } from '@shared/services/storage-service/settings';
+import { KNOWLEDGE } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+export interface KnowledgeHit {
+    id: string;                  // 相对路径#片段序号
+    title: string;               // 文档标题
+    heading?: string;            // 所在章节
+    source: string;              // 资料文件（相对 KNOWLEDGE_DIR）
+    url?: string;                // 原始链接（JSONL 记录提供时）
+    line: number;                // 片段起始行号
+    text: string;                // 片段原文
+    score: number;
+}
+
+export interface KnowledgeStats {
+    documents: number;
+    chunks: number;
+}
+
+export interface KnowledgeSearchResult {
+    hits: KnowledgeHit[];
+    retrieval: 'bm25' | 'hybrid';
+}
+
+/** 片段向量缓存（模型名|片段 ID -> 向量） */
+const embeddingCache = new Map<string, number[]>();
+
+// ================== API Functions ==================
+
+async function fetchHits(query: string, limit: number): Promise<KnowledgeHit[]> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await fetch(getAppUrl(`/api/knowledge?${params.toString()}`));
+    if (!response.ok) {
+        throw new Error(`Knowledge search error: ${response.status}`);
+    }
+
+    const data: { hits?: KnowledgeHit[] } = await response.json();
+    return data.hits ?? [];
+}
+
+/**
+ * 知识库统计（rescan 时服务端重新扫描目录）
+ */
+export async function getKnowledgeStats(rescan = false): Promise<KnowledgeStats> {
+    const response = await fetch(getAppUrl(`/api/knowledge${rescan ? '?rescan=1' : ''}`));
+    if (!response.ok) {
+        throw new Error(`Knowledge stats error: ${response.status}`);
+    }
+    return response.json();
+}
+
+// ================== Reranking ==================
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * 向量相似度与归一化 BM25 得分混合重排（向量接口失败时返回 null）
+ */
+async function rerank(query: string, hits: KnowledgeHit[], model: string): Promise<KnowledgeHit[] | null> {
+    const missing = hits.filter(hit => !embeddingCache.has(`${model}|${hit.id}`));
+    const vectors = await embedTexts([query, ...missing.map(hit => `${hit.title}\n${hit.text}`)]);
+    if (!vectors) return null;
+
+    missing.forEach((hit, i) => embeddingCache.set(`${model}|${hit.id}`, vectors[i + 1]));
+    while (embeddingCache.size > KNOWLEDGE.EMBEDDING_CACHE_SIZE) {
+        embeddingCache.delete(embeddingCache.keys().next().value as string);
+    }
+
+    const queryVector = vectors[0];
+    const topScore = Math.max(...hits.map(hit => hit.score), 1e-6);
+    const weight = KNOWLEDGE.EMBEDDING_WEIGHT;
+
+    return hits
+        .map(hit => {
+            const similarity = cosine(queryVector, embeddingCache.get(`${model}|${hit.id}`) ?? []);
+            return { ...hit, score: Math.round(((1 - weight) * hit.score / topScore + weight * similarity) * 1000) / 1000 };
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 检索知识库，返回带出处的片段
+ */
+export async function searchKnowledge(query: string, limit: number = KNOWLEDGE.DEFAULT_LIMIT): Promise<KnowledgeSearchResult> {
+    const model = getSettings().embeddingModel.trim();
+    if (!model) {
+        return { hits: await fetchHits(query, limit), retrieval: 'bm25' };
+    }
+
+    const candidates = await fetchHits(query, limit * KNOWLEDGE.RERANK_CANDIDATES);
+    if (candidates.length <= 1) {
+        return { hits: candidates, retrieval: 'bm25' };
+    }
+
+    const reranked = await rerank(query, candidates, model);
+    if (!reranked) {
+        radioMonitor.log('WRITER', `Embedding rerank failed (${model}), using BM25 order`, 'warn');
+        return { hits: candidates.slice(0, limit), retrieval: 'bm25' };
+    }
+
+    return { hits: reranked.slice(0, limit), retrieval: 'hybrid' };
+}
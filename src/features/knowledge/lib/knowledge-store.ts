@@ -0,0 +1,340 @@
+/**
+ * Knowledge Store - 本地知识库索引（仅服务端）
+ * 扫描 KNOWLEDGE_DIR（默认 .data/knowledge）下的 Markdown / 纯文本 / JSONL 资料，
+ * 按章节与段落切成片段后建立 BM25 索引；每个片段保留标题、章节、文件与行号作为出处
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { KNOWLEDGE } from '@shared/utils/constants';
+import { Bm25Index } from './bm25';
+import type { KnowledgeHit, KnowledgeStats } from './knowledge-service';
+
+// ================== Types ==================
+
+type KnowledgeChunk = Omit<KnowledgeHit, 'score'>;
+
+interface Paragraph {
+    line: number;                // 起始行号（从 1 开始）
+    text: string;
+}
+
+interface Section {
+    heading?: string;
+    url?: string;
+    paragraphs: Paragraph[];
+}
+
+interface KnowledgeIndex {
+    documents: number;
+    chunks: KnowledgeChunk[];
+    bm25: Bm25Index;
+}
+
+let index: KnowledgeIndex | null = null;
+let indexedAt = 0;
+let scanning: Promise<KnowledgeIndex> | null = null;
+
+// ================== Paths ==================
+
+export function getKnowledgeDir(): string {
+    return process.env.KNOWLEDGE_DIR || path.join(process.cwd(), '.data', 'knowledge');
+}
+
+/**
+ * 递归列出目录下的资料文件（目录不存在时返回空列表）
+ */
+async function listFiles(dir: string, files: string[]): Promise<void> {
+    let entries;
+    try {
+        entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+        return;
+    }
+
+    for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            await listFiles(fullPath, files);
+        } else if (KNOWLEDGE.FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+            files.push(fullPath);
+        }
+    }
+}
+
+// ================== Parsing ==================
+
+/**
+ * 去掉常见 Markdown 标记，只保留可朗读的文字
+ */
+function stripMarkdown(text: string): string {
+    return text
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/^\s*(>\s*)+/, '')
+        .replace(/^\s*([-*+]|\d+[.)])\s+/, '')
+        .replace(/(\*\*|__|`)/g, '')
+        .trim();
+}
+
+/**
+ * 按空行切分段落
+ */
+function collectParagraphs(lines: string[], firstLine: number, transform: (line: string) => string): Paragraph[] {
+    const paragraphs: Paragraph[] = [];
+    let current: Paragraph | null = null;
+
+    lines.forEach((raw, offset) => {
+        const text = transform(raw);
+        if (!text) {
+            current = null;
+            return;
+        }
+        if (current) {
+            current.text += /[\u3040-\u30ff\u3400-\u9fff]$/.test(current.text) ? text : ` ${text}`;
+        } else {
+            current = { line: firstLine + offset, text };
+            paragraphs.push(current);
+        }
+    });
+
+    return paragraphs;
+}
+
+/**
+ * Markdown：front matter 或首个一级标题作为文档标题，其余标题划分章节，跳过代码块
+ */
+function parseMarkdown(content: string, fallbackTitle: string): { title: string; sections: Section[] } {
+    const lines = content.split(/\r?\n/);
+    let title = '';
+    let start = 0;
+
+    if (lines[0]?.trim() === '---') {
+        const end = lines.indexOf('---', 1);
+        if (end > 0) {
+            const match = lines.slice(1, end).map(line => /^title:\s*(.+)$/i.exec(line.trim())).find(Boolean);
+            title = match ? match[1].replace(/^["']|["']$/g, '') : '';
+            start = end + 1;
+        }
+    }
+
+    const sections: Section[] = [];
+    let heading: string | undefined;
+    let buffer: string[] = [];
+    let bufferStart = start;
+    let inCode = false;
+
+    const flush = (nextStart: number) => {
+        const paragraphs = collectParagraphs(buffer, bufferStart + 1, stripMarkdown);
+        if (paragraphs.length > 0) {
+            sections.push({ heading, paragraphs });
+        }
+        buffer = [];
+        bufferStart = nextStart;
+    };
+
+    for (let i = start; i < lines.length; i++) {
+        const line = lines[i];
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCode = !inCode;
+            buffer.push('');
+            continue;
+        }
+
+        const headingMatch = inCode ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+        if (!headingMatch) {
+            buffer.push(inCode ? '' : line);
+            continue;
+        }
+
+        flush(i + 1);
+        const text = stripMarkdown(headingMatch[2]);
+        if (headingMatch[1].length === 1 && !title) {
+            title = text;
+            heading = undefined;
+        } else {
+            heading = text;
+        }
+    }
+    flush(lines.length);
+
+    return { title: title || fallbackTitle, sections };
+}
+
+/**
+ * 纯文本：整篇为一个章节
+ */
+function parseText(content: string, fallbackTitle: string): { title: string; sections: Section[] } {
+    const paragraphs = collectParagraphs(content.split(/\r?\n/), 1, line => line.trim());
+    return { title: fallbackTitle, sections: paragraphs.length > 0 ? [{ paragraphs }] : [] };
+}
+
+/**
+ * JSONL：每行一条记录（text / content / body 为正文，可选 title、section、url）
+ */
+function parseJsonLines(content: string, fallbackTitle: string): Array<{ title: string; sections: Section[] }> {
+    const documents: Array<{ title: string; sections: Section[] }> = [];
+
+    content.split(/\r?\n/).forEach((raw, offset) => {
+        if (!raw.trim()) return;
+        try {
+            const record = JSON.parse(raw) as Record<string, unknown>;
+            const text = [record.text, record.content, record.body].find(value => typeof value === 'string') as string | undefined;
+            if (!text?.trim()) return;
+
+            const heading = typeof record.section === 'string' ? record.section : undefined;
+            const url = [record.url, record.source].find(value => typeof value === 'string' && /^https?:\/\//.test(value)) as string | undefined;
+            const paragraphs = collectParagraphs(text.split(/\r?\n/), offset + 1, line => line.trim())
+                .map(paragraph => ({ ...paragraph, line: offset + 1 }));
+
+            documents.push({
+                title: typeof record.title === 'string' && record.title.trim() ? record.title.trim() : fallbackTitle,
+                sections: [{ heading, url, paragraphs }]
+            });
+        } catch {
+            // 忽略无法解析的行
+        }
+    });
+
+    return documents;
+}
+
+// ================== Chunking ==================
+
+/**
+ * 超长段落按句切分
+ */
+function splitParagraph(paragraph: Paragraph): Paragraph[] {
+    if (paragraph.text.length <= KNOWLEDGE.CHUNK_CHARS) return [paragraph];
+
+    const sentences = paragraph.text.match(/[^。！？!?；;.]+[。！？!?；;.]*\s*/g) ?? [paragraph.text];
+    const parts: Paragraph[] = [];
+    let current = '';
+    for (const sentence of sentences) {
+        if (current && current.length + sentence.length > KNOWLEDGE.CHUNK_CHARS) {
+            parts.push({ line: paragraph.line, text: current.trim() });
+            current = '';
+        }
+        current += sentence;
+    }
+    if (current.trim()) {
+        parts.push({ line: paragraph.line, text: current.trim() });
+    }
+    return parts;
+}
+
+/**
+ * 将章节内的段落拼接为片段；较短的末段带入下一片段作为重叠上下文
+ */
+function chunkSection(section: Section): Paragraph[] {
+    const units = section.paragraphs.flatMap(splitParagraph);
+    const chunks: Paragraph[] = [];
+    let current: Paragraph[] = [];
+    let length = 0;
+
+    for (const unit of units) {
+        if (current.length > 0 && length + unit.text.length > KNOWLEDGE.CHUNK_CHARS) {
+            chunks.push({ line: current[0].line, text: current.map(item => item.text).join('\n') });
+            const last = current[current.length - 1];
+            current = last.text.length <= KNOWLEDGE.CHUNK_OVERLAP_CHARS ? [last] : [];
+            length = current.reduce((sum, item) => sum + item.text.length, 0);
+        }
+        current.push(unit);
+        length += unit.text.length;
+    }
+    if (current.length > 0) {
+        chunks.push({ line: current[0].line, text: current.map(item => item.text).join('\n') });
+    }
+
+    return chunks;
+}
+
+// ================== Indexing ==================
+
+async function scanKnowledge(): Promise<KnowledgeIndex> {
+    const root = getKnowledgeDir();
+    const files: string[] = [];
+    await listFiles(root, files);
+
+    const chunks: KnowledgeChunk[] = [];
+    let documents = 0;
+
+    for (const filePath of files.sort()) {
+        try {
+            const content = (await readFile(filePath, 'utf-8')).replace(/^\uFEFF/, '');
+            const source = path.relative(root, filePath).split(path.sep).join('/');
+            const extension = path.extname(filePath).toLowerCase();
+            const fallbackTitle = path.basename(filePath, extension);
+
+            const firstChunk = chunks.length;
+            const parsed = extension === '.jsonl'
+                ? parseJsonLines(content, fallbackTitle)
+                : [extension === '.txt' ? parseText(content, fallbackTitle) : parseMarkdown(content, fallbackTitle)];
+
+            for (const document of parsed) {
+                documents++;
+                for (const section of document.sections) {
+                    for (const chunk of chunkSection(section)) {
+                        chunks.push({
+                            id: `${source}#${chunks.length - firstChunk}`,
+                            title: document.title,
+                            heading: section.heading,
+                            source,
+                            url: section.url,
+                            line: chunk.line,
+                            text: chunk.text
+                        });
+                    }
+                }
+            }
+        } catch (error) {
+            console.warn(`[Knowledge] Failed to index ${filePath}:`, error);
+        }
+    }
+
+    // 标题与章节参与匹配，提问里出现人物 / 事件名即可命中对应条目
+    const bm25 = new Bm25Index(chunks.map(chunk => [chunk.title, chunk.heading, chunk.text].filter(Boolean).join('\n')));
+    return { documents, chunks, bm25 };
+}
+
+/**
+ * 获取知识库索引（缓存 INDEX_TTL_MS，force 时重新扫描）
+ */
+async function getKnowledgeIndex(force = false): Promise<KnowledgeIndex> {
+    if (!force && index && Date.now() - indexedAt < KNOWLEDGE.INDEX_TTL_MS) {
+        return index;
+    }
+    if (scanning) return scanning;
+
+    scanning = scanKnowledge().then(result => {
+        index = result;
+        indexedAt = Date.now();
+        return result;
+    }).finally(() => {
+        scanning = null;
+    });
+
+    return scanning;
+}
+
+// ================== Public API ==================
+
+/**
+ * 知识库统计（force 时重新扫描目录）
+ */
+export async function getKnowledgeStats(force = false): Promise<KnowledgeStats> {
+    const { documents, chunks } = await getKnowledgeIndex(force);
+    return { documents, chunks: chunks.length };
+}
+
+/**
+ * BM25 检索知识片段
+ */
+export async function searchKnowledgeBase(query: string, limit: number): Promise<KnowledgeHit[]> {
+    const { chunks, bm25 } = await getKnowledgeIndex();
+    return bm25.search(query, limit).map(({ index: chunkIndex, score }) => ({
+        ...chunks[chunkIndex],
+        score: Math.round(score * 1000) / 1000
+    }));
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+import { getKnowledgeStats, KnowledgeStats } from '../lib/knowledge-service';
+
+interface KnowledgeSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: string) => void;
+}
+
+export default function KnowledgeSettings({
+    settings,
+    onSettingChange,
+}: KnowledgeSettingsProps) {
+    const [stats, setStats] = useState<KnowledgeStats | null>(null);
+    const [scanning, setScanning] = useState(false);
+
+    const refreshStats = useCallback((rescan = false) => {
+        return getKnowledgeStats(rescan)
+            .then(setStats)
+            .catch(() => setStats(null));
+    }, []);
+
+    useEffect(() => {
+        refreshStats();
+    }, [refreshStats]);
+
+    const handleRescan = async () => {
+        setScanning(true);
+        await refreshStats(true);
+        setScanning(false);
+    };
+
+    return (
+        <div className="space-y-3 pt-3 border-t border-neutral-800">
+            <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-neutral-400">知识库</label>
+                <button
+                    onClick={handleRescan}
+                    disabled={scanning}
+                    className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400 disabled:text-neutral-600 disabled:cursor-not-allowed transition-colors"
+                >
+                    <RefreshCw size={12} className={scanning ? 'animate-spin' : ''} />
+                    重新扫描
+                </button>
+            </div>
+            <div className="px-3 py-2 rounded-lg bg-neutral-800/60 text-xs">
+                <div className="text-neutral-500">已索引</div>
+                <div className="font-mono text-neutral-300">
+                    {stats ? `${stats.documents} 篇 · ${stats.chunks} 个片段` : '不可用'}
+                </div>
+            </div>
+            <div className="space-y-2">
+                <label className="text-xs text-neutral-500">向量模型（可选）</label>
+                <input
+                    type="text"
+                    value={settings.embeddingModel}
+                    onChange={(e) => onSettingChange("embeddingModel", e.target.value)}
+                    placeholder="如 text-embedding-3-small，留空只用关键词检索"
+                    className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
+                />
+                <p className="text-xs text-neutral-500">
+                    把 Markdown、文本或 JSONL 资料放进服务端 .data/knowledge 目录，历史、科普、悬疑节目会检索其中的原文并注明出处；填写向量模型后通过主 AI 接口重排检索结果
+                </p>
+            </div>
+        </div>
+    );
+}
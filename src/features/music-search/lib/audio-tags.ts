@@ -0,0 +1,522 @@
+/**
+ * Audio Tags - 音频文件标签与时长读取（仅服务端）
+ * 支持 ID3v2 / ID3v1 (MP3)、Vorbis Comment (FLAC / Ogg Vorbis / Opus)、MP4 ilst (M4A) 与 WAV LIST INFO
+ * 只读取文件头尾的必要字节，不解码音频
+ */
+
+import { open, FileHandle } from 'fs/promises';
+import path from 'path';
+import { MUSIC_LIBRARY } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+export interface AudioTags {
+    title?: string;
+    artist?: string[];
+    album?: string;
+    genre?: string;
+    year?: number;
+    mood?: string;
+    lyrics?: string;          // 内嵌歌词（LRC 或纯文本）
+    duration?: number;        // 时长（秒）
+}
+
+// ================== Helpers ==================
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(Math.max(0, length));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+    return buffer.subarray(0, bytesRead);
+}
+
+function clean(value: string): string {
+    return value.replace(/\0+$/, '').trim();
+}
+
+function parseYear(value: string): number | undefined {
+    const match = /\b(\d{4})\b/.exec(value);
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+function splitArtists(value: string): string[] {
+    return value.split(/\0|\s+\/\s+|;\s*/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * 写入标签（同名字段只保留第一次出现的值，歌手累加）
+ */
+function assignTag(tags: AudioTags, key: string, rawValue: string): void {
+    const value = clean(rawValue);
+    if (!value) return;
+
+    switch (key) {
+        case 'title': tags.title ??= value; break;
+        case 'artist': tags.artist = [...(tags.artist ?? []), ...splitArtists(value)]; break;
+        case 'album': tags.album ??= value; break;
+        case 'genre': tags.genre ??= value.replace(/^\(\d+\)/, '').trim() || undefined; break;
+        case 'year': tags.year ??= parseYear(value); break;
+        case 'mood': tags.mood ??= value; break;
+        case 'lyrics': tags.lyrics ??= value; break;
+    }
+}
+
+// ================== ID3 (MP3) ==================
+
+const ID3_FRAMES: Record<string, string> = {
+    TIT2: 'title', TT2: 'title',
+    TPE1: 'artist', TP1: 'artist',
+    TALB: 'album', TAL: 'album',
+    TCON: 'genre', TCO: 'genre',
+    TDRC: 'year', TYER: 'year', TYE: 'year', TDOR: 'year',
+    TMOO: 'mood'
+};
+
+function syncsafe(buffer: Buffer, offset: number): number {
+    return ((buffer[offset] & 0x7f) << 21) | ((buffer[offset + 1] & 0x7f) << 14)
+        | ((buffer[offset + 2] & 0x7f) << 7) | (buffer[offset + 3] & 0x7f);
+}
+
+function decodeText(buffer: Buffer, encoding: number): string {
+    switch (encoding) {
+        case 0:
+            return buffer.toString('latin1');
+        case 1:
+        case 2: {
+            let data = buffer;
+            let bigEndian = encoding === 2;
+            if (data.length >= 2 && data[0] === 0xfe && data[1] === 0xff) {
+                bigEndian = true;
+                data = data.subarray(2);
+            } else if (data.length >= 2 && data[0] === 0xff && data[1] === 0xfe) {
+                bigEndian = false;
+                data = data.subarray(2);
+            }
+            const even = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+            return (bigEndian ? even.swap16() : even).toString('utf16le');
+        }
+        default:
+            return buffer.toString('utf8');
+    }
+}
+
+/**
+ * 按编码的结束符拆分 "描述\0内容" 结构（UTF-16 的结束符为两字节且对齐）
+ */
+function splitTerminated(buffer: Buffer, encoding: number): [Buffer, Buffer] {
+    const wide = encoding === 1 || encoding === 2;
+    for (let i = 0; i < buffer.length; i += wide ? 2 : 1) {
+        if (buffer[i] === 0 && (!wide || buffer[i + 1] === 0)) {
+            return [buffer.subarray(0, i), buffer.subarray(i + (wide ? 2 : 1))];
+        }
+    }
+    return [buffer, Buffer.alloc(0)];
+}
+
+function parseId3v2(tag: Buffer, tags: AudioTags): void {
+    const major = tag[3];
+    const flags = tag[5];
+    let body = tag.subarray(10);
+
+    // v2.3 及以下的整体反同步：0xFF 0x00 还原为 0xFF
+    if (flags & 0x80 && major < 4) {
+        const bytes: number[] = [];
+        for (let i = 0; i < body.length; i++) {
+            bytes.push(body[i]);
+            if (body[i] === 0xff && body[i + 1] === 0x00) i++;
+        }
+        body = Buffer.from(bytes);
+    }
+
+    let offset = 0;
+    if (flags & 0x40 && major >= 3) {
+        offset = major === 4 ? syncsafe(body, 0) : body.readUInt32BE(0) + 4;
+    }
+
+    const idLength = major === 2 ? 3 : 4;
+    const headerLength = major === 2 ? 6 : 10;
+
+    while (offset + headerLength <= body.length) {
+        const id = body.toString('latin1', offset, offset + idLength);
+        if (!/^[A-Z0-9]+$/.test(id)) break;
+
+        const size = major === 2
+            ? body.readUIntBE(offset + 3, 3)
+            : major === 4 ? syncsafe(body, offset + 4) : body.readUInt32BE(offset + 4);
+        const frame = body.subarray(offset + headerLength, offset + headerLength + size);
+        offset += headerLength + size;
+        if (frame.length === 0) continue;
+
+        const encoding = frame[0];
+        if (ID3_FRAMES[id]) {
+            assignTag(tags, ID3_FRAMES[id], decodeText(frame.subarray(1), encoding));
+        } else if (id === 'TXXX' || id === 'TXX') {
+            const [description, value] = splitTerminated(frame.subarray(1), encoding);
+            if (clean(decodeText(description, encoding)).toUpperCase() === 'MOOD') {
+                assignTag(tags, 'mood', decodeText(value, encoding));
+            }
+        } else if (id === 'USLT' || id === 'ULT') {
+            const [, text] = splitTerminated(frame.subarray(4), encoding);
+            assignTag(tags, 'lyrics', decodeText(text, encoding));
+        } else if (id === 'TLEN' || id === 'TLE') {
+            const ms = parseInt(clean(decodeText(frame.subarray(1), encoding)), 10);
+            if (ms > 0) tags.duration ??= ms / 1000;
+        }
+    }
+}
+
+function parseId3v1(tag: Buffer, tags: AudioTags): void {
+    const field = (start: number, end: number) => tag.toString('latin1', start, end).replace(/\0.*$/, '');
+    assignTag(tags, 'title', field(3, 33));
+    if (!tags.artist?.length) assignTag(tags, 'artist', field(33, 63));
+    assignTag(tags, 'album', field(63, 93));
+    assignTag(tags, 'year', field(93, 97));
+}
+
+const MP3_BITRATES = {
+    v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+    3: [44100, 48000, 32000],     // MPEG 1
+    2: [22050, 24000, 16000],     // MPEG 2
+    0: [11025, 12000, 8000]       // MPEG 2.5
+};
+
+/**
+ * 从第一帧估算 MP3 时长：优先 Xing / Info / VBRI 帧数，否则按 CBR 码率计算
+ */
+function estimateMp3Duration(head: Buffer, audioBytes: number): number | undefined {
+    for (let i = 0; i + 4 <= head.length; i++) {
+        if (head[i] !== 0xff || (head[i + 1] & 0xe0) !== 0xe0) continue;
+
+        const version = (head[i + 1] >> 3) & 0x03;
+        const layer = (head[i + 1] >> 1) & 0x03;
+        const bitrateIndex = head[i + 2] >> 4;
+        const sampleRateIndex = (head[i + 2] >> 2) & 0x03;
+        if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) continue;
+
+        const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+        const samplesPerFrame = version === 3 ? 1152 : 576;
+        const mono = (head[i + 3] >> 6) === 3;
+        const sideInfo = version === 3 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+
+        const xing = i + 4 + sideInfo;
+        const marker = head.toString('latin1', xing, xing + 4);
+        if ((marker === 'Xing' || marker === 'Info') && head.length >= xing + 12 && head.readUInt32BE(xing + 4) & 0x01) {
+            return head.readUInt32BE(xing + 8) * samplesPerFrame / sampleRate;
+        }
+        if (head.toString('latin1', i + 36, i + 40) === 'VBRI' && head.length >= i + 54) {
+            return head.readUInt32BE(i + 50) * samplesPerFrame / sampleRate;
+        }
+
+        const bitrate = (version === 3 ? MP3_BITRATES.v1 : MP3_BITRATES.v2)[bitrateIndex] * 1000;
+        return (audioBytes - i) * 8 / bitrate;
+    }
+    return undefined;
+}
+
+async function readMp3(handle: FileHandle, size: number, tags: AudioTags): Promise<void> {
+    let audioStart = 0;
+    const header = await readAt(handle, 0, 10);
+    if (header.toString('latin1', 0, 3) === 'ID3') {
+        const tagSize = syncsafe(header, 6) + 10;
+        audioStart = tagSize;
+        parseId3v2(await readAt(handle, 0, Math.min(tagSize, MUSIC_LIBRARY.MAX_TAG_BYTES)), tags);
+    }
+
+    let audioEnd = size;
+    if (size >= 128) {
+        const v1 = await readAt(handle, size - 128, 128);
+        if (v1.toString('latin1', 0, 3) === 'TAG') {
+            audioEnd -= 128;
+            parseId3v1(v1, tags);
+        }
+    }
+
+    if (tags.duration === undefined) {
+        const head = await readAt(handle, audioStart, 64 * 1024);
+        tags.duration = estimateMp3Duration(head, audioEnd - audioStart);
+    }
+}
+
+// ================== Vorbis Comment (FLAC / Ogg) ==================
+
+const VORBIS_FIELDS: Record<string, string> = {
+    TITLE: 'title',
+    ARTIST: 'artist',
+    ALBUM: 'album',
+    GENRE: 'genre',
+    DATE: 'year',
+    YEAR: 'year',
+    MOOD: 'mood',
+    LYRICS: 'lyrics',
+    UNSYNCEDLYRICS: 'lyrics'
+};
+
+function parseVorbisComments(buffer: Buffer, tags: AudioTags): void {
+    if (buffer.length < 8) return;
+    let offset = 4 + buffer.readUInt32LE(0);
+    if (offset + 4 > buffer.length) return;
+
+    const count = buffer.readUInt32LE(offset);
+    offset += 4;
+
+    for (let i = 0; i < count && offset + 4 <= buffer.length; i++) {
+        const length = buffer.readUInt32LE(offset);
+        const entry = buffer.toString('utf8', offset + 4, offset + 4 + length);
+        offset += 4 + length;
+
+        const separator = entry.indexOf('=');
+        const field = VORBIS_FIELDS[entry.slice(0, separator).toUpperCase()];
+        if (separator > 0 && field) {
+            assignTag(tags, field, entry.slice(separator + 1));
+        }
+    }
+}
+
+async function readFlac(handle: FileHandle, tags: AudioTags): Promise<void> {
+    let offset = 0;
+    const header = await readAt(handle, 0, 10);
+    if (header.toString('latin1', 0, 3) === 'ID3') {
+        offset = syncsafe(header, 6) + 10;
+    }
+    if ((await readAt(handle, offset, 4)).toString('latin1') !== 'fLaC') return;
+    offset += 4;
+
+    for (let isLast = false; !isLast;) {
+        const blockHeader = await readAt(handle, offset, 4);
+        if (blockHeader.length < 4) break;
+
+        isLast = (blockHeader[0] & 0x80) !== 0;
+        const type = blockHeader[0] & 0x7f;
+        const length = blockHeader.readUIntBE(1, 3);
+        offset += 4;
+
+        if (type === 0) {
+            const info = await readAt(handle, offset, 34);
+            const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+            const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+            if (sampleRate > 0 && totalSamples > 0) tags.duration = totalSamples / sampleRate;
+        } else if (type === 4) {
+            parseVorbisComments(await readAt(handle, offset, Math.min(length, MUSIC_LIBRARY.MAX_TAG_BYTES)), tags);
+        }
+        offset += length;
+    }
+}
+
+/**
+ * 拼接 Ogg 页中的前几个数据包（标识头与注释头）
+ */
+function readOggPackets(data: Buffer, maxPackets: number): Buffer[] {
+    const packets: Buffer[] = [];
+    let current: Buffer[] = [];
+    let offset = 0;
+
+    while (offset + 27 <= data.length && packets.length < maxPackets) {
+        if (data.toString('latin1', offset, offset + 4) !== 'OggS') break;
+
+        const segmentCount = data[offset + 26];
+        const table = data.subarray(offset + 27, offset + 27 + segmentCount);
+        let position = offset + 27 + segmentCount;
+
+        for (const segmentSize of table) {
+            current.push(data.subarray(position, position + segmentSize));
+            position += segmentSize;
+            if (segmentSize < 255) {
+                packets.push(Buffer.concat(current));
+                current = [];
+                if (packets.length >= maxPackets) break;
+            }
+        }
+        offset = position;
+    }
+    return packets;
+}
+
+async function readOgg(handle: FileHandle, size: number, tags: AudioTags): Promise<void> {
+    const [identification, comments] = readOggPackets(await readAt(handle, 0, 512 * 1024), 2);
+    if (!identification) return;
+
+    let sampleRate = 0;
+    let preSkip = 0;
+    if (identification.toString('latin1', 1, 7) === 'vorbis') {
+        sampleRate = identification.readUInt32LE(12);
+        if (comments?.toString('latin1', 1, 7) === 'vorbis') parseVorbisComments(comments.subarray(7), tags);
+    } else if (identification.toString('latin1', 0, 8) === 'OpusHead') {
+        sampleRate = 48000;
+        preSkip = identification.readUInt16LE(10);
+        if (comments?.toString('latin1', 0, 8) === 'OpusTags') parseVorbisComments(comments.subarray(8), tags);
+    }
+
+    // 最后一页的 granule position 即总采样数
+    const tail = await readAt(handle, Math.max(0, size - 64 * 1024), 64 * 1024);
+    const lastPage = tail.lastIndexOf('OggS');
+    if (sampleRate > 0 && lastPage >= 0 && lastPage + 14 <= tail.length) {
+        const granule = Number(tail.readBigUInt64LE(lastPage + 6));
+        if (granule > preSkip) tags.duration = (granule - preSkip) / sampleRate;
+    }
+}
+
+// ================== MP4 (M4A) ==================
+
+const MP4_FIELDS: Record<string, string> = {
+    '©nam': 'title',
+    '©ART': 'artist',
+    '©alb': 'album',
+    '©gen': 'genre',
+    '©day': 'year',
+    '©lyr': 'lyrics'
+};
+
+function* iterateAtoms(buffer: Buffer, start: number, end: number): Generator<{ type: string; start: number; end: number }> {
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = buffer.readUInt32BE(offset);
+        const type = buffer.toString('latin1', offset + 4, offset + 8);
+        let headerSize = 8;
+        if (size === 1 && offset + 16 <= end) {
+            size = Number(buffer.readBigUInt64BE(offset + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize) break;
+
+        yield { type, start: offset + headerSize, end: Math.min(offset + size, end) };
+        offset += size;
+    }
+}
+
+function findAtom(buffer: Buffer, start: number, end: number, type: string) {
+    for (const atom of iterateAtoms(buffer, start, end)) {
+        if (atom.type === type) return atom;
+    }
+    return null;
+}
+
+async function readMp4(handle: FileHandle, size: number, tags: AudioTags): Promise<void> {
+    // 顶层 atom 逐个读头部，找到 moov 后整体读入
+    let offset = 0;
+    let moov: Buffer | null = null;
+    while (offset + 8 <= size) {
+        const header = await readAt(handle, offset, 16);
+        if (header.length < 8) break;
+
+        let atomSize = header.readUInt32BE(0);
+        if (atomSize === 1 && header.length >= 16) atomSize = Number(header.readBigUInt64BE(8));
+        if (atomSize === 0) atomSize = size - offset;
+        if (atomSize < 8) break;
+
+        if (header.toString('latin1', 4, 8) === 'moov') {
+            moov = await readAt(handle, offset, Math.min(atomSize, MUSIC_LIBRARY.MAX_TAG_BYTES));
+            break;
+        }
+        offset += atomSize;
+    }
+    if (!moov) return;
+
+    const root = findAtom(moov, 0, moov.length, 'moov');
+    if (!root) return;
+
+    const mvhd = findAtom(moov, root.start, root.end, 'mvhd');
+    if (mvhd) {
+        const version = moov[mvhd.start];
+        const timescale = moov.readUInt32BE(mvhd.start + (version === 1 ? 20 : 12));
+        const duration = version === 1
+            ? Number(moov.readBigUInt64BE(mvhd.start + 24))
+            : moov.readUInt32BE(mvhd.start + 16);
+        if (timescale > 0) tags.duration = duration / timescale;
+    }
+
+    const udta = findAtom(moov, root.start, root.end, 'udta');
+    const meta = udta && findAtom(moov, udta.start, udta.end, 'meta');
+    const ilst = meta && findAtom(moov, meta.start + 4, meta.end, 'ilst');
+    if (!ilst) return;
+
+    for (const item of iterateAtoms(moov, ilst.start, ilst.end)) {
+        const field = MP4_FIELDS[item.type];
+        const data = field && findAtom(moov, item.start, item.end, 'data');
+        if (data) {
+            assignTag(tags, field, moov.toString('utf8', data.start + 8, data.end));
+        }
+    }
+}
+
+// ================== WAV ==================
+
+const WAV_INFO_FIELDS: Record<string, string> = {
+    INAM: 'title',
+    IART: 'artist',
+    IPRD: 'album',
+    IGNR: 'genre',
+    ICRD: 'year'
+};
+
+async function readWav(handle: FileHandle, size: number, tags: AudioTags): Promise<void> {
+    let byteRate = 0;
+    let offset = 12;
+
+    while (offset + 8 <= size) {
+        const header = await readAt(handle, offset, 8);
+        if (header.length < 8) break;
+
+        const chunkId = header.toString('latin1', 0, 4);
+        const chunkSize = header.readUInt32LE(4);
+
+        if (chunkId === 'fmt ') {
+            byteRate = (await readAt(handle, offset + 8, 16)).readUInt32LE(8);
+        } else if (chunkId === 'data' && byteRate > 0) {
+            tags.duration = Math.min(chunkSize, size - offset - 8) / byteRate;
+        } else if (chunkId === 'LIST') {
+            const list = await readAt(handle, offset + 8, Math.min(chunkSize, 64 * 1024));
+            if (list.toString('latin1', 0, 4) === 'INFO') {
+                for (let position = 4; position + 8 <= list.length;) {
+                    const id = list.toString('latin1', position, position + 4);
+                    const length = list.readUInt32LE(position + 4);
+                    const field = WAV_INFO_FIELDS[id];
+                    if (field) assignTag(tags, field, list.toString('utf8', position + 8, position + 8 + length));
+                    position += 8 + length + (length % 2);
+                }
+            }
+        }
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+}
+
+// ================== Public API ==================
+
+/**
+ * 读取音频文件的标签与时长（格式不支持或文件损坏时返回已读到的部分）
+ */
+export async function readAudioTags(filePath: string, size: number): Promise<AudioTags> {
+    const tags: AudioTags = {};
+    const handle = await open(filePath, 'r');
+
+    try {
+        switch (path.extname(filePath).toLowerCase()) {
+            case '.mp3':
+                await readMp3(handle, size, tags);
+                break;
+            case '.flac':
+                await readFlac(handle, tags);
+                break;
+            case '.ogg':
+            case '.oga':
+            case '.opus':
+                await readOgg(handle, size, tags);
+                break;
+            case '.m4a':
+                await readMp4(handle, size, tags);
+                break;
+            case '.wav':
+                await readWav(handle, size, tags);
+                break;
+        }
+    } catch {
+        // 标签损坏时保留已解析的字段，由目录结构补全
+    } finally {
+        await handle.close();
+    }
+
+    return tags;
+}
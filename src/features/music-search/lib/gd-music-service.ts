@@ -6,6 +6,9 @@
  * Rate Limit: 50 requests per 5 minutes
  */
 
+import type { MusicProvider } from './music-provider';
+import { MusicRequestPriority, musicRequestScheduler } from './music-request-scheduler';
+
 const API_BASE = "https://music-api.gdstudio.xyz/api.php";
 const DEFAULT_SOURCE = "netease";
 
@@ -22,6 +25,7 @@ export interface IGDMusicTrack {
     picId: string;        // for album art
     lyricId: string;      // for lyrics
     source: string;       // music source
+    duration?: number;    // duration in seconds (local library only)
 }
 
 export interface IGDLyrics {
@@ -56,29 +60,41 @@ interface LyricAPIResponse {
 
 // ================== API Functions ==================
 
+/**
+ * 经限流调度发出请求（相同 URL 的并发请求只发送一次）
+ */
+function requestApi<T>(url: string, priority: MusicRequestPriority): Promise<T> {
+    return musicRequestScheduler.schedule(url, priority, async () => {
+        const response = await fetch(url);
+        if (response.status === 429) {
+            musicRequestScheduler.exhaust();
+        }
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        return response.json() as Promise<T>;
+    });
+}
+
 /**
  * Search for music tracks
  * @param keyword - Search keyword (song name, artist, album)
  * @param count - Number of results (default 10)
  * @param pages - Page number (default 1)
  * @param source - Music source (default netease)
+ * @param priority - Scheduling priority (default next)
  */
 export async function searchMusic(
     keyword: string,
     count: number = 10,
     pages: number = 1,
-    source: string = DEFAULT_SOURCE
+    source: string = DEFAULT_SOURCE,
+    priority: MusicRequestPriority = 'next'
 ): Promise<IGDMusicTrack[]> {
     try {
         const url = `${API_BASE}?types=search&source=${source}&name=${encodeURIComponent(keyword)}&count=${count}&pages=${pages}`;
 
-        const response = await fetch(url);
-        if (!response.ok) {
-            console.error("GD Music Search Error:", response.status);
-            return [];
-        }
-
-        const data: SearchAPIResponse[] = await response.json();
+        const data = await requestApi<SearchAPIResponse[]>(url, priority);
 
         if (!Array.isArray(data)) {
             console.warn("Unexpected search response format:", data);
@@ -105,22 +121,18 @@ export async function searchMusic(
  * @param trackId - Track ID from search results
  * @param br - Bitrate: 128, 192, 320, 740, 999 (lossless)
  * @param source - Music source
+ * @param priority - Scheduling priority (default next)
  */
 export async function getMusicUrl(
     trackId: string,
     br: 128 | 192 | 320 | 740 | 999 = 320,
-    source: string = DEFAULT_SOURCE
+    source: string = DEFAULT_SOURCE,
+    priority: MusicRequestPriority = 'next'
 ): Promise<string | null> {
     try {
         const url = `${API_BASE}?types=url&source=${source}&id=${trackId}&br=${br}`;
 
-        const response = await fetch(url);
-        if (!response.ok) {
-            console.error("GD Music URL Error:", response.status);
-            return null;
-        }
-
-        const data: UrlAPIResponse = await response.json();
+        const data = await requestApi<UrlAPIResponse>(url, priority);
         return data.url || null;
     } catch (error) {
         console.error("GD Music URL Error:", error);
@@ -133,22 +145,18 @@ export async function getMusicUrl(
  * @param picId - Picture ID from search results
  * @param size - Image size: 300 (small) or 500 (large)
  * @param source - Music source
+ * @param priority - Scheduling priority (default next)
  */
 export async function getAlbumArt(
     picId: string,
     size: 300 | 500 = 300,
-    source: string = DEFAULT_SOURCE
+    source: string = DEFAULT_SOURCE,
+    priority: MusicRequestPriority = 'next'
 ): Promise<string | null> {
     try {
         const url = `${API_BASE}?types=pic&source=${source}&id=${picId}&size=${size}`;
 
-        const response = await fetch(url);
-        if (!response.ok) {
-            console.error("GD Music Pic Error:", response.status);
-            return null;
-        }
-
-        const data: PicAPIResponse = await response.json();
+        const data = await requestApi<PicAPIResponse>(url, priority);
         return data.url || null;
     } catch (error) {
         console.error("GD Music Pic Error:", error);
@@ -160,21 +168,17 @@ export async function getAlbumArt(
  * Get song lyrics in LRC format
  * @param lyricId - Lyric ID from search results
  * @param source - Music source
+ * @param priority - Scheduling priority (default next)
  */
 export async function getLyrics(
     lyricId: string,
-    source: string = DEFAULT_SOURCE
+    source: string = DEFAULT_SOURCE,
+    priority: MusicRequestPriority = 'next'
 ): Promise<IGDLyrics | null> {
     try {
         const url = `${API_BASE}?types=lyric&source=${source}&id=${lyricId}`;
 
-        const response = await fetch(url);
-        if (!response.ok) {
-            console.error("GD Music Lyric Error:", response.status);
-            return null;
-        }
-
-        const data: LyricAPIResponse = await response.json();
+        const data = await requestApi<LyricAPIResponse>(url, priority);
 
         if (!data.lyric) {
             return null;
@@ -223,10 +227,12 @@ export async function getCompleteTrackData(track: IGDMusicTrack): Promise<{
 /**
  * 搜索音乐并验证可播放
  * 只使用稳定音乐源，返回验证过可以播放的歌曲
+ * 接口额度偏低时减少逐首验证的数量
  */
 export async function searchMusicWithValidation(
     keyword: string,
-    maxResults: number = 5
+    maxResults: number = 5,
+    priority: MusicRequestPriority = 'explore'
 ): Promise<{ track: IGDMusicTrack; url: string }[]> {
     const validatedTracks: { track: IGDMusicTrack; url: string }[] = [];
 
@@ -235,13 +241,14 @@ export async function searchMusicWithValidation(
         if (validatedTracks.length >= maxResults) break;
 
         try {
-            const tracks = await searchMusic(keyword, 10, 1, source);
+            const tracks = await searchMusic(keyword, 10, 1, source, priority);
+            const candidates = musicRequestScheduler.isLow() ? tracks.slice(0, maxResults - validatedTracks.length) : tracks;
 
             // 验证每首歌曲是否可播放
-            for (const track of tracks) {
+            for (const track of candidates) {
                 if (validatedTracks.length >= maxResults) break;
 
-                const url = await getMusicUrl(track.id, 320, source);
+                const url = await getMusicUrl(track.id, 320, source, priority);
                 if (url && url.startsWith('http')) {
                     validatedTracks.push({ track, url });
                 }
@@ -254,6 +261,23 @@ export async function searchMusicWithValidation(
     return validatedTracks;
 }
 
+// ================== Provider ==================
+
+/**
+ * GD Studio 音乐来源（网易云 / 酷我 / JOOX）
+ */
+export const gdStudioProvider: MusicProvider = {
+    id: 'gdstudio',
+    label: 'GD Studio',
+    handles: (source) => (STABLE_SOURCES as readonly string[]).includes(source),
+    isConfigured: () => true,
+    search: (keyword, count, priority) => searchMusic(keyword, count, 1, DEFAULT_SOURCE, priority),
+    searchPlayable: (keyword, maxResults, _genreHint, priority) => searchMusicWithValidation(keyword, maxResults, priority),
+    getUrl: (trackId, source, priority) => getMusicUrl(trackId, 320, source, priority),
+    getLyrics: (lyricId, source, priority) => getLyrics(lyricId, source, priority),
+    getArtwork: (picId, size, source, priority) => getAlbumArt(picId, size, source, priority)
+};
+
 // Debug helper - expose to window for browser console testing
 if (typeof window !== 'undefined') {
     (window as unknown as { testGDMusic: object }).testGDMusic = {
@@ -31,6 +31,28 @@ export const GENRE_DIMENSIONS: GenreDimension[] = [
     }
 ];
 
+// 曲库标签（流派 / 氛围等英文或中文描述）与轮盘选项的对应关键词
+const OPTION_KEYWORDS: Record<string, string[]> = {
+    '民谣/Folk': ['folk', 'acoustic', 'singer-songwriter', 'country', '民谣'],
+    '摇滚/Rock': ['rock', 'punk', 'metal', 'grunge', 'alternative', '摇滚'],
+    '电子/Electronic': ['electronic', 'electronica', 'edm', 'house', 'techno', 'trance', 'dubstep', 'synth', 'electro', '电子'],
+    '爵士/Jazz': ['jazz', 'swing', 'bossa', 'blues', 'soul', '爵士'],
+    '说唱/Hip-Hop': ['hip-hop', 'hip hop', 'hiphop', 'rap', 'trap', '说唱'],
+    '古典/Classical': ['classical', 'orchestra', 'symphony', 'baroque', 'opera', 'piano', '古典'],
+    '华语': ['mandopop', 'cantopop', 'c-pop', 'chinese', '华语', '国语', '粤语'],
+    '日韩': ['j-pop', 'k-pop', 'jpop', 'kpop', 'anime', 'japanese', 'korean', '日语', '韩语'],
+    '拉美': ['latin', 'reggaeton', 'salsa', 'bossa', 'tango', '拉丁'],
+    '非洲': ['afro', 'afrobeat', 'african', '非洲'],
+    '世界融合': ['world', 'fusion', 'ethnic', '世界'],
+    '治愈': ['calm', 'chill', 'relax', 'peaceful', 'healing', 'soothing', '治愈', '放松'],
+    '激情': ['energetic', 'upbeat', 'powerful', 'aggressive', 'party', 'happy', '激情', '热血'],
+    '忧郁': ['sad', 'melancholy', 'melancholic', 'dark', 'gloomy', '忧郁', '伤感'],
+    '浪漫': ['romantic', 'love', 'sensual', '浪漫', '爱情'],
+    '复古': ['retro', 'vintage', 'nostalgic', 'oldies', '复古', '怀旧'],
+    '未来感': ['futuristic', 'cyber', 'synthwave', 'space', '未来'],
+    '深夜陪伴': ['night', 'lonely', 'ambient', 'lo-fi', 'lofi', 'dreamy', '深夜', '夜晚']
+};
+
 let usedGenres: UsedGenreEntry[] = [];
 let initialized = false;
 
@@ -164,6 +186,56 @@ export function getGenrePromptSection(suggestions: string[] = getGenreSuggestion
     ].join('\n');
 }
 
+/**
+ * 按关键词将自由文本（如曲库流派 / 氛围标签）匹配到某一维度的轮盘选项
+ */
+export function matchGenreOption(dimensionName: string, text: string): string | null {
+    const dimension = GENRE_DIMENSIONS.find(item => item.name === dimensionName);
+    const normalized = text.toLowerCase();
+    if (!dimension || !normalized) return null;
+
+    return dimension.options.find(option =>
+        normalized.includes(option.toLowerCase())
+        || option.toLowerCase().split('/').some(part => normalized.includes(part))
+        || (OPTION_KEYWORDS[option] ?? []).some(keyword => normalized.includes(keyword))
+    ) ?? null;
+}
+
+/**
+ * 年份对应的年代选项
+ */
+export function getDecadeOption(year: number): string | null {
+    if (year >= 2020) return '2020+';
+    if (year >= 2000) return `${String(Math.floor((year - 2000) / 10) * 10).padStart(2, '0')}年代`;
+    if (year >= 1960) return `${Math.floor((year - 1900) / 10) * 10}年代`;
+    return null;
+}
+
+/**
+ * 解析曲风提示（"流派:摇滚/Rock｜年代:90年代" 或 "90年代｜欧美｜摇滚"）为 维度名 -> 选项
+ */
+export function parseGenreHint(hint: string): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    for (const part of hint.split(/[｜|,，]/)) {
+        const value = part.replace(/^[^:：]*[:：]/, '').trim();
+        if (!value) continue;
+
+        for (const dimension of GENRE_DIMENSIONS) {
+            if (result[dimension.name]) continue;
+            const option = dimension.name === '年代'
+                ? dimension.options.find(item => item === value || item.startsWith(value.replace(/年代$/, '')))
+                : matchGenreOption(dimension.name, value);
+            if (option) {
+                result[dimension.name] = option;
+                break;
+            }
+        }
+    }
+
+    return result;
+}
+
 export function clearGenreHistory(): void {
     ensureInitialized();
     usedGenres = [];
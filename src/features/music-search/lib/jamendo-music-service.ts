@@ -0,0 +1,108 @@
+/**
+ * Jamendo Music Service - Jamendo 免版税音乐来源
+ * API Documentation: https://developer.jamendo.com/v3.0
+ *
+ * 需要在设置中填写 client_id（免费注册）
+ */
+
+import { getSettings } from '@shared/services/storage-service/settings';
+import { MUSIC_SERVICE } from '@shared/utils/constants';
+import { IGDLyrics, IGDMusicTrack } from './gd-music-service';
+import type { MusicProvider } from './music-provider';
+
+export const JAMENDO_SOURCE = 'jamendo';
+
+interface JamendoTrack {
+    id: string;
+    name: string;
+    artist_name: string;
+    album_name: string;
+    album_id: string;
+    audio: string;
+    image?: string;
+    lyrics?: string;
+}
+
+interface JamendoResponse {
+    headers: { status: string; error_message?: string };
+    results: JamendoTrack[];
+}
+
+// 搜索结果中的音频与封面地址，避免播放时重复请求
+const trackCache = new Map<string, JamendoTrack>();
+
+// ================== API Functions ==================
+
+async function requestTracks(params: Record<string, string>): Promise<JamendoTrack[]> {
+    const query = new URLSearchParams({
+        client_id: getSettings().jamendoClientId,
+        format: 'json',
+        audioformat: 'mp32',
+        ...params
+    });
+
+    const response = await fetch(`${MUSIC_SERVICE.JAMENDO_API_URL}/tracks/?${query.toString()}`);
+    if (!response.ok) {
+        throw new Error(`Jamendo API error: ${response.status}`);
+    }
+
+    const data: JamendoResponse = await response.json();
+    if (data.headers.status !== 'success') {
+        throw new Error(`Jamendo API error: ${data.headers.error_message || data.headers.status}`);
+    }
+
+    for (const track of data.results) {
+        trackCache.set(track.id, track);
+    }
+    return data.results;
+}
+
+async function getTrack(trackId: string, withLyrics = false): Promise<JamendoTrack | null> {
+    const cached = trackCache.get(trackId);
+    if (cached && (!withLyrics || cached.lyrics !== undefined)) return cached;
+
+    const [track] = await requestTracks({ id: trackId, ...(withLyrics ? { include: 'lyrics' } : {}) });
+    return track ?? null;
+}
+
+function toTrack(track: JamendoTrack): IGDMusicTrack {
+    return {
+        id: track.id,
+        name: track.name,
+        artist: [track.artist_name],
+        album: track.album_name,
+        picId: track.id,
+        lyricId: track.id,
+        source: JAMENDO_SOURCE
+    };
+}
+
+/**
+ * 搜索 Jamendo 曲目（匹配歌名、歌手、专辑与标签）
+ */
+export async function searchJamendo(keyword: string, count: number = 10): Promise<IGDMusicTrack[]> {
+    const tracks = await requestTracks({ search: keyword, limit: String(count) });
+    return tracks.map(toTrack);
+}
+
+// ================== Provider ==================
+
+export const jamendoProvider: MusicProvider = {
+    id: 'jamendo',
+    label: 'Jamendo',
+    handles: (source) => source === JAMENDO_SOURCE,
+    isConfigured: () => Boolean(getSettings().jamendoClientId),
+    search: searchJamendo,
+    searchPlayable: async (keyword, maxResults) => {
+        const tracks = await requestTracks({ search: keyword, limit: String(maxResults) });
+        return tracks
+            .filter(track => track.audio)
+            .map(track => ({ track: toTrack(track), url: track.audio }));
+    },
+    getUrl: async (trackId) => (await getTrack(trackId))?.audio || null,
+    getLyrics: async (lyricId): Promise<IGDLyrics | null> => {
+        const lyrics = (await getTrack(lyricId, true))?.lyrics;
+        return lyrics ? { lyric: lyrics } : null;
+    },
+    getArtwork: async (picId) => (await getTrack(picId))?.image || null
+};
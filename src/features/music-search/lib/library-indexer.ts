@@ -0,0 +1,301 @@
+/**
+ * Library Indexer - 本地曲库索引（仅服务端）
+ * 扫描 MUSIC_LIBRARY_DIR 下的音频文件，读取 ID3 / Vorbis / MP4 标签、时长与内嵌或同名 .lrc 歌词；
+ * 缺少标签时从目录结构与文件名推断（"歌手/专辑/01 歌名.mp3" 或 "歌手 - 歌名.mp3"）
+ * 每首曲目按 GENRE_DIMENSIONS 归入流派 / 年代 / 文化 / 氛围，可按维度检索
+ */
+
+import { createHash } from 'crypto';
+import { readdir, readFile, stat } from 'fs/promises';
+import path from 'path';
+import { MUSIC_LIBRARY } from '@shared/utils/constants';
+import { IGDLyrics, IGDMusicTrack } from './gd-music-service';
+import { LIBRARY_SOURCE } from './library-music-service';
+import { readAudioTags } from './audio-tags';
+import { getDecadeOption, matchGenreOption, parseGenreHint } from './genre-wheel';
+import { parseLRC } from './lyrics-parser';
+
+// ================== Types ==================
+
+export interface LibraryEntry {
+    id: string;
+    filePath: string;
+    name: string;
+    artist: string[];
+    album: string;
+    genre: string;
+    year?: number;
+    mood: string;
+    duration?: number;           // 时长（秒）
+    lyrics: string | null;       // 内嵌歌词
+    lrcPath: string | null;      // 同名 .lrc 文件
+    dimensions: Record<string, string>;  // GENRE_DIMENSIONS 维度名 -> 选项
+    size: number;
+    mtimeMs: number;
+}
+
+export interface LibrarySearchOptions {
+    artist?: string;
+    genre?: string;
+    decade?: string;
+    culture?: string;
+    mood?: string;
+    genreHint?: string;          // writer 的 genre_hint，解析为上述维度
+}
+
+const AUDIO_TYPES: Record<string, string> = {
+    '.mp3': 'audio/mpeg',
+    '.flac': 'audio/flac',
+    '.ogg': 'audio/ogg',
+    '.oga': 'audio/ogg',
+    '.opus': 'audio/opus',
+    '.m4a': 'audio/mp4',
+    '.wav': 'audio/wav'
+};
+
+let index: Map<string, LibraryEntry> | null = null;
+let indexedAt = 0;
+let scanning: Promise<Map<string, LibraryEntry>> | null = null;
+
+// ================== Paths ==================
+
+export function getLibraryDir(): string {
+    return process.env.MUSIC_LIBRARY_DIR || path.join(process.cwd(), '.data', 'music');
+}
+
+export function getAudioType(filePath: string): string {
+    return AUDIO_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+// ================== Scanning ==================
+
+/**
+ * 递归列出目录下的音频文件与 .lrc 文件（目录不存在时返回空列表）
+ */
+async function listFiles(dir: string, audio: string[], lrc: Set<string>): Promise<void> {
+    let entries;
+    try {
+        entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+        return;
+    }
+
+    for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const fullPath = path.join(dir, entry.name);
+        const extension = path.extname(entry.name).toLowerCase();
+        if (entry.isDirectory()) {
+            await listFiles(fullPath, audio, lrc);
+        } else if (MUSIC_LIBRARY.AUDIO_EXTENSIONS.includes(extension)) {
+            audio.push(fullPath);
+        } else if (extension === '.lrc') {
+            lrc.add(fullPath);
+        }
+    }
+}
+
+/**
+ * 从相对路径推断曲目信息（标签缺失时的兜底）
+ */
+function describeFile(relativePath: string): Pick<LibraryEntry, 'name' | 'artist' | 'album'> {
+    const parts = relativePath.split(path.sep);
+    const baseName = path.basename(relativePath, path.extname(relativePath))
+        .replace(/^\d{1,3}[\s.\-_]+/, '')   // 去掉音轨序号
+        .trim();
+
+    const dashed = baseName.split(/\s+-\s+/);
+    if (dashed.length >= 2) {
+        return {
+            artist: dashed[0].split(/\s*[,&、]\s*/).filter(Boolean),
+            name: dashed.slice(1).join(' - '),
+            album: parts.length >= 2 ? parts[parts.length - 2] : ''
+        };
+    }
+
+    return {
+        name: baseName,
+        artist: parts.length >= 2 ? [parts[0]] : [],
+        album: parts.length >= 3 ? parts[parts.length - 2] : ''
+    };
+}
+
+/**
+ * 按歌名 / 歌手的文字推断文化维度（标签无法判断时使用）
+ */
+function guessCulture(text: string): string | null {
+    if (/[぀-ヿ가-힯]/.test(text)) return '日韩';
+    if (/[一-鿿]/.test(text)) return '华语';
+    if (/[a-z]/i.test(text)) return '欧美';
+    return null;
+}
+
+/**
+ * 将曲目归入 GENRE_DIMENSIONS 的各维度
+ */
+function classify(entry: Omit<LibraryEntry, 'dimensions'>): Record<string, string> {
+    const dimensions: Record<string, string> = {};
+    const style = matchGenreOption('流派', entry.genre);
+    const decade = entry.year ? getDecadeOption(entry.year) : null;
+    const culture = matchGenreOption('文化', entry.genre) ?? guessCulture(`${entry.name} ${entry.artist.join(' ')}`);
+    const mood = matchGenreOption('氛围', `${entry.mood} ${entry.genre}`);
+
+    if (style) dimensions['流派'] = style;
+    if (decade) dimensions['年代'] = decade;
+    if (culture) dimensions['文化'] = culture;
+    if (mood) dimensions['氛围'] = mood;
+    return dimensions;
+}
+
+async function indexFile(
+    root: string,
+    filePath: string,
+    lrcFiles: Set<string>,
+    previous: Map<string, LibraryEntry> | null
+): Promise<LibraryEntry> {
+    const relativePath = path.relative(root, filePath);
+    const id = createHash('sha1').update(relativePath).digest('hex').slice(0, 16);
+    const { size, mtimeMs } = await stat(filePath);
+
+    // 文件未变化时复用上次的标签，避免重复读取
+    const lrcPath = path.join(path.dirname(filePath), `${path.basename(filePath, path.extname(filePath))}.lrc`);
+    const cached = previous?.get(id);
+    if (cached && cached.size === size && cached.mtimeMs === mtimeMs) {
+        return { ...cached, lrcPath: lrcFiles.has(lrcPath) ? lrcPath : null };
+    }
+
+    const tags = await readAudioTags(filePath, size);
+    const fallback = describeFile(relativePath);
+
+    // 标签缺失时，同名 LRC 的 [ti] / [ar] 也可补全歌名与歌手
+    let lrcMeta: { title?: string; artist?: string } | undefined;
+    if (lrcFiles.has(lrcPath) && (!tags.title || !tags.artist?.length)) {
+        lrcMeta = parseLRC(await readFile(lrcPath, 'utf8')).metadata;
+    }
+
+    const entry = {
+        id,
+        filePath,
+        name: tags.title || lrcMeta?.title || fallback.name,
+        artist: tags.artist?.length ? tags.artist : lrcMeta?.artist ? [lrcMeta.artist] : fallback.artist,
+        album: tags.album || fallback.album,
+        genre: tags.genre || '',
+        year: tags.year,
+        mood: tags.mood || '',
+        duration: tags.duration ? Math.round(tags.duration) : undefined,
+        lyrics: tags.lyrics || null,
+        lrcPath: lrcFiles.has(lrcPath) ? lrcPath : null,
+        size,
+        mtimeMs
+    };
+
+    return { ...entry, dimensions: classify(entry) };
+}
+
+async function scanLibrary(): Promise<Map<string, LibraryEntry>> {
+    const root = getLibraryDir();
+    const audioFiles: string[] = [];
+    const lrcFiles = new Set<string>();
+    await listFiles(root, audioFiles, lrcFiles);
+
+    const entries = new Map<string, LibraryEntry>();
+    for (const filePath of audioFiles) {
+        try {
+            const entry = await indexFile(root, filePath, lrcFiles, index);
+            entries.set(entry.id, entry);
+        } catch (error) {
+            console.warn(`[MusicLibrary] Failed to index ${filePath}:`, error);
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * 获取曲库索引（缓存 INDEX_TTL_MS，force 时重新扫描）
+ */
+export async function getLibraryIndex(force = false): Promise<Map<string, LibraryEntry>> {
+    if (!force && index && Date.now() - indexedAt < MUSIC_LIBRARY.INDEX_TTL_MS) {
+        return index;
+    }
+    if (scanning) return scanning;
+
+    scanning = scanLibrary().then(entries => {
+        index = entries;
+        indexedAt = Date.now();
+        return entries;
+    }).finally(() => {
+        scanning = null;
+    });
+
+    return scanning;
+}
+
+// ================== Lyrics ==================
+
+/**
+ * 读取曲目歌词：同名 .lrc 优先（通常带时间轴），其次为内嵌歌词
+ */
+export async function getLibraryLyrics(id: string): Promise<IGDLyrics | null> {
+    const entry = (await getLibraryIndex()).get(id);
+    if (!entry) return null;
+
+    if (entry.lrcPath) {
+        const lyric = await readFile(entry.lrcPath, 'utf8').catch(() => '');
+        if (lyric.trim()) return { lyric };
+    }
+    return entry.lyrics ? { lyric: entry.lyrics } : null;
+}
+
+// ================== Search ==================
+
+export function toTrack(entry: LibraryEntry): IGDMusicTrack {
+    return {
+        id: entry.id,
+        name: entry.name,
+        artist: entry.artist,
+        album: entry.album,
+        picId: '',
+        lyricId: entry.lrcPath || entry.lyrics ? entry.id : '',
+        source: LIBRARY_SOURCE,
+        duration: entry.duration
+    };
+}
+
+/**
+ * 搜索曲库
+ * 关键词按空白拆分，命中歌名 / 歌手 / 专辑 / 流派 / 维度的词越多排名越前；
+ * artist 与维度条件为硬过滤，genreHint 中的维度只参与排序
+ */
+export async function searchLibraryIndex(
+    keyword: string,
+    count: number,
+    options: LibrarySearchOptions = {}
+): Promise<IGDMusicTrack[]> {
+    const terms = keyword.toLowerCase().split(/\s+/).filter(Boolean);
+    const filters: Record<string, string | undefined> = {
+        '流派': options.genre && (matchGenreOption('流派', options.genre) ?? options.genre),
+        '年代': options.decade && (parseGenreHint(options.decade)['年代'] ?? options.decade),
+        '文化': options.culture && (matchGenreOption('文化', options.culture) ?? options.culture),
+        '氛围': options.mood && (matchGenreOption('氛围', options.mood) ?? options.mood)
+    };
+    const hinted = options.genreHint ? parseGenreHint(options.genreHint) : {};
+    const artist = options.artist?.toLowerCase();
+
+    const scored = Array.from((await getLibraryIndex()).values())
+        .filter(entry =>
+            (!artist || entry.artist.some(name => name.toLowerCase().includes(artist)))
+            && Object.entries(filters).every(([dimension, value]) => !value || entry.dimensions[dimension] === value)
+        )
+        .map(entry => {
+            const haystack = [entry.name, ...entry.artist, entry.album, entry.genre, entry.mood, ...Object.values(entry.dimensions)]
+                .join(' ')
+                .toLowerCase();
+            const termScore = terms.filter(term => haystack.includes(term)).length * 2;
+            const hintScore = Object.entries(hinted).filter(([dimension, value]) => entry.dimensions[dimension] === value).length;
+            return { entry, score: termScore + hintScore };
+        })
+        .filter(item => item.score > 0 || (terms.length === 0 && Object.keys(hinted).length === 0))
+        .sort((a, b) => b.score - a.score);
+
+    return scored.slice(0, count).map(item => toTrack(item.entry));
+}
@@ -0,0 +1,61 @@
+/**
+ * Library Music Service - 本地曲库音乐来源
+ * 曲库由服务端扫描 MUSIC_LIBRARY_DIR 目录建立索引，通过 /api/music-library 搜索、播放与读取歌词
+ */
+
+import { getAppUrl } from '@shared/services/ai-service';
+import { IGDLyrics, IGDMusicTrack } from './gd-music-service';
+import type { MusicProvider } from './music-provider';
+
+export const LIBRARY_SOURCE = 'library';
+
+interface LibrarySearchResponse {
+    tracks?: IGDMusicTrack[];
+    error?: string;
+}
+
+// ================== API Functions ==================
+
+/**
+ * 搜索本地曲库（匹配歌名、歌手、专辑与流派，genreHint 中的维度参与排序）
+ */
+export async function searchLibrary(keyword: string, count: number = 10, genreHint?: string): Promise<IGDMusicTrack[]> {
+    const params = new URLSearchParams({ q: keyword, count: String(count) });
+    if (genreHint) params.set('hint', genreHint);
+    const response = await fetch(getAppUrl(`/api/music-library?${params.toString()}`));
+    if (!response.ok) {
+        throw new Error(`Music library error: ${response.status}`);
+    }
+
+    const data: LibrarySearchResponse = await response.json();
+    return data.tracks ?? [];
+}
+
+/**
+ * 曲库音频地址（服务端按 ID 流式返回文件，无需额外请求）
+ */
+export function getLibraryTrackUrl(trackId: string): string {
+    return getAppUrl(`/api/music-library/${encodeURIComponent(trackId)}`);
+}
+
+// ================== Provider ==================
+
+export const libraryProvider: MusicProvider = {
+    id: 'library',
+    label: '本地曲库',
+    handles: (source) => source === LIBRARY_SOURCE,
+    isConfigured: () => true,
+    search: searchLibrary,
+    searchPlayable: async (keyword, maxResults, genreHint) => {
+        const tracks = await searchLibrary(keyword, maxResults, genreHint);
+        return tracks.map(track => ({ track, url: getLibraryTrackUrl(track.id) }));
+    },
+    getUrl: async (trackId) => getLibraryTrackUrl(trackId),
+    getLyrics: async (lyricId): Promise<IGDLyrics | null> => {
+        if (!lyricId) return null;
+        const response = await fetch(getAppUrl(`/api/music-library/${encodeURIComponent(lyricId)}/lyrics`));
+        if (!response.ok) return null;
+        return response.json();
+    },
+    getArtwork: async () => null
+};
@@ -38,12 +38,15 @@ export function parseLRC(lrcString: string): ParsedLyrics {
     const lines: LyricLine[] = [];
     const metadata: ParsedLyrics['metadata'] = {};
 
-    // LRC timestamp regex: [mm:ss.xx] or [mm:ss:xx] or [mm:ss]
-    const timeRegex = /\[(\d{1,2}):(\d{2})(?:[.:](\d{1,3}))?\]/g;
+    // LRC timestamp regex: [mm:ss.xx] or [mm:ss:xx] or [mm:ss] (minutes may exceed 99)
+    const timeRegex = /\[(\d{1,3}):(\d{2})(?:[.:](\d{1,3}))?\]/g;
+    // Enhanced LRC word timestamps: <mm:ss.xx>
+    const wordTimeRegex = /<\d{1,3}:\d{2}(?:[.:]\d{1,3})?>/g;
     // Metadata regex: [tag:value]
     const metaRegex = /\[(ti|ar|al|offset):([^\]]+)\]/gi;
 
-    const rawLines = lrcString.split('\n');
+    // Sidecar .lrc files often carry a BOM and CRLF line endings
+    const rawLines = lrcString.replace(/^\uFEFF/, '').split(/\r?\n/);
 
     for (const line of rawLines) {
         const trimmedLine = line.trim();
@@ -80,7 +83,7 @@ export function parseLRC(lrcString: string): ParsedLyrics {
         timeRegex.lastIndex = 0;
 
         // Get the text after all timestamps
-        const text = trimmedLine.slice(lastIndex).trim();
+        const text = trimmedLine.slice(lastIndex).replace(wordTimeRegex, '').trim();
 
         // Add a line entry for each timestamp (handles multiple timestamps per line)
         for (const time of timestamps) {
@@ -90,6 +93,13 @@ export function parseLRC(lrcString: string): ParsedLyrics {
         }
     }
 
+    // Positive [offset] means lyrics should appear earlier
+    if (metadata.offset) {
+        for (const line of lines) {
+            line.time = Math.max(0, line.time - metadata.offset);
+        }
+    }
+
     // Sort by time
     lines.sort((a, b) => a.time - b.time);
 
@@ -0,0 +1,157 @@
+/**
+ * Music Provider - 音乐来源抽象
+ * 统一搜索、播放地址、歌词与封面接口；GD Studio、本地曲库与 Jamendo 各为一种实现
+ * 来源顺序可按节目类型在设置中配置，前一个来源搜不到时依次尝试
+ * priority 用于有限额的来源排队（当前播放 > 预备下一段 > 编剧搜索），其余来源忽略
+ */
+
+import { getSettings, MusicProviderId } from '@shared/services/storage-service/settings';
+import { radioMonitor } from '@shared/services/monitor-service';
+import { MUSIC_SERVICE } from '@shared/utils/constants';
+import { IGDLyrics, IGDMusicTrack, gdStudioProvider } from './gd-music-service';
+import type { MusicRequestPriority } from './music-request-scheduler';
+import { libraryProvider } from './library-music-service';
+import { jamendoProvider } from './jamendo-music-service';
+
+// ================== Interfaces ==================
+
+export interface MusicProvider {
+    id: MusicProviderId;
+    label: string;
+    /** 是否处理该 source 的曲目（曲目的 source 字段决定由哪个来源解析地址与歌词） */
+    handles(source: string): boolean;
+    /** 来源是否已配置可用（如 Jamendo 需要 client_id） */
+    isConfigured(): boolean;
+    search(keyword: string, count: number, priority?: MusicRequestPriority): Promise<IGDMusicTrack[]>;
+    /** 搜索并只返回确认可播放的曲目（genreHint 为 writer 的曲风提示，支持按维度检索的来源用于排序） */
+    searchPlayable(
+        keyword: string,
+        maxResults: number,
+        genreHint?: string,
+        priority?: MusicRequestPriority
+    ): Promise<{ track: IGDMusicTrack; url: string }[]>;
+    getUrl(trackId: string, source: string, priority?: MusicRequestPriority): Promise<string | null>;
+    getLyrics(lyricId: string, source: string, priority?: MusicRequestPriority): Promise<IGDLyrics | null>;
+    getArtwork(picId: string, size: 300 | 500, source: string, priority?: MusicRequestPriority): Promise<string | null>;
+}
+
+// ================== Registry ==================
+
+const PROVIDERS: Record<MusicProviderId, MusicProvider> = {
+    gdstudio: gdStudioProvider,
+    library: libraryProvider,
+    jamendo: jamendoProvider
+};
+
+export const MUSIC_PROVIDER_LABELS: Record<MusicProviderId, string> = {
+    gdstudio: gdStudioProvider.label,
+    library: libraryProvider.label,
+    jamendo: jamendoProvider.label
+};
+
+/**
+ * 获取节目类型对应的来源顺序（未单独配置时使用默认顺序，仅保留已配置可用的来源）
+ */
+export function getMusicProviders(showType?: string): MusicProvider[] {
+    const settings = getSettings();
+    const order = (showType && settings.musicProvidersByShow[showType]?.length)
+        ? settings.musicProvidersByShow[showType]!
+        : settings.musicProviders;
+
+    const providers = order
+        .map(id => PROVIDERS[id])
+        .filter(provider => provider && provider.isConfigured());
+
+    return providers.length > 0 ? providers : [gdStudioProvider];
+}
+
+/**
+ * 根据曲目 source 找到负责解析的来源（未知 source 视为 GD Studio 的音乐源）
+ */
+function getProviderForSource(source: string): MusicProvider {
+    return Object.values(PROVIDERS).find(provider => provider.handles(source)) ?? gdStudioProvider;
+}
+
+// ================== Public API ==================
+
+/**
+ * 按来源顺序搜索，返回第一个有结果的来源的曲目
+ */
+export async function searchTracks(
+    keyword: string,
+    count: number = MUSIC_SERVICE.DEFAULT_SEARCH_COUNT,
+    showType?: string,
+    priority: MusicRequestPriority = 'next'
+): Promise<IGDMusicTrack[]> {
+    for (const provider of getMusicProviders(showType)) {
+        try {
+            const tracks = await provider.search(keyword, count, priority);
+            if (tracks.length > 0) return tracks;
+        } catch (error) {
+            radioMonitor.log('DIRECTOR', `${provider.label} search failed: ${error}`, 'warn');
+        }
+    }
+    return [];
+}
+
+/**
+ * 按来源顺序搜索可播放曲目，凑满 maxResults 为止
+ */
+export async function searchPlayableTracks(
+    keyword: string,
+    maxResults: number = 5,
+    showType?: string,
+    genreHint?: string,
+    priority: MusicRequestPriority = 'explore'
+): Promise<{ track: IGDMusicTrack; url: string }[]> {
+    const results: { track: IGDMusicTrack; url: string }[] = [];
+
+    for (const provider of getMusicProviders(showType)) {
+        if (results.length >= maxResults) break;
+        try {
+            results.push(...await provider.searchPlayable(keyword, maxResults - results.length, genreHint, priority));
+        } catch (error) {
+            radioMonitor.log('WRITER', `${provider.label} search failed: ${error}`, 'warn');
+        }
+    }
+
+    return results;
+}
+
+export function getTrackUrl(
+    trackId: string,
+    source: string,
+    priority: MusicRequestPriority = 'next'
+): Promise<string | null> {
+    return getProviderForSource(source).getUrl(trackId, source, priority);
+}
+
+export function getTrackLyrics(
+    lyricId: string,
+    source: string,
+    priority: MusicRequestPriority = 'next'
+): Promise<IGDLyrics | null> {
+    return getProviderForSource(source).getLyrics(lyricId, source, priority);
+}
+
+export function getTrackArtwork(
+    picId: string,
+    size: 300 | 500,
+    source: string,
+    priority: MusicRequestPriority = 'next'
+): Promise<string | null> {
+    return getProviderForSource(source).getArtwork(picId, size, source, priority);
+}
+
+/**
+ * 随机选取一首曲目（过渡音乐、暖场等）
+ */
+export async function getRandomTrack(
+    keyword: string,
+    showType?: string,
+    priority: MusicRequestPriority = 'next'
+): Promise<IGDMusicTrack | null> {
+    const tracks = await searchTracks(keyword, 20, showType, priority);
+    if (tracks.length === 0) return null;
+    return tracks[Math.floor(Math.random() * tracks.length)];
+}
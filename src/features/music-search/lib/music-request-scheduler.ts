@@ -0,0 +1,212 @@
+/**
+ * Music Request Scheduler - 音乐接口限流调度
+ * GD Studio 限额为每 5 分钟 50 次请求；用令牌桶匀速补充，按优先级排队：
+ * 当前播放 > 预备下一段 > 编剧搜索。低优先级请求只能使用预留额度以外的令牌，
+ * 相同的请求在完成前只发送一次
+ */
+
+import { radioMonitor } from '@shared/services/monitor-service';
+import { MUSIC_RATE_LIMIT } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+export type MusicRequestPriority = 'playing' | 'next' | 'explore';
+
+export interface MusicRequestBudget {
+    remaining: number;
+    capacity: number;
+    queued: number;
+    low: boolean;
+}
+
+interface QueuedRequest {
+    key: string;
+    priority: MusicRequestPriority;
+    seq: number;
+    enqueuedAt: number;
+    start: () => void;
+    fail: (error: Error) => void;
+}
+
+const PRIORITY_RANK: Record<MusicRequestPriority, number> = {
+    playing: 0,
+    next: 1,
+    explore: 2
+};
+
+// 各优先级发起请求后至少要留下的令牌数
+const RESERVE: Record<MusicRequestPriority, number> = {
+    playing: 0,
+    next: MUSIC_RATE_LIMIT.NEXT_RESERVE,
+    explore: MUSIC_RATE_LIMIT.EXPLORE_RESERVE
+};
+
+const REFILL_MS_PER_TOKEN = MUSIC_RATE_LIMIT.WINDOW_MS / MUSIC_RATE_LIMIT.CAPACITY;
+
+// ================== Scheduler ==================
+
+class MusicRequestScheduler {
+    private tokens: number = MUSIC_RATE_LIMIT.CAPACITY;
+    private lastRefill = Date.now();
+    private queue: QueuedRequest[] = [];
+    private inFlight = new Map<string, Promise<unknown>>();
+    private seq = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private timerAt = 0;
+
+    /**
+     * 排队执行请求
+     * @param key 去重键（通常为请求 URL），相同键的请求共享结果
+     */
+    schedule<T>(key: string, priority: MusicRequestPriority, call: () => Promise<T>): Promise<T> {
+        const existing = this.inFlight.get(key);
+        if (existing) {
+            this.promote(key, priority);
+            return existing as Promise<T>;
+        }
+
+        const promise = new Promise<T>((resolve, reject) => {
+            this.queue.push({
+                key,
+                priority,
+                seq: this.seq++,
+                enqueuedAt: Date.now(),
+                start: () => {
+                    call().then(resolve, reject);
+                },
+                fail: reject
+            });
+        }).finally(() => {
+            this.inFlight.delete(key);
+        });
+
+        this.inFlight.set(key, promise);
+        this.drain();
+        return promise;
+    }
+
+    /**
+     * 服务端返回 429 时清空令牌，等待补充
+     */
+    exhaust(): void {
+        this.refill();
+        if (this.tokens > 0) {
+            radioMonitor.log('DIRECTOR', 'Music API rate limited by server, pausing requests', 'warn');
+        }
+        this.tokens = 0;
+        this.drain();
+    }
+
+    getBudget(): MusicRequestBudget {
+        this.refill();
+        const remaining = Math.floor(this.tokens);
+        return {
+            remaining,
+            capacity: MUSIC_RATE_LIMIT.CAPACITY,
+            queued: this.queue.length,
+            low: remaining < MUSIC_RATE_LIMIT.LOW_BUDGET
+        };
+    }
+
+    isLow(): boolean {
+        return this.getBudget().low;
+    }
+
+    // ================== Internals ==================
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(
+            MUSIC_RATE_LIMIT.CAPACITY,
+            this.tokens + (now - this.lastRefill) / REFILL_MS_PER_TOKEN
+        );
+        this.lastRefill = now;
+    }
+
+    /**
+     * 高优先级调用方复用低优先级的排队请求时，提升其优先级
+     */
+    private promote(key: string, priority: MusicRequestPriority): void {
+        const queued = this.queue.find(item => item.key === key);
+        if (queued && PRIORITY_RANK[priority] < PRIORITY_RANK[queued.priority]) {
+            queued.priority = priority;
+            this.drain();
+        }
+    }
+
+    private drain(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        this.refill();
+        this.expireExplore();
+        this.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.seq - b.seq);
+
+        while (this.queue.length > 0) {
+            const head = this.queue[0];
+            // 预留额度随优先级递增，队首无法发出时后面的请求也无法发出
+            const needed = 1 + RESERVE[head.priority];
+            if (this.tokens < needed) {
+                this.scheduleDrain((needed - this.tokens) * REFILL_MS_PER_TOKEN);
+                return;
+            }
+
+            this.queue.shift();
+            this.tokens -= 1;
+            head.start();
+        }
+    }
+
+    /**
+     * 编剧搜索等待过久时直接失败，让编剧改用已有结果
+     */
+    private expireExplore(): void {
+        const now = Date.now();
+        this.queue = this.queue.filter(item => {
+            if (item.priority !== 'explore' || now - item.enqueuedAt < MUSIC_RATE_LIMIT.EXPLORE_MAX_WAIT_MS) {
+                return true;
+            }
+            item.fail(new Error('Music API quota low, search skipped'));
+            return false;
+        });
+
+        const oldestExplore = this.queue.find(item => item.priority === 'explore');
+        if (oldestExplore) {
+            this.scheduleDrain(oldestExplore.enqueuedAt + MUSIC_RATE_LIMIT.EXPLORE_MAX_WAIT_MS - now);
+        }
+    }
+
+    /**
+     * 安排下一次出队（已有更早的安排时保留）
+     */
+    private scheduleDrain(delayMs: number): void {
+        const at = Date.now() + Math.max(0, Math.ceil(delayMs));
+        if (this.timer) {
+            if (this.timerAt <= at) return;
+            clearTimeout(this.timer);
+        }
+        this.timerAt = at;
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.drain();
+        }, at - Date.now());
+    }
+}
+
+// ================== Prompt ==================
+
+/**
+ * 编剧提示中的接口额度说明（额度偏低时要求减少搜索）
+ */
+export function getMusicBudgetPromptSection(): string {
+    const budget = musicRequestScheduler.getBudget();
+    const advice = budget.low
+        ? '额度偏低：每首歌最多调用一次 search_music，优先使用已搜到的结果，尽量少调用 get_lyrics。'
+        : '额度充足，正常搜索即可。';
+    return `## 🎚️ 音乐接口额度\n剩余约 ${budget.remaining}/${budget.capacity} 次请求（每 5 分钟补满）。${advice}`;
+}
+
+// 单例导出
+export const musicRequestScheduler = new MusicRequestScheduler();
@@ -0,0 +1,107 @@
+/**
+ * Song Structure - 按歌词时间轴定位曲目段落
+ * 副歌取歌词中重复出现的连续段落（至少两行），final_chorus 为该段落最后一次出现；
+ * 主歌取第一句演唱歌词，前奏即曲目开头
+ */
+
+import { MusicSegment } from '@shared/types/radio-core';
+import { LyricLine, parseLRC } from './lyrics-parser';
+
+/** 副歌至少连续重复的行数 */
+const MIN_CHORUS_LINES = 2;
+
+/** 制作人员信息行（如 “作词 : 某某”），不参与段落匹配 */
+const CREDIT_LINE = /^(作词|作曲|编曲|制作人?|监制|演唱|原唱|词|曲|混音|母带|和声|吉他|贝斯|鼓|弦乐|录音|出品|发行|OP|SP|lyricist|lyrics|composer|arranger|producer)\s*[:：]/i;
+
+interface RepeatedSection {
+    starts: number[];       // 每次出现的起始行下标（升序）
+    length: number;         // 段落行数
+}
+
+/**
+ * 归一化歌词行（忽略大小写、空白与标点，便于识别重复）
+ */
+function normalizeLine(text: string): string {
+    return text.toLowerCase().replace(/[\s'"`~!?,.;:()[\]\-—…·、，。！？：；（）【】「」『』《》～]/g, '');
+}
+
+/**
+ * 提取演唱歌词行（跳过制作人员信息与纯符号行）
+ */
+function getSungLines(lrc: string): LyricLine[] {
+    return parseLRC(lrc).lines.filter(line =>
+        !CREDIT_LINE.test(line.text) && normalizeLine(line.text).length > 0
+    );
+}
+
+/**
+ * 统计段落 [start, start + length) 不重叠出现的位置
+ */
+function findOccurrences(keys: string[], start: number, length: number): number[] {
+    const starts: number[] = [];
+    for (let i = 0; i + length <= keys.length; i++) {
+        let matched = true;
+        for (let k = 0; k < length; k++) {
+            if (keys[i + k] !== keys[start + k]) {
+                matched = false;
+                break;
+            }
+        }
+        if (matched) {
+            starts.push(i);
+            i += length - 1;
+        }
+    }
+    return starts;
+}
+
+/**
+ * 找出副歌：重复次数 × 行数最大的连续段落，分数相同时取出现较早的
+ */
+function findChorus(keys: string[]): RepeatedSection | null {
+    let best: RepeatedSection | null = null;
+    let bestScore = 0;
+    const checked = new Set<string>();
+
+    for (let i = 0; i < keys.length; i++) {
+        for (let j = i + 1; j < keys.length; j++) {
+            let length = 0;
+            while (j + length < keys.length && i + length < j && keys[i + length] === keys[j + length]) {
+                length++;
+            }
+            if (length < MIN_CHORUS_LINES || checked.has(`${i}:${length}`)) continue;
+            checked.add(`${i}:${length}`);
+
+            const starts = findOccurrences(keys, i, length);
+            const score = starts.length * length;
+            if (starts.length >= 2 && (score > bestScore || (score === bestScore && best && starts[0] < best.starts[0]))) {
+                best = { starts, length };
+                bestScore = score;
+            }
+        }
+    }
+
+    return best;
+}
+
+/**
+ * 定位段落起始时间（秒），歌词不足以判断时返回 null
+ */
+export function findSegmentStart(lrc: string, segment: MusicSegment): number | null {
+    if (segment === 'intro') return 0;
+
+    const lines = getSungLines(lrc);
+    if (lines.length === 0) return null;
+
+    if (segment === 'verse') {
+        return lines[0].time / 1000;
+    }
+
+    const chorus = findChorus(lines.map(line => normalizeLine(line.text)));
+    if (!chorus) return null;
+
+    const start = segment === 'final_chorus'
+        ? chorus.starts[chorus.starts.length - 1]
+        : chorus.starts[0];
+    return lines[start].time / 1000;
+}
@@ -0,0 +1,173 @@
+/**
+ * Feed Parser - RSS 2.0 / Atom / JSON Feed 解析
+ * 浏览器与服务端（广播模式）通用，不依赖 DOMParser；
+ * 三种格式统一为 NewsItem（标题、摘要、链接、发布时间、分类）
+ */
+
+import { NEWS_SERVICE } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+export interface NewsItem {
+    title: string;
+    summary: string;
+    link?: string;
+    publishedAt?: number;        // 发布时间（毫秒时间戳）
+    categories: string[];
+    source: string;              // 新闻源名称
+}
+
+export interface ParsedFeed {
+    title?: string;
+    items: Omit<NewsItem, 'source'>[];
+}
+
+const ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    ldquo: '“', rdquo: '”', lsquo: '‘', rsquo: '’', mdash: '—', hellip: '…'
+};
+
+// ================== Text Helpers ==================
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * 去掉 HTML 标签并压缩空白，超长时按字数截断
+ */
+function toPlainText(html: string, maxChars?: number): string {
+    // 先解码实体：Atom / RSS 常把 HTML 转义后放进 summary 与 description
+    const text = decodeEntities(html.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1'))
+        .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>|<\/p>/gi, ' ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    return maxChars && text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function parseDate(value?: string): number | undefined {
+    if (!value) return undefined;
+    const time = Date.parse(value.trim());
+    return Number.isFinite(time) ? time : undefined;
+}
+
+// ================== XML ==================
+
+/**
+ * 取出所有同名元素的原始内容（带命名空间前缀的标签需写全，如 content:encoded）
+ */
+function getElements(xml: string, tag: string): string[] {
+    const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi');
+    return [...xml.matchAll(pattern)].map(match => match[1]);
+}
+
+function getText(xml: string, ...tags: string[]): string | undefined {
+    for (const tag of tags) {
+        const [content] = getElements(xml, tag);
+        if (content !== undefined) return toPlainText(content);
+    }
+    return undefined;
+}
+
+function getRawText(xml: string, ...tags: string[]): string | undefined {
+    for (const tag of tags) {
+        const [content] = getElements(xml, tag);
+        if (content !== undefined) return content;
+    }
+    return undefined;
+}
+
+/**
+ * Atom 链接：优先 rel="alternate"（或未写 rel）的 href
+ */
+function getAtomLink(entry: string): string | undefined {
+    const links = [...entry.matchAll(/<link\b([^>]*)\/?>/gi)].map(match => match[1]);
+    const alternate = links.find(attrs => !/rel=/.test(attrs) || /rel=["']alternate["']/.test(attrs)) ?? links[0];
+    return alternate ? /href=["']([^"']+)["']/.exec(alternate)?.[1] : undefined;
+}
+
+function parseRss(xml: string): ParsedFeed {
+    const channel = getRawText(xml, 'channel') ?? xml;
+    return {
+        title: getText(channel.split(/<item[\s>]/i)[0], 'title'),
+        items: getElements(xml, 'item').map(item => ({
+            title: getText(item, 'title') ?? '',
+            summary: toPlainText(getRawText(item, 'description', 'content:encoded') ?? '', NEWS_SERVICE.SUMMARY_MAX_CHARS),
+            link: getText(item, 'link') || getText(item, 'guid'),
+            publishedAt: parseDate(getText(item, 'pubDate', 'dc:date')),
+            categories: getElements(item, 'category').map(category => toPlainText(category)).filter(Boolean)
+        }))
+    };
+}
+
+function parseAtom(xml: string): ParsedFeed {
+    return {
+        title: getText(xml.split(/<entry[\s>]/i)[0], 'title'),
+        items: getElements(xml, 'entry').map(entry => ({
+            title: getText(entry, 'title') ?? '',
+            summary: toPlainText(getRawText(entry, 'summary', 'content') ?? '', NEWS_SERVICE.SUMMARY_MAX_CHARS),
+            link: getAtomLink(entry),
+            publishedAt: parseDate(getText(entry, 'published', 'updated')),
+            categories: [...entry.matchAll(/<category\b[^>]*term=["']([^"']+)["']/gi)].map(match => decodeEntities(match[1]))
+        }))
+    };
+}
+
+// ================== JSON Feed ==================
+
+interface JsonFeedItem {
+    title?: string;
+    summary?: string;
+    content_text?: string;
+    content_html?: string;
+    url?: string;
+    external_url?: string;
+    date_published?: string;
+    date_modified?: string;
+    tags?: string[];
+}
+
+function parseJsonFeed(feed: { title?: string; items?: JsonFeedItem[] }): ParsedFeed {
+    return {
+        title: feed.title,
+        items: (feed.items ?? []).map(item => ({
+            title: toPlainText(item.title ?? ''),
+            summary: toPlainText(item.summary ?? item.content_text ?? item.content_html ?? '', NEWS_SERVICE.SUMMARY_MAX_CHARS),
+            link: item.url ?? item.external_url,
+            publishedAt: parseDate(item.date_published ?? item.date_modified),
+            categories: Array.isArray(item.tags) ? item.tags.filter(tag => typeof tag === 'string') : []
+        }))
+    };
+}
+
+// ================== Public API ==================
+
+/**
+ * 解析新闻源内容（XML 文本或已解析的 JSON Feed），无法识别时抛出错误
+ */
+export function parseFeed(content: string | object): ParsedFeed {
+    let parsed: ParsedFeed;
+
+    if (typeof content === 'object') {
+        parsed = parseJsonFeed(content as { title?: string; items?: JsonFeedItem[] });
+    } else if (/^\s*\{/.test(content)) {
+        parsed = parseJsonFeed(JSON.parse(content));
+    } else if (/<feed[\s>]/i.test(content)) {
+        parsed = parseAtom(content);
+    } else if (/<(rss|rdf:RDF)[\s>]/i.test(content)) {
+        parsed = parseRss(content);
+    } else {
+        throw new Error('Unrecognized feed format');
+    }
+
+    return { ...parsed, items: parsed.items.filter(item => item.title) };
+}
@@ -0,0 +1,150 @@
+/**
+ * News Service - 新闻源聚合
+ * 设置中每行一个新闻源（url | 名称 | 分类），支持 RSS / Atom / JSON Feed；
+ * 外部地址经 /api/proxy 拉取，站内路径（如离线样例 /news/fixture-feed.xml）直接请求。
+ * 每个源按 FEED_TTL_MS 单独缓存，合并后跨源去重、按分类过滤、按发布时间倒序
+ */
+
+import { getAppUrl, getProxyUrl } from '@shared/services/ai-service';
+import { getSettings } from '@shared/services/storage-service/settings';
+import { NEWS_SERVICE } from '@shared/utils/constants';
+import { parseSourceList, SourceConfig, SourceStatus } from '@shared/utils/source-list';
+import { NewsItem, parseFeed } from './feed-parser';
+
+// ================== Types ==================
+
+export interface NewsQuery {
+    count?: number;
+    category?: string;
+}
+
+export interface NewsResult {
+    items: NewsItem[];
+    feeds: SourceStatus[];
+}
+
+const feedCache = new Map<string, { items: NewsItem[]; fetchedAt: number }>();
+
+// ================== Fetching ==================
+
+/**
+ * 拉取订阅源原文（JSON 经代理时已被解析为对象），热点源同样复用
+ */
+export async function requestFeed(url: string): Promise<string | object> {
+    const signal = AbortSignal.timeout(NEWS_SERVICE.FETCH_TIMEOUT);
+
+    if (url.startsWith('/')) {
+        const response = await fetch(getAppUrl(url), { signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+    }
+
+    // 通过代理调用，避免 CORS
+    const response = await fetch(getProxyUrl(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            url,
+            method: 'GET',
+            headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/json, text/xml;q=0.9, */*;q=0.8' }
+        }),
+        signal
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+    return typeof data.rawResponse === 'string' ? data.rawResponse : data;
+}
+
+async function loadFeed(feed: SourceConfig, force: boolean): Promise<NewsItem[]> {
+    const cached = feedCache.get(feed.url);
+    if (!force && cached && Date.now() - cached.fetchedAt < NEWS_SERVICE.FEED_TTL_MS) {
+        return cached.items;
+    }
+
+    const parsed = parseFeed(await requestFeed(feed.url));
+    const items = parsed.items.map(item => ({
+        ...item,
+        source: feed.name,
+        categories: feed.category ? [feed.category, ...item.categories] : item.categories
+    }));
+
+    feedCache.set(feed.url, { items, fetchedAt: Date.now() });
+    return items;
+}
+
+/**
+ * 拉取一组新闻源；单个源失败不影响其它源，失败原因记录在状态中
+ */
+async function loadFeeds(
+    feeds: SourceConfig[],
+    force: boolean
+): Promise<{ items: NewsItem[]; feeds: SourceStatus[] }> {
+    const results = await Promise.allSettled(feeds.map(feed => loadFeed(feed, force)));
+
+    return {
+        items: results.flatMap(result => result.status === 'fulfilled' ? result.value : []),
+        feeds: feeds.map((feed, i) => {
+            const result = results[i];
+            return result.status === 'fulfilled'
+                ? { url: feed.url, name: feed.name, count: result.value.length }
+                : { url: feed.url, name: feed.name, count: 0, error: String(result.reason) };
+        })
+    };
+}
+
+// ================== Merging ==================
+
+function normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/[\s'"“”‘’「」《》【】()（）:：,，.。!！?？\-—|｜·]/g, '');
+}
+
+/**
+ * 跨源去重：标题归一化后相同或链接相同视为同一条新闻，保留先出现（更新）的一条
+ */
+function dedupe(items: NewsItem[]): NewsItem[] {
+    const seenTitles = new Set<string>();
+    const seenLinks = new Set<string>();
+
+    return items.filter(item => {
+        const title = normalizeTitle(item.title);
+        const link = item.link?.replace(/[?#].*$/, '').replace(/\/$/, '');
+        if (seenTitles.has(title) || (link && seenLinks.has(link))) return false;
+
+        seenTitles.add(title);
+        if (link) seenLinks.add(link);
+        return true;
+    });
+}
+
+function matchesCategory(item: NewsItem, category: string): boolean {
+    const wanted = category.trim().toLowerCase();
+    return item.categories.some(value => {
+        const normalized = value.toLowerCase();
+        return normalized.includes(wanted) || wanted.includes(normalized);
+    });
+}
+
+// ================== Public API ==================
+
+/**
+ * 聚合设置中的所有新闻源，去重、按分类过滤后返回最新的 count 条
+ */
+export async function fetchNews(query: NewsQuery = {}): Promise<NewsResult> {
+    const { items, feeds } = await loadFeeds(parseSourceList(getSettings().newsFeeds), false);
+    const merged = items.sort((a, b) => (b.publishedAt ?? 0) - (a.publishedAt ?? 0));
+
+    const filtered = query.category?.trim()
+        ? dedupe(merged).filter(item => matchesCategory(item, query.category!))
+        : dedupe(merged);
+
+    const count = Math.max(1, Math.min(query.count || NEWS_SERVICE.DEFAULT_COUNT, NEWS_SERVICE.MAX_COUNT));
+    return { items: filtered.slice(0, count), feeds };
+}
+
+/**
+ * 重新拉取新闻源并返回各源状态（设置面板测试用，可测试尚未保存的配置）
+ */
+export async function checkNewsFeeds(text: string): Promise<SourceStatus[]> {
+    return (await loadFeeds(parseSourceList(text), true)).feeds;
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import React from 'react';
+import { Rss } from 'lucide-react';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+import { NEWS_SERVICE } from '@shared/utils/constants';
+import SourceListSettings from '@shared/ui/source-list-settings';
+import { checkNewsFeeds } from '../lib/news-service';
+
+interface NewsSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: string) => void;
+}
+
+const FIXTURE_LINE = `${NEWS_SERVICE.FIXTURE_FEED} | 离线样例 | 综合`;
+
+export default function NewsSettings({
+    settings,
+    onSettingChange,
+}: NewsSettingsProps) {
+    return (
+        <SourceListSettings
+            settings={settings}
+            onSettingChange={onSettingChange}
+            field="newsFeeds"
+            label="新闻源"
+            icon={Rss}
+            placeholder="https://example.com/rss.xml | 示例新闻 | 科技"
+            hint="每行：地址 | 名称 | 分类。支持 RSS、Atom 与 JSON Feed，多个源的新闻会去重合并后供新闻类节目选用"
+            emptyText="未配置新闻源"
+            preset={{ label: '离线样例', value: FIXTURE_LINE }}
+            onCheck={checkNewsFeeds}
+        />
+    );
+}
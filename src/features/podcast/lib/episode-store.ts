@@ -0,0 +1,165 @@
+/**
+ * Episode Store - 播客单集存储（仅服务端）
+ * 每集一个目录：episode.json + audio + transcript.vtt + transcript.lrc + chapters.json
+ * 存储目录可通过 PODCAST_DATA_DIR 指定，默认 .data/podcast
+ */
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { RADIO } from '@shared/utils/constants';
+import { PodcastChannel, PodcastEpisodeMeta } from './podcast-feed';
+
+// ================== Types ==================
+
+export type EpisodeFileKind = 'audio' | 'transcript' | 'lrc' | 'chapters';
+
+export interface EpisodeFiles {
+    audio: Uint8Array;
+    vtt?: string;
+    lrc?: string;
+    chapters?: string;
+}
+
+const FILE_NAMES: Record<Exclude<EpisodeFileKind, 'audio'>, { name: string; type: string }> = {
+    transcript: { name: 'transcript.vtt', type: 'text/vtt; charset=utf-8' },
+    lrc: { name: 'transcript.lrc', type: 'text/plain; charset=utf-8' },
+    chapters: { name: 'chapters.json', type: 'application/json+chapters' }
+};
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+    'audio/wav': 'wav',
+    'audio/ogg': 'ogg',
+    'audio/opus': 'opus',
+    'audio/mpeg': 'mp3'
+};
+
+// ================== Paths ==================
+
+function getDataDir(): string {
+    return process.env.PODCAST_DATA_DIR || path.join(process.cwd(), '.data', 'podcast');
+}
+
+/**
+ * 单集目录（仅允许安全的 ID 字符，防止路径穿越）
+ */
+function getEpisodeDir(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+        throw new Error(`Invalid episode id: ${id}`);
+    }
+    return path.join(getDataDir(), id);
+}
+
+function getAudioFileName(meta: PodcastEpisodeMeta): string {
+    return `audio.${AUDIO_EXTENSIONS[meta.audioType] || 'bin'}`;
+}
+
+// ================== Channel ==================
+
+/**
+ * 频道信息（环境变量可覆盖）
+ */
+export function getPodcastChannel(siteUrl: string): PodcastChannel {
+    const env = process.env;
+    return {
+        title: env.PODCAST_TITLE || `${RADIO.NAME} ${RADIO.FREQUENCY} · Best Of`,
+        description: env.PODCAST_DESCRIPTION || `${RADIO.NAME} 电台精选节目存档 —— ${RADIO.SLOGAN}`,
+        author: env.PODCAST_AUTHOR || RADIO.NAME,
+        language: env.PODCAST_LANGUAGE || 'zh-cn',
+        category: env.PODCAST_CATEGORY || 'Arts',
+        imageUrl: env.PODCAST_IMAGE_URL || undefined,
+        siteUrl
+    };
+}
+
+// ================== Episode CRUD ==================
+
+/**
+ * 保存单集
+ */
+export async function saveEpisode(
+    meta: Omit<PodcastEpisodeMeta, 'id' | 'publishedAt'>,
+    files: EpisodeFiles
+): Promise<PodcastEpisodeMeta> {
+    const id = `ep-${Date.now()}`;
+    const dir = getEpisodeDir(id);
+    await mkdir(dir, { recursive: true });
+
+    const episode: PodcastEpisodeMeta = {
+        ...meta,
+        id,
+        publishedAt: Date.now(),
+        audioSize: files.audio.byteLength,
+        hasTranscript: Boolean(files.vtt),
+        hasChapters: Boolean(files.chapters)
+    };
+
+    await writeFile(path.join(dir, getAudioFileName(episode)), files.audio);
+    if (files.vtt) await writeFile(path.join(dir, FILE_NAMES.transcript.name), files.vtt, 'utf-8');
+    if (files.lrc) await writeFile(path.join(dir, FILE_NAMES.lrc.name), files.lrc, 'utf-8');
+    if (files.chapters) await writeFile(path.join(dir, FILE_NAMES.chapters.name), files.chapters, 'utf-8');
+    await writeFile(path.join(dir, 'episode.json'), JSON.stringify(episode, null, 2), 'utf-8');
+
+    return episode;
+}
+
+/**
+ * 获取单集元数据
+ */
+export async function getEpisode(id: string): Promise<PodcastEpisodeMeta | null> {
+    try {
+        const raw = await readFile(path.join(getEpisodeDir(id), 'episode.json'), 'utf-8');
+        return JSON.parse(raw) as PodcastEpisodeMeta;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 列出所有单集（按发布时间倒序）
+ */
+export async function listEpisodes(): Promise<PodcastEpisodeMeta[]> {
+    let entries: string[];
+    try {
+        entries = await readdir(getDataDir());
+    } catch {
+        return [];
+    }
+
+    const episodes = await Promise.all(entries.map(entry => getEpisode(entry).catch(() => null)));
+    return episodes
+        .filter((episode): episode is PodcastEpisodeMeta => Boolean(episode))
+        .sort((a, b) => b.publishedAt - a.publishedAt);
+}
+
+/**
+ * 删除单集
+ */
+export async function deleteEpisode(id: string): Promise<boolean> {
+    const episode = await getEpisode(id);
+    if (!episode) return false;
+
+    await rm(getEpisodeDir(id), { recursive: true, force: true });
+    return true;
+}
+
+/**
+ * 定位单集文件（路径、MIME、大小）
+ */
+export async function resolveEpisodeFile(
+    id: string,
+    kind: EpisodeFileKind
+): Promise<{ filePath: string; type: string; size: number } | null> {
+    const episode = await getEpisode(id);
+    if (!episode) return null;
+
+    const fileName = kind === 'audio' ? getAudioFileName(episode) : FILE_NAMES[kind].name;
+    const type = kind === 'audio' ? episode.audioType : FILE_NAMES[kind].type;
+    const filePath = path.join(getEpisodeDir(id), fileName);
+
+    try {
+        const info = await stat(filePath);
+        return { filePath, type, size: info.size };
+    } catch {
+        return null;
+    }
+}
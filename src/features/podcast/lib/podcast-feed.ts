@@ -0,0 +1,169 @@
+/**
+ * Podcast Feed - 播客 RSS 生成
+ * 将归档的节目（ShowTimeline + 渲染音频）转换为 RSS 2.0 / iTunes 兼容的订阅源，
+ * 并附带 Podcasting 2.0 的字幕、章节与演员标签
+ */
+
+import { ShowTimeline, TimelineCastMember } from '@shared/types/radio-core';
+import { RADIO } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+/** 已发布单集的元数据（与音频文件一同存储） */
+export interface PodcastEpisodeMeta {
+    id: string;
+    title: string;
+    description: string;
+    publishedAt: number;
+    durationSec: number;
+    audioType: string;          // MIME 类型，如 audio/wav
+    audioSize: number;          // 字节数
+    showType?: string;
+    cast: TimelineCastMember[];
+    hasTranscript: boolean;     // 是否有 WebVTT 字幕
+    hasChapters: boolean;       // 是否有章节 JSON
+    timeline: ShowTimeline;
+}
+
+/** 频道信息 */
+export interface PodcastChannel {
+    title: string;
+    description: string;
+    author: string;
+    language: string;
+    category: string;
+    imageUrl?: string;
+    siteUrl: string;
+}
+
+// ================== Episode ==================
+
+/**
+ * 单集描述：主题 + 演员阵容
+ */
+export function buildEpisodeDescription(timeline: ShowTimeline): string {
+    const parts: string[] = [];
+    const theme = timeline.metadata?.theme;
+    const cast = timeline.metadata?.cast || [];
+
+    if (theme) {
+        parts.push(theme);
+    }
+    if (cast.length > 0) {
+        parts.push(`本期阵容：${cast.map(member => member.roleName).join('、')}`);
+    }
+
+    return parts.join('\n\n') || `${RADIO.NAME} 节目存档`;
+}
+
+/**
+ * 从时间线和渲染结果构建单集元数据
+ */
+export function buildEpisodeMeta(
+    timeline: ShowTimeline,
+    audio: { type: string; size: number; durationSec: number },
+    extras: { hasTranscript: boolean; hasChapters: boolean }
+): Omit<PodcastEpisodeMeta, 'id' | 'publishedAt'> {
+    return {
+        title: timeline.title || 'Untitled',
+        description: buildEpisodeDescription(timeline),
+        durationSec: Math.round(audio.durationSec),
+        audioType: audio.type,
+        audioSize: audio.size,
+        showType: timeline.metadata?.showType,
+        cast: timeline.metadata?.cast || [],
+        hasTranscript: extras.hasTranscript,
+        hasChapters: extras.hasChapters,
+        timeline
+    };
+}
+
+// ================== Feed ==================
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * iTunes 时长格式 HH:MM:SS
+ */
+function formatItunesDuration(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = Math.floor(totalSeconds % 60);
+    return [hours, minutes, seconds].map(value => String(value).padStart(2, '0')).join(':');
+}
+
+function buildItem(episode: PodcastEpisodeMeta, baseUrl: string, author: string): string {
+    const fileUrl = (file: string) => `${baseUrl}/api/podcast/episodes/${encodeURIComponent(episode.id)}/${file}`;
+
+    const lines = [
+        '<item>',
+        `<title>${escapeXml(episode.title)}</title>`,
+        `<description>${escapeXml(episode.description)}</description>`,
+        `<itunes:summary>${escapeXml(episode.description)}</itunes:summary>`,
+        `<guid isPermaLink="false">${escapeXml(episode.id)}</guid>`,
+        `<pubDate>${new Date(episode.publishedAt).toUTCString()}</pubDate>`,
+        `<enclosure url="${escapeXml(fileUrl('audio'))}" length="${episode.audioSize}" type="${escapeXml(episode.audioType)}"/>`,
+        `<itunes:duration>${formatItunesDuration(episode.durationSec)}</itunes:duration>`,
+        `<itunes:author>${escapeXml(author)}</itunes:author>`,
+        '<itunes:episodeType>full</itunes:episodeType>',
+        '<itunes:explicit>false</itunes:explicit>'
+    ];
+
+    if (episode.hasTranscript) {
+        lines.push(`<podcast:transcript url="${escapeXml(fileUrl('transcript'))}" type="text/vtt"/>`);
+    }
+    if (episode.hasChapters) {
+        lines.push(`<podcast:chapters url="${escapeXml(fileUrl('chapters'))}" type="application/json+chapters"/>`);
+    }
+    episode.cast.forEach((member, index) => {
+        const role = index === 0 ? 'host' : 'guest';
+        lines.push(`<podcast:person role="${role}">${escapeXml(member.roleName)}</podcast:person>`);
+    });
+
+    lines.push('</item>');
+    return lines.join('\n');
+}
+
+/**
+ * 生成 RSS 2.0 / iTunes 订阅源（按发布时间倒序）
+ */
+export function buildPodcastFeed(channel: PodcastChannel, episodes: PodcastEpisodeMeta[], baseUrl: string): string {
+    const sorted = [...episodes].sort((a, b) => b.publishedAt - a.publishedAt);
+    const lastBuild = sorted[0]?.publishedAt ?? Date.now();
+
+    const header = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+        '<channel>',
+        `<title>${escapeXml(channel.title)}</title>`,
+        `<link>${escapeXml(channel.siteUrl)}</link>`,
+        `<atom:link href="${escapeXml(`${baseUrl}/api/podcast/feed`)}" rel="self" type="application/rss+xml"/>`,
+        `<description>${escapeXml(channel.description)}</description>`,
+        `<language>${escapeXml(channel.language)}</language>`,
+        `<lastBuildDate>${new Date(lastBuild).toUTCString()}</lastBuildDate>`,
+        `<itunes:author>${escapeXml(channel.author)}</itunes:author>`,
+        `<itunes:summary>${escapeXml(channel.description)}</itunes:summary>`,
+        `<itunes:category text="${escapeXml(channel.category)}"/>`,
+        '<itunes:explicit>false</itunes:explicit>',
+        '<itunes:type>episodic</itunes:type>'
+    ];
+
+    if (channel.imageUrl) {
+        header.push(`<itunes:image href="${escapeXml(channel.imageUrl)}"/>`);
+        header.push(`<image><url>${escapeXml(channel.imageUrl)}</url><title>${escapeXml(channel.title)}</title><link>${escapeXml(channel.siteUrl)}</link></image>`);
+    }
+
+    return [
+        ...header,
+        ...sorted.map(episode => buildItem(episode, baseUrl, channel.author)),
+        '</channel>',
+        '</rss>'
+    ].join('\n') + '\n';
+}
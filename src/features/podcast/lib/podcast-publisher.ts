@@ -0,0 +1,76 @@
+/**
+ * Podcast Publisher - 发布录制到播客订阅源（浏览器端）
+ * 渲染录制 -> 上传到 /api/podcast/episodes -> 归档到 "Best Of" 节目单
+ */
+
+import { ShowTimeline } from '@shared/types/radio-core';
+import {
+    getPlaylists,
+    createPlaylistFromTimeline,
+    addTimelineToPlaylist
+} from '@shared/services/storage-service/session';
+import { radioMonitor } from '@shared/services/monitor-service';
+import { ShowRecording } from '@features/recording/lib/show-recorder';
+import { renderRecording } from '@features/recording/lib/episode-renderer';
+
+const BEST_OF_PLAYLIST_NAME = 'Best Of';
+
+/** 常见发布失败的提示（展示在节目队列中） */
+const PUBLISH_ERRORS: Record<number, string> = {
+    401: '发布口令错误或未填写，请在设置中填写与服务端 PODCAST_PUBLISH_TOKEN 一致的口令',
+    403: '服务端未配置 PODCAST_PUBLISH_TOKEN，播客发布已关闭',
+    413: '节目音频超过服务端上传上限',
+};
+
+// ================== Playlist Archive ==================
+
+/**
+ * 将已发布的节目归档到 Best Of 节目单
+ */
+function archiveToBestOf(timeline: ShowTimeline): void {
+    const bestOf = getPlaylists().find(playlist => playlist.name === BEST_OF_PLAYLIST_NAME);
+
+    if (bestOf) {
+        if (!bestOf.timelines.some(item => item.id === timeline.id)) {
+            addTimelineToPlaylist(bestOf.id, timeline);
+        }
+    } else {
+        createPlaylistFromTimeline(BEST_OF_PLAYLIST_NAME, timeline, '已发布到播客的精选节目');
+    }
+}
+
+// ================== Publish ==================
+
+/**
+ * 渲染并发布一期录制
+ */
+export async function publishRecording(
+    recording: ShowRecording,
+    options?: { token?: string }
+): Promise<{ id: string; title: string }> {
+    const episode = await renderRecording(recording);
+
+    const form = new FormData();
+    form.append('timeline', JSON.stringify(recording.timeline));
+    form.append('durationSec', String(episode.durationMs / 1000));
+    form.append('audio', episode.audio, `${recording.id}.${episode.extension}`);
+    form.append('vtt', episode.vtt);
+    form.append('lrc', episode.lrc);
+    form.append('chapters', episode.chapters);
+
+    const response = await fetch('/api/podcast/episodes', {
+        method: 'POST',
+        headers: options?.token ? { Authorization: `Bearer ${options.token}` } : undefined,
+        body: form
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(PUBLISH_ERRORS[response.status] ?? (data.error || `Publish failed: ${response.status}`));
+    }
+
+    archiveToBestOf(recording.timeline);
+    radioMonitor.log('DIRECTOR', `Published podcast episode: ${data.title}`, 'info');
+
+    return data;
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import React from 'react';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+
+interface PodcastSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: string) => void;
+}
+
+export default function PodcastSettings({
+    settings,
+    onSettingChange,
+}: PodcastSettingsProps) {
+    return (
+        <div className="space-y-2 pt-3 border-t border-neutral-800">
+            <label className="text-sm font-medium text-neutral-400">播客发布口令</label>
+            <input
+                type="password"
+                value={settings.podcastPublishToken}
+                onChange={(e) => onSettingChange("podcastPublishToken", e.target.value)}
+                placeholder="与服务端 PODCAST_PUBLISH_TOKEN 一致"
+                autoComplete="off"
+                className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
+            />
+            <p className="text-xs text-neutral-500">
+                在节目队列中发布录制时使用；服务端未配置口令时播客发布处于关闭状态
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,396 @@
+/**
+ * Program Clock - 节目编排时钟
+ * 按周排布节目时段（类型、时长、主题、演员覆盖），供 Director 选择下一期节目
+ * 节目超时/提前结束时按实际时间重新对齐时段
+ */
+
+import { ShowType, CastOverrides } from '@features/content/lib/cast-system';
+import { radioMonitor } from '@shared/services/monitor-service';
+import { SHOW, PROGRAM_CLOCK } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+/** 节目时段（每周循环） */
+export interface ProgramSlot {
+    id: string;
+    label: string;              // 显示名称，如 "整点新闻"
+    showType: ShowType;
+    days: number[];             // 生效星期：0=周日 ... 6=周六
+    startTime: string;          // 开始时间 "HH:MM"
+    durationMinutes: number;    // 时段长度（分钟，最长一天）
+    theme?: string;             // 时段主题（传给 Writer）
+    castOverrides?: CastOverrides;
+    priority?: number;          // 时段重叠时数值大者优先
+}
+
+/** 时段的一次具体排期 */
+export interface ScheduledSlot {
+    slot: ProgramSlot;
+    startsAt: number;           // 时间戳 (ms)
+    endsAt: number;             // 时间戳 (ms)
+}
+
+/** 下一期节目的编排结果 */
+export interface ProgramPlan {
+    showType?: ShowType;        // 未命中时段时为空，由 CastDirector 随机
+    duration: number;           // 节目时长（秒）
+    theme?: string;
+    castOverrides?: CastOverrides;
+    slot: ScheduledSlot | null;
+    plannedStartAt: number;
+}
+
+/** 编排表存储结构 */
+interface ProgramGrid {
+    enabled: boolean;
+    slots: ProgramSlot[];
+}
+
+// ================== Default Grid ==================
+
+const STORAGE_KEY = 'radio_nowhere_program_clock_v1';
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const WEEKEND = [0, 6];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SHOW_TYPES: ShowType[] = [
+    'talk', 'interview', 'news', 'drama', 'entertainment',
+    'story', 'history', 'science', 'mystery', 'nighttalk', 'music'
+];
+
+function buildHourlyNewsSlots(): ProgramSlot[] {
+    const slots: ProgramSlot[] = [];
+    for (let hour = 7; hour <= 23; hour++) {
+        slots.push({
+            id: `news-${String(hour).padStart(2, '0')}`,
+            label: '整点新闻',
+            showType: 'news',
+            days: ALL_DAYS,
+            startTime: `${String(hour).padStart(2, '0')}:00`,
+            durationMinutes: 10,
+            priority: 2
+        });
+    }
+    return slots;
+}
+
+export const DEFAULT_PROGRAM_SLOTS: ProgramSlot[] = [
+    ...buildHourlyNewsSlots(),
+    {
+        id: 'morning-talk',
+        label: '早安闲聊',
+        showType: 'talk',
+        days: ALL_DAYS,
+        startTime: '07:10',
+        durationMinutes: 110,
+        theme: '轻松的早间话题，帮听众开启新的一天'
+    },
+    {
+        id: 'evening-music',
+        label: '晚间音乐专题',
+        showType: 'music',
+        days: ALL_DAYS,
+        startTime: '20:00',
+        durationMinutes: 60,
+        theme: '今晚的音乐专题',
+        priority: 1
+    },
+    {
+        id: 'weekend-mystery',
+        label: '周末奇闻夜',
+        showType: 'mystery',
+        days: WEEKEND,
+        startTime: '22:00',
+        durationMinutes: 60,
+        priority: 1
+    },
+    {
+        id: 'late-nighttalk',
+        label: '深夜心声',
+        showType: 'nighttalk',
+        days: ALL_DAYS,
+        startTime: '00:00',
+        durationMinutes: 120,
+        theme: '午夜之后的陪伴与倾诉'
+    }
+];
+
+// ================== Storage ==================
+
+function isBrowser(): boolean {
+    return typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+}
+
+function parseStartTime(value: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    if (!match) return null;
+
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 23 || minutes > 59) return null;
+
+    return hours * 60 + minutes;
+}
+
+function normalizeSlots(raw: unknown): ProgramSlot[] {
+    if (!Array.isArray(raw)) return [];
+
+    return raw
+        .map((item, index): ProgramSlot | null => {
+            const showType = SHOW_TYPES.includes(item?.showType) ? item.showType as ShowType : null;
+            const startTime = typeof item?.startTime === 'string' ? item.startTime : '';
+            const durationMinutes = Number(item?.durationMinutes);
+            const days = Array.isArray(item?.days)
+                ? item.days.filter((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+                : [];
+
+            if (!showType || parseStartTime(startTime) === null) return null;
+            if (!Number.isFinite(durationMinutes) || durationMinutes <= 0 || days.length === 0) return null;
+
+            return {
+                id: typeof item.id === 'string' && item.id ? item.id : `slot-${index}`,
+                label: typeof item.label === 'string' && item.label ? item.label : showType,
+                showType,
+                days,
+                startTime,
+                // getSlotAt 只回看一天，更长的时段截断到一天
+                durationMinutes: Math.min(durationMinutes, PROGRAM_CLOCK.MAX_SLOT_MINUTES),
+                theme: typeof item.theme === 'string' ? item.theme : undefined,
+                castOverrides: item.castOverrides && typeof item.castOverrides === 'object' ? item.castOverrides : undefined,
+                priority: Number.isFinite(Number(item.priority)) ? Number(item.priority) : undefined
+            };
+        })
+        .filter((slot): slot is ProgramSlot => Boolean(slot));
+}
+
+function loadGrid(): ProgramGrid {
+    const fallback: ProgramGrid = { enabled: true, slots: DEFAULT_PROGRAM_SLOTS };
+    if (!isBrowser()) return fallback;
+
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return fallback;
+
+        const parsed = JSON.parse(raw) as Partial<ProgramGrid>;
+        return {
+            enabled: parsed.enabled ?? true,
+            slots: Array.isArray(parsed.slots) ? normalizeSlots(parsed.slots) : DEFAULT_PROGRAM_SLOTS
+        };
+    } catch (error) {
+        console.warn('[ProgramClock] Failed to load grid:', error);
+        return fallback;
+    }
+}
+
+function saveGrid(grid: ProgramGrid): void {
+    if (!isBrowser()) return;
+
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(grid));
+    } catch (error) {
+        console.warn('[ProgramClock] Failed to save grid:', error);
+    }
+}
+
+/**
+ * 时段优先级比较：优先级高者在前；同优先级时开始较晚（更具体）者在前
+ */
+function compareSlotPrecedence(a: ScheduledSlot, b: ScheduledSlot): number {
+    return (b.slot.priority ?? 0) - (a.slot.priority ?? 0) || b.startsAt - a.startsAt;
+}
+
+// ================== Program Clock ==================
+
+export class ProgramClock {
+    private grid: ProgramGrid | null = null;
+    private lastDriftSeconds = 0;
+
+    // ================== 编排表管理 ==================
+
+    getSlots(): ProgramSlot[] {
+        return this.ensureGrid().slots;
+    }
+
+    isEnabled(): boolean {
+        return this.ensureGrid().enabled;
+    }
+
+    setEnabled(enabled: boolean): void {
+        this.grid = { ...this.ensureGrid(), enabled };
+        saveGrid(this.grid);
+    }
+
+    saveSlots(slots: ProgramSlot[]): void {
+        this.grid = { ...this.ensureGrid(), slots: normalizeSlots(slots) };
+        saveGrid(this.grid);
+    }
+
+    resetSlots(): void {
+        this.grid = { enabled: true, slots: DEFAULT_PROGRAM_SLOTS };
+        saveGrid(this.grid);
+    }
+
+    // ================== 时段查询 ==================
+
+    /**
+     * 获取指定时刻正在生效的时段（重叠时取优先级最高者）
+     */
+    getSlotAt(time: number = Date.now()): ScheduledSlot | null {
+        if (!this.isEnabled()) return null;
+
+        const active = this.getOccurrences(time - DAY_MS, time + 1)
+            .filter(occurrence => occurrence.startsAt <= time && time < occurrence.endsAt);
+
+        if (active.length === 0) return null;
+
+        active.sort(compareSlotPrecedence);
+        const winner = active[0];
+
+        // 结束时间截断到下一个更高优先级时段的开始（如整点新闻插播）
+        const interrupt = this.getOccurrences(time + 1, winner.endsAt)
+            .find(occurrence => compareSlotPrecedence(occurrence, winner) < 0);
+
+        return interrupt ? { ...winner, endsAt: interrupt.startsAt } : winner;
+    }
+
+    /**
+     * 获取当前及后续的时段排期（供节目单展示）
+     */
+    getUpcomingSlots(from: number = Date.now(), count: number = PROGRAM_CLOCK.UPCOMING_SLOT_COUNT): ScheduledSlot[] {
+        if (!this.isEnabled()) return [];
+
+        const upcoming: ScheduledSlot[] = [];
+        const horizon = from + PROGRAM_CLOCK.LOOKAHEAD_DAYS * DAY_MS;
+        let cursor = from;
+
+        // 逐段推进：当前生效时段结束（或被插播时段打断）后，取下一个生效时段
+        while (upcoming.length < count && cursor < horizon) {
+            const active = this.getSlotAt(cursor);
+            if (active) {
+                // 被插播打断后恢复的时段，从恢复时刻开始显示
+                upcoming.push(upcoming.length === 0 ? active : { ...active, startsAt: Math.max(active.startsAt, cursor) });
+                cursor = active.endsAt;
+                continue;
+            }
+
+            const nextStart = this.getOccurrences(cursor + 1, horizon)[0]?.startsAt;
+            if (nextStart === undefined) break;
+            cursor = nextStart;
+        }
+
+        return upcoming;
+    }
+
+    // ================== 节目编排 ==================
+
+    /**
+     * 规划下一期节目
+     * 时长按所在时段剩余时间截断；剩余不足最短时长时提前进入下一时段
+     */
+    planNext(startAt: number = Date.now()): ProgramPlan {
+        const minDuration = PROGRAM_CLOCK.MIN_SHOW_DURATION;
+        const maxDuration = SHOW.MAIN_DURATION;
+        const active = this.getSlotAt(startAt);
+
+        if (active) {
+            const remaining = Math.floor((active.endsAt - startAt) / 1000);
+            if (remaining >= minDuration) {
+                return this.buildPlan(active, Math.min(maxDuration, remaining), startAt);
+            }
+
+            // 当前时段即将结束：下一时段提前开播，吸收剩余时间
+            const following = this.getSlotAt(active.endsAt);
+            if (following) {
+                const followingRemaining = Math.floor((following.endsAt - startAt) / 1000);
+                return this.buildPlan(following, Math.min(maxDuration, followingRemaining), startAt);
+            }
+
+            return this.buildPlan(active, minDuration, startAt);
+        }
+
+        // 空档：时长截断到下一个时段开始，保证准点
+        const nextSlot = this.getUpcomingSlots(startAt, 1)[0];
+        const untilNext = nextSlot ? Math.floor((nextSlot.startsAt - startAt) / 1000) : Infinity;
+        const duration = Math.max(minDuration, Math.min(maxDuration, untilNext));
+
+        return { duration, slot: null, plannedStartAt: startAt };
+    }
+
+    /**
+     * 记录节目实际结束时间，统计超时/提前
+     */
+    reportShowEnded(plan: ProgramPlan, endedAt: number = Date.now()): void {
+        const plannedEnd = plan.plannedStartAt + plan.duration * 1000;
+        this.lastDriftSeconds = Math.round((endedAt - plannedEnd) / 1000);
+
+        if (!plan.slot || Math.abs(this.lastDriftSeconds) < 30) return;
+
+        const label = plan.slot.slot.label;
+        if (this.lastDriftSeconds > 0) {
+            radioMonitor.log('DIRECTOR', `Program clock: "${label}" overran by ${this.lastDriftSeconds}s`, 'warn');
+        } else {
+            radioMonitor.log('DIRECTOR', `Program clock: "${label}" ended ${-this.lastDriftSeconds}s early`, 'info');
+        }
+    }
+
+    /**
+     * 最近一期节目的偏差（秒，正数为超时）
+     */
+    getLastDrift(): number {
+        return this.lastDriftSeconds;
+    }
+
+    // ================== 内部方法 ==================
+
+    private ensureGrid(): ProgramGrid {
+        if (!this.grid) {
+            this.grid = loadGrid();
+        }
+        return this.grid;
+    }
+
+    private buildPlan(scheduled: ScheduledSlot, duration: number, startAt: number): ProgramPlan {
+        return {
+            showType: scheduled.slot.showType,
+            duration,
+            theme: scheduled.slot.theme,
+            castOverrides: scheduled.slot.castOverrides,
+            slot: scheduled,
+            plannedStartAt: startAt
+        };
+    }
+
+    /**
+     * 展开 [from, to) 范围内开始的所有时段排期，按开始时间排序
+     */
+    private getOccurrences(from: number, to: number): ScheduledSlot[] {
+        const occurrences: ScheduledSlot[] = [];
+        const firstDay = new Date(from);
+        firstDay.setHours(0, 0, 0, 0);
+
+        for (let day = new Date(firstDay); day.getTime() < to; day.setDate(day.getDate() + 1)) {
+            for (const slot of this.getSlots()) {
+                if (!slot.days.includes(day.getDay())) continue;
+
+                const startMinutes = parseStartTime(slot.startTime);
+                if (startMinutes === null) continue;
+
+                const start = new Date(day);
+                start.setHours(0, startMinutes, 0, 0);
+                const startsAt = start.getTime();
+                if (startsAt < from || startsAt >= to) continue;
+
+                occurrences.push({
+                    slot,
+                    startsAt,
+                    endsAt: startsAt + slot.durationMinutes * 60 * 1000
+                });
+            }
+        }
+
+        return occurrences.sort((a, b) => a.startsAt - b.startsAt);
+    }
+}
+
+// 单例导出
+export const programClock = new ProgramClock();
@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useState } from 'react';
+import { programClock, ProgramSlot } from '../lib/program-clock';
+
+function formatSlots(slots: ProgramSlot[]): string {
+    return JSON.stringify(slots, null, 2);
+}
+
+export default function ProgramClockSettings() {
+    const [enabled, setEnabled] = useState(() => programClock.isEnabled());
+    const [slotsInput, setSlotsInput] = useState(() => formatSlots(programClock.getSlots()));
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+    const handleToggle = (value: boolean) => {
+        programClock.setEnabled(value);
+        setEnabled(value);
+    };
+
+    const handleSave = () => {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(slotsInput);
+        } catch (error) {
+            setMessage({ text: `JSON 格式错误：${String(error)}`, error: true });
+            return;
+        }
+        if (!Array.isArray(parsed)) {
+            setMessage({ text: '编排表应为时段数组', error: true });
+            return;
+        }
+
+        programClock.saveSlots(parsed as ProgramSlot[]);
+        const saved = programClock.getSlots();
+        const dropped = parsed.length - saved.length;
+        setSlotsInput(formatSlots(saved));
+        setMessage({
+            text: dropped > 0 ? `已保存 ${saved.length} 个时段，${dropped} 个无效时段被忽略` : `已保存 ${saved.length} 个时段`,
+            error: dropped > 0
+        });
+    };
+
+    const handleReset = () => {
+        programClock.resetSlots();
+        setEnabled(programClock.isEnabled());
+        setSlotsInput(formatSlots(programClock.getSlots()));
+        setMessage({ text: '已恢复默认编排', error: false });
+    };
+
+    return (
+        <div className="space-y-3 pt-3 border-t border-neutral-800">
+            <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-neutral-400">节目编排</label>
+                <button
+                    type="button"
+                    onClick={handleReset}
+                    className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors"
+                >
+                    恢复默认
+                </button>
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => handleToggle(e.target.checked)}
+                    className="w-4 h-4 rounded text-emerald-600 focus:ring-emerald-500 bg-neutral-800 border-neutral-700"
+                />
+                <span className="text-xs text-neutral-400">按每周编排表选择节目（关闭后节目类型随机）</span>
+            </label>
+            <textarea
+                value={slotsInput}
+                onChange={(e) => setSlotsInput(e.target.value)}
+                disabled={!enabled}
+                rows={8}
+                spellCheck={false}
+                className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white text-xs font-mono placeholder-neutral-500 focus:outline-none focus:border-emerald-500 disabled:opacity-50 transition-colors"
+            />
+            <button
+                type="button"
+                onClick={handleSave}
+                disabled={!enabled}
+                className="w-full px-3 py-2 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-lg transition-colors"
+            >
+                保存编排表
+            </button>
+            {message && (
+                <p className={`text-xs ${message.error ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>
+            )}
+            <p className="text-xs text-neutral-500">
+                每个时段：id、label、showType、days（0=周日 … 6=周六）、startTime（HH:MM）、durationMinutes（最长 1440）、可选 theme / castOverrides / priority（重叠时大者优先）
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,136 @@
+/**
+ * Quote Corpus - 语录库解析
+ * JSON：数组或 { quotes: [...] }，条目含 text / author / work / language / tags
+ * CSV：首行为表头（text, author, work, language, tags），tags 以分号或竖线分隔
+ * 没有作者的条目会被丢弃，避免主持人引用来源不明的句子
+ */
+
+// ================== Types ==================
+
+export interface Quote {
+    text: string;
+    author: string;
+    work?: string;               // 出处（书名、篇名）
+    language: string;            // 语言代码，如 zh / en
+    tags: string[];
+    corpus: string;              // 语录源名称
+}
+
+type RawQuote = Record<string, unknown>;
+
+const CJK = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+// ================== Helpers ==================
+
+function asString(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+function splitTags(value: unknown): string[] {
+    const tags = Array.isArray(value) ? value : asString(value).split(/[;|\uff1b\u3001]/);
+    return tags.map(tag => asString(tag)).filter(Boolean);
+}
+
+/**
+ * 语言代码归一化为主语言（zh-CN → zh），未标注时按是否含汉字推断
+ */
+function normalizeLanguage(value: unknown, text: string): string {
+    const language = asString(value).toLowerCase().split(/[-_]/)[0];
+    return language || (CJK.test(text) ? 'zh' : 'en');
+}
+
+function toQuote(raw: RawQuote, corpus: string): Quote | null {
+    const text = asString(raw.text) || asString(raw.quote);
+    const author = asString(raw.author);
+    if (!text || !author) return null;
+
+    return {
+        text,
+        author,
+        work: asString(raw.work) || asString(raw.source) || undefined,
+        language: normalizeLanguage(raw.language ?? raw.lang, text),
+        tags: splitTags(raw.tags),
+        corpus
+    };
+}
+
+// ================== CSV ==================
+
+/**
+ * 解析 CSV（支持双引号包裹的字段与 "" 转义）
+ */
+function parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function parseCsv(content: string): RawQuote[] {
+    const [header, ...rows] = parseCsvRows(content.replace(/^\ufeff/, ''));
+    if (!header) return [];
+
+    const columns = header.map(name => name.trim().toLowerCase());
+    return rows.map(cells => Object.fromEntries(columns.map((name, i) => [name, cells[i] ?? ''])));
+}
+
+// ================== Public API ==================
+
+/**
+ * 解析语录库内容（JSON 文本、已解析的 JSON 或 CSV 文本）
+ */
+export function parseQuoteCorpus(content: string | object, corpus: string): Quote[] {
+    let rawQuotes: RawQuote[];
+
+    if (typeof content === 'object') {
+        const data = content as { quotes?: RawQuote[] };
+        rawQuotes = Array.isArray(content) ? content : data.quotes ?? [];
+    } else if (/^\s*[[{]/.test(content)) {
+        return parseQuoteCorpus(JSON.parse(content), corpus);
+    } else {
+        rawQuotes = parseCsv(content);
+    }
+
+    if (!Array.isArray(rawQuotes)) {
+        throw new Error('Unrecognized quote corpus format');
+    }
+
+    return rawQuotes
+        .map(raw => raw && typeof raw === 'object' ? toQuote(raw, corpus) : null)
+        .filter((quote): quote is Quote => quote !== null);
+}
@@ -0,0 +1,164 @@
+/**
+ * Quote Service - 名言语录检索
+ * 设置中每行一个语录源（url | 名称 | 附加标签），默认为内置语录库 /quotes/quotes.json，可追加 JSON / CSV；
+ * 按主题匹配标签与正文、按语言过滤，近期播出过的语录（history-manager 记录）不再推荐。
+ * 编剧提交节目时扫描台词，引用到的语录记为已播出
+ */
+
+import { getSettings } from '@shared/services/storage-service/settings';
+import { QUOTES } from '@shared/utils/constants';
+import { parseSourceList, SourceConfig, SourceStatus } from '@shared/utils/source-list';
+import { isQuoteAired, recordQuote } from '@features/history-tracking/lib/history-manager';
+import { tokenize } from '@features/knowledge/lib/bm25';
+import { requestFeed } from '@features/news/lib/news-service';
+import { parseQuoteCorpus, Quote } from './quote-corpus';
+
+// ================== Types ==================
+
+export interface QuoteQuery {
+    theme: string;
+    count?: number;
+    language?: string;           // zh / en，留空不限
+}
+
+export interface QuoteSearchResult {
+    quotes: Quote[];
+    skipped: number;             // 因近期播出过而跳过的匹配条数
+    availableTags: string[];     // 没有匹配时提供可用主题
+}
+
+const corpusCache = new Map<string, { quotes: Quote[]; fetchedAt: number }>();
+
+// ================== Loading ==================
+
+async function loadCorpus(source: SourceConfig, force: boolean): Promise<Quote[]> {
+    const cached = corpusCache.get(source.url);
+    if (!force && cached && Date.now() - cached.fetchedAt < QUOTES.SOURCE_TTL_MS) {
+        return cached.quotes;
+    }
+
+    const quotes = parseQuoteCorpus(await requestFeed(source.url), source.name).map(quote => ({
+        ...quote,
+        tags: source.category ? [...quote.tags, source.category] : quote.tags
+    }));
+
+    corpusCache.set(source.url, { quotes, fetchedAt: Date.now() });
+    return quotes;
+}
+
+/**
+ * 加载一组语录源；单个源失败不影响其它源
+ */
+async function loadCorpora(
+    sources: SourceConfig[],
+    force: boolean
+): Promise<{ quotes: Quote[]; sources: SourceStatus[] }> {
+    const results = await Promise.allSettled(sources.map(source => loadCorpus(source, force)));
+
+    return {
+        quotes: results.flatMap(result => result.status === 'fulfilled' ? result.value : []),
+        sources: sources.map((source, i) => {
+            const result = results[i];
+            return result.status === 'fulfilled'
+                ? { url: source.url, name: source.name, count: result.value.length }
+                : { url: source.url, name: source.name, count: 0, error: String(result.reason) };
+        })
+    };
+}
+
+// ================== Matching ==================
+
+/**
+ * 主题得分：标签命中（主题词与标签互相包含）为主，正文 / 作者 / 出处的词元重合为辅
+ */
+function scoreQuote(quote: Quote, terms: string[], themeTokens: string[]): number {
+    const tags = quote.tags.map(tag => tag.toLowerCase());
+    const tagHits = terms.filter(term => tags.some(tag => tag.includes(term) || term.includes(tag))).length;
+
+    const quoteTokens = new Set(tokenize(`${quote.text} ${quote.author} ${quote.work ?? ''}`));
+    const textHits = themeTokens.filter(token => quoteTokens.has(token)).length;
+
+    return (terms.length > 0 ? QUOTES.TAG_WEIGHT * tagHits / terms.length : 0)
+        + (themeTokens.length > 0 ? QUOTES.TEXT_WEIGHT * textHits / themeTokens.length : 0);
+}
+
+function getPopularTags(quotes: Quote[], limit: number): string[] {
+    const counts = new Map<string, number>();
+    for (const tag of quotes.flatMap(quote => quote.tags)) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([tag]) => tag);
+}
+
+/**
+ * 归一化为只含字母、数字与汉字的小写串，用于在台词中识别引用
+ */
+function normalizeText(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9\u3400-\u9fff]/g, '');
+}
+
+function shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+// ================== Public API ==================
+
+/**
+ * 按主题检索语录（同分随机排列，让同一主题每次取到不同的句子）
+ */
+export async function searchQuotes(query: QuoteQuery): Promise<QuoteSearchResult> {
+    const { quotes } = await loadCorpora(parseSourceList(getSettings().quoteSources), false);
+
+    const language = query.language?.trim().toLowerCase().split(/[-_]/)[0];
+    const pool = language ? quotes.filter(quote => quote.language === language) : quotes;
+
+    const terms = query.theme.toLowerCase().split(/[\s,/|\uff0c\u3001]+/).filter(Boolean);
+    const themeTokens = tokenize(query.theme);
+    const matched = shuffle(pool)
+        .map(quote => ({ quote, score: scoreQuote(quote, terms, themeTokens) }))
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score);
+    const fresh = matched.filter(entry => !isQuoteAired(entry.quote.text));
+
+    const count = Math.max(1, Math.min(query.count || QUOTES.DEFAULT_COUNT, QUOTES.MAX_COUNT));
+    return {
+        quotes: fresh.slice(0, count).map(entry => entry.quote),
+        skipped: matched.length - fresh.length,
+        availableTags: fresh.length > 0 ? [] : getPopularTags(pool, 12)
+    };
+}
+
+/**
+ * 扫描台词，把引用到的已加载语录记为已播出（整句或任一足够长的分句出现即算引用）
+ */
+export function recordAiredQuotes(lines: string[]): number {
+    const script = normalizeText(lines.join(''));
+    if (!script) return 0;
+
+    let recorded = 0;
+    for (const { quotes } of corpusCache.values()) {
+        for (const quote of quotes) {
+            const clauses = [quote.text, ...quote.text.split(/[,.;:!?\uff0c\u3002\uff1b\uff1a\uff01\uff1f]/)]
+                .map(normalizeText)
+                .filter(clause => clause.length >= QUOTES.MIN_MATCH_CHARS);
+
+            if (clauses.some(clause => script.includes(clause))) {
+                recordQuote(quote.text, quote.author);
+                recorded++;
+            }
+        }
+    }
+    return recorded;
+}
+
+/**
+ * 重新加载语录源并返回各源条数（设置面板测试用，可测试尚未保存的配置）
+ */
+export async function checkQuoteSources(text: string): Promise<SourceStatus[]> {
+    return (await loadCorpora(parseSourceList(text), true)).sources;
+}
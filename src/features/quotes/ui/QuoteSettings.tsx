@@ -0,0 +1,34 @@
+"use client";
+
+import React from 'react';
+import { Quote } from 'lucide-react';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+import { QUOTES } from '@shared/utils/constants';
+import SourceListSettings from '@shared/ui/source-list-settings';
+import { checkQuoteSources } from '../lib/quote-service';
+
+interface QuoteSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: string) => void;
+}
+
+export default function QuoteSettings({
+    settings,
+    onSettingChange,
+}: QuoteSettingsProps) {
+    return (
+        <SourceListSettings
+            settings={settings}
+            onSettingChange={onSettingChange}
+            field="quoteSources"
+            label="语录库"
+            icon={Quote}
+            placeholder="/quotes/my-quotes.csv | 我的语录 | 深夜"
+            hint="每行：地址 | 名称 | 附加标签。支持 JSON 与 CSV（text, author, work, language, tags 列），没有作者的条目会被忽略；已播出的语录近期不会重复推荐"
+            emptyText="未配置语录库"
+            preset={{ label: '恢复默认', value: QUOTES.DEFAULT_SOURCES }}
+            onCheck={checkQuoteSources}
+            rows={2}
+        />
+    );
+}
@@ -0,0 +1,358 @@
+/**
+ * Episode Renderer - 录制离线渲染
+ * 使用 OfflineAudioContext 按真实时间重放语音/音乐/音效/音量自动化与侧链闪避，
+ * 默认输出 Ogg Opus（章节写入 OpusTags，见 ogg-opus.ts），浏览器不支持 Opus 编码或指定 WAV 时
+ * 输出带章节标记（cue + LIST/adtl 标签）的 WAV 文件；字幕与章节 JSON 两种格式相同
+ */
+
+import { AUDIO, RECORDING } from '@shared/utils/constants';
+import { SidechainDucker } from '@shared/services/audio-service/ducking';
+import { ShowRecording, RecordedChapter, RecordedGainPoint, RecordedVoice } from './show-recorder';
+import { buildLrc, buildWebVtt, buildChaptersJson } from './transcript';
+import { encodeOggOpus } from './ogg-opus';
+
+// ================== Types ==================
+
+export type EpisodeFormat = 'opus' | 'wav';
+
+export interface RenderedEpisode {
+    recordingId: string;
+    title: string;
+    durationMs: number;
+    audio: Blob;            // audio/ogg (Opus) 或 audio/wav
+    extension: string;      // opus / wav
+    lrc: string;
+    vtt: string;
+    chapters: string;       // JSON
+}
+
+interface GainSegment {
+    startTime: number;
+    startValue: number;
+    endTime: number;
+    endValue: number;
+}
+
+// ================== Gain Automation ==================
+
+/**
+ * 将音量事件转换为互不重叠的线性段（后一个事件会截断前一个渐变）
+ */
+function buildGainSegments(points: RecordedGainPoint[]): GainSegment[] {
+    const segments: GainSegment[] = [];
+    let current: GainSegment = {
+        startTime: 0,
+        startValue: AUDIO.MUSIC_DEFAULT_VOLUME,
+        endTime: 0,
+        endValue: AUDIO.MUSIC_DEFAULT_VOLUME
+    };
+
+    const valueAt = (segment: GainSegment, time: number): number => {
+        if (time >= segment.endTime || segment.endTime === segment.startTime) return segment.endValue;
+        const progress = (time - segment.startTime) / (segment.endTime - segment.startTime);
+        return segment.startValue + (segment.endValue - segment.startValue) * progress;
+    };
+
+    for (const point of [...points].sort((a, b) => a.atMs - b.atMs)) {
+        const time = point.atMs / 1000;
+
+        // 截断仍在进行的渐变
+        if (time < current.endTime) {
+            const value = valueAt(current, time);
+            current.endTime = time;
+            current.endValue = value;
+        }
+        segments.push(current);
+
+        current = {
+            startTime: time,
+            startValue: valueAt(current, time),
+            endTime: time + point.duration / 1000,
+            endValue: point.volume
+        };
+    }
+    segments.push(current);
+
+    return segments;
+}
+
+function applyGainAutomation(param: AudioParam, points: RecordedGainPoint[]): void {
+    for (const segment of buildGainSegments(points)) {
+        param.setValueAtTime(segment.startValue, segment.startTime);
+        if (segment.endTime > segment.startTime) {
+            param.linearRampToValueAtTime(segment.endValue, segment.endTime);
+        } else {
+            param.setValueAtTime(segment.endValue, segment.startTime);
+        }
+    }
+}
+
+// ================== Ducking ==================
+
+/**
+ * 计算某一检测周期内所有语音的 RMS 电平 (dBFS)
+ */
+function getVoiceLevelDb(voices: Array<{ voice: RecordedVoice; pcm: Int16Array }>, atMs: number, stepMs: number): number {
+    let energy = 0;
+    const count = Math.round(RECORDING.VOICE_SAMPLE_RATE * stepMs / 1000);
+
+    for (const { voice, pcm } of voices) {
+        if (atMs < voice.startMs || atMs >= voice.endMs) continue;
+        const start = Math.floor((atMs - voice.startMs) / 1000 * RECORDING.VOICE_SAMPLE_RATE);
+        const end = Math.min(pcm.length, start + count);
+        for (let i = start; i < end; i++) {
+            const value = pcm[i] / 0x8000 * voice.volume * voice.gain;
+            energy += value * value;
+        }
+    }
+
+    return 10 * Math.log10(energy / count);
+}
+
+/**
+ * 按录下的语音重新计算侧链闪避包络（与实时播放相同的算法）
+ * 每个区间结束后继续计算回升，直到恢复或下一个区间开始
+ */
+function applyDuckingAutomation(param: AudioParam, recording: ShowRecording): void {
+    const step = AUDIO.DUCK_INTERVAL_MS;
+    const voices = recording.voices.map(voice => ({
+        voice,
+        pcm: new Int16Array(voice.audioData, 0, Math.floor(voice.audioData.byteLength / 2))
+    }));
+
+    recording.ducking.forEach((window, index) => {
+        const limit = recording.ducking[index + 1]?.startMs ?? recording.durationMs;
+        const ducker = new SidechainDucker(window.options);
+        const values: number[] = [];
+
+        for (let t = window.startMs; t < limit; t += step) {
+            if (t >= window.endMs) ducker.release();
+            values.push(ducker.next(getVoiceLevelDb(voices, t, step), step));
+            if (ducker.isIdle()) break;
+        }
+        if (values.length < 2) return;
+
+        // 曲线之间至少相隔一个周期，避免自动化事件重叠
+        const end = window.startMs + (values.length - 1) * step;
+        param.setValueCurveAtTime(Float32Array.from(values), window.startMs / 1000, (end - window.startMs) / 1000);
+        if (ducker.isIdle()) {
+            param.setValueAtTime(1, (end + step / 2) / 1000);
+        }
+    });
+}
+
+// ================== WAV Encoding ==================
+
+function writeString(view: DataView, offset: number, str: string): void {
+    for (let i = 0; i < str.length; i++) {
+        view.setUint8(offset + i, str.charCodeAt(i));
+    }
+}
+
+/**
+ * 章节标记：cue 块 + LIST/adtl/labl 标签（主流音频编辑器可识别）
+ */
+function buildMarkerChunks(chapters: RecordedChapter[], sampleRate: number): Uint8Array[] {
+    if (chapters.length === 0) return [];
+
+    const cueSize = 4 + chapters.length * 24;
+    const cue = new DataView(new ArrayBuffer(8 + cueSize));
+    writeString(cue, 0, 'cue ');
+    cue.setUint32(4, cueSize, true);
+    cue.setUint32(8, chapters.length, true);
+
+    chapters.forEach((chapter, index) => {
+        const offset = 12 + index * 24;
+        const position = Math.round(chapter.startMs / 1000 * sampleRate);
+        cue.setUint32(offset, index + 1, true);         // Cue ID
+        cue.setUint32(offset + 4, position, true);      // Position
+        writeString(cue, offset + 8, 'data');           // Data chunk ID
+        cue.setUint32(offset + 12, 0, true);            // Chunk start
+        cue.setUint32(offset + 16, 0, true);            // Block start
+        cue.setUint32(offset + 20, position, true);     // Sample offset
+    });
+
+    const encoder = new TextEncoder();
+    const labels = chapters.map((chapter, index) => {
+        const text = encoder.encode(`${chapter.title}\0`);
+        const size = 4 + text.length;
+        const padded = size + (size % 2);
+        const label = new Uint8Array(8 + padded);
+        const view = new DataView(label.buffer);
+        writeString(view, 0, 'labl');
+        view.setUint32(4, size, true);
+        view.setUint32(8, index + 1, true);
+        label.set(text, 12);
+        return label;
+    });
+
+    const listSize = 4 + labels.reduce((sum, label) => sum + label.length, 0);
+    const listHeader = new DataView(new ArrayBuffer(12));
+    writeString(listHeader, 0, 'LIST');
+    listHeader.setUint32(4, listSize, true);
+    writeString(listHeader, 8, 'adtl');
+
+    return [new Uint8Array(cue.buffer), new Uint8Array(listHeader.buffer), ...labels];
+}
+
+/**
+ * AudioBuffer -> 16-bit PCM WAV（含章节标记）
+ */
+export function encodeWav(buffer: AudioBuffer, chapters: RecordedChapter[] = []): Blob {
+    const numChannels = buffer.numberOfChannels;
+    const sampleRate = buffer.sampleRate;
+    const dataSize = buffer.length * numChannels * 2;
+
+    const markerChunks = buildMarkerChunks(chapters, sampleRate);
+    const markerSize = markerChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+    const header = new DataView(new ArrayBuffer(44));
+    writeString(header, 0, 'RIFF');
+    header.setUint32(4, 36 + dataSize + markerSize, true);
+    writeString(header, 8, 'WAVE');
+    writeString(header, 12, 'fmt ');
+    header.setUint32(16, 16, true);
+    header.setUint16(20, 1, true);
+    header.setUint16(22, numChannels, true);
+    header.setUint32(24, sampleRate, true);
+    header.setUint32(28, sampleRate * numChannels * 2, true);
+    header.setUint16(32, numChannels * 2, true);
+    header.setUint16(34, 16, true);
+    writeString(header, 36, 'data');
+    header.setUint32(40, dataSize, true);
+
+    // 交错写入各声道
+    const pcm = new Int16Array(buffer.length * numChannels);
+    const channels = Array.from({ length: numChannels }, (_, i) => buffer.getChannelData(i));
+    for (let i = 0; i < buffer.length; i++) {
+        for (let c = 0; c < numChannels; c++) {
+            const sample = Math.max(-1, Math.min(1, channels[c][i]));
+            pcm[i * numChannels + c] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+        }
+    }
+
+    return new Blob([header.buffer, pcm.buffer, ...markerChunks.map(chunk => chunk.buffer as ArrayBuffer)], { type: 'audio/wav' });
+}
+
+// ================== Render ==================
+
+/**
+ * 离线渲染录制为单个混音文件（要求 Opus 但无法编码时退回 WAV）
+ */
+export async function renderRecording(recording: ShowRecording, format: EpisodeFormat = 'opus'): Promise<RenderedEpisode> {
+    if (typeof OfflineAudioContext === 'undefined') {
+        throw new Error('OfflineAudioContext is not available');
+    }
+
+    const sampleRate = RECORDING.SAMPLE_RATE;
+    const length = Math.max(1, Math.ceil(recording.durationMs / 1000 * sampleRate));
+    const ctx = new OfflineAudioContext(RECORDING.CHANNELS, length, sampleRate);
+
+    // 音乐总线（淡入淡出自动化）→ 侧链闪避 → 输出
+    const duckGain = ctx.createGain();
+    applyDuckingAutomation(duckGain.gain, recording);
+    duckGain.connect(ctx.destination);
+
+    const musicBus = ctx.createGain();
+    applyGainAutomation(musicBus.gain, recording.musicGain);
+    musicBus.connect(duckGain);
+
+    for (const music of recording.music) {
+        if (music.segments.length === 0) continue;
+
+        const data = await music.data;
+        if (!data) continue;
+
+        let decoded: AudioBuffer;
+        try {
+            decoded = await ctx.decodeAudioData(await data.arrayBuffer());
+        } catch (error) {
+            console.warn('[Recorder] Music decode failed, skipping:', music.source, error);
+            continue;
+        }
+
+        // 响度归一化增益（与实时混音一致）
+        const clipGain = ctx.createGain();
+        clipGain.gain.value = music.gain;
+        clipGain.connect(musicBus);
+
+        for (const segment of music.segments) {
+            const source = ctx.createBufferSource();
+            source.buffer = decoded;
+            source.connect(clipGain);
+            source.start(segment.startMs / 1000, segment.offsetMs / 1000, (segment.endMs - segment.startMs) / 1000);
+        }
+    }
+
+    // 语音轨
+    for (const voice of recording.voices) {
+        const pcm = new Int16Array(voice.audioData, 0, Math.floor(voice.audioData.byteLength / 2));
+        if (pcm.length === 0) continue;
+
+        const voiceBuffer = ctx.createBuffer(1, pcm.length, RECORDING.VOICE_SAMPLE_RATE);
+        const channel = voiceBuffer.getChannelData(0);
+        for (let i = 0; i < pcm.length; i++) {
+            channel[i] = pcm[i] / 0x8000;
+        }
+
+        const gain = ctx.createGain();
+        gain.gain.value = voice.volume * voice.gain;
+        gain.connect(ctx.destination);
+
+        const source = ctx.createBufferSource();
+        source.buffer = voiceBuffer;
+        source.connect(gain);
+        source.start(voice.startMs / 1000, 0, (voice.endMs - voice.startMs) / 1000);
+    }
+
+    // 音效轨（不参与闪避）
+    for (const effect of recording.effects) {
+        const data = await effect.data;
+        if (!data) continue;
+
+        let decoded: AudioBuffer;
+        try {
+            decoded = await ctx.decodeAudioData(await data.arrayBuffer());
+        } catch (error) {
+            console.warn('[Recorder] Effect decode failed, skipping:', effect.source, error);
+            continue;
+        }
+
+        const start = effect.startMs / 1000;
+        const end = effect.endMs / 1000;
+        const stop = end + effect.fadeOut / 1000;
+
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(effect.fadeIn > 0 ? 0 : effect.volume, start);
+        if (effect.fadeIn > 0) {
+            gain.gain.linearRampToValueAtTime(effect.volume, Math.min(end, start + effect.fadeIn / 1000));
+        }
+        if (effect.fadeOut > 0) {
+            gain.gain.setValueAtTime(effect.volume, end);
+            gain.gain.linearRampToValueAtTime(0, stop);
+        }
+        gain.connect(ctx.destination);
+
+        const source = ctx.createBufferSource();
+        source.buffer = decoded;
+        source.loop = effect.loop;
+        source.connect(gain);
+        source.start(start);
+        source.stop(stop);
+    }
+
+    const rendered = await ctx.startRendering();
+    const title = recording.timeline.title || 'Untitled';
+    const opus = format === 'opus' ? await encodeOggOpus(rendered, title, recording.chapters) : null;
+
+    return {
+        recordingId: recording.id,
+        title,
+        durationMs: recording.durationMs,
+        audio: opus ?? encodeWav(rendered, recording.chapters),
+        extension: opus ? 'opus' : 'wav',
+        lrc: buildLrc(recording.cues, title),
+        vtt: buildWebVtt(recording.cues),
+        chapters: buildChaptersJson(recording.chapters)
+    };
+}
@@ -0,0 +1,265 @@
+/**
+ * Ogg Opus - 录制的压缩导出
+ * 使用 WebCodecs AudioEncoder 编码 Opus，按 RFC 7845 封装为 Ogg：
+ * OpusHead / OpusTags 头（章节以 CHAPTERxxx 注释写入）+ 每页一个音频包。
+ * 浏览器不支持 Opus 编码时返回 null，由调用方退回 WAV
+ */
+
+import { RECORDING } from '@shared/utils/constants';
+import { RecordedChapter } from './show-recorder';
+
+// ================== Constants ==================
+
+const OPUS_SAMPLE_RATE = 48000;         // Ogg Opus 的粒度位置始终以 48kHz 计
+const DEFAULT_PRE_SKIP = 312;           // libopus 默认前瞻（编码器未提供 OpusHead 时使用）
+const MAX_SEGMENTS = 255;               // 单页最多 255 个分段
+const ENCODER_QUEUE_LIMIT = 8;          // 待编码帧上限，避免长节目一次性占满内存
+
+let crcTable: Uint32Array | null = null;
+
+// ================== Ogg Pages ==================
+
+/**
+ * Ogg 使用的 CRC-32（多项式 0x04c11db7，不反转，初值 0）
+ */
+function oggCrc(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let i = 0; i < 256; i++) {
+            let r = i << 24;
+            for (let j = 0; j < 8; j++) {
+                r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+            }
+            crcTable[i] = r >>> 0;
+        }
+    }
+
+    let crc = 0;
+    for (let i = 0; i < data.length; i++) {
+        crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+    }
+    return crc;
+}
+
+class OggWriter {
+    private pages: Uint8Array[] = [];
+    private sequence = 0;
+    private readonly serial = Math.floor(Math.random() * 0xffffffff) >>> 0;
+
+    /**
+     * 写入一个包（超过单页容量时拆到续页，续页的粒度位置为 -1）
+     */
+    writePacket(packet: Uint8Array, granule: number, flags: { bos?: boolean; eos?: boolean } = {}): void {
+        // 分段表：每段 255 字节，最后一段不足 255（恰好整除时补一个 0）
+        const lacing: number[] = [];
+        for (let left = packet.length; ; left -= 255) {
+            lacing.push(Math.min(left, 255));
+            if (left < 255) break;
+        }
+
+        let offset = 0;
+        for (let first = 0; first < lacing.length; first += MAX_SEGMENTS) {
+            const segments = lacing.slice(first, first + MAX_SEGMENTS);
+            const size = segments.reduce((sum, value) => sum + value, 0);
+            const last = first + MAX_SEGMENTS >= lacing.length;
+
+            let headerType = 0;
+            if (first > 0) headerType |= 0x01;
+            if (flags.bos && first === 0) headerType |= 0x02;
+            if (flags.eos && last) headerType |= 0x04;
+
+            this.pushPage(headerType, last ? granule : -1, segments, packet.subarray(offset, offset + size));
+            offset += size;
+        }
+    }
+
+    toBlob(): Blob {
+        return new Blob(this.pages.map(page => page.buffer as ArrayBuffer), { type: 'audio/ogg' });
+    }
+
+    private pushPage(headerType: number, granule: number, segments: number[], body: Uint8Array): void {
+        const page = new Uint8Array(27 + segments.length + body.length);
+        const view = new DataView(page.buffer);
+
+        page.set([0x4f, 0x67, 0x67, 0x53], 0);  // "OggS"
+        page[4] = 0;
+        page[5] = headerType;
+        if (granule < 0) {
+            view.setUint32(6, 0xffffffff, true);
+            view.setUint32(10, 0xffffffff, true);
+        } else {
+            view.setUint32(6, granule % 0x100000000, true);
+            view.setUint32(10, Math.floor(granule / 0x100000000), true);
+        }
+        view.setUint32(14, this.serial, true);
+        view.setUint32(18, this.sequence++, true);
+        page[26] = segments.length;
+        page.set(segments, 27);
+        page.set(body, 27 + segments.length);
+
+        view.setUint32(22, oggCrc(page), true);
+        this.pages.push(page);
+    }
+}
+
+// ================== Opus Headers ==================
+
+function buildOpusHead(channels: number, sampleRate: number, preSkip: number): Uint8Array {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode('OpusHead'), 0);
+    head[8] = 1;                        // 版本
+    head[9] = channels;
+    view.setUint16(10, preSkip, true);
+    view.setUint32(12, sampleRate, true);
+    view.setInt16(16, 0, true);         // 输出增益
+    head[18] = 0;                       // 声道映射族（单声道 / 立体声）
+    return head;
+}
+
+function formatChapterTime(ms: number): string {
+    const pad = (value: number, size = 2) => String(value).padStart(size, '0');
+    const totalSeconds = Math.floor(ms / 1000);
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}.${pad(Math.floor(ms % 1000), 3)}`;
+}
+
+/**
+ * OpusTags：标题与章节（CHAPTER001=HH:MM:SS.mmm / CHAPTER001NAME=标题）
+ */
+function buildOpusTags(title: string, chapters: RecordedChapter[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const vendor = encoder.encode('RadioNowhere');
+    const comments = [`TITLE=${title}`];
+    chapters.forEach((chapter, i) => {
+        const id = `CHAPTER${String(i + 1).padStart(3, '0')}`;
+        comments.push(`${id}=${formatChapterTime(chapter.startMs)}`, `${id}NAME=${chapter.title}`);
+    });
+    const encoded = comments.map(comment => encoder.encode(comment));
+
+    const size = 8 + 4 + vendor.length + 4 + encoded.reduce((sum, comment) => sum + 4 + comment.length, 0);
+    const tags = new Uint8Array(size);
+    const view = new DataView(tags.buffer);
+    tags.set(encoder.encode('OpusTags'), 0);
+
+    let offset = 8;
+    view.setUint32(offset, vendor.length, true);
+    tags.set(vendor, offset + 4);
+    offset += 4 + vendor.length;
+    view.setUint32(offset, encoded.length, true);
+    offset += 4;
+    for (const comment of encoded) {
+        view.setUint32(offset, comment.length, true);
+        tags.set(comment, offset + 4);
+        offset += 4 + comment.length;
+    }
+    return tags;
+}
+
+// ================== Encoding ==================
+
+function getEncoderConfig(buffer: AudioBuffer): AudioEncoderConfig {
+    return {
+        codec: 'opus',
+        sampleRate: buffer.sampleRate,
+        numberOfChannels: buffer.numberOfChannels,
+        bitrate: RECORDING.OPUS_BITRATE
+    };
+}
+
+/**
+ * 当前环境能否编码 Opus
+ */
+export async function isOpusEncodingSupported(buffer: AudioBuffer): Promise<boolean> {
+    if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return false;
+    try {
+        const { supported } = await AudioEncoder.isConfigSupported(getEncoderConfig(buffer));
+        return Boolean(supported);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * AudioBuffer -> Ogg Opus（含标题与章节注释）；不支持时返回 null
+ */
+export async function encodeOggOpus(
+    buffer: AudioBuffer,
+    title: string,
+    chapters: RecordedChapter[] = []
+): Promise<Blob | null> {
+    if (!(await isOpusEncodingSupported(buffer))) return null;
+
+    const packets: { data: Uint8Array; samples: number }[] = [];
+    let opusHead: Uint8Array | null = null;
+    let encodeError: unknown = null;
+
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            packets.push({ data, samples: Math.round((chunk.duration ?? 0) * OPUS_SAMPLE_RATE / 1e6) });
+
+            // 编码器提供的 OpusHead 带有真实的前瞻（pre-skip）
+            const description = metadata?.decoderConfig?.description;
+            if (!opusHead && description) {
+                const bytes = ArrayBuffer.isView(description)
+                    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+                    : new Uint8Array(description);
+                if (new TextDecoder().decode(bytes.subarray(0, 8)) === 'OpusHead') {
+                    opusHead = bytes.slice();
+                }
+            }
+        },
+        error: (error) => {
+            encodeError = error;
+        }
+    });
+    encoder.configure(getEncoderConfig(buffer));
+
+    const { numberOfChannels, sampleRate, length } = buffer;
+    const channels = Array.from({ length: numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+    // 按秒分块送入编码器，队列过长时等待出队
+    for (let start = 0; start < length && !encodeError; start += sampleRate) {
+        const frames = Math.min(sampleRate, length - start);
+        const planar = new Float32Array(frames * numberOfChannels);
+        channels.forEach((channel, c) => planar.set(channel.subarray(start, start + frames), c * frames));
+
+        const data = new AudioData({
+            format: 'f32-planar',
+            sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels,
+            timestamp: Math.round(start / sampleRate * 1e6),
+            data: planar
+        });
+        encoder.encode(data);
+        data.close();
+
+        while (encoder.encodeQueueSize > ENCODER_QUEUE_LIMIT) {
+            await new Promise<void>(resolve => encoder.addEventListener('dequeue', () => resolve(), { once: true }));
+        }
+    }
+
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+
+    const head: Uint8Array = opusHead ?? buildOpusHead(numberOfChannels, sampleRate, DEFAULT_PRE_SKIP);
+    const preSkip = new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true);
+
+    const writer = new OggWriter();
+    writer.writePacket(head, 0, { bos: true });
+    writer.writePacket(buildOpusTags(title, chapters), 0);
+
+    // 末页的粒度位置截到原始长度，解码器据此裁掉编码补齐的尾部
+    const endGranule = preSkip + Math.round(length * OPUS_SAMPLE_RATE / sampleRate);
+    let granule = preSkip;
+    packets.forEach((packet, i) => {
+        granule += packet.samples;
+        const last = i === packets.length - 1;
+        writer.writePacket(packet.data, last ? Math.min(granule, endGranule) : granule, { eos: last });
+    });
+
+    return writer.toBlob();
+}
@@ -0,0 +1,495 @@
+/**
+ * Show Recorder - 节目录制
+ * 监听混音事件，记录每期节目实际播放的语音、音乐片段、音效、音量自动化、侧链闪避区间与真实时间，
+ * 供离线渲染为单个音频文件（见 episode-renderer.ts）
+ */
+
+import { ShowTimeline, TimelineBlock } from '@shared/types/radio-core';
+import { onMixerEvent, MixerEvent } from '@shared/services/audio-service/mixer';
+import { DuckingOptions, resolveDucking } from '@shared/services/audio-service/ducking';
+import { radioMonitor, ScriptEvent } from '@shared/services/monitor-service';
+import { RECORDING } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+export interface RecordedChapter {
+    startMs: number;
+    title: string;
+    blockId: string;
+    blockType: TimelineBlock['type'];
+}
+
+export interface RecordedCue {
+    startMs: number;
+    endMs: number;
+    speaker: string;
+    text: string;
+}
+
+export interface RecordedVoice {
+    startMs: number;
+    endMs: number;
+    audioData: ArrayBuffer;     // 24kHz 16-bit PCM
+    volume: number;
+    gain: number;               // 响度归一化增益（与实时混音一致）
+}
+
+export interface RecordedMusicSegment {
+    startMs: number;
+    endMs: number;
+    offsetMs: number;           // 从音源的哪个位置开始
+}
+
+export interface RecordedMusic {
+    source: string;
+    data: Promise<Blob | null>;
+    segments: RecordedMusicSegment[];
+    gain: number;               // 响度归一化增益（与实时混音一致）
+}
+
+export interface RecordedGainPoint {
+    atMs: number;
+    volume: number;
+    duration: number;           // 渐变时长 (ms)，0 表示立即设置
+}
+
+/** 音效（一次性音效或循环铺底） */
+export interface RecordedEffect {
+    source: string;
+    data: Promise<Blob | null>;
+    startMs: number;
+    endMs: number;              // 停止时刻（铺底从此开始淡出）
+    volume: number;
+    loop: boolean;
+    fadeIn: number;             // ms
+    fadeOut: number;            // ms
+}
+
+/** 侧链闪避区间（渲染时按录下的语音重新计算包络） */
+export interface RecordedDucking {
+    startMs: number;
+    endMs: number;
+    options: DuckingOptions;
+}
+
+export interface ShowRecording {
+    id: string;
+    timeline: ShowTimeline;
+    startedAt: number;
+    durationMs: number;
+    chapters: RecordedChapter[];
+    cues: RecordedCue[];
+    voices: RecordedVoice[];
+    music: RecordedMusic[];
+    musicGain: RecordedGainPoint[];
+    ducking: RecordedDucking[];
+    effects: RecordedEffect[];
+}
+
+export interface RecordingSummary {
+    id: string;
+    title: string;
+    startedAt: number;
+    durationMs: number;
+    chapterCount: number;
+}
+
+interface PendingLine {
+    speaker: string;
+    text: string;
+}
+
+// ================== Helpers ==================
+
+function getChapterTitle(block: TimelineBlock): string {
+    switch (block.type) {
+        case 'talk': {
+            const first = block.scripts[0];
+            return first ? `${first.speaker}: ${first.text.slice(0, 30)}` : 'Conversation';
+        }
+        case 'music': return block.search;
+        case 'music_control': return `Control: ${block.action}`;
+        default: return block.type;
+    }
+}
+
+function getPcmDurationMs(audioData: ArrayBuffer): number {
+    return (audioData.byteLength / 2) / RECORDING.VOICE_SAMPLE_RATE * 1000;
+}
+
+/**
+ * 读取音乐 / 音效数据（Blob URL 需在被回收前读取）
+ */
+async function fetchMusicData(source: string): Promise<Blob | null> {
+    try {
+        const response = await fetch(source);
+        return response.ok ? await response.blob() : null;
+    } catch (error) {
+        console.warn('[Recorder] Failed to capture music source:', error);
+        return null;
+    }
+}
+
+// ================== Show Recorder Class ==================
+
+export class ShowRecorder {
+    private armed = false;
+    private current: ShowRecording | null = null;
+    private currentBlock: TimelineBlock | null = null;
+    private recordings: ShowRecording[] = [];
+    private changeListeners: Set<() => void> = new Set();
+    private unsubscribers: Array<() => void> = [];
+
+    // 录制时钟（全部暂停期间不计时）
+    private pausedAt: number | null = null;
+    private pausedTotal = 0;
+
+    // 音轨状态
+    private activeMusic: RecordedMusic | null = null;
+    private musicPlayingSince: number | null = null;   // 当前片段开始（录制时间）
+    private musicOffsetMs = 0;
+    private musicPausedByAll = false;
+    private activeVoice: RecordedVoice | null = null;
+    private activeDucking: RecordedDucking | null = null;
+    private activeEffects: Map<number, RecordedEffect> = new Map();
+    private pendingLines: PendingLine[] = [];
+
+    // ================== 公开方法 ==================
+
+    isArmed(): boolean {
+        return this.armed;
+    }
+
+    /**
+     * 开启/关闭录制（关闭时立即结束当前录制）
+     */
+    setArmed(armed: boolean): void {
+        this.armed = armed;
+        if (!armed) {
+            this.finishTimeline();
+        }
+        this.notifyChange();
+    }
+
+    isRecording(): boolean {
+        return this.current !== null;
+    }
+
+    /**
+     * 节目开始：为该时间线新建录制
+     */
+    beginTimeline(timeline: ShowTimeline): void {
+        if (!this.armed) return;
+        this.finishTimeline();
+
+        this.current = {
+            id: `rec-${Date.now()}`,
+            timeline,
+            startedAt: Date.now(),
+            durationMs: 0,
+            chapters: [],
+            cues: [],
+            voices: [],
+            music: [],
+            musicGain: [],
+            ducking: [],
+            effects: []
+        };
+        this.pausedAt = null;
+        this.pausedTotal = 0;
+        this.resetTracks();
+
+        this.unsubscribers = [
+            onMixerEvent((event, at) => this.handleMixerEvent(event, at)),
+            radioMonitor.on('script', (data: ScriptEvent) => this.handleScript(data))
+        ];
+
+        radioMonitor.log('DIRECTOR', `Recording started: ${timeline.title || timeline.id}`, 'info');
+        this.notifyChange();
+    }
+
+    /**
+     * 块开始：记录章节标记
+     */
+    markBlock(block: TimelineBlock): void {
+        if (!this.current) return;
+
+        this.currentBlock = block;
+        this.pendingLines = [];
+        this.current.chapters.push({
+            startMs: this.now(),
+            title: getChapterTitle(block),
+            blockId: block.id,
+            blockType: block.type
+        });
+    }
+
+    /**
+     * 节目结束：封存录制
+     */
+    finishTimeline(): void {
+        const recording = this.current;
+        if (!recording) return;
+
+        const endMs = this.now();
+        this.closeMusicSegment(endMs);
+        this.closeVoice(endMs);
+        this.closeDucking(endMs);
+        this.activeEffects.forEach(effect => { effect.endMs = endMs; });
+        this.activeEffects.clear();
+
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.current = null;
+        this.currentBlock = null;
+
+        recording.durationMs = endMs;
+        recording.voices = recording.voices.filter(voice => voice.endMs > voice.startMs);
+        recording.effects = recording.effects.filter(effect => effect.endMs > effect.startMs);
+
+        if (recording.chapters.length > 0 && endMs > 0) {
+            this.recordings = [...this.recordings, recording].slice(-RECORDING.MAX_EPISODES);
+            radioMonitor.log('DIRECTOR', `Recording saved: ${recording.timeline.title || recording.id} (${Math.round(endMs / 1000)}s)`, 'info');
+        }
+        this.notifyChange();
+    }
+
+    getRecordings(): RecordingSummary[] {
+        return this.recordings.map(recording => ({
+            id: recording.id,
+            title: recording.timeline.title || 'Untitled',
+            startedAt: recording.startedAt,
+            durationMs: recording.durationMs,
+            chapterCount: recording.chapters.length
+        }));
+    }
+
+    getRecording(id: string): ShowRecording | null {
+        return this.recordings.find(recording => recording.id === id) || null;
+    }
+
+    removeRecording(id: string): void {
+        this.recordings = this.recordings.filter(recording => recording.id !== id);
+        this.notifyChange();
+    }
+
+    /**
+     * 订阅录制状态变化
+     */
+    onChange(listener: () => void): () => void {
+        this.changeListeners.add(listener);
+        return () => this.changeListeners.delete(listener);
+    }
+
+    // ================== 事件处理 ==================
+
+    private handleMixerEvent(event: MixerEvent, at: number): void {
+        const recording = this.current;
+        if (!recording) return;
+
+        // 暂停期间有声音（如整点报时）时恢复计时
+        if (this.pausedAt !== null && (event.type === 'resume' || event.type === 'music_resume' || event.type === 'voice_start')) {
+            this.pausedTotal += at - this.pausedAt;
+            this.pausedAt = null;
+        }
+
+        const t = this.toRecordingTime(at);
+
+        switch (event.type) {
+            case 'music_start':
+                this.closeMusicSegment(t);
+                this.activeMusic = { source: event.source, data: fetchMusicData(event.source), segments: [], gain: event.gain };
+                recording.music.push(this.activeMusic);
+                this.musicPlayingSince = t;
+                this.musicOffsetMs = 0;
+                this.musicPausedByAll = false;
+                recording.musicGain.push({ atMs: t, volume: event.volume, duration: 0 });
+                break;
+            case 'music_stop':
+                this.closeMusicSegment(t);
+                this.activeMusic = null;
+                break;
+            case 'music_pause':
+                this.closeMusicSegment(t);
+                break;
+            case 'music_resume':
+                if (this.activeMusic && this.musicPlayingSince === null) {
+                    this.musicPlayingSince = t;
+                }
+                this.musicPausedByAll = false;
+                break;
+            case 'music_volume':
+                recording.musicGain.push({ atMs: t, volume: event.volume, duration: event.duration });
+                break;
+            case 'ducking':
+                this.closeDucking(t);
+                if (event.options) {
+                    this.activeDucking = { startMs: t, endMs: t, options: resolveDucking(event.options) };
+                    recording.ducking.push(this.activeDucking);
+                }
+                break;
+            case 'voice_start':
+                this.closeVoice(t);
+                this.startVoice(event.audioData, event.volume, event.gain, t);
+                break;
+            case 'voice_stop':
+                this.closeVoice(t);
+                break;
+            case 'effect_start': {
+                const effect: RecordedEffect = {
+                    source: event.source,
+                    data: fetchMusicData(event.source),
+                    startMs: t,
+                    endMs: t,
+                    volume: event.volume,
+                    loop: event.loop,
+                    fadeIn: event.fadeIn,
+                    fadeOut: 0
+                };
+                this.activeEffects.set(event.id, effect);
+                recording.effects.push(effect);
+                break;
+            }
+            case 'effect_stop': {
+                const effect = this.activeEffects.get(event.id);
+                if (effect) {
+                    effect.endMs = t;
+                    effect.fadeOut = event.fadeOut;
+                    this.activeEffects.delete(event.id);
+                }
+                break;
+            }
+            case 'pause':
+                this.musicPausedByAll = this.musicPlayingSince !== null;
+                this.closeMusicSegment(t);
+                this.pausedAt = at;
+                break;
+            case 'resume':
+                if (this.musicPausedByAll && this.activeMusic) {
+                    this.musicPlayingSince = t;
+                }
+                this.musicPausedByAll = false;
+                break;
+        }
+    }
+
+    /**
+     * 记录当前块的台词，等待对应语音开始播放
+     */
+    private handleScript(data: ScriptEvent): void {
+        const block = this.currentBlock;
+        if (!block || data.blockId !== block.id) return;
+
+        // 音乐章节使用实际曲目名
+        if (data.musicMeta && this.current) {
+            const chapter = this.current.chapters.find(item => item.blockId === block.id);
+            if (chapter) {
+                chapter.title = `${data.musicMeta.trackName} - ${data.musicMeta.artist}`;
+            }
+            return;
+        }
+
+        if (block.type !== 'talk') return;
+
+        const isBlockLine = (text: string) => block.scripts.some(script => script.text === text);
+
+        if (data.isBatched && data.batchScripts) {
+            this.pendingLines = data.batchScripts.filter(line => isBlockLine(line.text));
+        } else if (isBlockLine(data.text)) {
+            this.pendingLines = [{ speaker: data.speaker, text: data.text }];
+        }
+    }
+
+    // ================== 内部方法 ==================
+
+    private startVoice(audioData: ArrayBuffer, volume: number, gain: number, t: number): void {
+        const recording = this.current;
+        if (!recording) return;
+
+        const durationMs = getPcmDurationMs(audioData);
+        this.activeVoice = { startMs: t, endMs: t + durationMs, audioData: audioData.slice(0), volume, gain };
+        recording.voices.push(this.activeVoice);
+
+        // 台词：对话块取待播台词，音乐块取介绍词
+        let lines = this.pendingLines;
+        this.pendingLines = [];
+        if (lines.length === 0 && this.currentBlock?.type === 'music' && this.currentBlock.intro) {
+            lines = [{ speaker: this.currentBlock.intro.speaker, text: this.currentBlock.intro.text }];
+        }
+
+        // 批量语音按文本长度分配时长
+        const totalChars = lines.reduce((sum, line) => sum + Math.max(1, line.text.length), 0);
+        let cursor = t;
+        for (const line of lines) {
+            const lineMs = durationMs * Math.max(1, line.text.length) / totalChars;
+            recording.cues.push({ startMs: cursor, endMs: cursor + lineMs, speaker: line.speaker, text: line.text });
+            cursor += lineMs;
+        }
+    }
+
+    /**
+     * 语音被中断时截断音频与字幕
+     */
+    private closeVoice(t: number): void {
+        const voice = this.activeVoice;
+        const recording = this.current;
+        if (!voice || !recording) return;
+
+        this.activeVoice = null;
+        if (t >= voice.endMs) return;
+
+        voice.endMs = t;
+        recording.cues = recording.cues
+            .filter(cue => cue.startMs < t)
+            .map(cue => cue.endMs > t && cue.startMs >= voice.startMs ? { ...cue, endMs: t } : cue);
+    }
+
+    private closeDucking(t: number): void {
+        if (!this.activeDucking) return;
+        this.activeDucking.endMs = t;
+        this.activeDucking = null;
+    }
+
+    private closeMusicSegment(t: number): void {
+        if (!this.activeMusic || this.musicPlayingSince === null) return;
+
+        const length = Math.max(0, t - this.musicPlayingSince);
+        if (length > 0) {
+            this.activeMusic.segments.push({
+                startMs: this.musicPlayingSince,
+                endMs: t,
+                offsetMs: this.musicOffsetMs
+            });
+        }
+        this.musicOffsetMs += length;
+        this.musicPlayingSince = null;
+    }
+
+    private resetTracks(): void {
+        this.activeMusic = null;
+        this.musicPlayingSince = null;
+        this.musicOffsetMs = 0;
+        this.musicPausedByAll = false;
+        this.activeVoice = null;
+        this.activeDucking = null;
+        this.activeEffects.clear();
+        this.pendingLines = [];
+    }
+
+    private toRecordingTime(at: number): number {
+        if (!this.current) return 0;
+        const paused = this.pausedAt !== null ? at - this.pausedAt : 0;
+        return Math.max(0, at - this.current.startedAt - this.pausedTotal - paused);
+    }
+
+    private now(): number {
+        return this.toRecordingTime(Date.now());
+    }
+
+    private notifyChange(): void {
+        this.changeListeners.forEach(listener => listener());
+    }
+}
+
+// 单例导出
+export const showRecorder = new ShowRecorder();
@@ -0,0 +1,80 @@
+/**
+ * Transcript - 录制字幕与章节导出
+ * 生成 LRC / WebVTT 字幕及 JSON 章节（Podcasting 2.0 chapters 格式）
+ */
+
+import { RecordedChapter, RecordedCue } from './show-recorder';
+
+// ================== Time Formatting ==================
+
+function pad(value: number, length: number = 2): string {
+    return String(Math.floor(value)).padStart(length, '0');
+}
+
+/**
+ * LRC 时间标签 [mm:ss.xx]
+ */
+function formatLrcTime(ms: number): string {
+    const totalSeconds = ms / 1000;
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${pad(minutes)}:${pad(seconds)}.${pad((ms % 1000) / 10)}`;
+}
+
+/**
+ * WebVTT 时间戳 hh:mm:ss.mmm
+ */
+function formatVttTime(ms: number): string {
+    const hours = Math.floor(ms / 3600000);
+    const minutes = Math.floor((ms % 3600000) / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(ms % 1000, 3)}`;
+}
+
+// ================== Export Functions ==================
+
+/**
+ * 生成 LRC 歌词格式字幕
+ */
+export function buildLrc(cues: RecordedCue[], title?: string): string {
+    const lines: string[] = [];
+    if (title) {
+        lines.push(`[ti:${title}]`);
+    }
+    lines.push('[re:NOWHERE FM]');
+
+    for (const cue of cues) {
+        lines.push(`[${formatLrcTime(cue.startMs)}]${cue.speaker}: ${cue.text}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * 生成 WebVTT 字幕（使用 voice 标签标注说话人）
+ */
+export function buildWebVtt(cues: RecordedCue[]): string {
+    const blocks = ['WEBVTT'];
+
+    cues.forEach((cue, index) => {
+        const text = cue.text.replace(/-->/g, '→');
+        blocks.push(
+            `${index + 1}\n${formatVttTime(cue.startMs)} --> ${formatVttTime(cue.endMs)}\n<v ${cue.speaker}>${text}`
+        );
+    });
+
+    return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * 生成 JSON 章节（Podcasting 2.0 chapters 格式，单位为秒）
+ */
+export function buildChaptersJson(chapters: RecordedChapter[]): string {
+    return JSON.stringify({
+        version: '1.2.0',
+        chapters: chapters.map(chapter => ({
+            startTime: Math.round(chapter.startMs) / 1000,
+            title: chapter.title
+        }))
+    }, null, 2);
+}
@@ -0,0 +1,189 @@
+/**
+ * Sound Effect Library - 音效登记（仅服务端）
+ * 内置音效来自 public 目录；用户上传的音效保存在 SOUND_EFFECTS_DIR（默认 .data/sfx），
+ * 元数据记录在该目录下的 manifest.json
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { SOUND_EFFECTS } from '@shared/utils/constants';
+import { getAudioType } from '@features/music-search/lib/library-indexer';
+import { readAudioTags } from '@features/music-search/lib/audio-tags';
+import { isSoundEffectCategory, SoundEffectCategory, SoundEffectInfo } from './sound-effect-service';
+
+// ================== Types ==================
+
+interface StoredEffect extends SoundEffectInfo {
+    fileName: string;
+}
+
+export interface NewSoundEffect {
+    name: string;
+    category: SoundEffectCategory;
+    tags: string[];
+    fileName: string;            // 原始文件名（取扩展名）
+    data: Uint8Array;
+}
+
+/** 内置音效（文件位于 public 目录） */
+const BUNDLED_EFFECTS: Array<Omit<StoredEffect, 'format' | 'bundled'>> = [
+    {
+        id: 'hourly-chime',
+        name: '整点报时',
+        category: 'jingle',
+        tags: ['报时', '整点', '台标', '提示音', 'jingle', 'chime'],
+        fileName: '整点报时5s.mp3'
+    }
+];
+
+let bundledCache: StoredEffect[] | null = null;
+
+// ================== Paths ==================
+
+function getDataDir(): string {
+    return process.env.SOUND_EFFECTS_DIR || path.join(process.cwd(), '.data', 'sfx');
+}
+
+function getManifestPath(): string {
+    return path.join(getDataDir(), 'manifest.json');
+}
+
+function getEffectPath(effect: StoredEffect): string {
+    return effect.bundled
+        ? path.join(process.cwd(), 'public', effect.fileName)
+        : path.join(getDataDir(), effect.fileName);
+}
+
+function getFormat(fileName: string): string {
+    return path.extname(fileName).slice(1).toLowerCase();
+}
+
+async function readDuration(filePath: string): Promise<number | undefined> {
+    try {
+        const { size } = await stat(filePath);
+        return (await readAudioTags(filePath, size)).duration;
+    } catch {
+        return undefined;
+    }
+}
+
+// ================== Manifest ==================
+
+async function getBundledEffects(): Promise<StoredEffect[]> {
+    if (!bundledCache) {
+        bundledCache = await Promise.all(BUNDLED_EFFECTS.map(async (effect) => {
+            const stored: StoredEffect = { ...effect, format: getFormat(effect.fileName), bundled: true };
+            return { ...stored, duration: await readDuration(getEffectPath(stored)) };
+        }));
+    }
+    return bundledCache;
+}
+
+async function readManifest(): Promise<StoredEffect[]> {
+    try {
+        const raw = await readFile(getManifestPath(), 'utf-8');
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed as StoredEffect[] : [];
+    } catch {
+        return [];
+    }
+}
+
+async function writeManifest(effects: StoredEffect[]): Promise<void> {
+    await mkdir(getDataDir(), { recursive: true });
+    await writeFile(getManifestPath(), JSON.stringify(effects, null, 2), 'utf-8');
+}
+
+function toInfo(effect: StoredEffect): SoundEffectInfo {
+    return {
+        id: effect.id,
+        name: effect.name,
+        category: effect.category,
+        tags: effect.tags,
+        format: effect.format,
+        duration: effect.duration,
+        bundled: effect.bundled
+    };
+}
+
+// ================== Public API ==================
+
+/**
+ * 列出全部音效（内置在前）
+ */
+export async function getSoundEffects(): Promise<SoundEffectInfo[]> {
+    const [bundled, uploaded] = await Promise.all([getBundledEffects(), readManifest()]);
+    return [...bundled, ...uploaded].map(toInfo);
+}
+
+/**
+ * 保存用户上传的音效
+ */
+export async function addSoundEffect(input: NewSoundEffect): Promise<SoundEffectInfo> {
+    const extension = path.extname(input.fileName).toLowerCase();
+    if (!SOUND_EFFECTS.AUDIO_EXTENSIONS.includes(extension)) {
+        throw new Error(`Unsupported audio format: ${extension || 'unknown'}`);
+    }
+    if (input.data.byteLength > SOUND_EFFECTS.MAX_UPLOAD_BYTES) {
+        throw new Error('File too large');
+    }
+
+    // 随机后缀避免同一毫秒内的两次上传互相覆盖
+    const id = `sfx-${Date.now()}-${randomBytes(4).toString('hex')}`;
+    const effect: StoredEffect = {
+        id,
+        name: input.name.trim(),
+        category: isSoundEffectCategory(input.category) ? input.category : 'foley',
+        tags: input.tags.map(tag => tag.trim()).filter(Boolean),
+        format: extension.slice(1),
+        bundled: false,
+        fileName: `${id}${extension}`
+    };
+
+    await mkdir(getDataDir(), { recursive: true });
+    const filePath = getEffectPath(effect);
+    await writeFile(filePath, input.data);
+    effect.duration = await readDuration(filePath);
+
+    await writeManifest([...await readManifest(), effect]);
+    return toInfo(effect);
+}
+
+/**
+ * 删除用户上传的音效（内置音效不可删除）
+ */
+export async function removeSoundEffect(id: string): Promise<boolean> {
+    const effects = await readManifest();
+    const effect = effects.find(item => item.id === id);
+    if (!effect) return false;
+
+    await rm(getEffectPath(effect), { force: true });
+    await writeManifest(effects.filter(item => item.id !== id));
+    return true;
+}
+
+/**
+ * 定位音效文件（只按登记的 ID 查找，不接受路径）
+ */
+export async function resolveSoundEffectFile(
+    id: string
+): Promise<{ filePath: string; type: string; size: number } | null> {
+    const effect = [...await getBundledEffects(), ...await readManifest()].find(item => item.id === id);
+    if (!effect) return null;
+
+    const filePath = getEffectPath(effect);
+    try {
+        const info = await stat(filePath);
+        return { filePath, type: getAudioType(filePath), size: info.size };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 是否为内置音效
+ */
+export function isBundledSoundEffect(id: string): boolean {
+    return BUNDLED_EFFECTS.some(effect => effect.id === id);
+}
@@ -0,0 +1,157 @@
+/**
+ * Sound Effect Service - 音效库客户端
+ * 音效由服务端登记（内置 public 音频 + 用户上传，见 sound-effect-library.ts），通过 /api/sound-effects 列出、上传与播放；
+ * 编剧在 TalkBlock.soundEffects 中写的 cue 按名称 / 标签匹配到具体音效
+ */
+
+import { getAppUrl } from '@shared/services/ai-service';
+import { getSettings } from '@shared/services/storage-service/settings';
+import { SOUND_EFFECTS } from '@shared/utils/constants';
+
+// ================== Types ==================
+
+export type SoundEffectCategory = 'jingle' | 'ambience' | 'foley' | 'stinger';
+
+export const SOUND_EFFECT_CATEGORIES: Record<SoundEffectCategory, string> = {
+    jingle: '台标 / 报时',
+    ambience: '环境铺底',
+    foley: '拟音',
+    stinger: '转场'
+};
+
+/**
+ * 是否为已知音效分类（只认自有键，排除 toString 等原型属性）
+ */
+export function isSoundEffectCategory(value: unknown): value is SoundEffectCategory {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SOUND_EFFECT_CATEGORIES, value);
+}
+
+export interface SoundEffectInfo {
+    id: string;
+    name: string;                // cue 名称（编剧按此引用）
+    category: SoundEffectCategory;
+    tags: string[];
+    format: string;              // 文件扩展名（Howler 据此选择解码器）
+    duration?: number;           // 时长（秒）
+    bundled: boolean;            // 内置音效不可删除
+}
+
+let cachedEffects: SoundEffectInfo[] | null = null;
+let cachedAt = 0;
+
+// ================== API Functions ==================
+
+/**
+ * 获取音效列表（短时缓存，force 时重新请求）
+ */
+export async function listSoundEffects(force = false): Promise<SoundEffectInfo[]> {
+    if (!force && cachedEffects && Date.now() - cachedAt < SOUND_EFFECTS.LIST_TTL_MS) {
+        return cachedEffects;
+    }
+
+    const response = await fetch(getAppUrl('/api/sound-effects'));
+    if (!response.ok) {
+        throw new Error(`Sound effects error: ${response.status}`);
+    }
+
+    const data: { effects?: SoundEffectInfo[] } = await response.json();
+    cachedEffects = data.effects ?? [];
+    cachedAt = Date.now();
+    return cachedEffects;
+}
+
+/** 上传 / 删除失败的常见原因 */
+const WRITE_ERRORS: Record<number, string> = {
+    401: '音效口令错误或未填写，请在设置中填写与服务端 SOUND_EFFECTS_TOKEN 一致的口令',
+    403: '服务端未配置 SOUND_EFFECTS_TOKEN，音效上传已关闭',
+    413: '文件超过服务端上传上限',
+};
+
+function getAuthHeaders(): HeadersInit | undefined {
+    const token = getSettings().soundEffectsToken;
+    return token ? { Authorization: `Bearer ${token}` } : undefined;
+}
+
+/**
+ * 上传音效
+ */
+export async function uploadSoundEffect(
+    file: File,
+    meta: { name: string; category: SoundEffectCategory; tags: string[] }
+): Promise<SoundEffectInfo> {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('name', meta.name);
+    form.append('category', meta.category);
+    form.append('tags', meta.tags.join(','));
+
+    const response = await fetch(getAppUrl('/api/sound-effects'), { method: 'POST', headers: getAuthHeaders(), body: form });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(WRITE_ERRORS[response.status] ?? (data.error || `Upload failed: ${response.status}`));
+    }
+
+    cachedEffects = null;
+    return data as SoundEffectInfo;
+}
+
+/**
+ * 删除用户上传的音效
+ */
+export async function deleteSoundEffect(id: string): Promise<void> {
+    const response = await fetch(getAppUrl(`/api/sound-effects/${encodeURIComponent(id)}`), {
+        method: 'DELETE',
+        headers: getAuthHeaders()
+    });
+    cachedEffects = null;
+    if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(WRITE_ERRORS[response.status] ?? (data.error || `Delete failed: ${response.status}`));
+    }
+}
+
+/**
+ * 音效音频地址（服务端按 ID 流式返回文件）
+ */
+export function getSoundEffectUrl(effect: SoundEffectInfo): string {
+    return getAppUrl(`/api/sound-effects/${encodeURIComponent(effect.id)}`);
+}
+
+// ================== Cue Matching ==================
+
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/[\s_\-·、，,。.!！]/g, '');
+}
+
+/**
+ * cue 与音效的匹配分数：ID / 名称完全一致 > 标签一致 > 名称互相包含 > 标签包含于 cue
+ */
+function scoreCue(cue: string, effect: SoundEffectInfo): number {
+    const name = normalize(effect.name);
+    const tags = effect.tags.map(normalize).filter(Boolean);
+
+    if (cue === normalize(effect.id) || cue === name) return 100;
+    if (tags.includes(cue)) return 80;
+    if (name && (cue.includes(name) || name.includes(cue))) return 60 + Math.min(name.length, cue.length);
+    const tagHits = tags.filter(tag => cue.includes(tag) || tag.includes(cue));
+    return tagHits.length > 0 ? 20 + tagHits.reduce((sum, tag) => sum + tag.length, 0) : 0;
+}
+
+/**
+ * 将编剧写的 cue（如“木门被推开”）匹配到音效，找不到时返回 null
+ */
+export async function resolveCue(cue: string): Promise<SoundEffectInfo | null> {
+    const normalized = normalize(cue);
+    if (!normalized) return null;
+
+    let best: SoundEffectInfo | null = null;
+    let bestScore = 0;
+    for (const effect of await listSoundEffects()) {
+        const score = scoreCue(normalized, effect);
+        if (score > bestScore) {
+            best = effect;
+            bestScore = score;
+        }
+    }
+    return best;
+}
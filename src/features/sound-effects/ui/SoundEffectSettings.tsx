@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Play, Trash2, Upload } from 'lucide-react';
+import {
+    SoundEffectCategory,
+    SoundEffectInfo,
+    SOUND_EFFECT_CATEGORIES,
+    deleteSoundEffect,
+    getSoundEffectUrl,
+    listSoundEffects,
+    uploadSoundEffect
+} from '../lib/sound-effect-service';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+import { SOUND_EFFECTS } from '@shared/utils/constants';
+
+const CATEGORY_OPTIONS = Object.entries(SOUND_EFFECT_CATEGORIES) as Array<[SoundEffectCategory, string]>;
+
+interface SoundEffectSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: string) => void;
+}
+
+export default function SoundEffectSettings({
+    settings,
+    onSettingChange,
+}: SoundEffectSettingsProps) {
+    const [effects, setEffects] = useState<SoundEffectInfo[]>([]);
+    const [file, setFile] = useState<File | null>(null);
+    const [name, setName] = useState('');
+    const [category, setCategory] = useState<SoundEffectCategory>('foley');
+    const [tagInput, setTagInput] = useState('');
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = useCallback(() => {
+        listSoundEffects(true)
+            .then(setEffects)
+            .catch(() => setEffects([]));
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleFileChange = (selected: File | null) => {
+        setFile(selected);
+        setError(null);
+        if (selected && !name) {
+            setName(selected.name.replace(/\.[^.]+$/, ''));
+        }
+    };
+
+    const handleUpload = async () => {
+        if (!file || !name.trim()) return;
+        if (file.size > SOUND_EFFECTS.MAX_UPLOAD_BYTES) {
+            setError(`文件超过 ${SOUND_EFFECTS.MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+            return;
+        }
+
+        setUploading(true);
+        setError(null);
+        try {
+            await uploadSoundEffect(file, {
+                name: name.trim(),
+                category,
+                tags: tagInput.split(/[,，]/).map(tag => tag.trim()).filter(Boolean)
+            });
+            setFile(null);
+            setName('');
+            setTagInput('');
+            if (fileInputRef.current) fileInputRef.current.value = '';
+            refresh();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        setError(null);
+        try {
+            await deleteSoundEffect(id);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+        refresh();
+    };
+
+    const handlePreview = (effect: SoundEffectInfo) => {
+        void new Audio(getSoundEffectUrl(effect)).play().catch(() => { /* 浏览器拒绝自动播放时忽略 */ });
+    };
+
+    return (
+        <div className="space-y-3 pt-3 border-t border-neutral-800">
+            <label className="text-sm font-medium text-neutral-400">音效库</label>
+
+            <div className="space-y-1.5">
+                {effects.map(effect => (
+                    <div key={effect.id} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-neutral-800/60 text-xs">
+                        <button
+                            type="button"
+                            onClick={() => handlePreview(effect)}
+                            className="text-emerald-500 hover:text-emerald-400 transition-colors"
+                            title="试听"
+                        >
+                            <Play size={12} />
+                        </button>
+                        <div className="flex-1 min-w-0">
+                            <div className="text-neutral-300 truncate">{effect.name}</div>
+                            <div className="text-neutral-500 truncate">
+                                {SOUND_EFFECT_CATEGORIES[effect.category] ?? effect.category}
+                                {effect.duration ? ` · ${effect.duration.toFixed(1)}s` : ''}
+                                {effect.tags.length > 0 ? ` · ${effect.tags.join(', ')}` : ''}
+                            </div>
+                        </div>
+                        {effect.bundled ? (
+                            <span className="text-neutral-600">内置</span>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={() => handleDelete(effect.id)}
+                                className="text-neutral-500 hover:text-red-400 transition-colors"
+                                title="删除"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="space-y-2">
+                <input
+                    type="password"
+                    value={settings.soundEffectsToken}
+                    onChange={(e) => onSettingChange("soundEffectsToken", e.target.value)}
+                    placeholder="上传口令（与服务端 SOUND_EFFECTS_TOKEN 一致）"
+                    autoComplete="off"
+                    className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 rounded-lg text-white text-sm"
+                />
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={SOUND_EFFECTS.AUDIO_EXTENSIONS.join(',')}
+                    onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                    className="w-full text-xs text-neutral-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-neutral-800 file:text-neutral-300"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="名称，如：木门被推开"
+                        className="px-3 py-2 bg-neutral-800 border border-neutral-700 rounded-lg text-white text-sm"
+                    />
+                    <select
+                        value={category}
+                        onChange={(e) => setCategory(e.target.value as SoundEffectCategory)}
+                        className="px-3 py-2 bg-neutral-800 border border-neutral-700 rounded-lg text-white text-sm"
+                    >
+                        {CATEGORY_OPTIONS.map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    placeholder="标签（逗号分隔），如：开门, 木门, 脚步"
+                    className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 rounded-lg text-white text-sm"
+                />
+                <button
+                    type="button"
+                    onClick={handleUpload}
+                    disabled={!file || !name.trim() || uploading}
+                    className="w-full flex items-center justify-center gap-1.5 px-3 py-2 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-lg transition-colors"
+                >
+                    <Upload size={14} />
+                    {uploading ? '上传中…' : '上传音效'}
+                </button>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <p className="text-xs text-neutral-500">
+                    编剧通过名称和标签引用音效：台词前后播放，或以环境声循环铺在台词下方
+                </p>
+            </div>
+        </div>
+    );
+}
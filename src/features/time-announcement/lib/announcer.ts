@@ -1,9 +1,10 @@
 /**
  * Time Announcement Service - 整点报时服务
- * 在整点和半点播放报时音频
+ * 在整点和半点播放报时音频，整点报时附带本地天气（设置了本地地点时）
  */
 
 import { ttsAgent } from '@features/tts/lib/tts-agent';
+import { describeWeather, refreshLocalWeather } from '@features/weather/lib/weather-service';
 import { audioMixer } from '@shared/services/audio-service/mixer';
 import { radioMonitor } from '@shared/services/monitor-service';
 import { TIME_ANNOUNCEMENT } from '@shared/utils/constants';
@@ -151,7 +152,11 @@ class TimeAnnouncementService {
         this.state.isPreparing = true;
 
         try {
-            const text = this.generateAnnouncementText(this.state.nextAnnouncementTime);
+            let text = this.generateAnnouncementText(this.state.nextAnnouncementTime);
+            if (this.state.nextAnnouncementTime.getMinutes() === 0) {
+                const weather = await refreshLocalWeather();
+                if (weather) text += describeWeather(weather);
+            }
             radioMonitor.log('DIRECTOR', `Preparing time announcement: ${text}`, 'info');
 
             // 使用严肃的报时音色
@@ -225,6 +230,9 @@ class TimeAnnouncementService {
      * 播放 Jingle
      */
     private async playJingle(): Promise<void> {
+        // 服务端广播模式没有 HTMLAudioElement，跳过 Jingle
+        if (typeof Audio === 'undefined') return;
+
         return new Promise((resolve) => {
             const audio = new Audio(JINGLE_PATH);
             audio.volume = 0.8;
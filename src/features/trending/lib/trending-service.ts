@@ -0,0 +1,160 @@
+/**
+ * Trending Service - 热点话题聚合
+ * 设置中每行一个热点源（url | 名称 | 领域），格式与新闻源相同；
+ * 每个源按 SOURCE_TTL_MS 单独缓存，合并去重后按 新鲜度 + 源内热度 + 差异度 综合评分，
+ * 差异度以近期节目概念（getRecentConcepts）衡量，与近期节目雷同的话题不再推荐
+ */
+
+import { getSettings } from '@shared/services/storage-service/settings';
+import { TRENDING } from '@shared/utils/constants';
+import { parseSourceList, SourceConfig, SourceStatus } from '@shared/utils/source-list';
+import { getRecentConcepts } from '@features/history-tracking/lib/history-manager';
+import { tokenize } from '@features/knowledge/lib/bm25';
+import { requestFeed } from '@features/news/lib/news-service';
+import { parseTrendingSource, TrendingCandidate } from './trending-sources';
+
+// ================== Types ==================
+
+export interface TrendingTopic extends TrendingCandidate {
+    source: string;              // 热点源名称
+    recency: number;             // 新鲜度 0-1
+    novelty: number;             // 与近期节目的差异度 0-1
+    score: number;
+}
+
+export interface TrendingQuery {
+    topic?: string;
+    count?: number;
+}
+
+export interface TrendingResult {
+    topics: TrendingTopic[];
+    sources: SourceStatus[];
+    skipped: number;             // 因与近期节目雷同而跳过的话题数
+}
+
+type SourcedCandidate = TrendingCandidate & { source: string };
+
+const sourceCache = new Map<string, { items: SourcedCandidate[]; fetchedAt: number }>();
+
+// ================== Fetching ==================
+
+async function loadSource(source: SourceConfig, force: boolean): Promise<SourcedCandidate[]> {
+    const cached = sourceCache.get(source.url);
+    if (!force && cached && Date.now() - cached.fetchedAt < TRENDING.SOURCE_TTL_MS) {
+        return cached.items;
+    }
+
+    const items = parseTrendingSource(await requestFeed(source.url)).map(item => ({
+        ...item,
+        source: source.name,
+        categories: source.category ? [source.category, ...item.categories] : item.categories
+    }));
+
+    sourceCache.set(source.url, { items, fetchedAt: Date.now() });
+    return items;
+}
+
+/**
+ * 拉取一组热点源；单个源失败不影响其它源
+ */
+async function loadSources(
+    sources: SourceConfig[],
+    force: boolean
+): Promise<{ items: SourcedCandidate[]; sources: SourceStatus[] }> {
+    const results = await Promise.allSettled(sources.map(source => loadSource(source, force)));
+
+    return {
+        items: results.flatMap(result => result.status === 'fulfilled' ? result.value : []),
+        sources: sources.map((source, i) => {
+            const result = results[i];
+            return result.status === 'fulfilled'
+                ? { url: source.url, name: source.name, count: result.value.length }
+                : { url: source.url, name: source.name, count: 0, error: String(result.reason) };
+        })
+    };
+}
+
+// ================== Scoring ==================
+
+function getRecency(publishedAt: number | undefined, now: number): number {
+    if (!publishedAt) return TRENDING.UNDATED_RECENCY;
+    const ageHours = Math.max(0, now - publishedAt) / 3600000;
+    return Math.pow(0.5, ageHours / TRENDING.RECENCY_HALF_LIFE_HOURS);
+}
+
+/**
+ * 差异度：话题词元与任一近期节目概念的最大重合比例取反
+ */
+function getNovelty(title: string, recentConcepts: Set<string>[]): number {
+    const tokens = new Set(tokenize(title));
+    if (tokens.size === 0) return 1;
+
+    let maxOverlap = 0;
+    for (const concept of recentConcepts) {
+        let overlap = 0;
+        for (const token of tokens) {
+            if (concept.has(token)) overlap++;
+        }
+        maxOverlap = Math.max(maxOverlap, overlap / tokens.size);
+    }
+    return 1 - maxOverlap;
+}
+
+function matchesTopic(item: SourcedCandidate, topic: string): boolean {
+    const wanted = topic.trim().toLowerCase();
+    return item.title.toLowerCase().includes(wanted) || item.categories.some(value => {
+        const normalized = value.toLowerCase();
+        return normalized.includes(wanted) || wanted.includes(normalized);
+    });
+}
+
+/**
+ * 多个源出现同一话题时保留热度最高的一条
+ */
+function dedupe(items: SourcedCandidate[]): SourcedCandidate[] {
+    const byTitle = new Map<string, SourcedCandidate>();
+    for (const item of items) {
+        const key = tokenize(item.title).join(' ') || item.title.toLowerCase();
+        const existing = byTitle.get(key);
+        if (!existing || item.heat > existing.heat) byTitle.set(key, item);
+    }
+    return [...byTitle.values()];
+}
+
+// ================== Public API ==================
+
+/**
+ * 聚合设置中的热点源，按领域过滤、评分后返回得分最高的 count 个话题
+ */
+export async function fetchTrending(query: TrendingQuery = {}): Promise<TrendingResult> {
+    const { items, sources } = await loadSources(parseSourceList(getSettings().trendingSources), false);
+    const candidates = query.topic?.trim()
+        ? dedupe(items).filter(item => matchesTopic(item, query.topic!))
+        : dedupe(items);
+
+    const now = Date.now();
+    const recentConcepts = getRecentConcepts().map(concept => new Set(tokenize(concept)));
+
+    const scored = candidates.map(item => {
+        const recency = getRecency(item.publishedAt, now);
+        const novelty = getNovelty(item.title, recentConcepts);
+        const score = recency * TRENDING.RECENCY_WEIGHT + item.heat * TRENDING.HEAT_WEIGHT + novelty * TRENDING.NOVELTY_WEIGHT;
+        return { ...item, recency, novelty, score };
+    });
+    const fresh = scored.filter(item => item.novelty >= TRENDING.MIN_NOVELTY);
+
+    const count = Math.max(1, Math.min(query.count || TRENDING.DEFAULT_COUNT, TRENDING.MAX_COUNT));
+    return {
+        topics: fresh.sort((a, b) => b.score - a.score).slice(0, count),
+        sources,
+        skipped: scored.length - fresh.length
+    };
+}
+
+/**
+ * 重新拉取热点源并返回各源状态（设置面板测试用，可测试尚未保存的配置）
+ */
+export async function checkTrendingSources(text: string): Promise<SourceStatus[]> {
+    return (await loadSources(parseSourceList(text), true)).sources;
+}
@@ -0,0 +1,122 @@
+/**
+ * Trending Sources - 热点源解析
+ * 支持三类来源，统一为 TrendingCandidate：
+ * - 热榜 RSS / Atom / JSON Feed（复用新闻解析，按榜单排名计热度）
+ * - Hacker News 风格 JSON（Algolia 搜索接口的 hits，按分数与评论数计热度）
+ * - 精选 JSON（数组或 { topics: [...] }，条目含 title / summary / category / tags / date / heat）
+ */
+
+import { TRENDING } from '@shared/utils/constants';
+import { parseFeed } from '@features/news/lib/feed-parser';
+
+// ================== Types ==================
+
+export interface TrendingCandidate {
+    title: string;
+    summary: string;
+    link?: string;
+    publishedAt?: number;        // 发布时间（毫秒时间戳）
+    categories: string[];
+    heat: number;                // 源内相对热度 0-1
+}
+
+interface HackerNewsHit {
+    title?: string;
+    story_title?: string;
+    url?: string;
+    objectID?: string;
+    points?: number;
+    num_comments?: number;
+    created_at_i?: number;
+    _tags?: string[];
+}
+
+interface CuratedTopic {
+    title?: string;
+    summary?: string;
+    category?: string;
+    tags?: string[];
+    url?: string;
+    date?: string;
+    heat?: number;
+}
+
+// ================== Helpers ==================
+
+function truncate(text: string): string {
+    const compact = text.replace(/\s+/g, ' ').trim();
+    return compact.length > TRENDING.SUMMARY_MAX_CHARS ? `${compact.slice(0, TRENDING.SUMMARY_MAX_CHARS)}…` : compact;
+}
+
+/**
+ * 榜单排名 → 热度（第一名为 1，线性递减）
+ */
+function rankHeat(index: number, total: number): number {
+    return total > 1 ? 1 - index / total : 1;
+}
+
+function parseDate(value?: string): number | undefined {
+    if (!value) return undefined;
+    const time = Date.parse(value);
+    return Number.isFinite(time) ? time : undefined;
+}
+
+// ================== Parsers ==================
+
+function parseHackerNews(hits: HackerNewsHit[]): TrendingCandidate[] {
+    const stories = hits.filter(hit => hit.title || hit.story_title);
+    const maxPoints = Math.max(1, ...stories.map(hit => hit.points ?? 0));
+
+    return stories.map(hit => ({
+        title: (hit.title || hit.story_title)!,
+        summary: `Hacker News ${hit.points ?? 0} 分，${hit.num_comments ?? 0} 条评论`,
+        link: hit.url || (hit.objectID ? `https://news.ycombinator.com/item?id=${hit.objectID}` : undefined),
+        publishedAt: hit.created_at_i ? hit.created_at_i * 1000 : undefined,
+        categories: (hit._tags ?? []).filter(tag => !/^(story|front_page|author_|story_)/.test(tag)),
+        heat: Math.log((hit.points ?? 0) + 1) / Math.log(maxPoints + 1)
+    }));
+}
+
+function parseCurated(topics: CuratedTopic[]): TrendingCandidate[] {
+    const valid = topics.filter(topic => topic && typeof topic.title === 'string' && topic.title.trim());
+
+    return valid.map((topic, i) => ({
+        title: topic.title!.trim(),
+        summary: truncate(topic.summary ?? ''),
+        link: topic.url,
+        publishedAt: parseDate(topic.date),
+        categories: [topic.category, ...(Array.isArray(topic.tags) ? topic.tags : [])]
+            .filter((value): value is string => typeof value === 'string' && Boolean(value)),
+        heat: typeof topic.heat === 'number' ? Math.max(0, Math.min(topic.heat, 1)) : rankHeat(i, valid.length)
+    }));
+}
+
+// ================== Public API ==================
+
+/**
+ * 解析热点源内容（XML 文本或 JSON），无法识别时抛出错误
+ */
+export function parseTrendingSource(content: string | object): TrendingCandidate[] {
+    const data: unknown = typeof content === 'string' && /^\s*[[{]/.test(content) ? JSON.parse(content) : content;
+
+    if (Array.isArray(data)) {
+        return parseCurated(data);
+    }
+
+    if (data && typeof data === 'object') {
+        const json = data as { hits?: HackerNewsHit[]; topics?: CuratedTopic[] };
+        if (Array.isArray(json.hits)) return parseHackerNews(json.hits);
+        if (Array.isArray(json.topics)) return parseCurated(json.topics);
+    }
+
+    // 热榜 RSS / Atom / JSON Feed：条目按榜单顺序排列
+    const { items } = parseFeed(data as string | object);
+    return items.map((item, i) => ({
+        title: item.title,
+        summary: truncate(item.summary),
+        link: item.link,
+        publishedAt: item.publishedAt,
+        categories: item.categories,
+        heat: rankHeat(i, items.length)
+    }));
+}
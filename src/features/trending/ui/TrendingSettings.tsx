@@ -0,0 +1,33 @@
+"use client";
+
+import React from 'react';
+import { Flame } from 'lucide-react';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+import { TRENDING } from '@shared/utils/constants';
+import SourceListSettings from '@shared/ui/source-list-settings';
+import { checkTrendingSources } from '../lib/trending-service';
+
+interface TrendingSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: string) => void;
+}
+
+export default function TrendingSettings({
+    settings,
+    onSettingChange,
+}: TrendingSettingsProps) {
+    return (
+        <SourceListSettings
+            settings={settings}
+            onSettingChange={onSettingChange}
+            field="trendingSources"
+            label="热点源"
+            icon={Flame}
+            placeholder="https://example.com/hot.xml | 示例热榜 | 文娱"
+            hint="每行：地址 | 名称 | 领域。支持热榜 RSS、Hacker News 风格 JSON 与精选 JSON（见 /trending/curated.json），与近期节目雷同的话题会被跳过"
+            emptyText="未配置热点源"
+            preset={{ label: '恢复默认', value: TRENDING.DEFAULT_SOURCES }}
+            onCheck={checkTrendingSources}
+        />
+    );
+}
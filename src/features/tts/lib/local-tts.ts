@@ -0,0 +1,254 @@
+/**
+ * Local TTS - 本地 TTS 服务调用逻辑（Piper / Coqui 兼容 HTTP 服务）
+ * Piper: GET /voices 列出音色，POST / 合成；Coqui: GET /api/tts 合成，音色来自设置中的元数据
+ * 返回与 Gemini 一致的 24kHz 单声道 16-bit PCM，混音与录制流程无需区分渠道
+ */
+
+import { getSettings } from '@shared/services/storage-service/settings';
+import { radioMonitor } from '@shared/services/monitor-service';
+import { getProxyUrl } from '@shared/services/ai-service';
+import { LOCAL_TTS } from '@shared/utils/constants';
+import { parsePipeLines } from '@shared/utils/source-list';
+import type { UnifiedVoice } from './voice-provider';
+import { filterStageDirections } from './microsoft-tts';
+
+// ================== Types ==================
+
+export interface LocalTtsContext {
+    abortController: AbortController | null;
+    setAbortController: (controller: AbortController | null) => void;
+}
+
+/** Piper /voices 返回的单个音色配置（仅取用到的字段） */
+interface PiperVoiceConfig {
+    language?: { code?: string; name_native?: string };
+    num_speakers?: number;
+    speaker_id_map?: Record<string, number>;
+}
+
+// ================== Voice Metadata ==================
+
+let cachedVoices: UnifiedVoice[] = [];
+let cachedAt = 0;
+let loading: Promise<UnifiedVoice[]> | null = null;
+
+function toLanguage(code: string): UnifiedVoice['language'] {
+    const lang = code.toLowerCase().slice(0, 2);
+    return lang === 'zh' || lang === 'en' || lang === 'ja' ? lang : 'multi';
+}
+
+/**
+ * 从音色名推断性别（Piper 配置不含性别，无法推断时为中性）
+ */
+function guessGender(id: string): UnifiedVoice['gender'] {
+    const name = id.toLowerCase();
+    if (/female|woman|girl|\bf\d*\b/.test(name)) return 'female';
+    if (/\bmale|\bman\b|boy|\bm\d*\b/.test(name)) return 'male';
+    return 'neutral';
+}
+
+/**
+ * 解析设置中的音色元数据（每行：id | gender | lang | style）
+ */
+export function parseLocalVoiceMeta(text: string): UnifiedVoice[] {
+    return parsePipeLines(text).map(([id, gender, lang, style]) => ({
+        id,
+        name: id,
+        gender: gender === 'female' || gender === 'male' ? gender : guessGender(id),
+        language: lang ? toLanguage(lang) : 'multi',
+        style: style || 'Local'
+    }));
+}
+
+/**
+ * 通过代理请求本地服务（浏览器直连 localhost 通常被 CORS 拦截）
+ */
+async function proxyFetch(url: string, method: string, body?: unknown, signal?: AbortSignal): Promise<Response> {
+    return fetch(getProxyUrl(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, method, headers: { 'Content-Type': 'application/json' }, body }),
+        signal
+    });
+}
+
+/**
+ * 获取 Piper 服务的音色列表（多说话人模型展开为 voice#speaker）
+ */
+async function fetchPiperVoices(endpoint: string): Promise<UnifiedVoice[]> {
+    const response = await proxyFetch(`${endpoint}/voices`, 'GET');
+    if (!response.ok) {
+        throw new Error(`Local TTS voices error: ${response.status}`);
+    }
+
+    const data = await response.json() as Record<string, PiperVoiceConfig>;
+    return Object.entries(data).flatMap(([id, config]) => {
+        const language = toLanguage(config.language?.code || id);
+        const speakers = Object.keys(config.speaker_id_map || {});
+        const ids = speakers.length > 1 ? speakers.map(speaker => `${id}#${speaker}`) : [id];
+
+        return ids.map(voiceId => ({
+            id: voiceId,
+            name: voiceId,
+            gender: guessGender(voiceId),
+            language,
+            style: config.language?.name_native || 'Piper'
+        }));
+    });
+}
+
+/**
+ * 加载本地音色（服务端列表 + 设置中的元数据，元数据优先），结果缓存
+ */
+export async function loadLocalVoices(force = false): Promise<UnifiedVoice[]> {
+    if (!force && cachedVoices.length > 0 && Date.now() - cachedAt < LOCAL_TTS.VOICE_CACHE_TTL_MS) {
+        return cachedVoices;
+    }
+    if (loading) return loading;
+
+    const settings = getSettings();
+    const endpoint = (settings.localTtsEndpoint || LOCAL_TTS.DEFAULT_ENDPOINT).replace(/\/$/, '');
+    const metadata = parseLocalVoiceMeta(settings.localTtsVoices);
+
+    loading = (async () => {
+        let discovered: UnifiedVoice[] = [];
+        if (settings.localTtsEngine === 'piper') {
+            try {
+                discovered = await fetchPiperVoices(endpoint);
+            } catch (error) {
+                radioMonitor.log('TTS', `Local voice listing failed: ${error}`, 'warn');
+            }
+        }
+
+        const overrides = new Map(metadata.map(voice => [voice.id, voice]));
+        const merged = [
+            ...discovered.map(voice => overrides.get(voice.id) ?? voice),
+            ...metadata.filter(voice => !discovered.some(item => item.id === voice.id))
+        ];
+
+        cachedVoices = merged;
+        cachedAt = Date.now();
+        radioMonitor.log('TTS', `Local TTS voices loaded: ${merged.length}`, 'info');
+        return merged;
+    })().finally(() => {
+        loading = null;
+    });
+
+    return loading;
+}
+
+/**
+ * 已加载的本地音色（同步读取，供音色列表与选角使用）
+ */
+export function getCachedLocalVoices(): UnifiedVoice[] {
+    return cachedVoices.length > 0 ? cachedVoices : parseLocalVoiceMeta(getSettings().localTtsVoices);
+}
+
+// ================== WAV Decoding ==================
+
+/**
+ * 将 WAV 转为 24kHz 单声道 16-bit PCM（多声道取平均，线性插值重采样）
+ */
+export function wavToPcm(wav: ArrayBuffer, targetRate = LOCAL_TTS.SAMPLE_RATE): ArrayBuffer {
+    const view = new DataView(wav);
+    if (wav.byteLength < 44 || view.getUint32(0, false) !== 0x52494646) {
+        throw new Error('Local TTS returned non-WAV audio');
+    }
+
+    let channels = 1;
+    let sampleRate = targetRate;
+    let bitsPerSample = 16;
+    let dataOffset = -1;
+    let dataSize = 0;
+
+    for (let offset = 12; offset + 8 <= wav.byteLength;) {
+        const chunkId = view.getUint32(offset, false);
+        const chunkSize = view.getUint32(offset + 4, true);
+        if (chunkId === 0x666d7420) {          // 'fmt '
+            channels = view.getUint16(offset + 10, true);
+            sampleRate = view.getUint32(offset + 12, true);
+            bitsPerSample = view.getUint16(offset + 22, true);
+        } else if (chunkId === 0x64617461) {   // 'data'
+            dataOffset = offset + 8;
+            dataSize = Math.min(chunkSize, wav.byteLength - dataOffset);
+            break;
+        }
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+
+    if (dataOffset < 0 || bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV format (${bitsPerSample}-bit)`);
+    }
+
+    const frameCount = Math.floor(dataSize / (2 * channels));
+    const mono = new Float32Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+            sum += view.getInt16(dataOffset + (i * channels + c) * 2, true);
+        }
+        mono[i] = sum / channels;
+    }
+
+    const ratio = sampleRate / targetRate;
+    const outputLength = Math.floor(frameCount / ratio);
+    const output = new Int16Array(outputLength);
+    for (let i = 0; i < outputLength; i++) {
+        const position = i * ratio;
+        const index = Math.floor(position);
+        const next = Math.min(index + 1, frameCount - 1);
+        const value = mono[index] + (mono[next] - mono[index]) * (position - index);
+        output[i] = Math.max(-32768, Math.min(32767, Math.round(value)));
+    }
+
+    return output.buffer;
+}
+
+// ================== Local TTS API ==================
+
+/**
+ * 调用本地 TTS 服务
+ * Piper: POST / {text, voice, speaker}；Coqui: GET /api/tts?text=&speaker_id=&language_id=
+ */
+export async function callLocalTTSApi(
+    text: string,
+    voiceId: string,
+    context: LocalTtsContext
+): Promise<ArrayBuffer> {
+    const settings = getSettings();
+    const endpoint = (settings.localTtsEndpoint || LOCAL_TTS.DEFAULT_ENDPOINT).replace(/\/$/, '');
+
+    const cleanText = filterStageDirections(text);
+    if (!cleanText.trim()) {
+        throw new Error('No text to speak after filtering stage directions');
+    }
+
+    const abortController = new AbortController();
+    context.setAbortController(abortController);
+
+    radioMonitor.updateStatus('TTS', 'BUSY', `Local TTS: ${cleanText.slice(0, 15)}...`);
+    radioMonitor.log('TTS', `Local TTS [${voiceId || 'default'}]: ${cleanText.slice(0, 20)}...`, 'info');
+
+    let response: Response;
+    if (settings.localTtsEngine === 'piper') {
+        const [voice, speaker] = voiceId.split('#');
+        response = await proxyFetch(`${endpoint}/`, 'POST', {
+            text: cleanText,
+            ...(voice ? { voice } : {}),
+            ...(speaker ? { speaker } : {})
+        }, abortController.signal);
+    } else {
+        const voice = getCachedLocalVoices().find(item => item.id === voiceId);
+        const params = new URLSearchParams({ text: cleanText });
+        if (voiceId) params.set('speaker_id', voiceId);
+        if (voice && voice.language !== 'multi') params.set('language_id', voice.language === 'zh' ? 'zh-cn' : voice.language);
+        response = await proxyFetch(`${endpoint}/api/tts?${params.toString()}`, 'GET', undefined, abortController.signal);
+    }
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Local TTS Error: ${response.status} - ${errorText.slice(0, 200)}`);
+    }
+
+    return wavToPcm(await response.arrayBuffer());
+}
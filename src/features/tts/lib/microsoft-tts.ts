@@ -4,7 +4,8 @@
 
 import { getSettings } from '@shared/services/storage-service/settings';
 import { radioMonitor } from '@shared/services/monitor-service';
-import { getMicrosoftFullVoiceName } from './voice-provider';
+import { MICROSOFT_TTS_VOICES } from '@features/voice-profiles/lib/microsoft-voices';
+import { getAvailableVoices, getMicrosoftFullVoiceName, mapVoiceToProvider } from './voice-provider';
 
 // ================== Types ==================
 
@@ -36,7 +37,7 @@ export function filterStageDirections(text: string): string {
 
 /**
  * 获取 Microsoft TTS 完整音色名称
- * 直接使用 AI 选择的微软音色名
+ * 微软音色名直接使用；其他渠道的音色（如故障切换时的 Gemini 音色）按性别/语言映射
  */
 export function getMicrosoftVoiceName(voiceName: string): string {
     // 1. 如果已经是完整的微软格式，直接返回
@@ -44,8 +45,14 @@ export function getMicrosoftVoiceName(voiceName: string): string {
         return voiceName;
     }
 
-    // 2. 使用 voice_provider 查找微软音色完整名称
-    return getMicrosoftFullVoiceName(voiceName);
+    // 2. 微软音色名直接查找完整名称
+    if (MICROSOFT_TTS_VOICES.some(voice => voice.name === voiceName)) {
+        return getMicrosoftFullVoiceName(voiceName);
+    }
+
+    // 3. 其他渠道的音色映射到已验证的微软音色
+    const voice = mapVoiceToProvider(voiceName, getAvailableVoices('microsoft'));
+    return getMicrosoftFullVoiceName(voice?.id ?? voiceName);
 }
 
 // ================== Microsoft TTS API ==================
@@ -0,0 +1,227 @@
+/**
+ * Provider Chain - TTS 渠道链
+ * 记录各渠道的错误率与延迟，连续失败或错误率过高时熔断；
+ * 按渠道顺序自动切换，Microsoft（内置 token，无需配置）始终作为最后兜底，避免某个渠道宕机造成冷场
+ */
+
+import { TTSProvider } from '@shared/services/storage-service/settings';
+import { radioMonitor } from '@shared/services/monitor-service';
+import { TTS_FAILOVER } from '@shared/utils/constants';
+import { getTTSProviderOrder } from './voice-provider';
+
+// ================== Types ==================
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+    provider: TTSProvider;
+    state: CircuitState;
+    requests: number;             // 累计请求数
+    failures: number;             // 累计失败数
+    errorRate: number;            // 统计窗口内的错误率 (0-1)
+    avgLatencyMs: number;         // 成功请求的平滑延迟 (ms)
+    consecutiveFailures: number;
+    openedAt: number;             // 最近一次熔断时间
+    lastError: string | null;
+}
+
+interface HealthRecord extends ProviderHealth {
+    window: boolean[];            // 最近请求结果，true 为失败
+    probing: boolean;             // 半开状态下探测请求是否已放行
+}
+
+const LAST_RESORT_PROVIDER: TTSProvider = 'microsoft';
+
+// ================== Provider Chain Class ==================
+
+export class ProviderChain {
+    private records = new Map<TTSProvider, HealthRecord>();
+    private lastServed: TTSProvider | null = null;
+
+    private getRecord(provider: TTSProvider): HealthRecord {
+        let record = this.records.get(provider);
+        if (!record) {
+            record = {
+                provider,
+                state: 'closed',
+                requests: 0,
+                failures: 0,
+                errorRate: 0,
+                avgLatencyMs: 0,
+                consecutiveFailures: 0,
+                openedAt: 0,
+                lastError: null,
+                window: [],
+                probing: false
+            };
+            this.records.set(provider, record);
+        }
+        return record;
+    }
+
+    // ================== Circuit State ==================
+
+    /**
+     * 渠道当前是否可用（熔断冷却结束后转为半开，只放行一次探测请求）
+     */
+    isAvailable(provider: TTSProvider): boolean {
+        const record = this.getRecord(provider);
+        if (record.state === 'closed') return true;
+
+        if (record.state === 'open' && Date.now() - record.openedAt >= TTS_FAILOVER.COOLDOWN_MS) {
+            record.state = 'half_open';
+            record.probing = false;
+            radioMonitor.log('TTS', `${provider} TTS cooldown elapsed, probing`, 'info');
+        }
+
+        return record.state === 'half_open' && !record.probing;
+    }
+
+    /**
+     * 本次请求的渠道顺序：跳过已熔断的渠道，全部熔断时仍按原顺序尝试
+     */
+    getOrder(): TTSProvider[] {
+        const configured = getTTSProviderOrder();
+        if (!configured.includes(LAST_RESORT_PROVIDER)) {
+            configured.push(LAST_RESORT_PROVIDER);
+        }
+
+        const available = configured.filter(provider => this.isAvailable(provider));
+        return available.length > 0 ? available : configured;
+    }
+
+    // ================== Health Tracking ==================
+
+    recordSuccess(provider: TTSProvider, latencyMs: number): void {
+        const record = this.getRecord(provider);
+        record.requests++;
+        record.consecutiveFailures = 0;
+        record.avgLatencyMs = record.avgLatencyMs === 0
+            ? latencyMs
+            : record.avgLatencyMs + (latencyMs - record.avgLatencyMs) * TTS_FAILOVER.LATENCY_SMOOTHING;
+        this.pushOutcome(record, false);
+
+        if (record.state !== 'closed') {
+            record.state = 'closed';
+            record.probing = false;
+            record.window = [];
+            record.errorRate = 0;
+            radioMonitor.log('TTS', `${provider} TTS recovered, circuit closed`, 'info');
+        }
+    }
+
+    recordFailure(provider: TTSProvider, error: unknown): void {
+        const record = this.getRecord(provider);
+        record.requests++;
+        record.failures++;
+        record.consecutiveFailures++;
+        record.lastError = error instanceof Error ? error.message : String(error);
+        this.pushOutcome(record, true);
+
+        const tripped = record.state === 'half_open'
+            || record.consecutiveFailures >= TTS_FAILOVER.FAILURE_THRESHOLD
+            || (record.window.length >= TTS_FAILOVER.MIN_SAMPLES && record.errorRate >= TTS_FAILOVER.ERROR_RATE_THRESHOLD);
+
+        if (tripped && record.state !== 'open') {
+            record.state = 'open';
+            record.openedAt = Date.now();
+            record.probing = false;
+            radioMonitor.log(
+                'TTS',
+                `${provider} TTS circuit open (${record.consecutiveFailures} consecutive failures, ` +
+                `${Math.round(record.errorRate * 100)}% error rate), cooling down ${TTS_FAILOVER.COOLDOWN_MS / 1000}s`,
+                'error'
+            );
+        }
+    }
+
+    private pushOutcome(record: HealthRecord, failed: boolean): void {
+        record.window.push(failed);
+        if (record.window.length > TTS_FAILOVER.WINDOW_SIZE) {
+            record.window.shift();
+        }
+        record.errorRate = record.window.filter(Boolean).length / record.window.length;
+    }
+
+    // ================== Execution ==================
+
+    /**
+     * 按渠道链执行合成：失败时切换到下一个渠道，中止请求直接抛出
+     */
+    async run<T>(call: (provider: TTSProvider) => Promise<T>): Promise<{ result: T; provider: TTSProvider }> {
+        const providers = this.getOrder();
+        let lastError: unknown = null;
+
+        for (const [index, provider] of providers.entries()) {
+            try {
+                return { result: await this.attempt(provider, () => call(provider)), provider };
+            } catch (error) {
+                if ((error as Error).name === 'AbortError') throw error;
+                lastError = error;
+
+                if (index < providers.length - 1) {
+                    radioMonitor.log('TTS', `${provider} TTS failed, falling back to ${providers[index + 1]}: ${error}`, 'warn');
+                }
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * 在指定渠道上执行一次请求并记录健康度（供批量合成等单渠道调用使用）
+     */
+    async attempt<T>(provider: TTSProvider, call: () => Promise<T>): Promise<T> {
+        const record = this.getRecord(provider);
+        if (record.state === 'half_open') record.probing = true;
+
+        const startedAt = Date.now();
+        try {
+            const result = await call();
+            this.recordSuccess(provider, Date.now() - startedAt);
+            this.noteServed(provider);
+            return result;
+        } catch (error) {
+            if ((error as Error).name === 'AbortError') {
+                record.probing = false;
+            } else {
+                this.recordFailure(provider, error);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * 实际出声的渠道发生变化时记录切换
+     */
+    private noteServed(provider: TTSProvider): void {
+        if (this.lastServed && this.lastServed !== provider) {
+            radioMonitor.log('TTS', `TTS provider switched: ${this.lastServed} → ${provider}`, 'warn');
+        }
+        this.lastServed = provider;
+    }
+
+    // ================== Status ==================
+
+    getHealth(): ProviderHealth[] {
+        return Array.from(this.records.values()).map(record => ({
+            provider: record.provider,
+            state: record.state,
+            requests: record.requests,
+            failures: record.failures,
+            errorRate: record.errorRate,
+            avgLatencyMs: Math.round(record.avgLatencyMs),
+            consecutiveFailures: record.consecutiveFailures,
+            openedAt: record.openedAt,
+            lastError: record.lastError
+        }));
+    }
+
+    reset(): void {
+        this.records.clear();
+        this.lastServed = null;
+    }
+}
+
+// 单例导出
+export const ttsProviderChain = new ProviderChain();
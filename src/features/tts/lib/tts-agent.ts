@@ -5,7 +5,7 @@
  * 重构版本：使用模块化拆分
  */
 
-import { getSettings } from '@shared/services/storage-service/settings';
+import { getSettings, TTSProvider } from '@shared/services/storage-service/settings';
 import {
     TTSRequest,
     TTSResult,
@@ -14,11 +14,15 @@ import {
     MoodType
 } from '@shared/types/radio-core';
 import { radioMonitor } from '@shared/services/monitor-service';
+import { audioCache, hashKey } from '@shared/services/storage-service/audio-cache';
 
 // ================== 导入模块 ==================
 import { buildStylePrompt, isStandardSpeaker } from './style-prompt-builder';
 import * as GeminiTts from './gemini-tts';
 import * as MicrosoftTts from './microsoft-tts';
+import * as LocalTts from './local-tts';
+import { getAvailableVoices, getTTSProviderOrder, mapVoiceToProvider } from './voice-provider';
+import { ttsProviderChain } from './provider-chain';
 import { Cast, CastMember } from '@features/content/lib/cast-system';
 
 // ================== Constants ==================
@@ -42,7 +46,7 @@ export class TTSAgent {
     private isAborted = false;
 
     // ================== Context for modules ==================
-    private ttsContext: GeminiTts.GeminiTtsContext & MicrosoftTts.MicrosoftTtsContext = {
+    private ttsContext: GeminiTts.GeminiTtsContext & MicrosoftTts.MicrosoftTtsContext & LocalTts.LocalTtsContext = {
         abortController: null,
         setAbortController: (controller) => {
             this.abortController = controller;
@@ -93,6 +97,11 @@ export class TTSAgent {
     reset(): void {
         this.isAborted = false;
         this.abortController = null;
+
+        // 预先加载本地音色，供选角与编剧提示使用
+        if (getTTSProviderOrder().includes('local')) {
+            void LocalTts.loadLocalVoices();
+        }
         radioMonitor.log('TTS', 'TTS Agent reset', 'info');
     }
 
@@ -141,8 +150,18 @@ export class TTSAgent {
             };
         }
 
+        // 检查持久化缓存（跨会话）
+        const persistentKey = await this.getPersistentKey(request);
+        const persisted = await audioCache.get(persistentKey);
+        if (persisted) {
+            const audioData = await persisted.data.arrayBuffer();
+            this.cache.set(cacheKey, audioData);
+            radioMonitor.log('TTS', `Persistent cache hit: ${request.text.slice(0, 20)}...`, 'trace');
+            return { id: request.id, success: true, audioData };
+        }
+
         this.queue.push(request);
-        return this.processRequest(request);
+        return this.processRequest(request, persistentKey);
     }
 
     async generateSpeech(
@@ -192,6 +211,9 @@ export class TTSAgent {
         if (settings.ttsProvider !== 'gemini') {
             return { id: 'not-gemini', success: false, error: 'Batched speech only supports Gemini' };
         }
+        if (!ttsProviderChain.isAvailable('gemini')) {
+            return { id: 'circuit-open', success: false, error: 'Gemini TTS circuit open' };
+        }
 
         // 建立说话者到音色的映射
         const speakerMap = new Map<string, string>();
@@ -203,17 +225,32 @@ export class TTSAgent {
         }
 
         const uniqueSpeakers = speakerMap.size;
+
+        const persistentKey = await hashKey(JSON.stringify([
+            'tts-batch',
+            settings.ttsModel,
+            Array.from(speakerMap.entries()),
+            scripts
+        ]));
+        const persisted = await audioCache.get(persistentKey);
+        if (persisted) {
+            radioMonitor.log('TTS', `Persistent cache hit: batch of ${scripts.length} lines`, 'trace');
+            return {
+                id: `batch-${Date.now()}`,
+                success: true,
+                audioData: await persisted.data.arrayBuffer()
+            };
+        }
+
         radioMonitor.log('TTS', `Batched TTS: ${scripts.length} lines, ${uniqueSpeakers} speaker(s)`, 'info');
 
         try {
             await this.acquireSlot();
 
-            let audioData: ArrayBuffer;
-            if (uniqueSpeakers === 1) {
-                audioData = await GeminiTts.callGeminiSingleSpeakerBatchApi(scripts, speakerMap, this.ttsContext);
-            } else {
-                audioData = await GeminiTts.callGeminiMultiSpeakerBatchApi(scripts, speakerMap, this.ttsContext);
-            }
+            const audioData = await ttsProviderChain.attempt('gemini', () => uniqueSpeakers === 1
+                ? GeminiTts.callGeminiSingleSpeakerBatchApi(scripts, speakerMap, this.ttsContext)
+                : GeminiTts.callGeminiMultiSpeakerBatchApi(scripts, speakerMap, this.ttsContext));
+            void audioCache.put('tts', persistentKey, audioData, scripts.map(script => script.text).join(' / '));
 
             radioMonitor.updateStatus('TTS', 'READY', 'Batched TTS complete');
             return {
@@ -235,7 +272,7 @@ export class TTSAgent {
 
     // ================== Request Processing ==================
 
-    private async processRequest(request: TTSRequest): Promise<TTSResult> {
+    private async processRequest(request: TTSRequest, persistentKey: string): Promise<TTSResult> {
         if (this.isAborted) {
             return { id: request.id, success: false, error: 'Request aborted' };
         }
@@ -251,11 +288,14 @@ export class TTSAgent {
 
             try {
                 radioMonitor.updateStatus('TTS', 'BUSY', `Attempt ${attempt + 1}: ${request.text.slice(0, 20)}...`);
-                const audioData = await this.callTTSApi(request);
+                const { audioData, provider } = await this.callTTSApi(request);
 
-                // 缓存结果
-                const cacheKey = this.getCacheKey(request);
-                this.cache.set(cacheKey, audioData);
+                // 缓存结果（备用渠道的音色不同，不写入主渠道的缓存）
+                if (provider === getSettings().ttsProvider) {
+                    const cacheKey = this.getCacheKey(request);
+                    this.cache.set(cacheKey, audioData);
+                    void audioCache.put('tts', persistentKey, audioData, request.text);
+                }
 
                 this.releaseSlot();
                 radioMonitor.updateStatus('TTS', 'READY', 'Generation complete');
@@ -287,14 +327,28 @@ export class TTSAgent {
         };
     }
 
-    private async callTTSApi(request: TTSRequest): Promise<ArrayBuffer> {
-        const settings = getSettings();
+    /**
+     * 按渠道链合成：主渠道失败或熔断时切换到备用渠道
+     */
+    private async callTTSApi(request: TTSRequest): Promise<{ audioData: ArrayBuffer; provider: TTSProvider }> {
+        const { result, provider } = await ttsProviderChain.run(candidate => this.callProvider(candidate, request));
+        return { audioData: result, provider };
+    }
 
-        if (settings.ttsProvider === 'microsoft') {
+    private async callProvider(provider: TTSProvider, request: TTSRequest): Promise<ArrayBuffer> {
+        if (provider === 'microsoft') {
             return MicrosoftTts.callMicrosoftTTSApi(request.text, request.voiceName, this.ttsContext);
         }
 
-        return GeminiTts.callGeminiTTSApi(request, this.ttsContext);
+        if (provider === 'local') {
+            await LocalTts.loadLocalVoices();
+            const voice = mapVoiceToProvider(request.voiceName, getAvailableVoices('local'));
+            return LocalTts.callLocalTTSApi(request.text, voice?.id ?? '', this.ttsContext);
+        }
+
+        // Gemini 只认识自己的音色名，其他渠道的音色 ID 按性别/语言映射回来
+        const voice = mapVoiceToProvider(request.voiceName, getAvailableVoices('gemini'));
+        return GeminiTts.callGeminiTTSApi({ ...request, voiceName: voice?.id ?? request.voiceName }, this.ttsContext);
     }
 
     // ================== Utilities ==================
@@ -303,6 +357,21 @@ export class TTSAgent {
         return `${request.voiceName}-${request.text}-${request.stylePrompt}`;
     }
 
+    /**
+     * 持久化缓存键：内容哈希，包含影响合成结果的渠道参数
+     */
+    private getPersistentKey(request: TTSRequest): Promise<string> {
+        const settings = getSettings();
+        return hashKey(JSON.stringify([
+            settings.ttsProvider,
+            settings.ttsProvider === 'gemini' ? settings.ttsModel : '',
+            settings.ttsProvider === 'local' ? settings.localTtsEndpoint : '',
+            request.voiceName,
+            request.stylePrompt,
+            request.text
+        ]));
+    }
+
     private delay(ms: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
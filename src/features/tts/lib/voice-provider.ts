@@ -3,9 +3,11 @@
  * 根据当前 TTS 渠道动态返回可用音色列表
  */
 
-import { getSettings } from '@shared/services/storage-service/settings';
+import { getSettings, TTSProvider } from '@shared/services/storage-service/settings';
+import { ALL_VOICES } from '@shared/types/radio-core';
 import { TTS_VOICES, TTSVoice } from '@features/voice-profiles/lib/voice-manager';
 import { MICROSOFT_TTS_VOICES, MicrosoftTTSVoice } from '@features/voice-profiles/lib/microsoft-voices';
+import { getCachedLocalVoices } from './local-tts';
 
 // ================== Unified Voice Interface ==================
 
@@ -76,21 +78,65 @@ const VERIFIED_EDGE_VOICES = new Set([
 ]);
 
 /**
- * 获取当前 TTS 渠道可用的音色列表
+ * 获取指定 TTS 渠道可用的音色列表（默认当前渠道）
  */
-export function getAvailableVoices(): UnifiedVoice[] {
-    const settings = getSettings();
-
-    if (settings.ttsProvider === 'microsoft') {
+export function getAvailableVoices(provider: TTSProvider = getSettings().ttsProvider): UnifiedVoice[] {
+    if (provider === 'microsoft') {
         // 只返回 Edge TTS 已验证支持的音色
         return MICROSOFT_TTS_VOICES
             .filter(v => VERIFIED_EDGE_VOICES.has(v.name))
             .map(convertMicrosoftVoice);
     }
 
+    if (provider === 'local') {
+        // 本地服务的音色需先通过 loadLocalVoices 加载
+        return getCachedLocalVoices();
+    }
+
     return TTS_VOICES.map(convertGeminiVoice);
 }
 
+/**
+ * 查询音色的性别与语言（Gemini 音色表优先，其次为各渠道音色列表；未知时按中文女声处理）
+ */
+function getVoiceTraits(voiceName: string): { gender: UnifiedVoice['gender']; lang: UnifiedVoice['language'] } {
+    const gemini = ALL_VOICES[voiceName as keyof typeof ALL_VOICES];
+    const voice = gemini
+        ? { gender: gemini.gender, language: gemini.lang }
+        : [...getAvailableVoices('local'), ...getAvailableVoices('microsoft')].find(item => item.id === voiceName);
+
+    return {
+        gender: voice?.gender ?? 'female',
+        lang: voice && voice.language !== 'multi' ? voice.language : 'zh'
+    };
+}
+
+/**
+ * 将演员阵容中的音色（Gemini 音色名）映射为目标渠道的音色
+ * 按性别、语言匹配；同分候选中按音色名哈希固定选择，保证同一角色音色稳定
+ */
+export function mapVoiceToProvider(voiceName: string, voices: UnifiedVoice[]): UnifiedVoice | null {
+    if (voices.length === 0) return null;
+
+    const exact = voices.find(voice => voice.id === voiceName);
+    if (exact) return exact;
+
+    const { gender, lang } = getVoiceTraits(voiceName);
+
+    const scored = voices.map(voice => ({
+        voice,
+        score: (voice.gender === gender ? 2 : 0) + (voice.language === lang || voice.language === 'multi' ? 1 : 0)
+    }));
+    const best = Math.max(...scored.map(item => item.score));
+    const candidates = scored.filter(item => item.score === best).map(item => item.voice);
+
+    let hash = 0;
+    for (let i = 0; i < voiceName.length; i++) {
+        hash = (hash * 31 + voiceName.charCodeAt(i)) >>> 0;
+    }
+    return candidates[hash % candidates.length];
+}
+
 /**
  * 根据性别筛选音色
  */
@@ -112,7 +158,9 @@ export function getVoicesByLanguage(lang: 'zh' | 'en' | 'ja' | 'multi'): Unified
 export function getVoiceListForPrompt(): string {
     const settings = getSettings();
     const voices = getAvailableVoices();
-    const provider = settings.ttsProvider === 'microsoft' ? '微软 Azure Neural TTS' : 'Google Gemini TTS';
+    const provider = settings.ttsProvider === 'microsoft'
+        ? '微软 Azure Neural TTS'
+        : settings.ttsProvider === 'local' ? '本地 TTS' : 'Google Gemini TTS';
 
     // 按语言分组
     const zhVoices = voices.filter(v => v.language === 'zh');
@@ -186,6 +234,17 @@ export function getMicrosoftFullVoiceName(voiceId: string): string {
 /**
  * 获取当前 TTS 渠道名称
  */
-export function getCurrentTTSProvider(): 'gemini' | 'microsoft' {
+export function getCurrentTTSProvider(): TTSProvider {
     return getSettings().ttsProvider;
 }
+
+/**
+ * 获取 TTS 渠道尝试顺序：主渠道在前，其后为设置中的备用渠道
+ */
+export function getTTSProviderOrder(): TTSProvider[] {
+    const settings = getSettings();
+    return [
+        settings.ttsProvider,
+        ...settings.ttsFallbackOrder.filter(provider => provider !== settings.ttsProvider)
+    ];
+}
@@ -0,0 +1,162 @@
+/**
+ * Open-Meteo Provider - Open-Meteo 天气源
+ * 城市检索走官方 Geocoding API，预报接口可在设置中替换为自建的兼容服务；
+ * 所有请求经 /api/proxy 转发，WMO 天气代码翻译为中文描述
+ */
+
+import { getProxyUrl } from '@shared/services/ai-service';
+import { getSettings } from '@shared/services/storage-service/settings';
+import { WEATHER } from '@shared/utils/constants';
+import type { WeatherDay, WeatherKind, WeatherLocation, WeatherProvider, WeatherReport } from './weather-service';
+
+// ================== Types ==================
+
+interface GeocodingResponse {
+    results?: {
+        name: string;
+        latitude: number;
+        longitude: number;
+        admin1?: string;
+        country?: string;
+    }[];
+}
+
+interface ForecastResponse {
+    current?: {
+        temperature_2m: number;
+        apparent_temperature: number;
+        relative_humidity_2m: number;
+        weather_code: number;
+        wind_speed_10m: number;
+        is_day: number;
+    };
+    daily?: {
+        time: string[];
+        weather_code: number[];
+        temperature_2m_max: number[];
+        temperature_2m_min: number[];
+        precipitation_probability_max?: (number | null)[];
+    };
+    error?: boolean;
+    reason?: string;
+}
+
+// ================== WMO Codes ==================
+
+const WMO_CODES: Record<number, [string, WeatherKind]> = {
+    0: ['晴', 'clear'],
+    1: ['晴间多云', 'clear'],
+    2: ['多云', 'cloudy'],
+    3: ['阴', 'overcast'],
+    45: ['雾', 'fog'],
+    48: ['雾凇', 'fog'],
+    51: ['小毛毛雨', 'rain'],
+    53: ['毛毛雨', 'rain'],
+    55: ['较强毛毛雨', 'rain'],
+    56: ['冻毛毛雨', 'rain'],
+    57: ['冻毛毛雨', 'rain'],
+    61: ['小雨', 'rain'],
+    63: ['中雨', 'rain'],
+    65: ['大雨', 'rain'],
+    66: ['冻雨', 'rain'],
+    67: ['冻雨', 'rain'],
+    71: ['小雪', 'snow'],
+    73: ['中雪', 'snow'],
+    75: ['大雪', 'snow'],
+    77: ['米雪', 'snow'],
+    80: ['阵雨', 'rain'],
+    81: ['强阵雨', 'rain'],
+    82: ['暴雨', 'rain'],
+    85: ['阵雪', 'snow'],
+    86: ['强阵雪', 'snow'],
+    95: ['雷阵雨', 'storm'],
+    96: ['雷阵雨伴有冰雹', 'storm'],
+    99: ['强雷阵雨伴有冰雹', 'storm'],
+};
+
+function translateCode(code: number): [string, WeatherKind] {
+    return WMO_CODES[code] ?? ['多云', 'cloudy'];
+}
+
+// ================== Request ==================
+
+/**
+ * 通过代理请求 JSON，避免 CORS
+ */
+async function requestJson<T>(url: string): Promise<T> {
+    const response = await fetch(getProxyUrl(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, method: 'GET', headers: { 'Accept': 'application/json' } }),
+        signal: AbortSignal.timeout(WEATHER.FETCH_TIMEOUT)
+    });
+
+    const data = await response.json();
+    if (!response.ok || data.error) {
+        // Open-Meteo 出错时返回 { error: true, reason }，代理出错时 error 为字符串
+        throw new Error(data.reason || (typeof data.error === 'string' ? data.error : `HTTP ${response.status}`));
+    }
+    return data as T;
+}
+
+function getForecastEndpoint(): string {
+    return (getSettings().weatherEndpoint.trim() || WEATHER.FORECAST_ENDPOINT).replace(/\/$/, '');
+}
+
+// ================== Provider ==================
+
+export const openMeteoProvider: WeatherProvider = {
+    id: 'open-meteo',
+
+    async geocode(query: string): Promise<WeatherLocation> {
+        const params = new URLSearchParams({ name: query, count: '1', language: 'zh', format: 'json' });
+        const data = await requestJson<GeocodingResponse>(`${WEATHER.GEOCODING_ENDPOINT}/v1/search?${params}`);
+
+        const place = data.results?.[0];
+        if (!place) throw new Error(`找不到城市：${query}`);
+
+        return { name: place.name, latitude: place.latitude, longitude: place.longitude };
+    },
+
+    async fetchReport(location: WeatherLocation): Promise<Omit<WeatherReport, 'fetchedAt'>> {
+        const params = new URLSearchParams({
+            latitude: String(location.latitude),
+            longitude: String(location.longitude),
+            current: 'temperature_2m,apparent_temperature,relative_humidity_2m,weather_code,wind_speed_10m,is_day',
+            daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max',
+            timezone: 'auto',
+            forecast_days: String(WEATHER.FORECAST_DAYS)
+        });
+        const data = await requestJson<ForecastResponse>(`${getForecastEndpoint()}/v1/forecast?${params}`);
+        if (!data.current) throw new Error('天气接口未返回实况数据');
+
+        const [condition, kind] = translateCode(data.current.weather_code);
+        const daily = data.daily;
+        const forecast: WeatherDay[] = (daily?.time ?? []).map((date, i) => {
+            const [dayCondition, dayKind] = translateCode(daily!.weather_code[i]);
+            return {
+                date,
+                condition: dayCondition,
+                kind: dayKind,
+                min: daily!.temperature_2m_min[i],
+                max: daily!.temperature_2m_max[i],
+                precipitationChance: daily!.precipitation_probability_max?.[i] ?? undefined
+            };
+        });
+
+        return {
+            location,
+            current: {
+                condition,
+                kind,
+                temperature: data.current.temperature_2m,
+                apparentTemperature: data.current.apparent_temperature,
+                humidity: data.current.relative_humidity_2m,
+                windSpeed: data.current.wind_speed_10m,
+                isDay: data.current.is_day === 1
+            },
+            forecast,
+            source: 'open-meteo'
+        };
+    }
+};
@@ -0,0 +1,186 @@
+/**
+ * Weather Service - 天气服务
+ * 通过可替换的 WeatherProvider 获取实况与预报（默认 Open-Meteo，经 /api/proxy 调用），
+ * 按地点缓存 CACHE_TTL_MS；并把天气翻译为氛围提示写入 globalState，
+ * 供编剧生成节目和整点报时提及本地天气
+ */
+
+import { MoodType } from '@shared/types/radio-core';
+import { globalState } from '@shared/stores/global-state';
+import { radioMonitor } from '@shared/services/monitor-service';
+import { getSettings } from '@shared/services/storage-service/settings';
+import { WEATHER } from '@shared/utils/constants';
+import { openMeteoProvider } from './open-meteo';
+
+// ================== Types ==================
+
+/** 天气大类（与具体天气源无关，用于氛围映射与建议） */
+export type WeatherKind = 'clear' | 'cloudy' | 'overcast' | 'fog' | 'rain' | 'snow' | 'storm';
+
+export interface WeatherLocation {
+    name: string;
+    latitude: number;
+    longitude: number;
+}
+
+export interface WeatherCurrent {
+    condition: string;           // 中文天气描述，如“多云”
+    kind: WeatherKind;
+    temperature: number;         // 气温 (°C)
+    apparentTemperature: number; // 体感温度 (°C)
+    humidity: number;            // 相对湿度 (%)
+    windSpeed: number;           // 风速 (km/h)
+    isDay: boolean;
+}
+
+export interface WeatherDay {
+    date: string;                // YYYY-MM-DD（当地日期）
+    condition: string;
+    kind: WeatherKind;
+    min: number;
+    max: number;
+    precipitationChance?: number; // 最大降水概率 (%)
+}
+
+export interface WeatherReport {
+    location: WeatherLocation;
+    current: WeatherCurrent;
+    forecast: WeatherDay[];      // 第一项为今天
+    source: string;
+    fetchedAt: number;
+}
+
+/**
+ * 天气源：把地点查询解析为坐标，再按坐标获取实况与预报
+ */
+export interface WeatherProvider {
+    id: string;
+    geocode(query: string): Promise<WeatherLocation>;
+    fetchReport(location: WeatherLocation): Promise<Omit<WeatherReport, 'fetchedAt'>>;
+}
+
+const reportCache = new Map<string, WeatherReport>();
+
+// ================== Location ==================
+
+/**
+ * 解析 "纬度,经度" 形式的地点（可带 "| 名称"），不是坐标时返回 null
+ */
+function parseCoordinates(query: string): WeatherLocation | null {
+    const [coords, name] = query.split('|').map(part => part.trim());
+    const match = /^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/.exec(coords);
+    if (!match) return null;
+
+    const latitude = Number(match[1]);
+    const longitude = Number(match[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+    return { name: name || coords, latitude, longitude };
+}
+
+async function resolveLocation(provider: WeatherProvider, query: string): Promise<WeatherLocation> {
+    return parseCoordinates(query) ?? provider.geocode(query);
+}
+
+// ================== Public API ==================
+
+/**
+ * 获取天气（城市名或 "纬度,经度"；留空时使用设置中的本地地点）
+ */
+export async function getWeather(query?: string, provider: WeatherProvider = openMeteoProvider): Promise<WeatherReport> {
+    const resolvedQuery = (query || getSettings().weatherLocation).trim();
+    if (!resolvedQuery) {
+        throw new Error('未指定城市，且设置中没有配置本地天气地点');
+    }
+
+    const cacheKey = `${provider.id}:${resolvedQuery.toLowerCase()}`;
+    const cached = reportCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < WEATHER.CACHE_TTL_MS) {
+        return cached;
+    }
+
+    const location = await resolveLocation(provider, resolvedQuery);
+    const report: WeatherReport = { ...(await provider.fetchReport(location)), fetchedAt: Date.now() };
+
+    reportCache.set(cacheKey, report);
+    return report;
+}
+
+/**
+ * 天气 → 节目氛围
+ */
+export function getWeatherMood(report: WeatherReport): MoodType {
+    const { kind, isDay, apparentTemperature } = report.current;
+
+    if (apparentTemperature <= WEATHER.COLD_THRESHOLD || kind === 'snow') return 'warm';
+
+    switch (kind) {
+        case 'clear':
+            return isDay ? 'cheerful' : 'calm';
+        case 'cloudy':
+            return isDay ? 'playful' : 'calm';
+        case 'overcast':
+            return 'calm';
+        case 'rain':
+            return 'melancholy';
+        case 'fog':
+        case 'storm':
+            return 'mysterious';
+    }
+}
+
+/**
+ * 出行建议（降水、温度、风力）
+ */
+export function getWeatherAdvice(report: WeatherReport): string {
+    const { current } = report;
+    const today = report.forecast[0];
+    const tips: string[] = [];
+
+    if (current.kind === 'rain' || current.kind === 'storm' || (today?.precipitationChance ?? 0) >= 50) {
+        tips.push('出门记得带伞');
+    }
+    if (current.kind === 'snow') tips.push('路面湿滑，注意防滑');
+    if (current.apparentTemperature <= WEATHER.COLD_THRESHOLD) tips.push('天气寒冷，注意保暖');
+    if (current.apparentTemperature >= WEATHER.HOT_THRESHOLD) tips.push('天气炎热，注意防暑补水');
+    if (today && today.max - today.min >= 10) tips.push('早晚温差较大，可备一件外套');
+    if (current.windSpeed >= 38) tips.push('风力较大，注意高空坠物');
+    if (current.kind === 'fog') tips.push('能见度较低，开车慢行');
+
+    return tips.length > 0 ? `${tips.join('；')}。` : '天气平稳，适合出门走走。';
+}
+
+/**
+ * 适合直接播报的一句话天气
+ */
+export function describeWeather(report: WeatherReport): string {
+    const { location, current } = report;
+    const today = report.forecast[0];
+
+    let text = `${location.name}现在${current.condition}，气温${Math.round(current.temperature)}度`;
+    if (today) {
+        text += `，今天${today.condition}，${Math.round(today.min)}到${Math.round(today.max)}度`;
+        if (today.precipitationChance !== undefined && today.precipitationChance >= 30) {
+            text += `，降水概率${today.precipitationChance}%`;
+        }
+    }
+    return `${text}。`;
+}
+
+/**
+ * 刷新本地天气并写入全局上下文（设置了本地地点时）；失败只记日志，不影响节目
+ */
+export async function refreshLocalWeather(): Promise<WeatherReport | null> {
+    if (!getSettings().weatherLocation.trim()) return null;
+
+    try {
+        const report = await getWeather();
+        const mood = getWeatherMood(report);
+        globalState.setWeather(`${describeWeather(report)}${getWeatherAdvice(report)}`);
+        globalState.setMood(mood);
+        return report;
+    } catch (error) {
+        radioMonitor.log('DIRECTOR', `Weather refresh failed: ${error}`, 'warn');
+        return null;
+    }
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import React, { useState } from 'react';
+import { CloudSun, Loader2 } from 'lucide-react';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+import { describeWeather, getWeather } from '../lib/weather-service';
+
+interface WeatherSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: string) => void;
+}
+
+export default function WeatherSettings({
+    settings,
+    onSettingChange,
+}: WeatherSettingsProps) {
+    const [result, setResult] = useState<{ text: string; error?: boolean } | null>(null);
+    const [checking, setChecking] = useState(false);
+
+    const handleCheck = async () => {
+        setChecking(true);
+        try {
+            const report = await getWeather(settings.weatherLocation);
+            setResult({ text: describeWeather(report) });
+        } catch (error) {
+            setResult({ text: String(error), error: true });
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3 pt-3 border-t border-neutral-800">
+            <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-neutral-400">本地天气</label>
+                <button
+                    onClick={handleCheck}
+                    disabled={checking || !settings.weatherLocation.trim()}
+                    className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400 disabled:text-neutral-600 disabled:cursor-not-allowed transition-colors"
+                >
+                    {checking ? <Loader2 size={12} className="animate-spin" /> : <CloudSun size={12} />}
+                    测试
+                </button>
+            </div>
+            <input
+                type="text"
+                value={settings.weatherLocation}
+                onChange={(e) => onSettingChange("weatherLocation", e.target.value)}
+                placeholder="城市名（如 上海）或 纬度,经度"
+                className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
+            />
+            <input
+                type="text"
+                value={settings.weatherEndpoint}
+                onChange={(e) => onSettingChange("weatherEndpoint", e.target.value)}
+                placeholder="预报接口（可选），如 https://api.open-meteo.com"
+                className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white text-xs font-mono placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
+            />
+            {result && (
+                <p className={`text-xs ${result.error ? 'text-red-400' : 'text-neutral-300'}`}>{result.text}</p>
+            )}
+            <p className="text-xs text-neutral-500">
+                填写后每期节目生成前会获取实况与预报，编剧可自然提及天气，整点报时也会附带一句天气，节目氛围随天气调整；预报接口留空使用 Open-Meteo 官方服务
+            </p>
+        </div>
+    );
+}
@@ -1,6 +1,13 @@
-import { getSettings, isConfigured, ApiType } from "@shared/services/storage-service/settings";
+import {
+    getSettings,
+    isConfigured,
+    isLocalApiType,
+    getLocalDefaultEndpoint,
+    ApiType
+} from "@shared/services/storage-service/settings";
 import { WORLD_BIBLE, IShowSegment } from "@features/content/lib/world-context";
 import { radioMonitor } from "@shared/services/monitor-service";
+import { LOCAL_LLM } from "@shared/utils/constants";
 
 // ================== Interfaces ==================
 
@@ -25,6 +32,9 @@ interface GeminiResponse {
     }>;
 }
 
+/** 请求/响应格式：llama.cpp 兼容 OpenAI，Vertex AI 与 Gemini 共用 contents 格式 */
+export type ChatFormat = 'openai' | 'gemini' | 'ollama';
+
 // ================== Helper Functions ==================
 
 /**
@@ -33,10 +43,13 @@ interface GeminiResponse {
 function normalizeEndpoint(endpoint: string, apiType: ApiType): string {
     let url = endpoint.replace(/\/$/, '');
 
-    if (apiType === 'openai') {
+    if (apiType === 'openai' || apiType === 'llamacpp') {
         if (!url.endsWith('/v1')) {
             url = `${url}/v1`;
         }
+    } else if (apiType === 'ollama') {
+        // Ollama 原生接口挂在根路径下（/api/chat、/api/tags）
+        url = url.replace(/\/(api|v1)$/, '');
     } else if (apiType === 'gemini') {
         // Gemini: ensure ends with /v1 or /v1beta
         if (!url.endsWith('/v1') && !url.endsWith('/v1beta')) {
@@ -51,6 +64,28 @@ function normalizeEndpoint(endpoint: string, apiType: ApiType): string {
     return url;
 }
 
+/**
+ * 解析 API 基础地址（未填写时使用各类型的默认地址）
+ */
+export function resolveEndpoint(endpoint: string, apiType: ApiType): string {
+    let base = endpoint.trim();
+    if (!base && apiType === 'gemini') {
+        base = 'https://generativelanguage.googleapis.com';
+    } else if (!base && isLocalApiType(apiType)) {
+        base = getLocalDefaultEndpoint(apiType);
+    }
+    return normalizeEndpoint(base, apiType);
+}
+
+/**
+ * 获取 API 类型对应的请求格式
+ */
+export function getChatFormat(apiType: ApiType): ChatFormat {
+    if (apiType === 'ollama') return 'ollama';
+    if (apiType === 'openai' || apiType === 'llamacpp') return 'openai';
+    return 'gemini';
+}
+
 /**
  * 构建 Vertex AI URL
  */
@@ -61,6 +96,25 @@ export function buildVertexUrl(project: string, location: string, model: string,
     return `https://${location}-aiplatform.googleapis.com/v1/projects/${project}/locations/${location}/publishers/google/${modelFull}${taskMethod}`;
 }
 
+/**
+ * 获取本应用路由地址
+ * 浏览器使用相对路径；服务端（广播模式）需要绝对地址
+ */
+export function getAppUrl(pathname: string): string {
+    if (typeof window !== 'undefined') {
+        return pathname;
+    }
+    const origin = process.env.RADIO_SERVER_ORIGIN || `http://127.0.0.1:${process.env.PORT || 3000}`;
+    return `${origin.replace(/\/$/, '')}${pathname}`;
+}
+
+/**
+ * 获取代理路由地址
+ */
+export function getProxyUrl(): string {
+    return getAppUrl('/api/proxy');
+}
+
 /**
  * 解析 URL 获取服务类型
  */
@@ -125,7 +179,7 @@ export async function apiFetch(
         console.log("Direct fetch failed, trying proxy...", directError);
         // fallback 到代理
         try {
-            const response = await fetch('/api/proxy', {
+            const response = await fetch(getProxyUrl(), {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
@@ -154,13 +208,90 @@ export interface GenerativeAIOptions {
     maxOutputTokens?: number;
 }
 
+/**
+ * 读取 SSE 流，逐条回调 data 字段
+ */
+export async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+        throw new Error('Response has no body to stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flush = (event: string) => {
+        const data = event
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trimStart())
+            .join('\n');
+        if (data && data !== '[DONE]') {
+            onData(data);
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+        events.forEach(flush);
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+        flush(buffer);
+    }
+}
+
+/**
+ * 读取 NDJSON 流（Ollama 原生流式格式），逐行回调
+ */
+export async function readJsonLines(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+        throw new Error('Response has no body to stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+        lines.filter(line => line.trim()).forEach(line => onData(line));
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+        onData(buffer);
+    }
+}
+
+/**
+ * 按请求格式读取流式响应（Ollama 为 NDJSON，其余为 SSE）
+ */
+export function readChatStream(response: Response, format: ChatFormat, onData: (data: string) => void): Promise<void> {
+    return format === 'ollama'
+        ? readJsonLines(response, onData)
+        : readEventStream(response, onData);
+}
+
 /**
  * 统一的 AI 调用辅助函数
- * 自动处理 OpenAI / Gemini / Vertex AI 三种格式
+ * 自动处理 OpenAI / Gemini / Vertex AI / Ollama 格式（llama.cpp 走 OpenAI 兼容接口）
  */
 export async function callGenerativeAI(options: GenerativeAIOptions): Promise<string | null> {
     const settings = getSettings();
     const { prompt, temperature = 0.7, maxOutputTokens = 2048 } = options;
+    const format = getChatFormat(settings.apiType);
 
     let url: string;
     let body: unknown;
@@ -196,12 +327,25 @@ export async function callGenerativeAI(options: GenerativeAIOptions): Promise<st
             contents: [{ parts: [{ text: prompt }] }],
             generationConfig: { temperature, maxOutputTokens }
         };
+    } else if (settings.apiType === 'ollama') {
+        // Ollama 原生格式
+        url = `${resolveEndpoint(settings.endpoint, 'ollama')}/api/chat`;
+        body = {
+            model: settings.modelName,
+            messages: [{ role: 'user', content: prompt }],
+            stream: false,
+            options: {
+                temperature,
+                num_predict: maxOutputTokens,
+                num_ctx: await getContextWindow()
+            }
+        };
     } else {
-        // OpenAI 格式
-        const endpoint = settings.endpoint || '';
-        const baseUrl = normalizeEndpoint(endpoint, 'openai');
-        url = `${baseUrl}/chat/completions`;
-        headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        // OpenAI 格式（含 llama.cpp 兼容接口，本地服务无需 key）
+        url = `${resolveEndpoint(settings.endpoint, settings.apiType)}/chat/completions`;
+        if (settings.apiKey) {
+            headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        }
         body = {
             model: settings.modelName,
             messages: [{ role: 'user', content: prompt }],
@@ -220,9 +364,11 @@ export async function callGenerativeAI(options: GenerativeAIOptions): Promise<st
 
         const data = await response.json();
 
-        // 根据 API 类型解析响应
-        if (settings.apiType === 'openai') {
+        // 根据请求格式解析响应
+        if (format === 'openai') {
             return data.choices?.[0]?.message?.content || null;
+        } else if (format === 'ollama') {
+            return data.message?.content || null;
         } else {
             return data.candidates?.[0]?.content?.parts?.[0]?.text || null;
         }
@@ -233,6 +379,72 @@ export async function callGenerativeAI(options: GenerativeAIOptions): Promise<st
 }
 
 
+/**
+ * 文本向量化（使用主 AI 接口与设置中的向量模型，未配置或失败时返回 null）
+ */
+export async function embedTexts(texts: string[]): Promise<number[][] | null> {
+    const settings = getSettings();
+    const model = settings.embeddingModel.trim();
+    if (!model || texts.length === 0) return null;
+
+    let url: string;
+    let body: unknown;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (settings.apiType === 'vertexai') {
+        url = buildVertexUrl(settings.gcpProject, settings.gcpLocation, model, 'predict');
+        if (settings.apiKey.startsWith('AIza')) {
+            url += `?key=${settings.apiKey}`;
+        } else {
+            headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        }
+        body = { instances: texts.map(content => ({ content })) };
+    } else if (settings.apiType === 'gemini') {
+        const modelName = model.startsWith('models/') ? model : `models/${model}`;
+        url = `${resolveEndpoint(settings.endpoint, 'gemini')}/${modelName}:batchEmbedContents`;
+        headers['x-goog-api-key'] = settings.apiKey;
+        body = { requests: texts.map(text => ({ model: modelName, content: { parts: [{ text }] } })) };
+    } else if (settings.apiType === 'ollama') {
+        url = `${resolveEndpoint(settings.endpoint, 'ollama')}/api/embed`;
+        body = { model, input: texts };
+    } else {
+        url = `${resolveEndpoint(settings.endpoint, settings.apiType)}/embeddings`;
+        if (settings.apiKey) {
+            headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        }
+        body = { model, input: texts };
+    }
+
+    try {
+        const response = await apiFetch(url, { method: 'POST', headers, body });
+        if (!response.ok) {
+            console.error(`Embedding API Error: ${response.status}`);
+            return null;
+        }
+
+        const data = await response.json();
+        let vectors: number[][] | undefined;
+        if (settings.apiType === 'vertexai') {
+            vectors = data.predictions?.map((p: { embeddings?: { values?: number[] } }) => p.embeddings?.values ?? []);
+        } else if (settings.apiType === 'gemini') {
+            vectors = data.embeddings?.map((e: { values?: number[] }) => e.values ?? []);
+        } else if (settings.apiType === 'ollama') {
+            vectors = data.embeddings;
+        } else {
+            vectors = (data.data as Array<{ index: number; embedding: number[] }> | undefined)
+                ?.slice()
+                .sort((a, b) => a.index - b.index)
+                .map(item => item.embedding);
+        }
+
+        return vectors && vectors.length === texts.length && vectors.every(v => v.length > 0) ? vectors : null;
+    } catch (error) {
+        console.error('embedTexts error:', error);
+        return null;
+    }
+}
+
+
 // ================== Main Functions ==================
 
 /**
@@ -285,7 +497,14 @@ IMPORTANT:
     try {
         let responseText: string;
 
-        if (settings.apiType === 'vertexai') {
+        if (isLocalApiType(settings.apiType)) {
+            // 本地模型：Ollama 原生接口 / llama.cpp OpenAI 兼容接口
+            const text = await callGenerativeAI({ prompt, temperature: 0.8, maxOutputTokens: 300 });
+            if (!text) {
+                return { type: "host_talk", content: "Signal interference detected..." };
+            }
+            responseText = text;
+        } else if (settings.apiType === 'vertexai') {
             // Vertex AI format
             const isGcpApiKey = settings.apiKey.startsWith('AIza');
             const url = buildVertexUrl(
@@ -401,7 +620,21 @@ export async function testConnection(): Promise<{ success: boolean; message: str
     const baseUrl = normalizeEndpoint(endpoint, settings.apiType);
 
     try {
-        if (settings.apiType === 'vertexai') {
+        if (isLocalApiType(settings.apiType)) {
+            // 本地模型：通过模型列表检查服务是否在线、模型是否已下载
+            const label = settings.apiType === 'ollama' ? 'Ollama' : 'llama.cpp';
+            const models = await fetchModels(settings.endpoint, settings.apiKey, settings.apiType);
+
+            if (models.length === 0) {
+                return { success: false, message: `Error: ${label} server unreachable or no models loaded` };
+            }
+            if (settings.apiType === 'ollama' && !models.some(model => model === settings.modelName || model === `${settings.modelName}:latest`)) {
+                return { success: false, message: `Error: model "${settings.modelName}" not found, run \`ollama pull ${settings.modelName}\`` };
+            }
+
+            const contextWindow = await getContextWindow();
+            return { success: true, message: `✅ ${label} connection successful! (context ${contextWindow} tokens)` };
+        } else if (settings.apiType === 'vertexai') {
             // Vertex AI test
             const isGcpApiKey = settings.apiKey.startsWith('AIza');
             const url = buildVertexUrl(
@@ -488,6 +721,11 @@ export async function testConnection(): Promise<{ success: boolean; message: str
  * Fetch available models from the API
  */
 export async function fetchModels(endpoint: string, apiKey: string, apiType: ApiType): Promise<string[]> {
+    // 本地模型无需 key，未填写 endpoint 时使用默认地址
+    if (isLocalApiType(apiType)) {
+        return fetchLocalModels(endpoint, apiKey, apiType);
+    }
+
     if (!endpoint || !apiKey) {
         return [];
     }
@@ -532,3 +770,106 @@ export async function fetchModels(endpoint: string, apiKey: string, apiType: Api
         return [];
     }
 }
+
+// ================== Local LLM (Ollama / llama.cpp) ==================
+
+const contextWindowCache = new Map<string, number>();
+
+/**
+ * 获取本地服务的模型列表（Ollama: /api/tags，llama.cpp: /v1/models）
+ */
+async function fetchLocalModels(endpoint: string, apiKey: string, apiType: 'ollama' | 'llamacpp'): Promise<string[]> {
+    const baseUrl = resolveEndpoint(endpoint, apiType);
+    const headers: Record<string, string> = apiKey ? { "Authorization": `Bearer ${apiKey}` } : {};
+
+    try {
+        const response = await apiFetch(
+            apiType === 'ollama' ? `${baseUrl}/api/tags` : `${baseUrl}/models`,
+            { method: "GET", headers }
+        );
+
+        if (!response.ok) {
+            console.error("Failed to fetch local models:", response.status);
+            return [];
+        }
+
+        const data = await response.json();
+        const names: string[] = apiType === 'ollama'
+            ? (data.models || []).map((model: { name: string }) => model.name)
+            : (data.data || []).map((model: { id: string }) => model.id);
+
+        return names.filter(Boolean).sort((a, b) => a.localeCompare(b));
+    } catch (error) {
+        console.error("Error fetching local models:", error);
+        return [];
+    }
+}
+
+/**
+ * 探测本地模型实际使用的上下文窗口
+ * Ollama: /api/show 中的 num_ctx 参数（未设置时取默认值，且不超过模型上限）
+ * llama.cpp: /props 中的 n_ctx
+ */
+async function detectContextWindow(endpoint: string, apiType: 'ollama' | 'llamacpp', model: string): Promise<number | null> {
+    const baseUrl = resolveEndpoint(endpoint, apiType);
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+
+    try {
+        if (apiType === 'ollama') {
+            const response = await apiFetch(`${baseUrl}/api/show`, { method: "POST", headers, body: { model } });
+            if (!response.ok) return null;
+
+            const data = await response.json();
+            const numCtx = /num_ctx\s+(\d+)/.exec(data.parameters || '')?.[1];
+            if (numCtx) return Number(numCtx);
+
+            const modelInfo: Record<string, unknown> = data.model_info || {};
+            const limitKey = Object.keys(modelInfo).find(key => key.endsWith('.context_length'));
+            const limit = limitKey ? Number(modelInfo[limitKey]) : 0;
+            return limit > 0 ? Math.min(limit, LOCAL_LLM.DEFAULT_CONTEXT_WINDOW) : null;
+        }
+
+        const response = await apiFetch(`${baseUrl.replace(/\/v1$/, '')}/props`, { method: "GET", headers });
+        if (!response.ok) return null;
+
+        const data = await response.json();
+        const nCtx = Number(data.default_generation_settings?.n_ctx ?? data.n_ctx);
+        return nCtx > 0 ? nCtx : null;
+    } catch (error) {
+        console.warn("Failed to detect context window:", error);
+        return null;
+    }
+}
+
+/**
+ * 获取当前模型的上下文窗口 (tokens)
+ * 优先使用设置值；本地模型自动探测并缓存；云端模型未设置时返回 0（视为不受限）
+ */
+export async function getContextWindow(): Promise<number> {
+    const settings = getSettings();
+    if (settings.contextWindow > 0) {
+        return settings.contextWindow;
+    }
+    if (!isLocalApiType(settings.apiType)) {
+        return 0;
+    }
+
+    const cacheKey = `${settings.apiType}:${settings.endpoint}:${settings.modelName}`;
+    const cached = contextWindowCache.get(cacheKey);
+    if (cached) return cached;
+
+    const detected = await detectContextWindow(settings.endpoint, settings.apiType, settings.modelName);
+    const contextWindow = detected ?? LOCAL_LLM.DEFAULT_CONTEXT_WINDOW;
+    contextWindowCache.set(cacheKey, contextWindow);
+    radioMonitor.log('WRITER', `Context window: ${contextWindow} tokens${detected ? '' : ' (default)'}`, 'info');
+
+    return contextWindow;
+}
+
+/**
+ * 粗略估算 token 数（中日韩字符约 1 token/字，其余约 4 字符/token）
+ */
+export function estimateTokens(text: string): number {
+    const cjk = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g)?.length || 0;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+}
@@ -0,0 +1,291 @@
+/**
+ * Audio Graph - 浏览器端 Web Audio 处理链
+ * Howler 为每个声音创建一个 GainNode（音量 / 淡入淡出）并接到 Howler.masterGain，这里改接为：
+ *   音乐：片段增益（响度归一化）→ 音乐总线（侧链闪避）→ 主总线
+ *   语音：片段增益 → 语音预设（EQ / 齿音消除）→ 主总线，同时送入包络检测
+ *   音效：片段增益 → 主总线（不参与闪避）
+ *   主总线：Howler.masterGain → 压缩器 → 限幅器 → 输出
+ * Howler 退回 HTML5 Audio 时处理链不可用，播放不受影响
+ */
+
+import { Howl, Howler } from 'howler';
+import { AUDIO, AUDIO_PROCESSING } from '@shared/utils/constants';
+import { getSettings, VoicePreset } from '@shared/services/storage-service/settings';
+import { DuckingOptions, getRmsDb, SidechainDucker } from './ducking';
+
+// ================== Presets ==================
+
+export const VOICE_PRESET_LABELS: Record<VoicePreset, string> = {
+    off: '原声',
+    clarity: '清晰',
+    warm: '温暖',
+    broadcast: '电台'
+};
+
+interface EqStage {
+    type: BiquadFilterType;
+    frequency: number;
+    gain?: number;     // dB（shelf / peaking）
+    q?: number;
+}
+
+/**
+ * 语音预设
+ * - clarity：切除低频嗡声，提升 3kHz 咬字，轻度齿音消除
+ * - warm：保留低频厚度，压低高频，适合深夜节目
+ * - broadcast：电台式近讲音色，低频饱满、中高频突出，配合齿音消除
+ */
+const VOICE_PRESETS: Record<VoicePreset, { eq: EqStage[]; deEss: boolean }> = {
+    off: { eq: [], deEss: false },
+    clarity: {
+        eq: [
+            { type: 'highpass', frequency: 80, q: 0.7 },
+            { type: 'peaking', frequency: 3000, gain: 3, q: 1 }
+        ],
+        deEss: true
+    },
+    warm: {
+        eq: [
+            { type: 'highpass', frequency: 70, q: 0.7 },
+            { type: 'lowshelf', frequency: 200, gain: 2 },
+            { type: 'highshelf', frequency: 7000, gain: -3 }
+        ],
+        deEss: false
+    },
+    broadcast: {
+        eq: [
+            { type: 'highpass', frequency: 100, q: 0.7 },
+            { type: 'lowshelf', frequency: 150, gain: 3 },
+            { type: 'peaking', frequency: 3500, gain: 4, q: 0.9 }
+        ],
+        deEss: true
+    }
+};
+
+/** Howler 未公开的声音节点（Web Audio 模式下为 GainNode） */
+interface HowlInternals {
+    _sounds?: Array<{ _node?: unknown }>;
+}
+
+// ================== Graph ==================
+
+class AudioGraph {
+    private context: AudioContext | null = null;
+    private compressor: DynamicsCompressorNode | null = null;
+    private limiter: DynamicsCompressorNode | null = null;
+    private voiceInput: GainNode | null = null;
+    private voiceNodes: AudioNode[] = [];
+    private voiceAnalyser: AnalyserNode | null = null;
+    private musicBus: GainNode | null = null;
+
+    private ducker: SidechainDucker | null = null;
+    private duckTimer: ReturnType<typeof setInterval> | null = null;
+
+    private compressorEnabled: boolean | null = null;
+    private voicePreset: VoicePreset | null = null;
+    private routed = new WeakSet<AudioNode>();
+
+    /**
+     * 处理链是否可用（Howler 使用 Web Audio）
+     */
+    isAvailable(): boolean {
+        return Boolean(Howler.usingWebAudio && Howler.ctx && Howler.masterGain);
+    }
+
+    /**
+     * 把 Howl 的声音改接到处理链（需在 play() 之后调用，确保声音节点已创建）
+     * @param gain 片段增益（响度归一化系数）
+     */
+    connect(howl: Howl, kind: 'music' | 'voice' | 'effect', gain: number): void {
+        const context = this.ensure();
+        if (!context || !this.voiceInput || !this.musicBus) return;
+
+        const clipGain = context.createGain();
+        clipGain.gain.value = gain;
+        clipGain.connect(kind === 'voice' ? this.voiceInput : kind === 'music' ? this.musicBus : Howler.masterGain);
+
+        for (const sound of (howl as unknown as HowlInternals)._sounds ?? []) {
+            const node = sound._node;
+            if (!(node instanceof AudioNode) || this.routed.has(node)) continue;
+            node.disconnect();
+            node.connect(clipGain);
+            this.routed.add(node);
+        }
+    }
+
+    /**
+     * 开启 / 调整 / 结束侧链闪避（null 为结束，音乐按回升时长恢复）
+     * @returns 处理链不可用时为 false，由调用方退回固定音量闪避
+     */
+    setDucking(options: DuckingOptions | null): boolean {
+        if (!this.ensure()) return false;
+
+        if (!options) {
+            this.ducker?.release();
+            return true;
+        }
+
+        if (this.ducker) {
+            this.ducker.update(options);
+        } else {
+            this.ducker = new SidechainDucker(options);
+        }
+        this.startDuckTimer();
+        return true;
+    }
+
+    // ================== Internals ==================
+
+    /**
+     * 周期性读取语音包络并调整音乐总线增益，闪避结束且音乐恢复后停止
+     */
+    private startDuckTimer(): void {
+        if (this.duckTimer) return;
+        const analyser = this.voiceAnalyser;
+        const bus = this.musicBus;
+        const context = this.context;
+        if (!analyser || !bus || !context) return;
+
+        const buffer = new Float32Array(analyser.fftSize);
+        this.duckTimer = setInterval(() => {
+            const ducker = this.ducker;
+            if (ducker) {
+                analyser.getFloatTimeDomainData(buffer);
+                const gain = ducker.next(getRmsDb(buffer), AUDIO.DUCK_INTERVAL_MS);
+                bus.gain.setTargetAtTime(gain, context.currentTime, AUDIO.DUCK_INTERVAL_MS / 1000 / 2);
+            }
+
+            if (!ducker || ducker.isIdle()) {
+                bus.gain.setTargetAtTime(1, context.currentTime, AUDIO.DUCK_INTERVAL_MS / 1000 / 2);
+                if (this.duckTimer) clearInterval(this.duckTimer);
+                this.duckTimer = null;
+                this.ducker = null;
+            }
+        }, AUDIO.DUCK_INTERVAL_MS);
+    }
+
+    /**
+     * 首次使用时建立主总线，之后按当前设置调整连接
+     */
+    private ensure(): AudioContext | null {
+        if (!this.isAvailable()) return null;
+
+        if (this.context !== Howler.ctx) {
+            const context = Howler.ctx;
+            this.context = context;
+
+            this.compressor = context.createDynamicsCompressor();
+            this.compressor.threshold.value = AUDIO_PROCESSING.COMPRESSOR_THRESHOLD_DB;
+            this.compressor.knee.value = AUDIO_PROCESSING.COMPRESSOR_KNEE_DB;
+            this.compressor.ratio.value = AUDIO_PROCESSING.COMPRESSOR_RATIO;
+            this.compressor.attack.value = AUDIO_PROCESSING.COMPRESSOR_ATTACK_S;
+            this.compressor.release.value = AUDIO_PROCESSING.COMPRESSOR_RELEASE_S;
+
+            this.limiter = context.createDynamicsCompressor();
+            this.limiter.threshold.value = AUDIO_PROCESSING.LIMITER_THRESHOLD_DB;
+            this.limiter.knee.value = 0;
+            this.limiter.ratio.value = AUDIO_PROCESSING.LIMITER_RATIO;
+            this.limiter.attack.value = AUDIO_PROCESSING.LIMITER_ATTACK_S;
+            this.limiter.release.value = AUDIO_PROCESSING.LIMITER_RELEASE_S;
+
+            this.compressor.connect(this.limiter);
+            this.limiter.connect(context.destination);
+
+            this.voiceInput = context.createGain();
+            this.voiceNodes = [];
+            this.voiceAnalyser = context.createAnalyser();
+            this.voiceAnalyser.fftSize = 1024;
+            this.musicBus = context.createGain();
+            this.musicBus.connect(Howler.masterGain);
+            this.compressorEnabled = null;
+            this.voicePreset = null;
+        }
+
+        const { masterCompressor, voicePreset } = getSettings();
+        if (masterCompressor !== this.compressorEnabled) {
+            this.setMasterBus(masterCompressor);
+        }
+        if (voicePreset !== this.voicePreset) {
+            this.setVoicePreset(voicePreset);
+        }
+        return this.context;
+    }
+
+    private setMasterBus(enabled: boolean): void {
+        if (!this.context || !this.compressor) return;
+
+        Howler.masterGain.disconnect();
+        Howler.masterGain.connect(enabled ? this.compressor : this.context.destination);
+        this.compressorEnabled = enabled;
+    }
+
+    /**
+     * 重建语音预设链：voiceInput → EQ → (齿音消除) → Howler.masterGain
+     */
+    private setVoicePreset(preset: VoicePreset): void {
+        const context = this.context;
+        const input = this.voiceInput;
+        if (!context || !input) return;
+
+        input.disconnect();
+        this.voiceNodes.forEach(node => node.disconnect());
+        this.voiceNodes = [];
+
+        let tail: AudioNode = input;
+        const config = VOICE_PRESETS[preset] ?? VOICE_PRESETS.off;
+
+        for (const stage of config.eq) {
+            const filter = context.createBiquadFilter();
+            filter.type = stage.type;
+            filter.frequency.value = stage.frequency;
+            if (stage.gain !== undefined) filter.gain.value = stage.gain;
+            if (stage.q !== undefined) filter.Q.value = stage.q;
+            tail.connect(filter);
+            this.voiceNodes.push(filter);
+            tail = filter;
+        }
+
+        if (config.deEss) {
+            tail = this.createDeEsser(context, tail);
+        }
+
+        tail.connect(Howler.masterGain);
+        if (this.voiceAnalyser) {
+            tail.connect(this.voiceAnalyser);
+        }
+        this.voicePreset = preset;
+    }
+
+    /**
+     * 分频齿音消除：高于分频点的频段单独压缩后与低频段相加
+     */
+    private createDeEsser(context: AudioContext, source: AudioNode): AudioNode {
+        const low = context.createBiquadFilter();
+        low.type = 'lowpass';
+        low.frequency.value = AUDIO_PROCESSING.DE_ESS_FREQUENCY;
+
+        const high = context.createBiquadFilter();
+        high.type = 'highpass';
+        high.frequency.value = AUDIO_PROCESSING.DE_ESS_FREQUENCY;
+
+        const compressor = context.createDynamicsCompressor();
+        compressor.threshold.value = AUDIO_PROCESSING.DE_ESS_THRESHOLD_DB;
+        compressor.ratio.value = AUDIO_PROCESSING.DE_ESS_RATIO;
+        compressor.knee.value = 3;
+        compressor.attack.value = 0.001;
+        compressor.release.value = 0.05;
+
+        const sum = context.createGain();
+        source.connect(low);
+        source.connect(high);
+        low.connect(sum);
+        high.connect(compressor);
+        compressor.connect(sum);
+
+        this.voiceNodes.push(low, high, compressor, sum);
+        return sum;
+    }
+}
+
+// 单例导出
+export const audioGraph = new AudioGraph();
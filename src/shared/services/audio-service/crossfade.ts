@@ -0,0 +1,35 @@
+/**
+ * Crossfade - 交叉淡化曲线
+ * 两个音乐 deck 之间的增益分配，AudioMixer 与 StreamMixer 共用
+ */
+
+import type { CrossfadeCurve } from '@shared/services/storage-service/settings';
+
+export const CROSSFADE_CURVE_LABELS: Record<CrossfadeCurve, string> = {
+    linear: '线性',
+    equal_power: '等功率',
+    s_curve: 'S 曲线'
+};
+
+/**
+ * 计算交叉淡化进度对应的增益
+ * - linear：线性，中点响度略有下陷
+ * - equal_power：等功率（正弦/余弦），中点响度保持不变，适合大多数歌曲
+ * - s_curve：两端平缓、中间快速交接，适合节奏明显的歌曲
+ * @param progress 0-1
+ * @returns out 为旧 deck 增益系数，in 为新 deck 增益系数
+ */
+export function getCrossfadeGains(progress: number, curve: CrossfadeCurve): { out: number; in: number } {
+    const p = Math.min(1, Math.max(0, progress));
+
+    switch (curve) {
+        case 'equal_power':
+            return { out: Math.cos(p * Math.PI / 2), in: Math.sin(p * Math.PI / 2) };
+        case 's_curve': {
+            const s = p * p * (3 - 2 * p);
+            return { out: 1 - s, in: s };
+        }
+        default:
+            return { out: 1 - p, in: p };
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Ducking - 侧链闪避
+ * 按语音电平实时压低音乐：语音越响压得越低，停顿时音乐按回升时长恢复
+ * AudioMixer（AnalyserNode 采样）、StreamMixer（逐帧 PCM）与录制渲染共用同一包络算法
+ */
+
+import { AUDIO } from '@shared/utils/constants';
+import { getSettings } from '@shared/services/storage-service/settings';
+
+// ================== Types ==================
+
+export interface DuckingOptions {
+    depth: number;         // 语音满电平时的音乐增益系数 (0-1)，相对于当前音乐音量
+    attack?: number;       // 压低时长 (ms)，默认取设置
+    release?: number;      // 回升时长 (ms)，默认取设置
+}
+
+type ResolvedDucking = Required<DuckingOptions>;
+
+/**
+ * 补全未指定的压低 / 回升时长
+ */
+export function resolveDucking(options: DuckingOptions): ResolvedDucking {
+    const settings = getSettings();
+    return {
+        depth: Math.min(1, Math.max(0.01, options.depth)),
+        attack: options.attack ?? settings.duckingAttack,
+        release: options.release ?? settings.duckingRelease
+    };
+}
+
+/**
+ * 计算一段采样的 RMS 电平 (dBFS)
+ */
+export function getRmsDb(samples: ArrayLike<number>, scale = 1): number {
+    if (samples.length === 0) return -Infinity;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const value = samples[i] / scale;
+        sum += value * value;
+    }
+    return 10 * Math.log10(sum / samples.length);
+}
+
+// ================== Ducker ==================
+
+/**
+ * 闪避包络跟随器
+ * 每个检测周期输入一次语音电平，输出平滑后的音乐增益；
+ * 语音低于门限后先保持 DUCK_HOLD_MS，避免字与字之间来回抽吸
+ */
+export class SidechainDucker {
+    private options: ResolvedDucking;
+    private gain = 1;
+    private holdRemaining = 0;
+    private active = true;
+
+    constructor(options: DuckingOptions) {
+        this.options = resolveDucking(options);
+    }
+
+    /**
+     * 更新参数（闪避进行中调整深度时不会跳变）
+     */
+    update(options: DuckingOptions): void {
+        this.options = resolveDucking(options);
+        this.active = true;
+    }
+
+    /**
+     * 结束闪避：之后按回升时长恢复到 1
+     */
+    release(): void {
+        this.active = false;
+    }
+
+    /**
+     * 已结束且增益已恢复
+     */
+    isIdle(): boolean {
+        return !this.active && this.gain >= 0.999;
+    }
+
+    getGain(): number {
+        return this.gain;
+    }
+
+    /**
+     * @param levelDb 本周期语音 RMS 电平 (dBFS)
+     * @param elapsedMs 周期长度 (ms)
+     */
+    next(levelDb: number, elapsedMs: number): number {
+        const { depth, attack, release } = this.options;
+        const amount = this.active
+            ? Math.min(1, Math.max(0, (levelDb - AUDIO.DUCK_THRESHOLD_DB) / AUDIO.DUCK_RANGE_DB))
+            : 0;
+        let target = Math.pow(depth, amount);   // dB 域线性插值：0 → 1，满电平 → depth
+
+        if (target < this.gain) {
+            this.holdRemaining = AUDIO.DUCK_HOLD_MS;
+        } else if (this.holdRemaining > 0 && this.active) {
+            this.holdRemaining -= elapsedMs;
+            target = this.gain;
+        }
+
+        // 一阶平滑，约在设定时长内完成 95%
+        const time = target < this.gain ? attack : release;
+        const coefficient = time > 0 ? 1 - Math.exp(-3 * elapsedMs / time) : 1;
+        this.gain += (target - this.gain) * coefficient;
+        return this.gain;
+    }
+}
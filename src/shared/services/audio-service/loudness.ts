@@ -0,0 +1,174 @@
+/**
+ * Loudness - 响度测量与归一化
+ * 按 ITU-R BS.1770 计算积分响度 (LUFS)：K 加权滤波 + 400ms 块 + 绝对 / 相对门限
+ * AudioMixer 与 StreamMixer 共用，用于把不同 TTS 与音乐来源拉到同一目标响度
+ */
+
+import { AUDIO_PROCESSING } from '@shared/utils/constants';
+
+// ================== K-Weighting ==================
+
+interface Biquad {
+    b0: number; b1: number; b2: number;
+    a1: number; a2: number;
+}
+
+/**
+ * 按采样率计算 K 加权的两级滤波系数（高架预滤波 + RLB 高通）
+ */
+function getKWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+    // 第一级：高架滤波，模拟头部声学效应
+    let f0 = 1681.974450955533;
+    const gainDb = 3.999843853973347;
+    let q = 0.7071752369554196;
+    let k = Math.tan(Math.PI * f0 / sampleRate);
+    const vh = Math.pow(10, gainDb / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    let a0 = 1 + k / q + k * k;
+    const shelf: Biquad = {
+        b0: (vh + vb * k / q + k * k) / a0,
+        b1: 2 * (k * k - vh) / a0,
+        b2: (vh - vb * k / q + k * k) / a0,
+        a1: 2 * (k * k - 1) / a0,
+        a2: (1 - k / q + k * k) / a0
+    };
+
+    // 第二级：RLB 高通
+    f0 = 38.13547087602444;
+    q = 0.5003270373238773;
+    k = Math.tan(Math.PI * f0 / sampleRate);
+    a0 = 1 + k / q + k * k;
+    const highpass: Biquad = {
+        b0: 1,
+        b1: -2,
+        b2: 1,
+        a1: 2 * (k * k - 1) / a0,
+        a2: (1 - k / q + k * k) / a0
+    };
+
+    return [shelf, highpass];
+}
+
+/**
+ * 对单个声道做 K 加权，并累加每 100ms 的平方和到 steps
+ */
+function accumulateChannel(samples: Float32Array, sampleRate: number, stepSize: number, steps: Float64Array): void {
+    const [f1, f2] = getKWeightingFilters(sampleRate);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;   // 第一级状态
+    let z1 = 0, z2 = 0, w1 = 0, w2 = 0;   // 第二级状态
+
+    for (let i = 0; i < samples.length; i++) {
+        const x = samples[i];
+        const y = f1.b0 * x + f1.b1 * x1 + f1.b2 * x2 - f1.a1 * y1 - f1.a2 * y2;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+
+        const w = f2.b0 * y + f2.b1 * z1 + f2.b2 * z2 - f2.a1 * w1 - f2.a2 * w2;
+        z2 = z1; z1 = y;
+        w2 = w1; w1 = w;
+
+        const step = Math.floor(i / stepSize);
+        if (step < steps.length) {
+            steps[step] += w * w;
+        }
+    }
+}
+
+function energyToLufs(energy: number): number {
+    return -0.691 + 10 * Math.log10(energy);
+}
+
+// ================== Measurement ==================
+
+/**
+ * 计算积分响度
+ * @param channels 各声道采样（-1 ~ 1），左右声道权重均为 1
+ * @returns LUFS；静音或短于一个测量块时为 -Infinity
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): number {
+    const length = channels[0]?.length ?? 0;
+    const stepSize = Math.round(sampleRate * AUDIO_PROCESSING.LOUDNESS_STEP_MS / 1000);
+    const stepsPerBlock = Math.round(AUDIO_PROCESSING.LOUDNESS_BLOCK_MS / AUDIO_PROCESSING.LOUDNESS_STEP_MS);
+    const stepCount = Math.floor(length / stepSize);
+    if (stepCount < stepsPerBlock) return -Infinity;
+
+    const steps = new Float64Array(stepCount);
+    for (const samples of channels) {
+        accumulateChannel(samples, sampleRate, stepSize, steps);
+    }
+
+    // 400ms 块，75% 重叠（每 100ms 前进一次）
+    const blocks: number[] = [];
+    const blockSize = stepSize * stepsPerBlock;
+    for (let start = 0; start + stepsPerBlock <= stepCount; start++) {
+        let sum = 0;
+        for (let j = 0; j < stepsPerBlock; j++) {
+            sum += steps[start + j];
+        }
+        blocks.push(sum / blockSize);
+    }
+
+    // 绝对门限：忽略静音段
+    const absoluteGated = blocks.filter(energy => energyToLufs(energy) > AUDIO_PROCESSING.ABSOLUTE_GATE_LUFS);
+    if (absoluteGated.length === 0) return -Infinity;
+
+    // 相对门限：忽略比整体低 10 LU 以上的段落
+    const mean = absoluteGated.reduce((sum, energy) => sum + energy, 0) / absoluteGated.length;
+    const relativeGate = energyToLufs(mean) - AUDIO_PROCESSING.RELATIVE_GATE_LU;
+    const gated = absoluteGated.filter(energy => energyToLufs(energy) > relativeGate);
+    if (gated.length === 0) return -Infinity;
+
+    return energyToLufs(gated.reduce((sum, energy) => sum + energy, 0) / gated.length);
+}
+
+/**
+ * 计算 16-bit PCM 的积分响度（TTS 输出与服务端解码结果）
+ */
+export function measurePcm16Loudness(pcm: ArrayBuffer | Int16Array, sampleRate = 24000): number {
+    const samples = pcm instanceof Int16Array ? pcm : new Int16Array(pcm, 0, Math.floor(pcm.byteLength / 2));
+    const floats = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        floats[i] = samples[i] / 32768;
+    }
+    return measureLoudness([floats], sampleRate);
+}
+
+/**
+ * 解码已编码音频（MP3 等）并计算积分响度，仅浏览器可用
+ * @returns 无法解码时为 null
+ */
+export async function measureEncodedLoudness(data: Blob | ArrayBuffer): Promise<number | null> {
+    if (typeof OfflineAudioContext === 'undefined') return null;
+
+    try {
+        const arrayBuffer = data instanceof Blob ? await data.arrayBuffer() : data.slice(0);
+        // 只用于解码，解码结果按此上下文的采样率重采样
+        const context = new OfflineAudioContext(1, 1, AUDIO_PROCESSING.ANALYSIS_SAMPLE_RATE);
+        const buffer = await context.decodeAudioData(arrayBuffer);
+        const channels: Float32Array[] = [];
+        for (let i = 0; i < Math.min(buffer.numberOfChannels, 2); i++) {
+            channels.push(buffer.getChannelData(i));
+        }
+        return measureLoudness(channels, buffer.sampleRate);
+    } catch (error) {
+        console.warn('[Loudness] Decode for analysis failed:', error);
+        return null;
+    }
+}
+
+// ================== Normalization ==================
+
+/**
+ * 把片段响度拉到目标响度所需的增益系数
+ * @param target 目标响度 (LUFS)，0 表示关闭归一化
+ * @returns 响度未知、静音或已关闭时为 1
+ */
+export function getNormalizationGain(loudness: number | null | undefined, target: number): number {
+    if (target === 0 || loudness == null || !Number.isFinite(loudness)) return 1;
+
+    const gainDb = Math.min(
+        AUDIO_PROCESSING.MAX_BOOST_DB,
+        Math.max(-AUDIO_PROCESSING.MAX_CUT_DB, target - loudness)
+    );
+    return Math.pow(10, gainDb / 20);
+}
@@ -1,17 +1,123 @@
 /**
  * Audio Mixer - 多轨音频控制器
- * 使用 Web Audio API 实现音乐+语音叠加播放
+ * 使用 Web Audio API 实现音乐+语音叠加播放；音乐为双 deck，切歌时新旧音乐按曲线交叉淡化
+ * 每个片段按目标响度归一化后经过处理链（语音预设、侧链闪避、主总线压缩 / 限幅，见 audio-graph.ts）
+ * 音效（一次性音效与循环铺底）独立于音乐 / 语音播放，直接进入主总线
+ * 服务端广播模式下可替换为非 Howler 的混音后端（见 stream-mixer.ts）
  */
 
 import { Howl, Howler } from 'howler';
-import { AUDIO } from '@shared/utils/constants';
+import { AUDIO, SOUND_EFFECTS } from '@shared/utils/constants';
+import { audioCache, hashKey } from '@shared/services/storage-service/audio-cache';
+import { getSettings, CrossfadeCurve } from '@shared/services/storage-service/settings';
+import { getCrossfadeGains } from './crossfade';
+import { audioGraph } from './audio-graph';
+import type { DuckingOptions } from './ducking';
+import { getNormalizationGain, measurePcm16Loudness } from './loudness';
 
 // ================== Types ==================
 
-interface AudioTrackState {
+export interface AudioTrackState {
     isPlaying: boolean;
     volume: number;
     currentSource: string | null;
+    position?: number;     // 播放进度（秒）
+    duration?: number;     // 曲目总时长（秒），未知时为 0
+}
+
+export interface PlayMusicOptions {
+    fadeIn?: number;
+    seek?: number;         // 起播位置（秒），用于会话恢复
+    format?: string;
+    html5?: boolean;
+    crossfade?: number;    // 与正在播放的音乐交叉淡化时长 (ms)，没有音乐在播时按 fadeIn 处理
+    curve?: CrossfadeCurve;
+    loudness?: number;     // 片段积分响度 (LUFS)，用于响度归一化，未知时不调整
+}
+
+export interface EffectOptions {
+    volume?: number;       // 音效音量 (0-1)，默认 1
+    format?: string;       // 显式指定格式（URL 不带扩展名时）
+    fadeIn?: number;       // 淡入时长 (ms)
+}
+
+/**
+ * 混音后端接口 - Director 等模块依赖的播放能力
+ */
+export interface MixerBackend {
+    playMusic(url: string, options?: PlayMusicOptions): Promise<{ success: boolean; error?: string }>;
+    pauseMusic(): void;
+    resumeMusic(): void;
+    stopMusic(): void;
+    fadeMusic(targetVolume: number, duration: number): Promise<void>;
+    /** 当前音乐在后台淡出后停止，不阻塞后续播放（下一段可立即开始，避免先停再播的空档） */
+    releaseMusic(fadeOut: number): void;
+    /** 等到当前音乐剩余时长不超过 leadMs（或音乐已停止），用于在歌曲尾声开始过渡 */
+    waitForMusicOutro(leadMs: number): Promise<void>;
+    setMusicVolume(volume: number): void;
+    /** 侧链闪避：按语音包络实时压低音乐，语音停顿时音乐回升；传 null 结束 */
+    setDucking(options: DuckingOptions | null): void;
+    getMusicState(): AudioTrackState;
+    playVoice(audioData: ArrayBuffer): Promise<void>;
+    stopVoice(): void;
+    setVoiceVolume(volume: number): void;
+    overlayVoice(
+        audioData: ArrayBuffer,
+        options?: { musicVolumeDuringVoice?: number; fadeDuration?: number }
+    ): Promise<void>;
+    /** 播放一次性音效（不参与闪避），播完或被停止后 resolve */
+    playEffect(url: string, options?: EffectOptions): Promise<void>;
+    /** 循环播放铺底音效（同一时间只有一条，新铺底替换旧铺底），加载失败时返回 false */
+    startUnderlay(url: string, options?: EffectOptions): Promise<boolean>;
+    stopUnderlay(fadeOut?: number): void;
+    setMasterVolume(volume: number): void;
+    stopAll(): void;
+    pauseAll(): void;
+    resumeAll(): void;
+    getState(): { music: AudioTrackState; voice: AudioTrackState };
+    playMusicFromSearch(keyword: string): Promise<boolean>;
+}
+
+// ================== Mixer Events ==================
+
+/**
+ * 混音事件 - 在音频真正开始/变化的时刻发出，供节目录制使用
+ */
+export type MixerEvent =
+    | { type: 'music_start'; source: string; volume: number; gain: number }
+    | { type: 'music_stop' }
+    | { type: 'music_pause' }
+    | { type: 'music_resume' }
+    | { type: 'music_volume'; volume: number; duration: number }
+    | { type: 'ducking'; options: DuckingOptions | null }
+    | { type: 'voice_start'; audioData: ArrayBuffer; volume: number; gain: number }
+    | { type: 'voice_stop' }
+    | { type: 'effect_start'; id: number; source: string; volume: number; loop: boolean; fadeIn: number }
+    | { type: 'effect_stop'; id: number; fadeOut: number }
+    | { type: 'pause' }
+    | { type: 'resume' };
+
+export type MixerEventListener = (event: MixerEvent, at: number) => void;
+
+const mixerEventListeners: Set<MixerEventListener> = new Set();
+
+/**
+ * 订阅混音事件
+ */
+export function onMixerEvent(listener: MixerEventListener): () => void {
+    mixerEventListeners.add(listener);
+    return () => mixerEventListeners.delete(listener);
+}
+
+function emitMixerEvent(event: MixerEvent): void {
+    const at = Date.now();
+    mixerEventListeners.forEach(listener => {
+        try {
+            listener(event, at);
+        } catch (e) {
+            console.warn('[AudioMixer] Event listener error:', e);
+        }
+    });
 }
 
 // ================== PCM to WAV Conversion ==================
@@ -20,7 +126,7 @@ interface AudioTrackState {
  * 将 Gemini TTS 返回的 PCM 数据转换为 WAV 格式
  * Gemini 返回: audio/L16;codec=pcm;rate=24000 (16-bit signed PCM, 24kHz, mono)
  */
-function pcmToWav(pcmData: ArrayBuffer, sampleRate = 24000): ArrayBuffer {
+export function pcmToWav(pcmData: ArrayBuffer, sampleRate = 24000): ArrayBuffer {
     const numChannels = 1;  // Mono
     const bitsPerSample = 16;
     const bytesPerSample = bitsPerSample / 8;
@@ -67,19 +173,29 @@ function writeString(view: DataView, offset: number, str: string): void {
 
 // ================== Audio Mixer Class ==================
 
-export class AudioMixer {
+export class AudioMixer implements MixerBackend {
     private musicHowl: Howl | null = null;
+    private outgoingHowl: Howl | null = null;  // 正在淡出的上一首（交叉淡化 / 收尾）
+    private musicObjectUrls: Map<Howl, string> = new Map(); // 缓存命中时音乐使用的 Blob URL
     private voiceHowl: Howl | null = null;
+    private effectHowls: Set<Howl> = new Set();       // 播放中的一次性音效
+    private underlay: { howl: Howl; id: number } | null = null;
+    private effectCounter = 0;                        // 音效事件 ID（录制据此配对开始 / 结束）
 
     private musicVolume: number = AUDIO.MUSIC_DEFAULT_VOLUME;
     private voiceVolume: number = AUDIO.VOICE_DEFAULT_VOLUME;
     private masterVolume: number = AUDIO.MASTER_DEFAULT_VOLUME;
 
     private fadeInterval: NodeJS.Timeout | null = null;
+    private fadeResolve: (() => void) | null = null;  // 被打断的 fade 立即 resolve，避免调用方悬挂
+    private outgoingInterval: NodeJS.Timeout | null = null;
+    private musicEnded: boolean = false;
+    private duckFallbackVolume: number | null = null;  // 处理链不可用时闪避前的音乐音量
 
     // 暂停状态跟踪 - 用于 resumeAll 只恢复真正被暂停的音轨
     private wasMusicPlaying: boolean = false;
     private wasVoicePlaying: boolean = false;
+    private pausedEffects: Howl[] = [];
 
     constructor() {
         Howler.volume(this.masterVolume);
@@ -92,18 +208,25 @@ export class AudioMixer {
      */
     async playMusic(
         url: string,
-        options?: { fadeIn?: number; format?: string; html5?: boolean }
+        options?: PlayMusicOptions
     ): Promise<{ success: boolean; error?: string }> {
         const LOAD_TIMEOUT = AUDIO.MUSIC_LOAD_TIMEOUT;
 
         return new Promise((resolve) => {
-            // 停止当前音乐
-            if (this.musicHowl) {
-                this.musicHowl.unload();
-                this.musicHowl = null;
+            // 有音乐在播且要求交叉淡化时，旧音乐移到副 deck 继续播放，新音乐加载完成后再交接
+            const previous = this.musicHowl;
+            const crossfade = previous?.playing() ? options?.crossfade ?? 0 : 0;
+            if (previous && crossfade > 0) {
+                this.moveToOutgoing(previous);
+            } else if (previous) {
+                this.cancelFade();
+                previous.unload();
             }
+            this.musicHowl = null;
+            this.musicEnded = false;
 
-            const startVolume = options?.fadeIn ? 0 : this.musicVolume;
+            const fadeIn = crossfade > 0 ? crossfade : options?.fadeIn;
+            const startVolume = fadeIn ? 0 : this.musicVolume;
             let timeoutId: NodeJS.Timeout | null = null;
             let resolved = false;
 
@@ -118,6 +241,10 @@ export class AudioMixer {
                 if (resolved) return;
                 resolved = true;
                 cleanup();
+                // 新音乐加载失败时旧音乐继续播放，不留空白
+                if (!result.success && previous && this.outgoingHowl === previous && !this.musicHowl) {
+                    this.restoreOutgoing(previous);
+                }
                 resolve(result);
             };
 
@@ -131,10 +258,12 @@ export class AudioMixer {
                 finish({ success: false, error: 'timeout' });
             }, LOAD_TIMEOUT);
 
-            this.musicHowl = new Howl({
+            const howl: Howl = new Howl({
                 src: [url],
                 format: options?.format ? [options.format] : undefined, // 显式指定格式（用于 Blob URL）
-                html5: options?.html5 ?? false, // 默认为 false (Web Audio API)，但允许强制使用 HTML5 Audio (Blob/长音频)
+                // 默认为 false (Web Audio API)，允许强制使用 HTML5 Audio (Blob/长音频)；
+                // 处理链可用时仍走 Web Audio，否则 HTML5 Audio 会绕过归一化与主总线
+                html5: (options?.html5 ?? false) && !audioGraph.isAvailable(),
                 preload: true,
                 volume: startVolume,
                 onload: () => {
@@ -142,9 +271,18 @@ export class AudioMixer {
                     console.log('[AudioMixer] Music fully loaded, starting playback');
 
                     try {
+                        if (options?.seek) {
+                            this.musicHowl?.seek(options.seek);
+                        }
                         this.musicHowl?.play();
-                        if (options?.fadeIn) {
-                            void this.fadeMusic(this.musicVolume, options.fadeIn);
+                        const gain = getNormalizationGain(options?.loudness, getSettings().loudnessTarget);
+                        audioGraph.connect(howl, 'music', gain);
+                        emitMixerEvent({ type: 'music_start', source: url, volume: startVolume, gain: audioGraph.isAvailable() ? gain : 1 });
+                        if (previous && this.outgoingHowl === previous) {
+                            this.fadeOutgoing(previous, crossfade, options?.curve ?? 'equal_power');
+                            void this.rampMusic(this.musicVolume, crossfade, p => getCrossfadeGains(p, options?.curve ?? 'equal_power').in);
+                        } else if (fadeIn) {
+                            void this.fadeMusic(this.musicVolume, fadeIn);
                         }
                     } catch (e) {
                         console.error('[AudioMixer] Music play start error:', e, url);
@@ -161,12 +299,17 @@ export class AudioMixer {
                     finish({ success: false, error: String(error) });
                 },
                 onend: () => {
-                    // 音乐播放结束
+                    // 音乐播放结束（waitForMusicOutro 据此返回）
+                    if (this.musicHowl === howl) {
+                        this.musicEnded = true;
+                    }
                 }
             });
+            this.musicHowl = howl;
+            this.revokeMusicObjectUrls();
 
             // 确保开始加载（并在 onload 中触发播放）
-            this.musicHowl.load();
+            howl.load();
         });
     }
 
@@ -174,29 +317,84 @@ export class AudioMixer {
      * 暂停音乐
      */
     pauseMusic(): void {
-        this.musicHowl?.pause();
+        if (!this.musicHowl) return;
+        this.outgoingHowl?.pause();
+        this.musicHowl.pause();
+        emitMixerEvent({ type: 'music_pause' });
     }
 
     /**
      * 继续播放音乐
      */
     resumeMusic(): void {
-        this.musicHowl?.play();
+        if (!this.musicHowl) return;
+        this.outgoingHowl?.play();
+        this.musicHowl.play();
+        emitMixerEvent({ type: 'music_resume' });
     }
 
     /**
      * 停止音乐
      */
     stopMusic(): void {
+        if (this.musicHowl) {
+            emitMixerEvent({ type: 'music_stop' });
+        }
         this.musicHowl?.stop();
         this.musicHowl?.unload();
         this.musicHowl = null;
+        this.clearOutgoing();
+    }
+
+    /**
+     * 当前音乐在后台淡出后停止
+     */
+    releaseMusic(fadeOut: number): void {
+        const howl = this.musicHowl;
+        if (!howl) return;
+
+        this.musicHowl = null;
+        this.moveToOutgoing(howl);
+        emitMixerEvent({ type: 'music_volume', volume: 0, duration: fadeOut });
+        this.fadeOutgoing(howl, fadeOut, 'linear');
+    }
+
+    /**
+     * 等待当前音乐进入尾声（暂停期间继续等待，音乐停止或播完时立即返回）
+     */
+    waitForMusicOutro(leadMs: number): Promise<void> {
+        return new Promise((resolve) => {
+            const check = () => {
+                const howl = this.musicHowl;
+                if (!howl || this.musicEnded) {
+                    resolve();
+                    return;
+                }
+
+                const duration = howl.duration();
+                const position = Number(howl.seek()) || 0;
+                if (howl.playing() && Number.isFinite(duration) && duration > 0 && (duration - position) * 1000 <= leadMs) {
+                    resolve();
+                    return;
+                }
+                setTimeout(check, AUDIO.OUTRO_POLL_INTERVAL);
+            };
+            check();
+        });
     }
 
     /**
      * 音乐淡入淡出
      */
     fadeMusic(targetVolume: number, duration: number): Promise<void> {
+        return this.rampMusic(targetVolume, duration, p => p);
+    }
+
+    /**
+     * 按曲线调整当前 deck 音量
+     * @param shape 进度 (0-1) 到增益插值系数 (0-1) 的映射
+     */
+    private rampMusic(targetVolume: number, duration: number, shape: (progress: number) => number): Promise<void> {
         return new Promise((resolve) => {
             if (!this.musicHowl) {
                 resolve();
@@ -204,23 +402,24 @@ export class AudioMixer {
             }
 
             // 清除之前的 fade
-            if (this.fadeInterval) {
-                clearInterval(this.fadeInterval);
-            }
+            this.cancelFade();
+            this.fadeResolve = resolve;
 
             const startVolume = this.musicHowl.volume() as number;
+            emitMixerEvent({ type: 'music_volume', volume: targetVolume, duration });
             const volumeDiff = targetVolume - startVolume;
             const steps = duration / 50; // 每 50ms 一步
-            const stepSize = volumeDiff / steps;
             let currentStep = 0;
 
             this.fadeInterval = setInterval(() => {
                 currentStep++;
-                const newVolume = startVolume + (stepSize * currentStep);
+                const newVolume = startVolume + volumeDiff * shape(Math.min(1, currentStep / steps));
                 this.musicHowl?.volume(Math.max(0, Math.min(1, newVolume)));
 
                 if (currentStep >= steps) {
                     if (this.fadeInterval) clearInterval(this.fadeInterval);
+                    this.fadeInterval = null;
+                    this.fadeResolve = null;
                     this.musicHowl?.volume(targetVolume);
                     this.musicVolume = targetVolume;
                     resolve();
@@ -233,10 +432,29 @@ export class AudioMixer {
      * 设置音乐音量
      */
     setMusicVolume(volume: number): void {
+        if (this.musicHowl) {
+            emitMixerEvent({ type: 'music_volume', volume, duration: 0 });
+        }
         this.musicVolume = volume;
         this.musicHowl?.volume(volume);
     }
 
+    /**
+     * 侧链闪避（处理链不可用时退回固定音量闪避）
+     */
+    setDucking(options: DuckingOptions | null): void {
+        emitMixerEvent({ type: 'ducking', options });
+        if (audioGraph.setDucking(options)) return;
+
+        if (options) {
+            this.duckFallbackVolume ??= this.musicVolume;
+            void this.fadeMusic(this.duckFallbackVolume * options.depth, AUDIO.FADE_DURATION_QUICK);
+        } else if (this.duckFallbackVolume !== null) {
+            void this.fadeMusic(this.duckFallbackVolume, AUDIO.FADE_DURATION_NORMAL);
+            this.duckFallbackVolume = null;
+        }
+    }
+
     /**
      * 获取音乐状态
      */
@@ -244,10 +462,97 @@ export class AudioMixer {
         return {
             isPlaying: this.musicHowl?.playing() || false,
             volume: this.musicVolume,
-            currentSource: null
+            currentSource: null,
+            position: this.musicHowl ? Number(this.musicHowl.seek()) || 0 : 0,
+            duration: this.musicHowl ? this.musicHowl.duration() || 0 : 0
         };
     }
 
+    // ================== 双 deck ==================
+
+    /**
+     * 将音乐移到副 deck（已有淡出中的音乐直接停止）
+     */
+    private moveToOutgoing(howl: Howl): void {
+        this.cancelFade();
+        this.clearOutgoing();
+        this.outgoingHowl = howl;
+    }
+
+    /**
+     * 结束当前 deck 的 fade（停在当前音量）
+     */
+    private cancelFade(): void {
+        if (this.fadeInterval) {
+            clearInterval(this.fadeInterval);
+            this.fadeInterval = null;
+        }
+        this.fadeResolve?.();
+        this.fadeResolve = null;
+    }
+
+    /**
+     * 新音乐加载失败时，把副 deck 的音乐放回主 deck
+     */
+    private restoreOutgoing(howl: Howl): void {
+        if (this.outgoingInterval) {
+            clearInterval(this.outgoingInterval);
+            this.outgoingInterval = null;
+        }
+        this.outgoingHowl = null;
+        this.musicHowl = howl;
+        howl.volume(this.musicVolume);
+    }
+
+    /**
+     * 副 deck 按曲线淡出，结束后卸载
+     */
+    private fadeOutgoing(howl: Howl, duration: number, curve: CrossfadeCurve): void {
+        if (this.outgoingInterval) {
+            clearInterval(this.outgoingInterval);
+        }
+
+        const startVolume = howl.volume() as number;
+        const steps = Math.max(1, duration / 50);
+        let currentStep = 0;
+
+        this.outgoingInterval = setInterval(() => {
+            currentStep++;
+            howl.volume(startVolume * getCrossfadeGains(currentStep / steps, curve).out);
+
+            if (currentStep >= steps) {
+                this.clearOutgoing();
+                // 收尾淡出且没有新音乐接上时，对录制而言音乐到此停止
+                if (!this.musicHowl) {
+                    emitMixerEvent({ type: 'music_stop' });
+                }
+            }
+        }, 50);
+    }
+
+    private clearOutgoing(): void {
+        if (this.outgoingInterval) {
+            clearInterval(this.outgoingInterval);
+            this.outgoingInterval = null;
+        }
+        this.outgoingHowl?.stop();
+        this.outgoingHowl?.unload();
+        this.outgoingHowl = null;
+        this.revokeMusicObjectUrls();
+    }
+
+    /**
+     * 释放已不在主 / 副 deck 上的音乐 Blob URL（停止、替换或淡出结束后）
+     */
+    private revokeMusicObjectUrls(): void {
+        for (const [howl, url] of this.musicObjectUrls) {
+            if (howl !== this.musicHowl && howl !== this.outgoingHowl) {
+                URL.revokeObjectURL(url);
+                this.musicObjectUrls.delete(howl);
+            }
+        }
+    }
+
     private voiceResolve: (() => void) | null = null; // 用于中断时立即 resolve
 
     /**
@@ -309,6 +614,9 @@ export class AudioMixer {
                 });
 
                 this.voiceHowl.play();
+                const gain = getNormalizationGain(measurePcm16Loudness(audioData), getSettings().loudnessTarget);
+                audioGraph.connect(this.voiceHowl, 'voice', gain);
+                emitMixerEvent({ type: 'voice_start', audioData, volume: this.voiceVolume, gain: audioGraph.isAvailable() ? gain : 1 });
             } catch (e) {
                 console.warn('[AudioMixer] Voice conversion failed:', e);
                 resolve(); // 优雅处理，继续播放下一段
@@ -321,6 +629,7 @@ export class AudioMixer {
      */
     stopVoice(): void {
         if (this.voiceHowl) {
+            emitMixerEvent({ type: 'voice_stop' });
             this.voiceHowl.stop(); // 这会触发 onstop 回调
             this.voiceHowl.unload();
             this.voiceHowl = null;
@@ -339,7 +648,8 @@ export class AudioMixer {
 
     /**
      * 叠加播放语音（在音乐上层）
-     * 自动降低音乐音量，语音结束后恢复
+     * 语音期间按包络闪避音乐，语音结束后音乐回升
+     * @param fadeDuration 闪避的压低时长 (ms)
      */
     async overlayVoice(
         audioData: ArrayBuffer,
@@ -350,26 +660,133 @@ export class AudioMixer {
     ): Promise<void> {
         const {
             musicVolumeDuringVoice = 0.2,
-            fadeDuration = 500
+            fadeDuration
         } = options || {};
 
-        // 1. 如果有音乐在播放，降低音量
         const hadMusic = this.musicHowl?.playing();
-        const originalMusicVolume = this.musicVolume;
-
         if (hadMusic) {
-            await this.fadeMusic(musicVolumeDuringVoice, fadeDuration);
+            this.setDucking({ depth: musicVolumeDuringVoice, attack: fadeDuration });
         }
 
-        // 2. 播放语音
         await this.playVoice(audioData);
 
-        // 3. 恢复音乐音量
         if (hadMusic) {
-            await this.fadeMusic(originalMusicVolume, fadeDuration);
+            this.setDucking(null);
+        }
+    }
+
+    // ================== 音效 ==================
+
+    /**
+     * 播放一次性音效
+     */
+    async playEffect(url: string, options?: EffectOptions): Promise<void> {
+        const howl = await this.loadEffect(url, options, false);
+        if (!howl) return;
+
+        const id = ++this.effectCounter;
+        const volume = options?.volume ?? 1;
+
+        return new Promise((resolve) => {
+            const finish = () => {
+                if (!this.effectHowls.delete(howl)) return;
+                emitMixerEvent({ type: 'effect_stop', id, fadeOut: 0 });
+                howl.unload();
+                resolve();
+            };
+            howl.on('end', finish);
+            howl.on('stop', finish);
+            this.effectHowls.add(howl);
+            this.startEffect(howl, url, id, volume, false, options?.fadeIn ?? 0);
+        });
+    }
+
+    /**
+     * 循环播放铺底音效
+     */
+    async startUnderlay(url: string, options?: EffectOptions): Promise<boolean> {
+        const howl = await this.loadEffect(url, options, true);
+        if (!howl) return false;
+
+        const fadeIn = options?.fadeIn ?? 0;
+        this.stopUnderlay(fadeIn);
+
+        const id = ++this.effectCounter;
+        this.underlay = { howl, id };
+        this.startEffect(howl, url, id, options?.volume ?? 1, true, fadeIn);
+        return true;
+    }
+
+    /**
+     * 停止铺底音效（淡出后卸载）
+     */
+    stopUnderlay(fadeOut: number = 0): void {
+        const underlay = this.underlay;
+        if (!underlay) return;
+
+        this.underlay = null;
+        emitMixerEvent({ type: 'effect_stop', id: underlay.id, fadeOut });
+
+        const { howl } = underlay;
+        if (fadeOut > 0 && howl.playing()) {
+            howl.once('fade', () => howl.unload());
+            howl.fade(howl.volume() as number, 0, fadeOut);
+        } else {
+            howl.stop();
+            howl.unload();
         }
     }
 
+    /**
+     * 加载音效（超时或解码失败时返回 null，不中断节目）
+     */
+    private loadEffect(url: string, options: EffectOptions | undefined, loop: boolean): Promise<Howl | null> {
+        return new Promise((resolve) => {
+            let settled = false;
+            let timeoutId: NodeJS.Timeout | null = null;
+            const settle = (result: Howl | null) => {
+                if (settled) return;
+                settled = true;
+                if (timeoutId) clearTimeout(timeoutId);
+                resolve(result);
+            };
+
+            const howl: Howl = new Howl({
+                src: [url],
+                format: options?.format ? [options.format] : undefined,
+                loop,
+                preload: true,
+                volume: options?.fadeIn ? 0 : options?.volume ?? 1,
+                onload: () => settle(howl),
+                onloaderror: (_, error) => {
+                    console.warn('[AudioMixer] Effect load failed, skipping:', error, url);
+                    howl.unload();
+                    settle(null);
+                }
+            });
+
+            timeoutId = setTimeout(() => {
+                console.warn('[AudioMixer] Effect load timeout:', url);
+                howl.unload();
+                settle(null);
+            }, SOUND_EFFECTS.LOAD_TIMEOUT);
+        });
+    }
+
+    private startEffect(howl: Howl, url: string, id: number, volume: number, loop: boolean, fadeIn: number): void {
+        howl.play();
+        audioGraph.connect(howl, 'effect', 1);
+        if (fadeIn > 0) {
+            howl.fade(0, volume, fadeIn);
+        }
+        emitMixerEvent({ type: 'effect_start', id, source: url, volume, loop, fadeIn });
+    }
+
+    private stopEffects(): void {
+        this.effectHowls.forEach(howl => howl.stop());   // 触发 onstop，结束对应的 playEffect
+        this.stopUnderlay();
+    }
+
     // ================== 全局控制 ==================
 
     /**
@@ -386,10 +803,9 @@ export class AudioMixer {
     stopAll(): void {
         this.stopMusic();
         this.stopVoice();
-        if (this.fadeInterval) {
-            clearInterval(this.fadeInterval);
-            this.fadeInterval = null;
-        }
+        this.stopEffects();
+        this.cancelFade();
+        this.setDucking(null);
         // 注意：不要调用 Howler.unload()，这会卸载全局 AudioContext
         // 导致后续新创建的 Howl 实例无法播放
         // stopMusic() 和 stopVoice() 已经正确清理了各自的实例
@@ -402,9 +818,14 @@ export class AudioMixer {
         // 记录暂停时的播放状态
         this.wasMusicPlaying = this.musicHowl?.playing() || false;
         this.wasVoicePlaying = this.voiceHowl?.playing() || false;
+        this.pausedEffects = [...this.effectHowls, ...(this.underlay ? [this.underlay.howl] : [])]
+            .filter(howl => howl.playing());
 
         this.musicHowl?.pause();
+        this.outgoingHowl?.pause();
         this.voiceHowl?.pause();
+        this.pausedEffects.forEach(howl => howl.pause());
+        emitMixerEvent({ type: 'pause' });
     }
 
     /**
@@ -413,13 +834,17 @@ export class AudioMixer {
     resumeAll(): void {
         if (this.wasMusicPlaying) {
             this.musicHowl?.play();
+            this.outgoingHowl?.play();
         }
         if (this.wasVoicePlaying) {
             this.voiceHowl?.play();
         }
+        this.pausedEffects.forEach(howl => howl.play());
         // 重置状态
         this.wasMusicPlaying = false;
         this.wasVoicePlaying = false;
+        this.pausedEffects = [];
+        emitMixerEvent({ type: 'resume' });
     }
 
     /**
@@ -446,21 +871,38 @@ export class AudioMixer {
     async playMusicFromSearch(keyword: string): Promise<boolean> {
         try {
             // 动态导入避免循环依赖
-            const { getRandomTrack, getMusicUrl } = await import('@features/music-search/lib/gd-music-service');
+            const { getRandomTrack, getTrackUrl } = await import('@features/music-search/lib/music-provider');
 
-            const track = await getRandomTrack(keyword);
+            const track = await getRandomTrack(keyword, undefined, 'playing');
             if (!track) {
                 console.warn('[AudioMixer] No track found for:', keyword);
                 return false;
             }
 
-            const url = await getMusicUrl(track.id, 320, track.source);
+            // 持久化缓存命中则直接播放本地音频，未命中时边播边在后台写入缓存
+            const cacheKey = await hashKey(`track|${track.source}|${track.id}`);
+            const cached = await audioCache.get(cacheKey);
+            const objectUrl = cached ? URL.createObjectURL(cached.data) : null;
+            let url = objectUrl;
+
             if (!url) {
-                console.warn('[AudioMixer] Failed to get URL for:', track.name);
-                return false;
+                url = await getTrackUrl(track.id, track.source, 'playing');
+                if (!url) {
+                    console.warn('[AudioMixer] Failed to get URL for:', track.name);
+                    return false;
+                }
+                this.fillTrackCache(url, cacheKey, `${track.name} - ${track.artist.join(', ')}`);
             }
 
             const result = await this.playMusic(url, { fadeIn: 1000 });
+            if (objectUrl) {
+                // Blob URL 随音乐一起释放（停止、被替换或淡出结束时）
+                if (result.success && this.musicHowl) {
+                    this.musicObjectUrls.set(this.musicHowl, objectUrl);
+                } else {
+                    URL.revokeObjectURL(objectUrl);
+                }
+            }
             if (!result.success) {
                 console.warn('[AudioMixer] playMusicFromSearch playback failed:', result.error);
                 return false;
@@ -473,7 +915,43 @@ export class AudioMixer {
             return false;
         }
     }
+
+    private fillTrackCache(url: string, cacheKey: string, label: string): void {
+        fetch(url)
+            .then(response => {
+                if (!response.ok) throw new Error(`Download failed: ${response.status}`);
+                return response.blob();
+            })
+            .then(blob => audioCache.put('music', cacheKey, blob, label))
+            .catch(error => console.warn('[AudioMixer] Track cache fill failed:', error));
+    }
 }
 
-// 单例导出
-export const audioMixer = new AudioMixer();
+// ================== Backend Selection ==================
+
+// 当前混音后端（默认懒加载 Howler 实现，服务端广播时替换）
+let activeBackend: MixerBackend | null = null;
+
+/**
+ * 替换混音后端（服务端广播模式使用）
+ */
+export function setMixerBackend(backend: MixerBackend): void {
+    activeBackend?.stopAll();
+    activeBackend = backend;
+}
+
+function getMixerBackend(): MixerBackend {
+    if (!activeBackend) {
+        activeBackend = new AudioMixer();
+    }
+    return activeBackend;
+}
+
+// 单例导出：转发到当前后端，调用方无需关心具体实现
+export const audioMixer: MixerBackend = new Proxy({} as MixerBackend, {
+    get(_, prop) {
+        const backend = getMixerBackend();
+        const value = Reflect.get(backend, prop);
+        return typeof value === 'function' ? value.bind(backend) : value;
+    }
+});
@@ -0,0 +1,773 @@
+/**
+ * Stream Mixer - 服务端混音后端
+ * 不依赖 Howler / 浏览器，将音乐与语音实时混成单声道 16-bit PCM 帧，供广播流推送
+ * 音乐及非 PCM 语音通过 ffmpeg 解码（可用 FFMPEG_PATH 指定可执行文件）
+ * 音乐为双 deck：新音乐解码完成前旧音乐继续播放，随后按曲线交叉淡化
+ * 每个片段解码后按目标响度归一化（与 AudioMixer 使用相同的测量方法），侧链闪避按语音采样逐周期计算
+ * 音效（一次性音效与循环铺底）不做归一化、不参与闪避，直接叠加到输出
+ */
+
+import { spawn } from 'child_process';
+import { resolveObjectURL } from 'buffer';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { AUDIO, BROADCAST } from '@shared/utils/constants';
+import { getSettings, CrossfadeCurve } from '@shared/services/storage-service/settings';
+import { getAppUrl } from '@shared/services/ai-service';
+import type { AudioTrackState, EffectOptions, MixerBackend, PlayMusicOptions } from './mixer';
+import { getCrossfadeGains } from './crossfade';
+import { getNormalizationGain, measurePcm16Loudness } from './loudness';
+import { DuckingOptions, SidechainDucker } from './ducking';
+
+// ================== Types ==================
+
+interface PcmTrack {
+    samples: Int16Array;
+    position: number;
+    paused: boolean;
+    gain: number;       // 响度归一化系数
+}
+
+interface VolumeRamp {
+    from: number;
+    to: number;
+    total: number;      // 总采样数
+    elapsed: number;    // 已推进采样数
+    shape?: (progress: number) => number;  // 插值曲线，默认线性
+    resolve: () => void;
+}
+
+/** 播放中的音效（一次性或循环铺底） */
+interface EffectTrack {
+    track: PcmTrack;
+    gain: number;       // 当前增益
+    target: number;     // 淡入淡出目标增益
+    step: number;       // 每采样增益变化量，0 表示不在渐变
+    loop: boolean;
+    stopping: boolean;  // 淡出结束后移除
+    resolve: () => void;
+}
+
+/** 正在淡出的上一首（交叉淡化 / 收尾） */
+interface OutgoingDeck {
+    track: PcmTrack;
+    from: number;
+    total: number;
+    elapsed: number;
+    curve: CrossfadeCurve;
+}
+
+export type StreamFrameListener = (frame: Uint8Array) => void;
+
+// ================== Decoding ==================
+
+const SAMPLE_RATE = BROADCAST.SAMPLE_RATE;
+const DUCK_STEP_SAMPLES = Math.round(SAMPLE_RATE * AUDIO.DUCK_INTERVAL_MS / 1000);
+const DUCK_SMOOTHING = 1 - Math.exp(-1 / (SAMPLE_RATE * AUDIO.DUCK_INTERVAL_MS / 1000 / 2));  // 逐采样平滑，避免周期边界跳变
+
+function bytesToInt16(bytes: Uint8Array): Int16Array {
+    // 复制到对齐的缓冲区，奇数字节直接丢弃
+    const samples = new Int16Array(Math.floor(bytes.byteLength / 2));
+    new Uint8Array(samples.buffer).set(bytes.subarray(0, samples.length * 2));
+    return samples;
+}
+
+/**
+ * 判断是否为已编码音频（WAV / MP3 / Ogg），否则按 24kHz PCM 处理
+ */
+function isEncodedAudio(bytes: Uint8Array): boolean {
+    if (bytes.byteLength < 4) return false;
+    const tag = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+    return tag === 'RIFF' || tag === 'OggS' || tag.startsWith('ID3') ||
+        (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0);
+}
+
+/**
+ * 使用 ffmpeg 将任意音频解码为 单声道 / 24kHz / s16le PCM
+ */
+export function decodeToPcm(input: Uint8Array): Promise<Int16Array> {
+    return new Promise((resolve, reject) => {
+        const ffmpeg = spawn(process.env.FFMPEG_PATH || 'ffmpeg', [
+            '-hide_banner', '-loglevel', 'error',
+            '-i', 'pipe:0',
+            '-f', 's16le', '-acodec', 'pcm_s16le',
+            '-ac', '1', '-ar', String(SAMPLE_RATE),
+            'pipe:1'
+        ]);
+
+        const chunks: Buffer[] = [];
+        let stderr = '';
+
+        const timeoutId = setTimeout(() => {
+            ffmpeg.kill('SIGKILL');
+            reject(new Error('ffmpeg decode timeout'));
+        }, BROADCAST.DECODE_TIMEOUT);
+
+        ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+        ffmpeg.stdin.on('error', () => { /* ffmpeg 提前退出时忽略 EPIPE */ });
+
+        ffmpeg.on('error', (error) => {
+            clearTimeout(timeoutId);
+            reject(error);
+        });
+
+        ffmpeg.on('close', (code) => {
+            clearTimeout(timeoutId);
+            if (code !== 0) {
+                reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().slice(0, 200)}`));
+                return;
+            }
+            resolve(bytesToInt16(Buffer.concat(chunks)));
+        });
+
+        ffmpeg.stdin.end(Buffer.from(input));
+    });
+}
+
+/**
+ * 按设置的目标响度计算片段增益
+ */
+function getClipGain(samples: Int16Array): number {
+    return getNormalizationGain(measurePcm16Loudness(samples, SAMPLE_RATE), getSettings().loudnessTarget);
+}
+
+/**
+ * 站内静态文件路径映射到 public 目录，越出 public 的路径直接拒绝
+ */
+function resolvePublicFile(url: string): string {
+    const publicDir = path.resolve(process.cwd(), 'public');
+    const filePath = path.resolve(publicDir, '.' + decodeURIComponent(url.split(/[?#]/)[0]));
+    if (!filePath.startsWith(publicDir + path.sep)) {
+        throw new Error(`Path outside public directory: ${url}`);
+    }
+    return filePath;
+}
+
+/**
+ * 读取音频源：Blob URL / public 目录下的相对路径 / 站内 API 路由 / 远程 URL
+ */
+async function loadSource(url: string): Promise<Uint8Array> {
+    if (url.startsWith('blob:')) {
+        const blob = resolveObjectURL(url);
+        if (!blob) throw new Error(`Blob URL not found: ${url}`);
+        return new Uint8Array(await blob.arrayBuffer());
+    }
+
+    // API 路由（曲库、音效等）不是文件，经本站地址请求
+    if (url.startsWith('/') && !url.startsWith('/api/')) {
+        return new Uint8Array(await readFile(resolvePublicFile(url)));
+    }
+
+    const target = url.startsWith('/') ? getAppUrl(url) : url;
+    const response = await fetch(target, { signal: AbortSignal.timeout(AUDIO.MUSIC_LOAD_TIMEOUT) });
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * 生成流式 WAV 头（数据长度未知，使用最大值）
+ */
+export function createWavStreamHeader(sampleRate: number = SAMPLE_RATE): Uint8Array {
+    const header = new ArrayBuffer(44);
+    const view = new DataView(header);
+    const writeString = (offset: number, str: string) => {
+        for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 0xffffffff, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);                // PCM
+    view.setUint16(22, 1, true);                // Mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);   // Byte rate
+    view.setUint16(32, 2, true);                // Block align
+    view.setUint16(34, 16, true);               // Bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, 0xffffffff, true);
+
+    return new Uint8Array(header);
+}
+
+// ================== Stream Mixer Class ==================
+
+export class StreamMixer implements MixerBackend {
+    private music: PcmTrack | null = null;
+    private outgoing: OutgoingDeck | null = null;
+    private voice: PcmTrack | null = null;
+    private effects: EffectTrack[] = [];
+    private underlay: EffectTrack | null = null;
+
+    private musicVolume: number = AUDIO.MUSIC_DEFAULT_VOLUME;  // 目标音量（与 AudioMixer 语义一致）
+    private musicGain: number = AUDIO.MUSIC_DEFAULT_VOLUME;    // 当前实际增益
+    private voiceVolume: number = AUDIO.VOICE_DEFAULT_VOLUME;
+    private masterVolume: number = AUDIO.MASTER_DEFAULT_VOLUME;
+
+    private musicRamp: VolumeRamp | null = null;
+    private musicLoadToken = 0;
+    private voiceResolve: (() => void) | null = null;
+
+    // 侧链闪避
+    private ducker: SidechainDucker | null = null;
+    private duckGain = 1;       // 当前闪避增益
+    private duckTarget = 1;     // 本周期包络给出的目标增益
+    private duckEnergy = 0;     // 本周期语音平方和
+    private duckSamples = 0;
+
+    // 暂停状态跟踪
+    private wasMusicPlaying: boolean = false;
+    private wasVoicePlaying: boolean = false;
+
+    // 实时时钟
+    private listeners: Set<StreamFrameListener> = new Set();
+    private clock: ReturnType<typeof setInterval> | null = null;
+    private clockStartedAt = 0;
+    private samplesRendered = 0;
+
+    // ================== 输出控制 ==================
+
+    /**
+     * 启动实时混音时钟
+     */
+    start(): void {
+        if (this.clock) return;
+        this.clockStartedAt = Date.now();
+        this.samplesRendered = 0;
+        this.clock = setInterval(() => this.tick(), BROADCAST.FRAME_MS);
+    }
+
+    /**
+     * 停止混音时钟
+     */
+    stop(): void {
+        if (this.clock) {
+            clearInterval(this.clock);
+            this.clock = null;
+        }
+        this.stopAll();
+    }
+
+    isRunning(): boolean {
+        return this.clock !== null;
+    }
+
+    /**
+     * 订阅混音输出帧（s16le PCM）
+     */
+    subscribe(listener: StreamFrameListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    // ================== 音乐控制 ==================
+
+    async playMusic(url: string, options?: PlayMusicOptions): Promise<{ success: boolean; error?: string }> {
+        // 交叉淡化时旧音乐在解码期间继续播放，解码失败也不会中断
+        const crossfade = this.isTrackPlaying(this.music) ? options?.crossfade ?? 0 : 0;
+        if (crossfade <= 0) {
+            this.stopMusic();
+        }
+        const token = ++this.musicLoadToken;
+
+        try {
+            const samples = await decodeToPcm(await loadSource(url));
+            if (token !== this.musicLoadToken) {
+                return { success: false, error: 'superseded' };
+            }
+            if (samples.length === 0) {
+                return { success: false, error: 'empty audio' };
+            }
+
+            const previous = crossfade > 0 && this.isTrackPlaying(this.music) ? this.music : null;
+            if (previous) {
+                this.moveToOutgoing(previous, crossfade, options?.curve ?? 'equal_power');
+            } else {
+                this.stopMusic();
+            }
+
+            const fadeIn = previous ? crossfade : options?.fadeIn;
+            const startAt = Math.floor((options?.seek ?? 0) * SAMPLE_RATE);
+            this.music = {
+                samples,
+                position: Math.min(Math.max(startAt, 0), samples.length - 1),
+                paused: false,
+                gain: getClipGain(samples)
+            };
+            this.musicGain = fadeIn ? 0 : this.musicVolume;
+            if (previous) {
+                const curve = options?.curve ?? 'equal_power';
+                void this.rampMusic(this.musicVolume, crossfade, p => getCrossfadeGains(p, curve).in);
+            } else if (fadeIn) {
+                void this.fadeMusic(this.musicVolume, fadeIn);
+            }
+            return { success: true };
+        } catch (error) {
+            console.error('[StreamMixer] Music load error:', error, url);
+            return { success: false, error: String(error) };
+        }
+    }
+
+    pauseMusic(): void {
+        if (this.music) this.music.paused = true;
+        if (this.outgoing) this.outgoing.track.paused = true;
+    }
+
+    resumeMusic(): void {
+        if (this.music) this.music.paused = false;
+        if (this.outgoing) this.outgoing.track.paused = false;
+    }
+
+    stopMusic(): void {
+        this.music = null;
+        this.outgoing = null;
+        this.finishRamp();
+    }
+
+    releaseMusic(fadeOut: number): void {
+        if (!this.music) return;
+        this.moveToOutgoing(this.music, fadeOut, 'linear');
+        this.music = null;
+    }
+
+    waitForMusicOutro(leadMs: number): Promise<void> {
+        return new Promise((resolve) => {
+            const check = () => {
+                const music = this.music;
+                if (!music || music.position >= music.samples.length) {
+                    resolve();
+                    return;
+                }
+
+                const remainingMs = (music.samples.length - music.position) / SAMPLE_RATE * 1000;
+                if (!music.paused && remainingMs <= leadMs) {
+                    resolve();
+                    return;
+                }
+                setTimeout(check, AUDIO.OUTRO_POLL_INTERVAL);
+            };
+            check();
+        });
+    }
+
+    fadeMusic(targetVolume: number, duration: number): Promise<void> {
+        return this.rampMusic(targetVolume, duration);
+    }
+
+    private rampMusic(targetVolume: number, duration: number, shape?: (progress: number) => number): Promise<void> {
+        return new Promise((resolve) => {
+            if (!this.music) {
+                resolve();
+                return;
+            }
+
+            // 结束之前的 fade，避免其 Promise 悬挂
+            this.finishRamp();
+
+            this.musicRamp = {
+                from: this.musicGain,
+                to: targetVolume,
+                total: Math.max(1, Math.round(duration * SAMPLE_RATE / 1000)),
+                elapsed: 0,
+                shape,
+                resolve
+            };
+        });
+    }
+
+    setMusicVolume(volume: number): void {
+        this.finishRamp();
+        this.musicVolume = volume;
+        this.musicGain = volume;
+    }
+
+    setDucking(options: DuckingOptions | null): void {
+        if (!options) {
+            this.ducker?.release();
+        } else if (this.ducker) {
+            this.ducker.update(options);
+        } else {
+            this.ducker = new SidechainDucker(options);
+            this.duckEnergy = 0;
+            this.duckSamples = 0;
+        }
+    }
+
+    getMusicState(): AudioTrackState {
+        return {
+            isPlaying: this.isTrackPlaying(this.music),
+            volume: this.musicVolume,
+            currentSource: null,
+            position: this.music ? this.music.position / SAMPLE_RATE : 0,
+            duration: this.music ? this.music.samples.length / SAMPLE_RATE : 0
+        };
+    }
+
+    // ================== 语音控制 ==================
+
+    async playVoice(audioData: ArrayBuffer): Promise<void> {
+        if (!audioData || audioData.byteLength < 100) {
+            console.warn('[StreamMixer] Invalid audio data, skipping playback');
+            return;
+        }
+
+        this.stopVoice();
+
+        // 语音间隔小停顿（200ms），与浏览器端保持一致
+        await new Promise(r => setTimeout(r, 200));
+
+        let samples: Int16Array;
+        try {
+            const bytes = new Uint8Array(audioData);
+            samples = isEncodedAudio(bytes) ? await decodeToPcm(bytes) : bytesToInt16(bytes);
+        } catch (e) {
+            console.warn('[StreamMixer] Voice decode failed, skipping:', e);
+            return;
+        }
+
+        return new Promise((resolve) => {
+            this.voice = { samples, position: 0, paused: false, gain: getClipGain(samples) };
+            this.voiceResolve = resolve;
+        });
+    }
+
+    stopVoice(): void {
+        this.voice = null;
+        this.voiceResolve?.();
+        this.voiceResolve = null;
+    }
+
+    setVoiceVolume(volume: number): void {
+        this.voiceVolume = volume;
+    }
+
+    async overlayVoice(
+        audioData: ArrayBuffer,
+        options?: { musicVolumeDuringVoice?: number; fadeDuration?: number }
+    ): Promise<void> {
+        const {
+            musicVolumeDuringVoice = 0.2,
+            fadeDuration
+        } = options || {};
+
+        const hadMusic = this.isTrackPlaying(this.music);
+        if (hadMusic) {
+            this.setDucking({ depth: musicVolumeDuringVoice, attack: fadeDuration });
+        }
+
+        await this.playVoice(audioData);
+
+        if (hadMusic) {
+            this.setDucking(null);
+        }
+    }
+
+    // ================== 音效 ==================
+
+    async playEffect(url: string, options?: EffectOptions): Promise<void> {
+        const track = await this.loadEffect(url);
+        if (!track) return;
+
+        return new Promise((resolve) => {
+            this.effects.push(this.createEffect(track, options, false, resolve));
+        });
+    }
+
+    async startUnderlay(url: string, options?: EffectOptions): Promise<boolean> {
+        const track = await this.loadEffect(url);
+        if (!track) return false;
+
+        this.stopUnderlay(options?.fadeIn ?? 0);
+        this.underlay = this.createEffect(track, options, true, () => { /* 铺底无人等待 */ });
+        this.effects.push(this.underlay);
+        return true;
+    }
+
+    stopUnderlay(fadeOut: number = 0): void {
+        const underlay = this.underlay;
+        if (!underlay) return;
+
+        this.underlay = null;
+        if (fadeOut > 0) {
+            underlay.target = 0;
+            underlay.step = -underlay.gain / Math.max(1, Math.round(fadeOut * SAMPLE_RATE / 1000));
+            underlay.stopping = true;
+        } else {
+            this.removeEffect(underlay);
+        }
+    }
+
+    private async loadEffect(url: string): Promise<PcmTrack | null> {
+        try {
+            const samples = await decodeToPcm(await loadSource(url));
+            return samples.length > 0 ? { samples, position: 0, paused: false, gain: 1 } : null;
+        } catch (error) {
+            console.warn('[StreamMixer] Effect load failed, skipping:', error, url);
+            return null;
+        }
+    }
+
+    private createEffect(track: PcmTrack, options: EffectOptions | undefined, loop: boolean, resolve: () => void): EffectTrack {
+        const volume = options?.volume ?? 1;
+        const fadeIn = options?.fadeIn ?? 0;
+        return {
+            track,
+            gain: fadeIn > 0 ? 0 : volume,
+            target: volume,
+            step: fadeIn > 0 ? volume / Math.max(1, Math.round(fadeIn * SAMPLE_RATE / 1000)) : 0,
+            loop,
+            stopping: false,
+            resolve
+        };
+    }
+
+    private removeEffect(effect: EffectTrack): void {
+        this.effects = this.effects.filter(item => item !== effect);
+        effect.resolve();
+    }
+
+    // ================== 全局控制 ==================
+
+    setMasterVolume(volume: number): void {
+        this.masterVolume = volume;
+    }
+
+    stopAll(): void {
+        this.stopMusic();
+        this.stopVoice();
+        this.ducker?.release();
+        this.underlay = null;
+        const effects = this.effects;
+        this.effects = [];
+        effects.forEach(effect => effect.resolve());
+    }
+
+    pauseAll(): void {
+        this.wasMusicPlaying = this.isTrackPlaying(this.music);
+        this.wasVoicePlaying = this.isTrackPlaying(this.voice);
+
+        if (this.music) this.music.paused = true;
+        if (this.outgoing) this.outgoing.track.paused = true;
+        if (this.voice) this.voice.paused = true;
+        this.effects.forEach(effect => { effect.track.paused = true; });
+    }
+
+    resumeAll(): void {
+        if (this.wasMusicPlaying && this.music) this.music.paused = false;
+        if (this.wasMusicPlaying && this.outgoing) this.outgoing.track.paused = false;
+        if (this.wasVoicePlaying && this.voice) this.voice.paused = false;
+        this.effects.forEach(effect => { effect.track.paused = false; });
+        this.wasMusicPlaying = false;
+        this.wasVoicePlaying = false;
+    }
+
+    getState(): { music: AudioTrackState; voice: AudioTrackState } {
+        return {
+            music: this.getMusicState(),
+            voice: {
+                isPlaying: this.isTrackPlaying(this.voice),
+                volume: this.voiceVolume,
+                currentSource: null
+            }
+        };
+    }
+
+    async playMusicFromSearch(keyword: string): Promise<boolean> {
+        try {
+            const { getRandomTrack, getTrackUrl } = await import('@features/music-search/lib/music-provider');
+
+            const track = await getRandomTrack(keyword, undefined, 'playing');
+            if (!track) return false;
+
+            const url = await getTrackUrl(track.id, track.source, 'playing');
+            if (!url) return false;
+
+            const result = await this.playMusic(url, { fadeIn: 1000 });
+            return result.success;
+        } catch (error) {
+            console.error('[StreamMixer] playMusicFromSearch error:', error);
+            return false;
+        }
+    }
+
+    // ================== 混音渲染 ==================
+
+    /**
+     * 按真实时间推进，渲染应输出的采样并推送给订阅者
+     */
+    private tick(): void {
+        const expected = Math.floor((Date.now() - this.clockStartedAt) * SAMPLE_RATE / 1000);
+        let due = expected - this.samplesRendered;
+        if (due <= 0) return;
+
+        // 事件循环长时间阻塞时最多补 1 秒，其余直接跳过
+        if (due > SAMPLE_RATE) {
+            this.samplesRendered += due - SAMPLE_RATE;
+            due = SAMPLE_RATE;
+        }
+
+        const frame = this.renderFrame(due);
+        this.samplesRendered += due;
+
+        const bytes = new Uint8Array(frame.buffer);
+        for (const listener of this.listeners) {
+            listener(bytes);
+        }
+    }
+
+    private renderFrame(count: number): Int16Array {
+        const frame = new Int16Array(count);
+        const music = this.music;
+        const outgoing = this.outgoing;
+        const voice = this.voice;
+        const effects = this.effects;
+
+        for (let i = 0; i < count; i++) {
+            this.advanceRamp();
+            let musicMix = 0;
+            let voiceSample = 0;
+            let effectMix = 0;
+
+            if (music && !music.paused && music.position < music.samples.length) {
+                musicMix += music.samples[music.position++] * music.gain * this.musicGain;
+            }
+            if (outgoing && !outgoing.track.paused && outgoing.elapsed < outgoing.total && outgoing.track.position < outgoing.track.samples.length) {
+                outgoing.elapsed++;
+                const gain = outgoing.from * getCrossfadeGains(outgoing.elapsed / outgoing.total, outgoing.curve).out;
+                musicMix += outgoing.track.samples[outgoing.track.position++] * outgoing.track.gain * gain;
+            }
+            if (voice && !voice.paused && voice.position < voice.samples.length) {
+                voiceSample = voice.samples[voice.position++] * voice.gain * this.voiceVolume;
+            }
+            for (const effect of effects) {
+                effectMix += this.advanceEffect(effect);
+            }
+
+            const mixed = (musicMix * this.advanceDucking(voiceSample) + voiceSample + effectMix) * this.masterVolume;
+            frame[i] = mixed > 32767 ? 32767 : mixed < -32768 ? -32768 : mixed;
+        }
+
+        if (music && this.music === music && music.position >= music.samples.length) {
+            this.music = null;
+            this.finishRamp();
+        }
+        if (outgoing && this.outgoing === outgoing &&
+            (outgoing.elapsed >= outgoing.total || outgoing.track.position >= outgoing.track.samples.length)) {
+            this.outgoing = null;
+        }
+        if (voice && this.voice === voice && voice.position >= voice.samples.length) {
+            this.voice = null;
+            const done = this.voiceResolve;
+            this.voiceResolve = null;
+            // 音频播完后增加 300ms 缓冲，与浏览器端保持一致
+            setTimeout(() => done?.(), 300);
+        }
+        for (const effect of effects) {
+            const ended = !effect.loop && effect.track.position >= effect.track.samples.length;
+            if (ended || (effect.stopping && effect.step === 0)) {
+                this.removeEffect(effect);
+            }
+        }
+
+        return frame;
+    }
+
+    /**
+     * 输出音效的下一个采样并推进淡入淡出（循环铺底到结尾时回到开头）
+     */
+    private advanceEffect(effect: EffectTrack): number {
+        const track = effect.track;
+        if (track.paused || track.position >= track.samples.length) return 0;
+
+        const sample = track.samples[track.position++] * effect.gain;
+        if (effect.loop && track.position >= track.samples.length) {
+            track.position = 0;
+        }
+
+        if (effect.step !== 0) {
+            effect.gain += effect.step;
+            if ((effect.step > 0 && effect.gain >= effect.target) || (effect.step < 0 && effect.gain <= effect.target)) {
+                effect.gain = effect.target;
+                effect.step = 0;
+            }
+        }
+        return sample;
+    }
+
+    /**
+     * 累积语音采样，每个检测周期更新一次闪避目标，返回平滑后的音乐增益
+     */
+    private advanceDucking(voiceSample: number): number {
+        const ducker = this.ducker;
+        if (!ducker) return 1;
+
+        const normalized = voiceSample / 32768;
+        this.duckEnergy += normalized * normalized;
+        if (++this.duckSamples >= DUCK_STEP_SAMPLES) {
+            const levelDb = 10 * Math.log10(this.duckEnergy / this.duckSamples);
+            this.duckTarget = ducker.next(levelDb, AUDIO.DUCK_INTERVAL_MS);
+            this.duckEnergy = 0;
+            this.duckSamples = 0;
+        }
+
+        this.duckGain += (this.duckTarget - this.duckGain) * DUCK_SMOOTHING;
+        if (ducker.isIdle() && this.duckGain >= 0.999) {
+            this.ducker = null;
+            this.duckGain = 1;
+            this.duckTarget = 1;
+        }
+        return this.duckGain;
+    }
+
+    private advanceRamp(): void {
+        const ramp = this.musicRamp;
+        if (!ramp) return;
+
+        ramp.elapsed++;
+        const progress = ramp.elapsed / ramp.total;
+        this.musicGain = ramp.from + (ramp.to - ramp.from) * (ramp.shape ? ramp.shape(progress) : progress);
+        if (ramp.elapsed >= ramp.total) {
+            this.finishRamp();
+        }
+    }
+
+    /**
+     * 立即完成当前 fade（设置为目标音量并 resolve）
+     */
+    private finishRamp(): void {
+        const ramp = this.musicRamp;
+        if (!ramp) return;
+
+        this.musicRamp = null;
+        this.musicGain = ramp.to;
+        this.musicVolume = ramp.to;
+        ramp.resolve();
+    }
+
+    /**
+     * 将音乐移到副 deck 淡出（已有淡出中的音乐直接停止）
+     * 当前 fade 停在此刻的增益，不跳到目标值
+     */
+    private moveToOutgoing(track: PcmTrack, duration: number, curve: CrossfadeCurve): void {
+        const from = this.musicGain;
+        const ramp = this.musicRamp;
+        this.musicRamp = null;
+        ramp?.resolve();
+
+        this.outgoing = {
+            track,
+            from,
+            total: Math.max(1, Math.round(duration * SAMPLE_RATE / 1000)),
+            elapsed: 0,
+            curve
+        };
+    }
+
+    private isTrackPlaying(track: PcmTrack | null): boolean {
+        return !!track && !track.paused && track.position < track.samples.length;
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Auth Service - 写入类 API 路由的口令与上传校验（仅服务端）
+ * 口令来自环境变量，请求须携带 Authorization: Bearer <token>；未配置口令时该功能关闭（403）。
+ * 上传在解析 multipart 之前按声明的 Content-Length 拦截（411 / 413）
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+// ================== Helpers ==================
+
+/**
+ * 常量时间比较，避免按响应耗时逐字节猜测口令
+ */
+function tokensMatch(received: string, expected: string): boolean {
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// ================== Public API ==================
+
+/**
+ * 校验 Bearer 口令，通过时返回 null，否则返回错误响应
+ * @param envName 保存口令的环境变量名
+ * @param feature 错误信息中的功能名称，如 "Publishing"
+ */
+export function requireBearerToken(request: Request, envName: string, feature: string): NextResponse | null {
+    const token = process.env[envName];
+    if (!token) {
+        return NextResponse.json({ error: `${feature} is disabled: ${envName} is not set` }, { status: 403 });
+    }
+    if (!tokensMatch(request.headers.get('authorization') || '', `Bearer ${token}`)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return null;
+}
+
+/**
+ * 按声明的请求体长度拦截上传（解析 multipart 会把整个请求体读入内存）
+ */
+export function requireContentLength(request: Request, maxBytes: number): NextResponse | null {
+    const contentLength = Number(request.headers.get('content-length'));
+    if (!Number.isFinite(contentLength) || contentLength <= 0) {
+        return NextResponse.json({ error: 'Content-Length is required' }, { status: 411 });
+    }
+    if (contentLength > maxBytes) {
+        return NextResponse.json({ error: `Upload exceeds ${maxBytes} bytes` }, { status: 413 });
+    }
+    return null;
+}
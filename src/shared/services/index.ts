@@ -14,6 +14,7 @@ export {
     saveSettings,
     clearSettings,
     isConfigured,
+    configureServerSettings,
     DEFAULT_SETTINGS,
     TTS_VOICES,
 } from './storage-service/settings';
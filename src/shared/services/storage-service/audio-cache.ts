@@ -0,0 +1,269 @@
+/**
+ * Audio Cache - 持久化音频缓存（IndexedDB）
+ * 以内容哈希为键保存 TTS 语音与下载的音乐，跨会话复用，避免重复调用 API；
+ * 超出配额时按最近访问时间 (LRU) 淘汰。服务端无 IndexedDB 时自动降级为空操作
+ */
+
+import { AUDIO_CACHE } from '@shared/utils/constants';
+import { getSettings } from './settings';
+
+// ================== Types ==================
+
+export type AudioCacheKind = 'tts' | 'music';
+
+export interface AudioCacheEntry {
+    key: string;
+    kind: AudioCacheKind;
+    size: number;              // 字节数
+    label: string;             // 展示用（台词片段 / 歌名）
+    createdAt: number;
+    lastAccessedAt: number;
+    info?: unknown;            // 附带元数据（如曲目信息、歌词）
+}
+
+export interface AudioCacheHit {
+    data: Blob;
+    info?: unknown;
+}
+
+export interface AudioCacheStats {
+    available: boolean;
+    quotaBytes: number;
+    totalBytes: number;
+    kinds: Record<AudioCacheKind, { count: number; bytes: number }>;
+}
+
+const META_STORE = 'meta';
+const BLOB_STORE = 'blobs';
+
+// ================== Helpers ==================
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/**
+ * FNV-1a 哈希（无 crypto.subtle 时的降级方案，如非安全上下文）
+ */
+function fnv1a(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0') + text.length.toString(16);
+}
+
+/**
+ * 计算内容哈希键（SHA-256）
+ */
+export async function hashKey(content: string): Promise<string> {
+    if (typeof crypto !== 'undefined' && crypto.subtle) {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+        return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+    return fnv1a(content);
+}
+
+// ================== Audio Cache Class ==================
+
+class AudioCache {
+    private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+    get isAvailable(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    private getQuotaBytes(): number {
+        return getSettings().audioCacheQuotaMB * 1024 * 1024;
+    }
+
+    private openDatabase(): Promise<IDBDatabase | null> {
+        if (!this.isAvailable) {
+            return Promise.resolve(null);
+        }
+
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise<IDBDatabase | null>(resolve => {
+                const request = indexedDB.open(AUDIO_CACHE.DB_NAME, AUDIO_CACHE.DB_VERSION);
+
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(META_STORE)) {
+                        db.createObjectStore(META_STORE, { keyPath: 'key' });
+                    }
+                    if (!db.objectStoreNames.contains(BLOB_STORE)) {
+                        db.createObjectStore(BLOB_STORE);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    console.warn('[AudioCache] Failed to open IndexedDB:', request.error);
+                    resolve(null);
+                };
+            });
+        }
+
+        return this.dbPromise;
+    }
+
+    /**
+     * 读取缓存（命中时刷新访问时间）
+     */
+    async get(key: string): Promise<AudioCacheHit | null> {
+        const db = await this.openDatabase();
+        if (!db) return null;
+
+        try {
+            const tx = db.transaction([META_STORE, BLOB_STORE], 'readonly');
+            const [entry, data] = await Promise.all([
+                requestToPromise(tx.objectStore(META_STORE).get(key) as IDBRequest<AudioCacheEntry | undefined>),
+                requestToPromise(tx.objectStore(BLOB_STORE).get(key) as IDBRequest<Blob | undefined>)
+            ]);
+
+            if (!entry || !data) return null;
+
+            db.transaction(META_STORE, 'readwrite')
+                .objectStore(META_STORE)
+                .put({ ...entry, lastAccessedAt: Date.now() });
+
+            return { data, info: entry.info };
+        } catch (error) {
+            console.warn('[AudioCache] Read failed:', error);
+            return null;
+        }
+    }
+
+    /**
+     * 写入缓存，随后按配额淘汰
+     */
+    async put(kind: AudioCacheKind, key: string, data: Blob | ArrayBuffer, label: string, info?: unknown): Promise<void> {
+        const quota = this.getQuotaBytes();
+        const blob = data instanceof Blob ? data : new Blob([data]);
+        if (quota <= 0 || blob.size > quota) return;
+
+        const db = await this.openDatabase();
+        if (!db) return;
+
+        const now = Date.now();
+        const entry: AudioCacheEntry = {
+            key,
+            kind,
+            size: blob.size,
+            label: label.slice(0, 80),
+            createdAt: now,
+            lastAccessedAt: now,
+            info
+        };
+
+        try {
+            const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+            tx.objectStore(META_STORE).put(entry);
+            tx.objectStore(BLOB_STORE).put(blob, key);
+            await transactionDone(tx);
+            await this.evict(quota);
+        } catch (error) {
+            console.warn('[AudioCache] Write failed:', error);
+        }
+    }
+
+    /**
+     * LRU 淘汰：总大小超出配额时删除最久未访问的条目
+     */
+    private async evict(quota: number): Promise<void> {
+        const entries = await this.listEntries();
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        if (total <= quota) return;
+
+        const db = await this.openDatabase();
+        if (!db) return;
+
+        const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+        const byAge = [...entries].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+        for (const entry of byAge) {
+            if (total <= quota) break;
+            tx.objectStore(META_STORE).delete(entry.key);
+            tx.objectStore(BLOB_STORE).delete(entry.key);
+            total -= entry.size;
+        }
+
+        await transactionDone(tx);
+    }
+
+    private async listEntries(): Promise<AudioCacheEntry[]> {
+        const db = await this.openDatabase();
+        if (!db) return [];
+
+        const tx = db.transaction(META_STORE, 'readonly');
+        return requestToPromise(tx.objectStore(META_STORE).getAll() as IDBRequest<AudioCacheEntry[]>);
+    }
+
+    /**
+     * 缓存统计（设置面板展示）
+     */
+    async getStats(): Promise<AudioCacheStats> {
+        const stats: AudioCacheStats = {
+            available: this.isAvailable,
+            quotaBytes: this.getQuotaBytes(),
+            totalBytes: 0,
+            kinds: {
+                tts: { count: 0, bytes: 0 },
+                music: { count: 0, bytes: 0 }
+            }
+        };
+
+        try {
+            for (const entry of await this.listEntries()) {
+                stats.kinds[entry.kind].count++;
+                stats.kinds[entry.kind].bytes += entry.size;
+                stats.totalBytes += entry.size;
+            }
+        } catch (error) {
+            console.warn('[AudioCache] Stats failed:', error);
+        }
+
+        return stats;
+    }
+
+    /**
+     * 清空缓存（可仅清除某一类）
+     */
+    async clear(kind?: AudioCacheKind): Promise<void> {
+        const db = await this.openDatabase();
+        if (!db) return;
+
+        if (!kind) {
+            const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+            tx.objectStore(META_STORE).clear();
+            tx.objectStore(BLOB_STORE).clear();
+            await transactionDone(tx);
+            return;
+        }
+
+        const keys = (await this.listEntries())
+            .filter(entry => entry.kind === kind)
+            .map(entry => entry.key);
+
+        const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+        for (const key of keys) {
+            tx.objectStore(META_STORE).delete(key);
+            tx.objectStore(BLOB_STORE).delete(key);
+        }
+        await transactionDone(tx);
+    }
+}
+
+// 单例导出
+export const audioCache = new AudioCache();
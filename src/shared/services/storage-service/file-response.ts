@@ -0,0 +1,55 @@
+/**
+ * File Response - 服务端本地文件响应（仅 API 路由使用）
+ * 音效、曲库与播客音频共用：支持单段 Range 请求（拖动进度），越界返回 416
+ */
+
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+
+// ================== Types ==================
+
+export interface LocalFile {
+    filePath: string;
+    type: string;                // Content-Type
+    size: number;                // 字节数
+}
+
+// ================== Public API ==================
+
+/**
+ * 以流的形式返回本地文件（Range 请求返回 206 与对应片段）
+ */
+export function createFileResponse(request: Request, { filePath, type, size }: LocalFile): Response {
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '');
+
+    if (range && (range[1] || range[2])) {
+        const start = range[1] ? parseInt(range[1], 10) : Math.max(0, size - parseInt(range[2], 10));
+        const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), size - 1) : size - 1;
+
+        if (start >= size || start > end) {
+            return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+        }
+
+        return new Response(toWebStream(filePath, { start, end }), {
+            status: 206,
+            headers: {
+                'Content-Type': type,
+                'Content-Length': String(end - start + 1),
+                'Content-Range': `bytes ${start}-${end}/${size}`,
+                'Accept-Ranges': 'bytes',
+            },
+        });
+    }
+
+    return new Response(toWebStream(filePath), {
+        headers: {
+            'Content-Type': type,
+            'Content-Length': String(size),
+            'Accept-Ranges': 'bytes',
+        },
+    });
+}
+
+function toWebStream(filePath: string, options?: { start: number; end: number }): ReadableStream<Uint8Array> {
+    return Readable.toWeb(createReadStream(filePath, options)) as ReadableStream<Uint8Array>;
+}
@@ -4,6 +4,7 @@
  */
 
 import { ShowTimeline } from '@shared/types/radio-core';
+import { GlobalStateSnapshot } from '@shared/stores/global-state';
 
 const SESSION_KEY = 'radio_nowhere_session';
 const PLAYLIST_KEY = 'radio_nowhere_playlists';
@@ -17,6 +18,21 @@ export interface RadioSession {
     playbackPosition: number;  // 当前块播放进度（秒）
     savedAt: number;           // 保存时间戳
     globalContext?: string;    // 压缩后的节目上下文
+    musicPosition?: number;    // 背景音乐播放进度（秒）
+    memory?: GlobalStateSnapshot;  // 上下文记忆（歌曲、话题、氛围）
+    cast?: SessionCast;        // 当前节目的演员阵容
+}
+
+/** 会话中保存的演员阵容（结构与 Cast 一致） */
+export interface SessionCast {
+    showType: string;
+    showName: string;
+    members: Array<{
+        roleId: string;
+        roleName: string;
+        voiceName: string;
+        personality: string;
+    }>;
 }
 
 export interface SavedPlaylist {
@@ -2,23 +2,31 @@
  * Settings Store - LocalStorage-based persistent API configuration
  */
 
+import { AUDIO, AUDIO_CACHE, AUDIO_PROCESSING, LOCAL_LLM, LOCAL_TTS, NEWS_SERVICE, QUOTES, TRENDING } from "@shared/utils/constants";
+
 const STORAGE_KEY = "radio_nowhere_settings";
 
-export type ApiType = "openai" | "gemini" | "vertexai";
-export type TTSProvider = "gemini" | "microsoft";
+export type ApiType = "openai" | "gemini" | "vertexai" | "ollama" | "llamacpp";
+export type TTSProvider = "gemini" | "microsoft" | "local";
+export type LocalTTSEngine = "piper" | "coqui";
+export type MusicProviderId = "gdstudio" | "library" | "jamendo";
+export type CrossfadeCurve = "linear" | "equal_power" | "s_curve";
+export type VoicePreset = "off" | "clarity" | "warm" | "broadcast";
 
 export interface IApiSettings {
     endpoint: string;      // API base URL (e.g., https://api.openai.com)
     apiKey: string;        // API Key
     modelName: string;     // Model name (e.g., gpt-4o, gemini-2.5-flash)
-    apiType: ApiType;      // API format type: openai or gemini
+    apiType: ApiType;      // API format type: openai, gemini, vertexai or local (ollama / llamacpp)
+    contextWindow: number; // 模型上下文窗口 (tokens)，0 为自动（本地模型自动探测）
 
     // Vertex AI 特定配置
     gcpProject: string;    // GCP Project ID
     gcpLocation: string;   // GCP Region (e.g., us-central1)
 
     // TTS 独立配置
-    ttsProvider: TTSProvider;  // TTS 渠道: gemini 或 microsoft
+    ttsProvider: TTSProvider;  // TTS 渠道: gemini、microsoft 或 local
+    ttsFallbackOrder: TTSProvider[];  // 主渠道失败时依次尝试的备用渠道
     ttsEndpoint: string;   // TTS API Endpoint (留空则使用官方)
     ttsApiKey: string;     // TTS API Key (可以和主 key 不同)
     ttsModel: string;      // TTS Model name
@@ -33,8 +41,51 @@ export interface IApiSettings {
     msTtsPitch: number;        // 音调 (-10 to 10)
     msTtsAuthKey: string;      // 可选的 Bearer token
 
+    // 本地 TTS 配置 (Piper / Coqui)
+    localTtsEndpoint: string;      // 本地 TTS 服务地址
+    localTtsEngine: LocalTTSEngine;  // 服务类型
+    localTtsVoices: string;        // 音色元数据，每行 id | gender | lang | style
+
+    // 音乐来源配置
+    musicProviders: MusicProviderId[];  // 默认音乐来源顺序（前一个搜不到时依次尝试）
+    musicProvidersByShow: Partial<Record<string, MusicProviderId[]>>;  // 按节目类型覆盖的来源顺序
+    jamendoClientId: string;   // Jamendo API client_id
+
     // 播放配置
     preloadBlockCount: number;  // 提前准备的 block 数量 (推荐: 5)
+    streamTimeline: boolean;    // 首期节目边写边播（编剧流式输出）
+    audioCacheQuotaMB: number;  // 持久化音频缓存配额 (MB)，0 为关闭
+
+    // 播客发布
+    podcastPublishToken: string;    // 与服务端 PODCAST_PUBLISH_TOKEN 一致的发布口令
+
+    // 音效库
+    soundEffectsToken: string;      // 与服务端 SOUND_EFFECTS_TOKEN 一致的上传 / 删除口令
+
+    // 混音配置
+    crossfadeDuration: number;      // 音乐之间交叉淡化时长 (ms)，0 为直接切换
+    crossfadeCurve: CrossfadeCurve; // 交叉淡化曲线
+    loudnessTarget: number;         // 响度归一化目标 (LUFS)，0 为关闭
+    masterCompressor: boolean;      // 主总线压缩 / 限幅
+    voicePreset: VoicePreset;       // 语音 EQ / 齿音消除预设
+    duckingAttack: number;          // 语音出现时音乐压低时长 (ms)
+    duckingRelease: number;         // 语音停顿时音乐回升时长 (ms)
+
+    // 知识检索
+    embeddingModel: string;         // 向量模型（走主 AI 接口重排检索结果），留空则只用 BM25
+
+    // 新闻源
+    newsFeeds: string;              // RSS / Atom / JSON Feed，每行 url | 名称 | 分类
+
+    // 热点源
+    trendingSources: string;        // 热榜 RSS、Hacker News 风格 JSON 或精选 JSON，每行 url | 名称 | 领域
+
+    // 语录源
+    quoteSources: string;           // JSON / CSV 语录库，每行 url | 名称 | 附加标签
+
+    // 天气
+    weatherLocation: string;        // 本地城市名或 "纬度,经度"，留空则不播报本地天气
+    weatherEndpoint: string;        // Open-Meteo 兼容的预报接口地址，留空使用官方接口
 }
 
 export const DEFAULT_SETTINGS: IApiSettings = {
@@ -42,10 +93,12 @@ export const DEFAULT_SETTINGS: IApiSettings = {
     apiKey: "",
     modelName: "gpt-4o",
     apiType: "openai",
+    contextWindow: 0,
     gcpProject: "",
     gcpLocation: "us-central1",
     // Gemini TTS
     ttsProvider: "gemini",
+    ttsFallbackOrder: [],
     ttsEndpoint: "",
     ttsApiKey: "",
     ttsModel: "gemini-2.5-flash-preview-tts",
@@ -58,8 +111,42 @@ export const DEFAULT_SETTINGS: IApiSettings = {
     msTtsRate: 0,
     msTtsPitch: 0,
     msTtsAuthKey: "",
+    // 本地 TTS
+    localTtsEndpoint: LOCAL_TTS.DEFAULT_ENDPOINT,
+    localTtsEngine: "piper",
+    localTtsVoices: "",
+    // 音乐来源
+    musicProviders: ["gdstudio"],
+    musicProvidersByShow: {},
+    jamendoClientId: "",
     // 播放配置
     preloadBlockCount: 3,
+    streamTimeline: true,
+    audioCacheQuotaMB: AUDIO_CACHE.DEFAULT_QUOTA_MB,
+    // 播客发布
+    podcastPublishToken: "",
+
+    // 音效库
+    soundEffectsToken: "",
+    // 混音配置
+    crossfadeDuration: AUDIO.CROSSFADE_DEFAULT_MS,
+    crossfadeCurve: "equal_power",
+    loudnessTarget: AUDIO_PROCESSING.DEFAULT_TARGET_LUFS,
+    masterCompressor: true,
+    voicePreset: "clarity",
+    duckingAttack: AUDIO.DUCK_ATTACK_MS,
+    duckingRelease: AUDIO.DUCK_RELEASE_MS,
+    // 知识检索
+    embeddingModel: "",
+    // 新闻源
+    newsFeeds: NEWS_SERVICE.DEFAULT_FEEDS,
+    // 热点源
+    trendingSources: TRENDING.DEFAULT_SOURCES,
+    // 语录源
+    quoteSources: QUOTES.DEFAULT_SOURCES,
+    // 天气
+    weatherLocation: "",
+    weatherEndpoint: "",
 };
 
 // 可用的 TTS 语音列表
@@ -74,12 +161,22 @@ export const TTS_VOICES = [
     { name: 'Sadachbia', desc: '男声 · 低沉有磁性' },
 ];
 
+// 服务端配置（无 localStorage，由广播模式从环境变量注入）
+let serverSettings: IApiSettings | null = null;
+
+/**
+ * Configure settings for server-side (headless) usage
+ */
+export function configureServerSettings(overrides: Partial<IApiSettings>): void {
+    serverSettings = { ...DEFAULT_SETTINGS, ...overrides };
+}
+
 /**
  * Get API settings from LocalStorage
  */
 export function getSettings(): IApiSettings {
     if (typeof window === "undefined") {
-        return DEFAULT_SETTINGS;
+        return serverSettings ?? DEFAULT_SETTINGS;
     }
 
     try {
@@ -94,10 +191,12 @@ export function getSettings(): IApiSettings {
             apiKey: parsed.apiKey ?? DEFAULT_SETTINGS.apiKey,
             modelName: parsed.modelName ?? DEFAULT_SETTINGS.modelName,
             apiType: parsed.apiType ?? DEFAULT_SETTINGS.apiType,
+            contextWindow: parsed.contextWindow ?? DEFAULT_SETTINGS.contextWindow,
             gcpProject: parsed.gcpProject ?? DEFAULT_SETTINGS.gcpProject,
             gcpLocation: parsed.gcpLocation ?? DEFAULT_SETTINGS.gcpLocation,
             // Gemini TTS
             ttsProvider: parsed.ttsProvider ?? DEFAULT_SETTINGS.ttsProvider,
+            ttsFallbackOrder: parsed.ttsFallbackOrder ?? DEFAULT_SETTINGS.ttsFallbackOrder,
             ttsEndpoint: parsed.ttsEndpoint ?? DEFAULT_SETTINGS.ttsEndpoint,
             ttsApiKey: parsed.ttsApiKey ?? DEFAULT_SETTINGS.ttsApiKey,
             ttsModel: parsed.ttsModel ?? DEFAULT_SETTINGS.ttsModel,
@@ -110,8 +209,37 @@ export function getSettings(): IApiSettings {
             msTtsRate: parsed.msTtsRate ?? DEFAULT_SETTINGS.msTtsRate,
             msTtsPitch: parsed.msTtsPitch ?? DEFAULT_SETTINGS.msTtsPitch,
             msTtsAuthKey: parsed.msTtsAuthKey ?? DEFAULT_SETTINGS.msTtsAuthKey,
+            // 本地 TTS
+            localTtsEndpoint: parsed.localTtsEndpoint ?? DEFAULT_SETTINGS.localTtsEndpoint,
+            localTtsEngine: parsed.localTtsEngine ?? DEFAULT_SETTINGS.localTtsEngine,
+            localTtsVoices: parsed.localTtsVoices ?? DEFAULT_SETTINGS.localTtsVoices,
+            // 音乐来源
+            musicProviders: parsed.musicProviders ?? DEFAULT_SETTINGS.musicProviders,
+            musicProvidersByShow: parsed.musicProvidersByShow ?? DEFAULT_SETTINGS.musicProvidersByShow,
+            jamendoClientId: parsed.jamendoClientId ?? DEFAULT_SETTINGS.jamendoClientId,
             // 播放配置
             preloadBlockCount: parsed.preloadBlockCount ?? DEFAULT_SETTINGS.preloadBlockCount,
+            streamTimeline: parsed.streamTimeline ?? DEFAULT_SETTINGS.streamTimeline,
+            audioCacheQuotaMB: parsed.audioCacheQuotaMB ?? DEFAULT_SETTINGS.audioCacheQuotaMB,
+            // 播客发布
+            podcastPublishToken: parsed.podcastPublishToken ?? DEFAULT_SETTINGS.podcastPublishToken,
+
+            // 音效库
+            soundEffectsToken: parsed.soundEffectsToken ?? DEFAULT_SETTINGS.soundEffectsToken,
+            // 混音配置
+            crossfadeDuration: parsed.crossfadeDuration ?? DEFAULT_SETTINGS.crossfadeDuration,
+            crossfadeCurve: parsed.crossfadeCurve ?? DEFAULT_SETTINGS.crossfadeCurve,
+            loudnessTarget: parsed.loudnessTarget ?? DEFAULT_SETTINGS.loudnessTarget,
+            masterCompressor: parsed.masterCompressor ?? DEFAULT_SETTINGS.masterCompressor,
+            voicePreset: parsed.voicePreset ?? DEFAULT_SETTINGS.voicePreset,
+            duckingAttack: parsed.duckingAttack ?? DEFAULT_SETTINGS.duckingAttack,
+            duckingRelease: parsed.duckingRelease ?? DEFAULT_SETTINGS.duckingRelease,
+            embeddingModel: parsed.embeddingModel ?? DEFAULT_SETTINGS.embeddingModel,
+            newsFeeds: parsed.newsFeeds ?? DEFAULT_SETTINGS.newsFeeds,
+            trendingSources: parsed.trendingSources ?? DEFAULT_SETTINGS.trendingSources,
+            quoteSources: parsed.quoteSources ?? DEFAULT_SETTINGS.quoteSources,
+            weatherLocation: parsed.weatherLocation ?? DEFAULT_SETTINGS.weatherLocation,
+            weatherEndpoint: parsed.weatherEndpoint ?? DEFAULT_SETTINGS.weatherEndpoint,
         };
     } catch (e) {
         console.error("Failed to parse settings:", e);
@@ -149,16 +277,36 @@ export function clearSettings(): void {
     }
 }
 
+/**
+ * Check whether the API type is a local model server (Ollama / llama.cpp)
+ */
+export function isLocalApiType(apiType: ApiType): apiType is "ollama" | "llamacpp" {
+    return apiType === "ollama" || apiType === "llamacpp";
+}
+
+/**
+ * Get the default endpoint of a local model server
+ */
+export function getLocalDefaultEndpoint(apiType: "ollama" | "llamacpp"): string {
+    return apiType === "ollama" ? LOCAL_LLM.OLLAMA_ENDPOINT : LOCAL_LLM.LLAMACPP_ENDPOINT;
+}
+
 /**
  * Check if API settings are configured
  * For Gemini: only apiKey is required (uses default endpoint)
  * For OpenAI: both endpoint and apiKey are required
  * For Vertex AI: gcpProject and apiKey are required
+ * For Ollama / llama.cpp: nothing is required (uses default local endpoint, no key)
  */
 export function isConfigured(): boolean {
     const settings = getSettings();
 
-    // 所有类型都需要 apiKey
+    // 本地模型无需 apiKey
+    if (isLocalApiType(settings.apiType)) {
+        return Boolean(settings.modelName || settings.apiType === 'llamacpp');
+    }
+
+    // 云端类型都需要 apiKey
     if (!settings.apiKey) {
         return false;
     }
@@ -36,6 +36,15 @@ interface ContextSummary {
     recentSongsWithLyrics?: SongWithLyrics[];  // 带歌词的歌曲信息
 }
 
+/** 可序列化的状态快照（会话恢复用） */
+export interface GlobalStateSnapshot {
+    trackHistory: TrackHistoryEntry[];
+    topicHistory: TopicEntry[];
+    compressedSummary: string | null;
+    currentMood: MoodType;
+    songsWithLyrics: SongWithLyrics[];
+}
+
 // ================== Constants ==================
 
 const CONTEXT_WINDOW_MS = 10 * 60 * 1000;  // 10 分钟
@@ -51,6 +60,7 @@ class GlobalState {
     private compressedSummary: string | null = null;
     private currentMood: MoodType = 'calm';
     private songsWithLyrics: SongWithLyrics[] = [];  // 带歌词的歌曲缓存
+    private weather: string | null = null;           // 本地天气播报句
 
     // ================== 记录 ==================
 
@@ -98,6 +108,13 @@ class GlobalState {
         this.currentMood = mood;
     }
 
+    /**
+     * 更新本地天气（由天气服务刷新）
+     */
+    setWeather(summary: string | null): void {
+        this.weather = summary;
+    }
+
     /**
      * 添加带歌词的歌曲信息 (供 Writer Agent 生成更好的介绍)
      */
@@ -203,11 +220,41 @@ class GlobalState {
             context += '\n';
         }
 
+        if (this.weather) {
+            context += `### 本地天气（可自然提及）\n${this.weather}\n\n`;
+        }
+
         context += `### 当前氛围\n${summary.overallMood}\n`;
 
         return context;
     }
 
+    // ================== 快照 ==================
+
+    /**
+     * 导出状态快照（随会话保存）
+     */
+    exportSnapshot(): GlobalStateSnapshot {
+        return {
+            trackHistory: [...this.trackHistory],
+            topicHistory: [...this.topicHistory],
+            compressedSummary: this.compressedSummary,
+            currentMood: this.currentMood,
+            songsWithLyrics: [...this.songsWithLyrics]
+        };
+    }
+
+    /**
+     * 从快照恢复状态（刷新页面后继续节目）
+     */
+    restoreSnapshot(snapshot: Partial<GlobalStateSnapshot>): void {
+        this.trackHistory = Array.isArray(snapshot.trackHistory) ? snapshot.trackHistory.slice(-MAX_TRACK_HISTORY) : [];
+        this.topicHistory = Array.isArray(snapshot.topicHistory) ? snapshot.topicHistory.slice(-MAX_TOPIC_HISTORY) : [];
+        this.compressedSummary = snapshot.compressedSummary ?? null;
+        this.currentMood = snapshot.currentMood ?? 'calm';
+        this.songsWithLyrics = Array.isArray(snapshot.songsWithLyrics) ? snapshot.songsWithLyrics.slice(-10) : [];
+    }
+
     // ================== 内部方法 ==================
 
     /**
@@ -121,9 +121,18 @@ export interface ShowTimeline {
     theme?: string;          // 节目主题
     mood?: MoodType;         // 整体氛围
     userRequest?: string;    // 用户投稿内容
+    showType?: string;       // 节目类型
+    cast?: TimelineCastMember[]; // 演员阵容（用于播客等导出）
   };
 }
 
+/** 时间线演员信息 */
+export interface TimelineCastMember {
+  roleName: string;
+  voiceName: string;
+  personality?: string;
+}
+
 /** 时间线块 - 联合类型 */
 export type TimelineBlock =
   | TalkBlock
@@ -159,14 +168,20 @@ export interface ScriptLine {
   pause?: number;               // 台词后暂停毫秒数
 }
 
+/** 曲目段落（按歌词时间轴定位） */
+export type MusicSegment = 'intro' | 'verse' | 'chorus' | 'final_chorus';
+
 /** 音乐播放块 */
 export interface MusicBlock {
   type: 'music';
   id: string;
   action: 'play';
   search: string;             // 搜索关键词
-  duration?: number;          // 播放时长（秒），不填则播完整首
+  duration?: number;          // 播放时长（秒，从起播位置算起），不填则播完整首
   fadeIn?: number;            // 淡入时间（毫秒）
+  fadeOut?: number;           // 按 duration 收尾时的淡出时间（毫秒）
+  startAt?: number;           // 起播位置（秒）
+  segment?: MusicSegment;     // 从指定段落起播，优先于 startAt（定位失败时退回 startAt）
   intro?: ScriptLine;         // 音乐介绍词（播放前念）
 }
 
@@ -0,0 +1,101 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Loader2, LucideIcon } from 'lucide-react';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+import { SourceStatus } from '@shared/utils/source-list';
+
+type SourceListField = 'newsFeeds' | 'trendingSources' | 'quoteSources';
+
+interface SourceListSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: string) => void;
+    field: SourceListField;
+    label: string;
+    icon: LucideIcon;
+    placeholder: string;
+    hint: string;
+    emptyText: string;                                   // 测试时未配置任何来源的提示
+    preset: { label: string; value: string };            // 一键填入（恢复默认 / 离线样例）
+    onCheck: (text: string) => Promise<SourceStatus[]>;  // 测试尚未保存的配置
+    rows?: number;
+}
+
+/**
+ * 多行来源配置（每行：地址 | 名称 | 分类），带一键填入与逐源测试
+ */
+export default function SourceListSettings({
+    settings,
+    onSettingChange,
+    field,
+    label,
+    icon: Icon,
+    placeholder,
+    hint,
+    emptyText,
+    preset,
+    onCheck,
+    rows = 3,
+}: SourceListSettingsProps) {
+    const [statuses, setStatuses] = useState<SourceStatus[] | null>(null);
+    const [checking, setChecking] = useState(false);
+
+    const handleCheck = async () => {
+        setChecking(true);
+        try {
+            setStatuses(await onCheck(settings[field]));
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    const handlePreset = () => {
+        onSettingChange(field, preset.value);
+        setStatuses(null);
+    };
+
+    return (
+        <div className="space-y-3 pt-3 border-t border-neutral-800">
+            <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-neutral-400">{label}</label>
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={handlePreset}
+                        className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors"
+                    >
+                        {preset.label}
+                    </button>
+                    <button
+                        onClick={handleCheck}
+                        disabled={checking}
+                        className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400 disabled:text-neutral-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {checking ? <Loader2 size={12} className="animate-spin" /> : <Icon size={12} />}
+                        测试
+                    </button>
+                </div>
+            </div>
+            <textarea
+                value={settings[field]}
+                onChange={(e) => onSettingChange(field, e.target.value)}
+                placeholder={placeholder}
+                rows={rows}
+                className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white text-xs font-mono placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
+            />
+            {statuses && (
+                <div className="space-y-1 text-xs">
+                    {statuses.length === 0 && <p className="text-neutral-500">{emptyText}</p>}
+                    {statuses.map(status => (
+                        <div key={status.url} className="flex justify-between gap-2">
+                            <span className="text-neutral-400 truncate">{status.name}</span>
+                            <span className={status.error ? 'text-red-400 truncate' : 'font-mono text-neutral-300'}>
+                                {status.error ?? `${status.count} 条`}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <p className="text-xs text-neutral-500">{hint}</p>
+        </div>
+    );
+}
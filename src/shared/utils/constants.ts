@@ -19,6 +19,17 @@ export const SHOW = {
     DEFAULT_TIMELINE_DURATION: 120,   // 默认时间线时长 (秒)
 };
 
+// ================== 节目编排配置 ==================
+
+export const PROGRAM_CLOCK = {
+    MIN_SHOW_DURATION: 120,           // 时段内最短节目时长 (秒)，剩余不足时并入下一时段
+    UPCOMING_SLOT_COUNT: 4,           // 节目单中展示的后续时段数
+    REFRESH_INTERVAL_MS: 60000,       // 节目单时段刷新间隔 (ms)
+    LOOKAHEAD_DAYS: 7,                // 计算后续时段的最大天数
+    MAX_SLOT_MINUTES: 1440,           // 单个时段最长时长 (分钟)，超出按一天截断
+    REPLAN_DRIFT_SECONDS: 60,         // 节目超时超过此值 (秒) 且预生成的下一期放不下时重新生成
+};
+
 // ================== 过渡音乐配置 ==================
 
 export const TRANSITION = {
@@ -42,6 +53,22 @@ export const AUDIO = {
     MUSIC_AFTER_TRANSITION: 0.9,      // 过渡后恢复音量
     MUSIC_DEFAULT_FADE_IN: 2000,      // 音乐默认渐入时长 (ms)
 
+    // 侧链闪避（按语音包络压低音乐）
+    DUCK_ATTACK_MS: 120,              // 默认压低时长 (ms)
+    DUCK_RELEASE_MS: 900,             // 默认回升时长 (ms)
+    DUCK_HOLD_MS: 250,                // 语音低于门限后保持压低的时长，避免字间抽吸 (ms)
+    DUCK_THRESHOLD_DB: -50,           // 语音电平高于此值开始压低 (dBFS)
+    DUCK_RANGE_DB: 20,                // 高于门限多少 dB 时压到最低
+    DUCK_INTERVAL_MS: 20,             // 包络检测周期 (ms)
+    DUCK_MAX_MS: 3000,                // 设置中允许的最大压低 / 回升时长 (ms)
+
+    // 交叉淡化
+    CROSSFADE_DEFAULT_MS: 4000,       // 默认交叉淡化时长 (ms)
+    CROSSFADE_MAX_MS: 12000,          // 设置中允许的最大交叉淡化时长 (ms)
+    RELEASE_FADE_MS: 2000,            // 音乐收尾淡出时长 (ms)，与下一段重叠而不是先停再播
+    SEGMENT_LEAD_IN_MS: 1500,         // 按段落起播时提前的时长 (ms)，淡入结束时恰好进入段落
+    OUTRO_POLL_INTERVAL: 250,         // 等待歌曲尾声的轮询间隔 (ms)
+
     // 淡入淡出时长 (ms)
     FADE_DURATION_QUICK: 500,         // 快速淡入淡出
     FADE_DURATION_NORMAL: 1000,       // 正常淡入淡出
@@ -58,6 +85,106 @@ export const AUDIO = {
     PAUSE_CHECK_INTERVAL: 100,        // 暂停检查间隔
 };
 
+// ================== 音频处理链 ==================
+
+export const AUDIO_PROCESSING = {
+    // 响度归一化 (ITU-R BS.1770)
+    DEFAULT_TARGET_LUFS: -16,         // 默认目标响度（流媒体常用值）
+    MIN_TARGET_LUFS: -24,             // 设置中允许的最低目标响度
+    MAX_TARGET_LUFS: -10,             // 设置中允许的最高目标响度
+    MAX_BOOST_DB: 12,                 // 单个片段最大提升，避免把底噪放大
+    MAX_CUT_DB: 24,                   // 单个片段最大衰减
+    LOUDNESS_BLOCK_MS: 400,           // 测量块长度
+    LOUDNESS_STEP_MS: 100,            // 测量块步进（75% 重叠）
+    ABSOLUTE_GATE_LUFS: -70,          // 绝对门限
+    RELATIVE_GATE_LU: 10,             // 相对门限
+    ANALYSIS_SAMPLE_RATE: 44100,      // 音乐响度分析时的解码采样率
+
+    // 主总线压缩器（广播式轻压缩，收紧动态）
+    COMPRESSOR_THRESHOLD_DB: -18,
+    COMPRESSOR_KNEE_DB: 6,
+    COMPRESSOR_RATIO: 3,
+    COMPRESSOR_ATTACK_S: 0.01,
+    COMPRESSOR_RELEASE_S: 0.25,
+
+    // 主总线限幅器（防止削波）
+    LIMITER_THRESHOLD_DB: -1,
+    LIMITER_RATIO: 20,
+    LIMITER_ATTACK_S: 0.001,
+    LIMITER_RELEASE_S: 0.1,
+
+    // 齿音消除（分频压缩高频段）
+    DE_ESS_FREQUENCY: 6000,           // 分频点 (Hz)
+    DE_ESS_THRESHOLD_DB: -30,
+    DE_ESS_RATIO: 6,
+};
+
+// ================== 服务端广播配置 ==================
+
+export const BROADCAST = {
+    SAMPLE_RATE: 24000,               // 输出采样率 (Hz)，与 TTS PCM 一致
+    FRAME_MS: 100,                    // 混音帧长 (ms)
+    MAX_LISTENER_BACKLOG: 50,         // 单个听众最大积压帧数，超过则丢帧
+    IDLE_SHUTDOWN_MS: 5 * 60 * 1000,  // 无听众后停止节目的等待时间 (ms)
+    DECODE_TIMEOUT: 60000,            // ffmpeg 解码超时 (ms)
+};
+
+// ================== 节目录制配置 ==================
+
+export const RECORDING = {
+    SAMPLE_RATE: 48000,               // 导出采样率 (Hz，Opus 原生采样率)
+    CHANNELS: 2,                      // 导出声道数
+    VOICE_SAMPLE_RATE: 24000,         // TTS PCM 采样率 (Hz)
+    OPUS_BITRATE: 96000,              // Opus 导出码率 (bps)
+    MAX_EPISODES: 3,                  // 内存中保留的录制数
+};
+
+// ================== 播客发布配置 ==================
+
+export const PODCAST = {
+    MAX_UPLOAD_BYTES: 300 * 1024 * 1024, // 单集上传上限（音频 + 字幕 + 章节）
+};
+
+// ================== 持久化音频缓存配置 ==================
+
+export const AUDIO_CACHE = {
+    DB_NAME: 'radio_nowhere_audio_cache',
+    DB_VERSION: 1,
+    DEFAULT_QUOTA_MB: 200,            // 默认缓存配额 (MB)
+    MAX_QUOTA_MB: 2000,               // 设置面板可选的最大配额 (MB)
+};
+
+// ================== 本地大模型配置 ==================
+
+export const LOCAL_LLM = {
+    OLLAMA_ENDPOINT: 'http://localhost:11434',
+    LLAMACPP_ENDPOINT: 'http://localhost:8080',
+    DEFAULT_CONTEXT_WINDOW: 8192,     // 无法探测时假定的上下文窗口 (tokens)
+    COMPACT_PROMPT_THRESHOLD: 16384,  // 上下文窗口不超过此值时使用精简提示
+    OUTPUT_TOKEN_RATIO: 0.4,          // 精简模式下预留给输出的窗口比例
+    TOOL_RESULT_MAX_CHARS: 600,       // 精简模式下较早工具结果的截断长度
+    MEMORY_MAX_CHARS: 500,            // 精简模式下全局记忆的截断长度
+};
+
+// ================== 本地 TTS 配置 ==================
+
+export const LOCAL_TTS = {
+    DEFAULT_ENDPOINT: 'http://localhost:5000',
+    SAMPLE_RATE: 24000,               // 输出 PCM 采样率 (Hz)，与 Gemini TTS 一致
+    VOICE_CACHE_TTL_MS: 10 * 60 * 1000, // 音色列表缓存时长 (ms)
+};
+
+// ================== TTS 渠道熔断配置 ==================
+
+export const TTS_FAILOVER = {
+    FAILURE_THRESHOLD: 3,             // 连续失败次数达到此值时熔断
+    ERROR_RATE_THRESHOLD: 0.5,        // 统计窗口内错误率达到此值时熔断
+    WINDOW_SIZE: 20,                  // 错误率统计窗口 (最近请求数)
+    MIN_SAMPLES: 6,                   // 按错误率熔断所需的最少样本数
+    COOLDOWN_MS: 60000,               // 熔断后等待多久放行一次探测请求 (ms)
+    LATENCY_SMOOTHING: 0.3,           // 延迟指数平滑系数
+};
+
 // ================== Agent 配置 ==================
 
 export const AGENT = {
@@ -69,6 +196,7 @@ export const AGENT = {
     // Director Agent
     PRELOAD_BLOCKS_DEFAULT: 5,        // 默认预加载块数（增加到 5 块）
     HALFWAY_DELAY_MIN_MS: 5000,       // 预生成最小等待时间
+    SESSION_SAVE_INTERVAL_MS: 5000,   // 会话进度保存间隔（用于刷新后恢复）
 
     // TTS Agent
     MAX_CONCURRENT_TTS: 5,            // TTS 最大并发数（降低以避免 503）
@@ -76,11 +204,22 @@ export const AGENT = {
     API_RETRY_BASE_DELAY: 1000,       // API 重试基础延迟 (ms)
 };
 
+// ================== 时间线校验配置 ==================
+
+export const TIMELINE_VALIDATION = {
+    CJK_CHARS_PER_SECOND: 4.5,        // 中日韩文字语速估算 (字/秒)
+    WORDS_PER_SECOND: 2.5,            // 其他语言语速估算 (词/秒)
+    DEFAULT_MUSIC_SECONDS: 180,       // 未指定时长的音乐按此估算 (秒)
+    DURATION_TOLERANCE: 0.5,          // 估算时长与 estimatedDuration 的偏差比例，超出时给出警告
+    MAX_REPORTED_ERRORS: 15,          // 回传给编剧的最多错误条数
+};
+
 // ================== 历史记录配置 ==================
 
 export const HISTORY = {
     MAX_RECENT_SHOWS: 50,             // 最大近期节目记录数
     MAX_RECENT_SONGS: 100,            // 最大近期歌曲记录数
+    MAX_RECENT_QUOTES: 100,           // 最大近期语录记录数
     EXPIRY_HOURS: 2,                  // 历史过期时间 (小时)
     DUPLICATE_CHECK_HOURS: 1,         // 重复检查时间范围（小时）
 };
@@ -116,13 +255,110 @@ export const MUSIC_SERVICE = {
     DEFAULT_SEARCH_COUNT: 10,         // 默认搜索结果数
     DEFAULT_BITRATE: 320,             // 默认音质
     API_BASE_URL: 'https://music-api.gdstudio.xyz/api.php',
+    JAMENDO_API_URL: 'https://api.jamendo.com/v3.0',
+};
+
+// ================== 本地音乐库配置 ==================
+
+export const MUSIC_LIBRARY = {
+    INDEX_TTL_MS: 10 * 60 * 1000,     // 曲库索引缓存时长 (ms)，过期后重新扫描目录
+    AUDIO_EXTENSIONS: ['.mp3', '.flac', '.ogg', '.oga', '.opus', '.m4a', '.wav'],
+    MAX_TAG_BYTES: 16 * 1024 * 1024,  // 单个标签块最大读取字节数（内嵌封面较大时截断）
+};
+
+// ================== 音效库配置 ==================
+
+export const SOUND_EFFECTS = {
+    LIST_TTL_MS: 60 * 1000,           // 客户端音效列表缓存时长 (ms)
+    MAX_UPLOAD_BYTES: 10 * 1024 * 1024, // 单个上传音效最大字节数
+    MAX_REQUEST_BYTES: 10 * 1024 * 1024 + 64 * 1024, // 上传请求体上限（音频 + 表单字段）
+    AUDIO_EXTENSIONS: ['.mp3', '.ogg', '.oga', '.opus', '.m4a', '.wav', '.flac'],
+    LOAD_TIMEOUT: 8000,               // 音效加载超时 (ms)
+    MAX_CUE_MS: 8000,                 // before / after 音效最长等待 (ms)，超出后继续播放台词，音效在下层播完
+    DEFAULT_VOLUME: 0.8,              // before / after 音效默认音量
+    UNDERLAY_VOLUME: 0.3,             // 铺底音效默认音量
+    UNDERLAY_FADE_MS: 1500,           // 铺底音效淡入淡出时长 (ms)
+};
+
+// ================== 知识库配置 ==================
+
+export const KNOWLEDGE = {
+    INDEX_TTL_MS: 10 * 60 * 1000,     // 知识库索引缓存时长 (ms)，过期后重新扫描目录
+    FILE_EXTENSIONS: ['.md', '.markdown', '.txt', '.jsonl'],
+    CHUNK_CHARS: 500,                 // 片段目标字数（按段落拼接，超长段落按句切分）
+    CHUNK_OVERLAP_CHARS: 80,          // 相邻片段重叠字数，避免事实被切断
+    BM25_K1: 1.2,                     // BM25 词频饱和参数
+    BM25_B: 0.75,                     // BM25 文档长度归一化参数
+    DEFAULT_LIMIT: 3,                 // 默认返回条目数
+    MAX_LIMIT: 6,                     // 最多返回条目数
+    RERANK_CANDIDATES: 4,             // 启用向量重排时先取 limit 的倍数作为 BM25 候选
+    EMBEDDING_WEIGHT: 0.6,            // 混合得分中向量相似度的权重（其余为归一化 BM25）
+    EMBEDDING_CACHE_SIZE: 500,        // 客户端缓存的片段向量数
+};
+
+export const MUSIC_RATE_LIMIT = {
+    CAPACITY: 50,                     // GD Studio 限额：每个窗口最多请求数
+    WINDOW_MS: 5 * 60 * 1000,         // 限额窗口 (ms)，令牌按窗口匀速补充
+    NEXT_RESERVE: 5,                  // 预备下一段时保留给当前播放的令牌数
+    EXPLORE_RESERVE: 15,              // 编剧搜索时保留给播放与预备的令牌数
+    EXPLORE_MAX_WAIT_MS: 20000,       // 编剧搜索排队超时 (ms)，超时直接失败而不是拖住编剧
+    LOW_BUDGET: 15,                   // 剩余令牌低于此值时提示编剧减少搜索
 };
 
 // ================== 新闻服务配置 ==================
 
 export const NEWS_SERVICE = {
-    API_KEY: 'xQoCR8nqbnaUO8vFOKVSGuijbI',
-    API_URL: 'https://api.shwgij.com/api/news/fastnews/news_rest',
+    DEFAULT_FEEDS: [
+        'https://feeds.bbci.co.uk/zhongwen/simp/rss.xml | BBC 中文 | 国际',
+        'https://www.chinanews.com.cn/rss/scroll-news.xml | 中新网 | 综合',
+    ].join('\n'),
+    FIXTURE_FEED: '/news/fixture-feed.xml', // 离线样例新闻源（public 目录）
+    FEED_TTL_MS: 10 * 60 * 1000,      // 单个新闻源缓存时长 (ms)
+    FETCH_TIMEOUT: 10000,             // 单个新闻源请求超时 (ms)
+    SUMMARY_MAX_CHARS: 160,           // 新闻摘要截断长度
     DEFAULT_COUNT: 10,                // 默认新闻条数
     MAX_COUNT: 15,                    // 最大新闻条数
 };
+
+// ================== 天气服务配置 ==================
+
+export const WEATHER = {
+    FORECAST_ENDPOINT: 'https://api.open-meteo.com',               // Open-Meteo 预报接口
+    GEOCODING_ENDPOINT: 'https://geocoding-api.open-meteo.com',    // Open-Meteo 城市检索接口
+    CACHE_TTL_MS: 30 * 60 * 1000,     // 同一地点天气缓存时长 (ms)
+    FETCH_TIMEOUT: 10000,             // 请求超时 (ms)
+    FORECAST_DAYS: 3,                 // 预报天数（含今天）
+    COLD_THRESHOLD: 5,                // 低于此体感温度 (°C) 视为寒冷
+    HOT_THRESHOLD: 32,                // 高于此体感温度 (°C) 视为炎热
+};
+
+// ================== 热点话题配置 ==================
+
+export const TRENDING = {
+    DEFAULT_SOURCES: [
+        '/trending/curated.json | 编辑精选 | 综合',
+        'https://hn.algolia.com/api/v1/search?tags=front_page | Hacker News | 科技',
+    ].join('\n'),
+    SOURCE_TTL_MS: 15 * 60 * 1000,    // 单个热点源缓存时长 (ms)
+    RECENCY_HALF_LIFE_HOURS: 12,      // 新鲜度半衰期 (小时)
+    UNDATED_RECENCY: 0.4,             // 无发布时间条目的新鲜度
+    RECENCY_WEIGHT: 0.4,              // 评分权重：新鲜度
+    HEAT_WEIGHT: 0.25,                // 评分权重：源内热度
+    NOVELTY_WEIGHT: 0.35,             // 评分权重：与近期节目的差异度
+    MIN_NOVELTY: 0.5,                 // 差异度低于此值视为与近期节目雷同，不再推荐
+    SUMMARY_MAX_CHARS: 80,            // 话题背景摘要长度
+    DEFAULT_COUNT: 5,                 // 默认话题数
+    MAX_COUNT: 10,                    // 最大话题数
+};
+
+// ================== 名言语录配置 ==================
+
+export const QUOTES = {
+    DEFAULT_SOURCES: '/quotes/quotes.json | 内置语录',
+    SOURCE_TTL_MS: 30 * 60 * 1000,    // 单个语录源缓存时长 (ms)
+    DEFAULT_COUNT: 3,                 // 默认返回条数
+    MAX_COUNT: 6,                     // 最大返回条数
+    TAG_WEIGHT: 2,                    // 评分权重：标签命中
+    TEXT_WEIGHT: 1,                   // 评分权重：正文 / 作者 / 出处词元重合
+    MIN_MATCH_CHARS: 6,               // 语录归一化后至少多少字符才参与播出记录匹配
+};
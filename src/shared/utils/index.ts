@@ -3,3 +3,4 @@
  */
 
 export * from './constants';
+export * from './source-list';
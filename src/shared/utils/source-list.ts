@@ -0,0 +1,42 @@
+/**
+ * Source List - 设置中的多行来源配置
+ * 每行若干字段以竖线分隔；新闻源、热点源、语录库（url | 名称 | 分类）与本地音色元数据共用同一行解析
+ */
+
+// ================== Types ==================
+
+export interface SourceConfig {
+    url: string;
+    name: string;
+    category?: string;           // 源级分类 / 标签，附加到该源所有条目
+}
+
+export interface SourceStatus {
+    url: string;
+    name: string;
+    count: number;
+    error?: string;
+}
+
+// ================== Parsing ==================
+
+/**
+ * 按行拆分竖线分隔的字段（去除首尾空白，跳过空行与 # 注释行）
+ */
+export function parsePipeLines(text: string): string[][] {
+    return text
+        .split(/\r?\n/)
+        .map(line => line.split('|').map(part => part.trim()))
+        .filter(([first]) => Boolean(first) && !first.startsWith('#'));
+}
+
+/**
+ * 解析来源列表（每行：url | 名称 | 分类，名称缺省为域名，分类可省略）
+ */
+export function parseSourceList(text: string): SourceConfig[] {
+    return parsePipeLines(text).map(([url, name, category]) => ({
+        url,
+        name: name || url.replace(/^https?:\/\//, '').split('/')[0],
+        category: category || undefined
+    }));
+}
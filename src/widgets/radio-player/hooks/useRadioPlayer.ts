@@ -6,7 +6,14 @@ import { audioMixer } from '@shared/services/audio-service/mixer';
 import { radioMonitor, AgentStatus, ScriptEvent, LogEvent } from '@shared/services/monitor-service';
 import { ShowTimeline } from '@shared/types/radio-core';
 import { mailQueue } from '@features/feedback/lib/mail-queue';
-import { ExtendedBlock, RadioPlayerState, RadioPlayerActions } from '../types';
+import { programClock } from '@features/program-clock/lib/program-clock';
+import { showRecorder, RecordingSummary } from '@features/recording/lib/show-recorder';
+import { renderRecording } from '@features/recording/lib/episode-renderer';
+import { publishRecording as publishRecordingToPodcast } from '@features/podcast/lib/podcast-publisher';
+import { getSession, clearSession, RadioSession } from '@shared/services/storage-service/session';
+import { getSettings } from '@shared/services/storage-service/settings';
+import { PROGRAM_CLOCK } from '@shared/utils/constants';
+import { ExtendedBlock, UpcomingSlot, RadioPlayerState, RadioPlayerActions } from '../types';
 
 export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
     timelineScrollRef: React.RefObject<HTMLDivElement | null>;
@@ -26,12 +33,19 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
     const [userMessage, setUserMessage] = useState("");
     const [showTimeline, setShowTimeline] = useState(true);
     const [pendingMailCount, setPendingMailCount] = useState(0);
+    const [upcomingSlots, setUpcomingSlots] = useState<UpcomingSlot[]>([]);
+    const [isRecording, setIsRecording] = useState(false);
+    const [recordings, setRecordings] = useState<RecordingSummary[]>([]);
+    const [busyRecordingId, setBusyRecordingId] = useState<string | null>(null);
+    const [publishError, setPublishError] = useState<{ id: string; message: string } | null>(null);
+    const [resumableSession, setResumableSession] = useState<RadioSession | null>(null);
 
     // 连接状态
     const [isConnected, setIsConnected] = useState(false);
 
     const timelineScrollRef = useRef<HTMLDivElement>(null);
     const currentBlockIdRef = useRef<string | null>(null);
+    const currentTimelineIdRef = useRef<string | null>(null);
 
     useEffect(() => {
         currentBlockIdRef.current = currentBlockId;
@@ -64,6 +78,23 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
         });
 
         const cleanupTimeline = radioMonitor.on('timeline', (data: ShowTimeline) => {
+            // 流式生成中同一节目的增量更新：替换该节目的块，保留当前播放位置
+            if (data.id === currentTimelineIdRef.current) {
+                setTimeline(prev => {
+                    const previous = new Map(prev.filter(block => block.timelineId === data.id).map(block => [block.id, block]));
+                    const updatedBlocks = data.blocks.map(block => ({
+                        ...block,
+                        isHistory: false,
+                        showTitle: data.title,
+                        timelineId: data.id,
+                        actualTrackName: previous.get(block.id)?.actualTrackName
+                    }));
+                    return [...prev.filter(block => block.timelineId !== data.id), ...updatedBlocks].slice(-60);
+                });
+                return;
+            }
+            currentTimelineIdRef.current = data.id;
+
             setTimeline(prev => {
                 const activeBlockId = currentBlockIdRef.current;
                 const prevWithHistory = prev.map(block => {
@@ -89,7 +120,8 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
                 const newBlocks = data.blocks.map(block => ({
                     ...block,
                     isHistory: false,
-                    showTitle: data.title
+                    showTitle: data.title,
+                    timelineId: data.id
                 }));
                 const historyLimit = 60;
                 const combined = [...prevWithHistory, ...newBlocks].slice(-historyLimit);
@@ -113,6 +145,11 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
         };
     }, []);
 
+    // 启动时检查是否有可恢复的会话
+    useEffect(() => {
+        setResumableSession(getSession());
+    }, []);
+
     // 监听邮件队列变化
     useEffect(() => {
         const cleanup = mailQueue.onMail(() => {
@@ -121,6 +158,33 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
         return cleanup;
     }, []);
 
+    // 定时刷新节目编排时段
+    useEffect(() => {
+        const refresh = () => {
+            const now = Date.now();
+            setUpcomingSlots(programClock.getUpcomingSlots(now).map(scheduled => ({
+                ...scheduled,
+                isOnAir: scheduled.startsAt <= now && now < scheduled.endsAt
+            })));
+        };
+        refresh();
+
+        const cleanupTimeline = radioMonitor.on('timeline', refresh);
+        const timer = setInterval(refresh, PROGRAM_CLOCK.REFRESH_INTERVAL_MS);
+        return () => {
+            cleanupTimeline();
+            clearInterval(timer);
+        };
+    }, []);
+
+    // 监听录制状态
+    useEffect(() => {
+        return showRecorder.onChange(() => {
+            setIsRecording(showRecorder.isArmed());
+            setRecordings(showRecorder.getRecordings());
+        });
+    }, []);
+
     // 自动滚动节目单
     useEffect(() => {
         if (timelineScrollRef.current && currentBlockId) {
@@ -131,6 +195,25 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
         }
     }, [currentBlockId]);
 
+    // 连接并开播（可从保存的会话继续）
+    const connect = useCallback(async (resumeSession?: RadioSession) => {
+        setIsInitializing(true);
+        setIsConnected(true);
+        setIsPlaying(true);
+        setCurrentScript(null);
+        setResumableSession(null);
+        try {
+            // Safety timeout: force stop initializing after 3s if agent hangs
+            setTimeout(() => setIsInitializing(false), 3000);
+            await directorAgent.startShow({ resumeSession });
+        } catch (error) {
+            console.error("Failed to start:", error);
+            setIsConnected(false);
+            setIsPlaying(false);
+        }
+        setIsInitializing(false);
+    }, []);
+
     // 统一播放控制
     const togglePlayback = useCallback(async () => {
         if (isPlaying) {
@@ -139,32 +222,26 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
             setIsInitializing(false);
         } else {
             if (!isConnected) {
-                setIsInitializing(true);
-                setIsConnected(true);
-                setIsPlaying(true);
-                setCurrentScript(null);
-                try {
-                    // Safety timeout: force stop initializing after 3s if agent hangs
-                    setTimeout(() => setIsInitializing(false), 3000);
-                    await directorAgent.startShow({});
-                } catch (error) {
-                    console.error("Failed to start:", error);
-                    setIsConnected(false);
-                    setIsPlaying(false);
-                }
-                setIsInitializing(false);
+                await connect();
             } else {
                 directorAgent.resumeShow();
                 setIsPlaying(true);
             }
         }
-    }, [isPlaying, isConnected]);
+    }, [isPlaying, isConnected, connect]);
+
+    // 从上次中断处继续收听
+    const resumeBroadcast = useCallback(async () => {
+        if (isConnected || !resumableSession) return;
+        await connect(resumableSession);
+    }, [isConnected, resumableSession, connect]);
 
-    // 断开连接
+    // 断开连接（重置节目，不再保留可恢复的会话）
     const disconnect = useCallback(() => {
         setIsConnected(false);
         setIsPlaying(false);
         directorAgent.stopShow();
+        clearSession();
         setCurrentScript(null);
         setCurrentBlockId(null);
         setAgentStatuses({});
@@ -209,6 +286,48 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
         setTimeline(prev => prev.filter(b => !b.isHistory));
     }, []);
 
+    const toggleRecording = useCallback(() => {
+        showRecorder.setArmed(!showRecorder.isArmed());
+    }, []);
+
+    // 离线渲染并下载录制（音频 + 字幕 + 章节）
+    const exportRecording = useCallback(async (id: string) => {
+        const recording = showRecorder.getRecording(id);
+        if (!recording) return;
+
+        setBusyRecordingId(id);
+        try {
+            const episode = await renderRecording(recording);
+            const baseName = episode.title.replace(/[\\/:*?"<>|]/g, '_');
+            downloadFile(episode.audio, `${baseName}.${episode.extension}`);
+            downloadFile(new Blob([episode.lrc], { type: 'text/plain' }), `${baseName}.lrc`);
+            downloadFile(new Blob([episode.vtt], { type: 'text/vtt' }), `${baseName}.vtt`);
+            downloadFile(new Blob([episode.chapters], { type: 'application/json' }), `${baseName}.chapters.json`);
+        } catch (error) {
+            console.error('[Recorder] Export failed:', error);
+        } finally {
+            setBusyRecordingId(null);
+        }
+    }, []);
+
+    // 发布录制到播客订阅源
+    const publishRecording = useCallback(async (id: string) => {
+        const recording = showRecorder.getRecording(id);
+        if (!recording) return;
+
+        setBusyRecordingId(id);
+        setPublishError(null);
+        try {
+            await publishRecordingToPodcast(recording, { token: getSettings().podcastPublishToken });
+        } catch (error) {
+            console.error('[Podcast] Publish failed:', error);
+            radioMonitor.log('DIRECTOR', `Podcast publish failed: ${error}`, 'error');
+            setPublishError({ id, message: error instanceof Error ? error.message : String(error) });
+        } finally {
+            setBusyRecordingId(null);
+        }
+    }, []);
+
     const handleSetIsMuted = useCallback((muted: boolean) => {
         setIsMuted(muted);
         audioMixer.setMasterVolume(muted ? 0 : 0.8);
@@ -229,8 +348,15 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
         userMessage,
         showTimeline,
         pendingMailCount,
+        upcomingSlots,
+        isRecording,
+        recordings,
+        busyRecordingId,
+        publishError,
+        resumableSession,
         // Actions
         togglePlayback,
+        resumeBroadcast,
         disconnect,
         jumpToBlock,
         submitUserRequest,
@@ -239,7 +365,19 @@ export function useRadioPlayer(): RadioPlayerState & RadioPlayerActions & {
         setUserMessage,
         setIsMuted: handleSetIsMuted,
         clearHistory,
+        toggleRecording,
+        exportRecording,
+        publishRecording,
         // Refs
         timelineScrollRef,
     };
 }
+
+function downloadFile(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
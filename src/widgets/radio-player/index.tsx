@@ -4,7 +4,7 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import {
     Play, Pause, MessageCircle,
-    Volume2, VolumeX, Layers, Loader2, RotateCcw,
+    Volume2, VolumeX, Layers, Loader2, RotateCcw, History,
 } from 'lucide-react';
 
 import { useRadioPlayer } from './hooks/useRadioPlayer';
@@ -32,8 +32,15 @@ export default function RadioPlayer() {
         userMessage,
         showTimeline,
         pendingMailCount,
+        upcomingSlots,
+        isRecording,
+        recordings,
+        busyRecordingId,
+        publishError,
+        resumableSession,
         // Actions
         togglePlayback,
+        resumeBroadcast,
         disconnect,
         jumpToBlock,
         submitUserRequest,
@@ -42,6 +49,9 @@ export default function RadioPlayer() {
         setUserMessage,
         setIsMuted,
         clearHistory,
+        toggleRecording,
+        exportRecording,
+        publishRecording,
         // Refs
         timelineScrollRef,
     } = useRadioPlayer();
@@ -120,6 +130,19 @@ export default function RadioPlayer() {
                             </motion.button>
                         </div>
 
+                        {/* Resume Previous Session */}
+                        {!isConnected && resumableSession && (
+                            <button
+                                onClick={resumeBroadcast}
+                                className="mx-auto -mt-2 flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 text-xs text-neutral-300 transition-colors max-w-full"
+                            >
+                                <History size={14} className="shrink-0 text-orange-400" />
+                                <span className="truncate">
+                                    继续收听 · {resumableSession.timeline.title || 'Untitled'}
+                                </span>
+                            </button>
+                        )}
+
                         {/* Secondary Actions Row */}
                         <div className="flex items-center justify-between px-2 pb-2">
                             <PlayerActionBtn
@@ -166,10 +189,18 @@ export default function RadioPlayer() {
             <TimelinePanel
                 timeline={timeline}
                 currentBlockId={currentBlockId}
+                upcomingSlots={upcomingSlots}
+                isRecording={isRecording}
+                recordings={recordings}
+                busyRecordingId={busyRecordingId}
+                publishError={publishError}
                 showTimeline={showTimeline}
                 onClose={() => setShowTimeline(false)}
                 onJumpToBlock={jumpToBlock}
                 onClearHistory={clearHistory}
+                onToggleRecording={toggleRecording}
+                onExportRecording={exportRecording}
+                onPublishRecording={publishRecording}
                 timelineScrollRef={timelineScrollRef}
             />
 
@@ -1,13 +1,22 @@
 import { TimelineBlock, PlayerState } from '@shared/types/radio-core';
 import { AgentStatus, ScriptEvent, LogEvent } from '@shared/services/monitor-service';
+import { ScheduledSlot } from '@features/program-clock/lib/program-clock';
+import { RecordingSummary } from '@features/recording/lib/show-recorder';
+import { RadioSession } from '@shared/services/storage-service/session';
 
 // Extended TimelineBlock with history marker
 export type ExtendedBlock = TimelineBlock & {
     isHistory?: boolean;
     showTitle?: string;
+    timelineId?: string;
     actualTrackName?: string;
 };
 
+// Scheduled program slot with on-air marker
+export type UpcomingSlot = ScheduledSlot & {
+    isOnAir: boolean;
+};
+
 export interface RadioPlayerState {
     isPlaying: boolean;
     isConnected: boolean;
@@ -22,10 +31,17 @@ export interface RadioPlayerState {
     userMessage: string;
     showTimeline: boolean;
     pendingMailCount: number;
+    upcomingSlots: UpcomingSlot[];
+    isRecording: boolean;
+    recordings: RecordingSummary[];
+    busyRecordingId: string | null;
+    publishError: { id: string; message: string } | null;  // 最近一次播客发布失败
+    resumableSession: RadioSession | null;
 }
 
 export interface RadioPlayerActions {
     togglePlayback: () => Promise<void>;
+    resumeBroadcast: () => Promise<void>;
     disconnect: () => void;
     jumpToBlock: (index: number) => void;
     submitUserRequest: () => void;
@@ -34,4 +50,7 @@ export interface RadioPlayerActions {
     setUserMessage: (message: string) => void;
     setIsMuted: (muted: boolean) => void;
     clearHistory: () => void;
+    toggleRecording: () => void;
+    exportRecording: (id: string) => Promise<void>;
+    publishRecording: (id: string) => Promise<void>;
 }
@@ -2,17 +2,26 @@
 
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Clock, Mic2, Music, Zap, X } from 'lucide-react';
+import { Clock, Mic2, Music, Zap, X, CalendarClock, Download, Loader2, Podcast } from 'lucide-react';
 import { TimelineBlock } from '@shared/types/radio-core';
-import { ExtendedBlock } from '../types';
+import { RecordingSummary } from '@features/recording/lib/show-recorder';
+import { ExtendedBlock, UpcomingSlot } from '../types';
 
 interface TimelinePanelProps {
     timeline: ExtendedBlock[];
     currentBlockId: string | null;
+    upcomingSlots: UpcomingSlot[];
+    isRecording: boolean;
+    recordings: RecordingSummary[];
+    busyRecordingId: string | null;
+    publishError: { id: string; message: string } | null;
     showTimeline: boolean;
     onClose: () => void;
     onJumpToBlock: (index: number) => void;
     onClearHistory: () => void;
+    onToggleRecording: () => void;
+    onExportRecording: (id: string) => void;
+    onPublishRecording: (id: string) => void;
     timelineScrollRef: React.RefObject<HTMLDivElement | null>;
 }
 
@@ -32,13 +41,31 @@ function getDisplayLabel(block: ExtendedBlock): string {
     return getBlockLabel(block);
 }
 
+function formatDuration(ms: number): string {
+    const totalSeconds = Math.round(ms / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+function formatSlotTime(timestamp: number): string {
+    const date = new Date(timestamp);
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
 export default function TimelinePanel({
     timeline,
     currentBlockId,
+    upcomingSlots,
+    isRecording,
+    recordings,
+    busyRecordingId,
+    publishError,
     showTimeline,
     onClose,
     onJumpToBlock,
     onClearHistory,
+    onToggleRecording,
+    onExportRecording,
+    onPublishRecording,
     timelineScrollRef,
 }: TimelinePanelProps) {
     return (
@@ -69,6 +96,17 @@ export default function TimelinePanel({
                                 Program Queue
                             </span>
                             <div className="flex items-center gap-2">
+                                <button
+                                    onClick={onToggleRecording}
+                                    title="Record shows for export"
+                                    className={`text-[10px] font-bold px-2.5 py-1 rounded-lg transition-colors flex items-center gap-1.5 ${isRecording
+                                        ? 'bg-red-500/20 text-red-400'
+                                        : 'bg-white/5 text-neutral-500 hover:text-red-400 hover:bg-red-500/10'
+                                        }`}
+                                >
+                                    <span className={`w-1.5 h-1.5 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'bg-neutral-600'}`} />
+                                    REC
+                                </button>
                                 <button
                                     onClick={onClearHistory}
                                     className="text-[10px] text-neutral-500 hover:text-red-400 transition-colors px-2.5 py-1 rounded-lg bg-white/5 hover:bg-red-500/10"
@@ -84,6 +122,75 @@ export default function TimelinePanel({
                             </div>
                         </div>
 
+                        {/* Program Clock */}
+                        {upcomingSlots.length > 0 && (
+                            <div className="px-4 py-2.5 border-b border-white/10 bg-black/20">
+                                <div className="text-[10px] text-neutral-500 uppercase tracking-widest font-bold flex items-center gap-1.5 mb-1.5">
+                                    <CalendarClock size={10} className="text-violet-400" />
+                                    Program Clock
+                                </div>
+                                <div className="space-y-1">
+                                    {upcomingSlots.map((scheduled, i) => {
+                                        const { isOnAir } = scheduled;
+                                        return (
+                                            <div
+                                                key={`${scheduled.slot.id}-${scheduled.startsAt}-${i}`}
+                                                className={`flex items-center gap-2 text-[11px] ${isOnAir ? 'text-white' : 'text-neutral-400'}`}
+                                            >
+                                                <span className="font-mono text-neutral-500 shrink-0">
+                                                    {formatSlotTime(scheduled.startsAt)}-{formatSlotTime(scheduled.endsAt)}
+                                                </span>
+                                                <span className="truncate flex-1">{scheduled.slot.label}</span>
+                                                <span className="text-[9px] uppercase font-mono text-neutral-600 shrink-0">
+                                                    {scheduled.slot.showType}
+                                                </span>
+                                                {isOnAir && (
+                                                    <span className="text-[9px] font-bold text-pink-400 shrink-0">ON AIR</span>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Recordings */}
+                        {recordings.length > 0 && (
+                            <div className="px-4 py-2.5 border-b border-white/10 bg-black/20 space-y-1">
+                                {recordings.map(recording => (
+                                    <React.Fragment key={recording.id}>
+                                        <div className="flex items-center gap-2 text-[11px] text-neutral-400">
+                                            <span className="truncate flex-1">{recording.title}</span>
+                                            <span className="font-mono text-neutral-600 shrink-0">
+                                                {formatDuration(recording.durationMs)} · {recording.chapterCount} ch
+                                            </span>
+                                            <button
+                                                onClick={() => onPublishRecording(recording.id)}
+                                                disabled={busyRecordingId !== null}
+                                                title="Publish to podcast feed"
+                                                className="p-1 rounded-md hover:bg-white/10 text-neutral-500 hover:text-white transition-all disabled:opacity-40"
+                                            >
+                                                <Podcast size={12} />
+                                            </button>
+                                            <button
+                                                onClick={() => onExportRecording(recording.id)}
+                                                disabled={busyRecordingId !== null}
+                                                title="Export WAV + LRC + WebVTT"
+                                                className="p-1 rounded-md hover:bg-white/10 text-neutral-500 hover:text-white transition-all disabled:opacity-40"
+                                            >
+                                                {busyRecordingId === recording.id
+                                                    ? <Loader2 size={12} className="animate-spin" />
+                                                    : <Download size={12} />}
+                                            </button>
+                                        </div>
+                                        {publishError?.id === recording.id && (
+                                            <div className="text-[10px] text-red-400">{publishError.message}</div>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </div>
+                        )}
+
                         {/* List */}
                         <div
                             ref={timelineScrollRef}
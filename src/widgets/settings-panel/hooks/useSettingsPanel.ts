@@ -1,9 +1,18 @@
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
-import { getSettings, saveSettings, IApiSettings, ApiType, DEFAULT_SETTINGS } from '@shared/services/storage-service/settings';
+import {
+    getSettings,
+    saveSettings,
+    isLocalApiType,
+    getLocalDefaultEndpoint,
+    IApiSettings,
+    ApiType,
+    DEFAULT_SETTINGS
+} from '@shared/services/storage-service/settings';
 import { testConnection, fetchModels } from '@shared/services/ai-service';
-import { SettingsPanelState, SettingsPanelActions, TestStatus } from '../types';
+import { callLocalTTSApi, loadLocalVoices } from '@features/tts/lib/local-tts';
+import { SettingsPanelState, SettingsPanelActions, SettingValue, TestStatus } from '../types';
 
 // Constants
 const MS_TTS_DEFAULT_TOKEN = 'tetr5354';
@@ -37,7 +46,8 @@ export function useSettingsPanel(isOpen: boolean): SettingsPanelState & Settings
     }, [isOpen]);
 
     const handleFetchModels = useCallback(async () => {
-        if (!settings.endpoint || !settings.apiKey) return;
+        // 本地模型无需 key，未填写 endpoint 时使用默认地址
+        if (!isLocalApiType(settings.apiType) && (!settings.endpoint || !settings.apiKey)) return;
 
         setLoadingModels(true);
         const modelList = await fetchModels(settings.endpoint, settings.apiKey, settings.apiType);
@@ -70,7 +80,7 @@ export function useSettingsPanel(isOpen: boolean): SettingsPanelState & Settings
         }
     }, [settings, models.length, handleFetchModels]);
 
-    const handleChange = useCallback((field: keyof IApiSettings, value: string | boolean | number) => {
+    const handleChange = useCallback((field: keyof IApiSettings, value: SettingValue) => {
         setSaved(false);
 
         if (field === 'apiType') {
@@ -89,6 +99,12 @@ export function useSettingsPanel(isOpen: boolean): SettingsPanelState & Settings
                 } else if (apiTypeValue === 'openai') {
                     defaultEndpoint = '';
                     defaultModel = 'gpt-4o';
+                } else if (apiTypeValue === 'ollama') {
+                    defaultEndpoint = getLocalDefaultEndpoint('ollama');
+                    defaultModel = 'qwen2.5:7b';
+                } else if (apiTypeValue === 'llamacpp') {
+                    defaultEndpoint = getLocalDefaultEndpoint('llamacpp');
+                    defaultModel = '';
                 }
 
                 return {
@@ -108,7 +124,17 @@ export function useSettingsPanel(isOpen: boolean): SettingsPanelState & Settings
         setTtsTestMessage("正在测试 TTS...");
 
         try {
-            if (settings.ttsProvider === 'microsoft') {
+            if (settings.ttsProvider === 'local') {
+                // 先保存以便本地 TTS 模块读取最新配置
+                saveSettings(settings);
+                const voices = await loadLocalVoices(true);
+                await callLocalTTSApi('测试', voices[0]?.id ?? '', {
+                    abortController: null,
+                    setAbortController: () => { }
+                });
+                setTtsTestStatus("success");
+                setTtsTestMessage(`✅ 本地 TTS 连接成功! (${voices.length} 个音色)`);
+            } else if (settings.ttsProvider === 'microsoft') {
                 const endpoint = (settings.msTtsEndpoint || 'https://tts.cjack.top').replace(/\/$/, '');
                 const voice = encodeURIComponent('Microsoft Server Speech Text to Speech Voice (zh-CN, XiaoxiaoNeural)');
                 const url = `${endpoint}/api/text-to-speech?voice=${voice}&volume=100&rate=0&pitch=0&text=${encodeURIComponent('测试')}`;
@@ -5,7 +5,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { X, Save, Zap, CheckCircle, Loader2 } from "lucide-react";
 
 import { useSettingsPanel } from "./hooks/useSettingsPanel";
-import { APISettings, TTSSettings, PreloadSettings, UserPreferenceSettings } from "./ui";
+import { APISettings, TTSSettings, MusicSettings, MixSettings, PreloadSettings, AudioCacheSettings, ProgramClockSettings, PodcastSettings, SoundEffectSettings, KnowledgeSettings, NewsSettings, TrendingSettings, QuoteSettings, WeatherSettings, UserPreferenceSettings } from "./ui";
 
 interface SettingsPanelProps {
     isOpen: boolean;
@@ -89,12 +89,75 @@ export default function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                                 onTtsTest={handleTtsTest}
                             />
 
+                            {/* Music Source Settings */}
+                            <MusicSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
+                            {/* Mix Settings */}
+                            <MixSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
                             {/* Preload Settings */}
                             <PreloadSettings
                                 settings={settings}
                                 onSettingChange={handleChange}
                             />
 
+                            {/* Audio Cache Settings */}
+                            <AudioCacheSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
+                            {/* Program Clock */}
+                            <ProgramClockSettings />
+
+                            {/* Podcast Publishing */}
+                            <PodcastSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
+                            {/* Sound Effect Library */}
+                            <SoundEffectSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
+                            {/* Knowledge Base */}
+                            <KnowledgeSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
+                            {/* News Feeds */}
+                            <NewsSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
+                            {/* Trending */}
+                            <TrendingSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
+                            {/* Quotes */}
+                            <QuoteSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
+                            {/* Weather */}
+                            <WeatherSettings
+                                settings={settings}
+                                onSettingChange={handleChange}
+                            />
+
                             <UserPreferenceSettings />
 
                             {/* Actions */}
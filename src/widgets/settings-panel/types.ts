@@ -2,6 +2,9 @@ import { IApiSettings } from '@shared/services/storage-service/settings';
 
 export type TestStatus = "idle" | "testing" | "success" | "error";
 
+/** 任意设置项的取值类型 */
+export type SettingValue = IApiSettings[keyof IApiSettings];
+
 export interface SettingsPanelState {
     settings: IApiSettings;
     testStatus: TestStatus;
@@ -15,7 +18,7 @@ export interface SettingsPanelState {
 }
 
 export interface SettingsPanelActions {
-    handleChange: (field: keyof IApiSettings, value: string | boolean | number) => void;
+    handleChange: (field: keyof IApiSettings, value: SettingValue) => void;
     handleSave: () => void;
     handleTest: () => Promise<void>;
     handleFetchModels: () => Promise<void>;
@@ -3,9 +3,33 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AlertCircle, RefreshCw, ChevronDown, Loader2, CheckCircle } from 'lucide-react';
-import { IApiSettings, ApiType } from '@shared/services/storage-service/settings';
+import { IApiSettings, ApiType, isLocalApiType } from '@shared/services/storage-service/settings';
+import { LOCAL_LLM } from '@shared/utils/constants';
 import { TestStatus } from '../types';
 
+const API_TYPE_LABELS: Record<ApiType, string> = {
+    openai: "OpenAI",
+    gemini: "Gemini",
+    vertexai: "Vertex",
+    ollama: "Ollama",
+    llamacpp: "llama.cpp",
+};
+
+const API_TYPE_DESCRIPTIONS: Record<ApiType, string> = {
+    openai: "兼容 OpenAI 格式的服务 (如 DeepSeek, Groq 等)",
+    gemini: "Google AI Studio 原生接口 (推荐 API Key 用户)",
+    vertexai: "Google Cloud Vertex AI (仅支持 OAuth 认证)",
+    ollama: "本地 Ollama 原生接口，无需 API Key，可完全离线运行",
+    llamacpp: "本地 llama.cpp server (OpenAI 兼容接口)，无需 API Key",
+};
+
+const ENDPOINT_PLACEHOLDERS: Partial<Record<ApiType, string>> = {
+    openai: "https://api.openai.com",
+    gemini: "https://generativelanguage.googleapis.com",
+    ollama: LOCAL_LLM.OLLAMA_ENDPOINT,
+    llamacpp: LOCAL_LLM.LLAMACPP_ENDPOINT,
+};
+
 interface APISettingsProps {
     settings: IApiSettings;
     testStatus: TestStatus;
@@ -31,13 +55,15 @@ export default function APISettings({
     onSelectModel,
     onToggleDropdown,
 }: APISettingsProps) {
+    const isLocal = isLocalApiType(settings.apiType);
+
     return (
         <div className="space-y-5">
             {/* API Type Selector */}
             <div className="space-y-2">
                 <label className="text-sm font-medium text-neutral-400">API Type</label>
-                <div className="flex gap-2">
-                    {(["openai", "gemini", "vertexai"] as ApiType[]).map((type) => (
+                <div className="flex flex-wrap gap-2">
+                    {(Object.keys(API_TYPE_LABELS) as ApiType[]).map((type) => (
                         <button
                             key={type}
                             onClick={() => onSettingChange("apiType", type)}
@@ -46,29 +72,25 @@ export default function APISettings({
                                     : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
                                 }`}
                         >
-                            {type === "openai" ? "OpenAI" : type === "gemini" ? "Gemini" : "Vertex"}
+                            {API_TYPE_LABELS[type]}
                         </button>
                     ))}
                 </div>
                 <div className="text-xs text-neutral-500 mb-4 px-1">
-                    {settings.apiType === "openai"
-                        ? "兼容 OpenAI 格式的服务 (如 DeepSeek, Groq 等)"
-                        : settings.apiType === "gemini"
-                            ? "Google AI Studio 原生接口 (推荐 API Key 用户)"
-                            : "Google Cloud Vertex AI (仅支持 OAuth 认证)"}
+                    {API_TYPE_DESCRIPTIONS[settings.apiType]}
                 </div>
             </div>
 
             {/* API Key / Access Token */}
             <div className="space-y-2">
                 <label className="text-sm font-medium text-neutral-400">
-                    {settings.apiType === 'vertexai' ? "Access Token" : "API Key"}
+                    {settings.apiType === 'vertexai' ? "Access Token" : isLocal ? "API Key (可选)" : "API Key"}
                 </label>
                 <input
                     type="password"
                     value={settings.apiKey}
                     onChange={(e) => onSettingChange("apiKey", e.target.value)}
-                    placeholder={settings.apiType === 'vertexai' ? "ya29.a0AfH6S..." : "sk-..."}
+                    placeholder={settings.apiType === 'vertexai' ? "ya29.a0AfH6S..." : isLocal ? "本地服务无需填写" : "sk-..."}
                     className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
                 />
             </div>
@@ -119,7 +141,7 @@ export default function APISettings({
                         type="text"
                         value={settings.endpoint}
                         onChange={(e) => onSettingChange("endpoint", e.target.value)}
-                        placeholder={settings.apiType === "openai" ? "https://api.openai.com" : "https://generativelanguage.googleapis.com"}
+                        placeholder={ENDPOINT_PLACEHOLDERS[settings.apiType]}
                         className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
                     />
                 </div>
@@ -131,7 +153,7 @@ export default function APISettings({
                     <label className="text-sm font-medium text-neutral-400">Model Name</label>
                     <button
                         onClick={onFetchModels}
-                        disabled={!settings.endpoint || !settings.apiKey || loadingModels}
+                        disabled={(!isLocal && (!settings.endpoint || !settings.apiKey)) || loadingModels}
                         className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400 disabled:text-neutral-600 disabled:cursor-not-allowed transition-colors"
                     >
                         <RefreshCw size={12} className={loadingModels ? "animate-spin" : ""} />
@@ -144,7 +166,7 @@ export default function APISettings({
                         type="text"
                         value={settings.modelName}
                         onChange={(e) => onSettingChange("modelName", e.target.value)}
-                        placeholder="gpt-4o"
+                        placeholder={settings.apiType === "ollama" ? "qwen2.5:7b" : "gpt-4o"}
                         className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors pr-10"
                     />
                     {models.length > 0 && (
@@ -185,7 +207,26 @@ export default function APISettings({
                 <p className="text-xs text-neutral-500">
                     {models.length > 0
                         ? `${models.length} models available - click dropdown or type manually`
-                        : "e.g., gpt-4o, gpt-3.5-turbo, deepseek-chat"}
+                        : isLocal
+                            ? "e.g., qwen2.5:7b, llama3.1:8b (llama.cpp 使用启动时加载的模型)"
+                            : "e.g., gpt-4o, gpt-3.5-turbo, deepseek-chat"}
+                </p>
+            </div>
+
+            {/* Context Window */}
+            <div className="space-y-2">
+                <label className="text-sm font-medium text-neutral-400">Context Window (tokens)</label>
+                <input
+                    type="number"
+                    min={0}
+                    step={1024}
+                    value={settings.contextWindow}
+                    onChange={(e) => onSettingChange("contextWindow", Math.max(0, parseInt(e.target.value) || 0))}
+                    placeholder="0"
+                    className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
+                />
+                <p className="text-xs text-neutral-500">
+                    0 为自动（本地模型自动探测）；不超过 {LOCAL_LLM.COMPACT_PROMPT_THRESHOLD} 时编剧使用精简提示以适应小上下文
                 </p>
             </div>
 
@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { IApiSettings } from '@shared/services/storage-service/settings';
+import { audioCache, AudioCacheStats } from '@shared/services/storage-service/audio-cache';
+import { AUDIO_CACHE } from '@shared/utils/constants';
+
+interface AudioCacheSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: number) => void;
+}
+
+function formatMB(bytes: number): string {
+    return (bytes / 1024 / 1024).toFixed(1);
+}
+
+export default function AudioCacheSettings({
+    settings,
+    onSettingChange,
+}: AudioCacheSettingsProps) {
+    const [stats, setStats] = useState<AudioCacheStats | null>(null);
+    const [clearing, setClearing] = useState(false);
+
+    const refreshStats = useCallback(() => {
+        audioCache.getStats().then(setStats);
+    }, []);
+
+    useEffect(() => {
+        refreshStats();
+    }, [refreshStats]);
+
+    const handleClear = async () => {
+        setClearing(true);
+        await audioCache.clear();
+        setClearing(false);
+        refreshStats();
+    };
+
+    return (
+        <div className="space-y-3 pt-3 border-t border-neutral-800">
+            <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-neutral-400">音频缓存</label>
+                <button
+                    onClick={handleClear}
+                    disabled={clearing || !stats?.totalBytes}
+                    className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400 disabled:text-neutral-600 disabled:cursor-not-allowed transition-colors"
+                >
+                    <Trash2 size={12} />
+                    清空缓存
+                </button>
+            </div>
+            {stats && !stats.available ? (
+                <p className="text-xs text-neutral-500">当前浏览器不支持 IndexedDB，缓存不可用</p>
+            ) : (
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                    <div className="px-3 py-2 rounded-lg bg-neutral-800/60">
+                        <div className="text-neutral-500">语音</div>
+                        <div className="font-mono text-neutral-300">
+                            {stats?.kinds.tts.count ?? 0} 条 · {formatMB(stats?.kinds.tts.bytes ?? 0)} MB
+                        </div>
+                    </div>
+                    <div className="px-3 py-2 rounded-lg bg-neutral-800/60">
+                        <div className="text-neutral-500">音乐</div>
+                        <div className="font-mono text-neutral-300">
+                            {stats?.kinds.music.count ?? 0} 首 · {formatMB(stats?.kinds.music.bytes ?? 0)} MB
+                        </div>
+                    </div>
+                </div>
+            )}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-xs text-neutral-500">缓存上限</span>
+                    <span className="text-sm font-mono text-emerald-400">
+                        {settings.audioCacheQuotaMB === 0 ? '关闭' : `${settings.audioCacheQuotaMB} MB`}
+                    </span>
+                </div>
+                <input
+                    type="range"
+                    min={0}
+                    max={AUDIO_CACHE.MAX_QUOTA_MB}
+                    step={50}
+                    value={settings.audioCacheQuotaMB}
+                    onChange={(e) => onSettingChange("audioCacheQuotaMB", parseInt(e.target.value))}
+                    className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                <p className="text-xs text-neutral-500">
+                    报时、开场问候、过渡音乐和恢复的节目可直接从本地重播，超出上限时自动清理最久未播放的音频
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import React from 'react';
+import { CrossfadeCurve, IApiSettings, VoicePreset } from '@shared/services/storage-service/settings';
+import { CROSSFADE_CURVE_LABELS } from '@shared/services/audio-service/crossfade';
+import { VOICE_PRESET_LABELS } from '@shared/services/audio-service/audio-graph';
+import { AUDIO, AUDIO_PROCESSING } from '@shared/utils/constants';
+
+const CROSSFADE_CURVES = Object.keys(CROSSFADE_CURVE_LABELS) as CrossfadeCurve[];
+const VOICE_PRESETS = Object.keys(VOICE_PRESET_LABELS) as VoicePreset[];
+
+const DUCKING_FIELDS: Array<{ field: "duckingAttack" | "duckingRelease"; label: string }> = [
+    { field: "duckingAttack", label: "闪避压低" },
+    { field: "duckingRelease", label: "闪避回升" },
+];
+
+interface MixSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (field: keyof IApiSettings, value: number | boolean | CrossfadeCurve | VoicePreset) => void;
+}
+
+export default function MixSettings({
+    settings,
+    onSettingChange,
+}: MixSettingsProps) {
+    return (
+        <div className="space-y-3 pt-3 border-t border-neutral-800">
+            <label className="text-sm font-medium text-neutral-400">混音设置</label>
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-xs text-neutral-500">歌曲交叉淡化</span>
+                    <span className="text-sm font-mono text-emerald-400">
+                        {settings.crossfadeDuration > 0 ? `${(settings.crossfadeDuration / 1000).toFixed(1)}s` : "关闭"}
+                    </span>
+                </div>
+                <input
+                    type="range"
+                    min={0}
+                    max={AUDIO.CROSSFADE_MAX_MS}
+                    step={500}
+                    value={settings.crossfadeDuration}
+                    onChange={(e) => onSettingChange("crossfadeDuration", parseInt(e.target.value))}
+                    className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                <div className="flex gap-2">
+                    {CROSSFADE_CURVES.map((curve) => (
+                        <button
+                            key={curve}
+                            onClick={() => onSettingChange("crossfadeCurve", curve)}
+                            disabled={settings.crossfadeDuration === 0}
+                            className={`flex-1 px-3 py-1.5 rounded-xl text-xs transition-all disabled:opacity-40 ${settings.crossfadeCurve === curve
+                                    ? "bg-emerald-600/30 text-emerald-200 border border-emerald-500/50"
+                                    : "bg-neutral-800 text-neutral-500 border border-neutral-700 hover:bg-neutral-700"
+                                }`}
+                        >
+                            {CROSSFADE_CURVE_LABELS[curve]}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-neutral-500">
+                    连续两首歌时在上一首尾声开始过渡；等功率在交接时响度最平稳
+                </p>
+            </div>
+
+            <div className="space-y-2">
+                <label className="flex items-center justify-between cursor-pointer">
+                    <span className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={settings.loudnessTarget !== 0}
+                            onChange={(e) => onSettingChange(
+                                "loudnessTarget",
+                                e.target.checked ? AUDIO_PROCESSING.DEFAULT_TARGET_LUFS : 0
+                            )}
+                            className="w-4 h-4 rounded text-emerald-600 focus:ring-emerald-500 bg-neutral-800 border-neutral-700"
+                        />
+                        <span className="text-xs text-neutral-400">响度归一化</span>
+                    </span>
+                    <span className="text-sm font-mono text-emerald-400">
+                        {settings.loudnessTarget !== 0 ? `${settings.loudnessTarget} LUFS` : "关闭"}
+                    </span>
+                </label>
+                {settings.loudnessTarget !== 0 && (
+                    <input
+                        type="range"
+                        min={AUDIO_PROCESSING.MIN_TARGET_LUFS}
+                        max={AUDIO_PROCESSING.MAX_TARGET_LUFS}
+                        step={1}
+                        value={settings.loudnessTarget}
+                        onChange={(e) => onSettingChange("loudnessTarget", parseInt(e.target.value))}
+                        className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                    />
+                )}
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.masterCompressor}
+                        onChange={(e) => onSettingChange("masterCompressor", e.target.checked)}
+                        className="w-4 h-4 rounded text-emerald-600 focus:ring-emerald-500 bg-neutral-800 border-neutral-700"
+                    />
+                    <span className="text-xs text-neutral-400">主输出压缩 / 限幅</span>
+                </label>
+                <p className="text-xs text-neutral-500">
+                    不同语音渠道与音乐来源统一到同一响度；-16 LUFS 适合大多数设备
+                </p>
+            </div>
+
+            <div className="space-y-2">
+                <span className="text-xs text-neutral-500">语音音色</span>
+                <div className="flex gap-2">
+                    {VOICE_PRESETS.map((preset) => (
+                        <button
+                            key={preset}
+                            onClick={() => onSettingChange("voicePreset", preset)}
+                            className={`flex-1 px-3 py-1.5 rounded-xl text-xs transition-all ${settings.voicePreset === preset
+                                    ? "bg-emerald-600/30 text-emerald-200 border border-emerald-500/50"
+                                    : "bg-neutral-800 text-neutral-500 border border-neutral-700 hover:bg-neutral-700"
+                                }`}
+                        >
+                            {VOICE_PRESET_LABELS[preset]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                {DUCKING_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs text-neutral-500">{label}</span>
+                            <span className="text-sm font-mono text-emerald-400">{settings[field]}ms</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={0}
+                            max={AUDIO.DUCK_MAX_MS}
+                            step={50}
+                            value={settings[field]}
+                            onChange={(e) => onSettingChange(field, parseInt(e.target.value))}
+                            className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                        />
+                    </div>
+                ))}
+                <p className="text-xs text-neutral-500">
+                    说话时背景音乐跟随语音压低，句间停顿时回升
+                </p>
+            </div>
+        </div>
+    );
+}
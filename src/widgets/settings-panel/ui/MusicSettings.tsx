@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { IApiSettings, MusicProviderId } from '@shared/services/storage-service/settings';
+import { MUSIC_PROVIDER_LABELS } from '@features/music-search/lib/music-provider';
+import { SHOW_TEMPLATES } from '@features/content/lib/cast-system';
+
+const MUSIC_PROVIDER_IDS = Object.keys(MUSIC_PROVIDER_LABELS) as MusicProviderId[];
+
+interface MusicSettingsProps {
+    settings: IApiSettings;
+    onSettingChange: (
+        field: keyof IApiSettings,
+        value: string | MusicProviderId[] | Partial<Record<string, MusicProviderId[]>>
+    ) => void;
+}
+
+/**
+ * 点击切换来源：加入时排到队尾，再次点击移除
+ */
+function toggleProvider(order: MusicProviderId[], provider: MusicProviderId): MusicProviderId[] {
+    return order.includes(provider) ? order.filter(p => p !== provider) : [...order, provider];
+}
+
+function ProviderChips({
+    order,
+    onChange,
+}: {
+    order: MusicProviderId[];
+    onChange: (order: MusicProviderId[]) => void;
+}) {
+    return (
+        <div className="flex gap-2">
+            {MUSIC_PROVIDER_IDS.map((provider) => {
+                const position = order.indexOf(provider);
+                return (
+                    <button
+                        key={provider}
+                        onClick={() => onChange(toggleProvider(order, provider))}
+                        className={`flex-1 px-3 py-1.5 rounded-xl text-xs transition-all ${position >= 0
+                                ? "bg-emerald-600/30 text-emerald-200 border border-emerald-500/50"
+                                : "bg-neutral-800 text-neutral-500 border border-neutral-700 hover:bg-neutral-700"
+                            }`}
+                    >
+                        {position >= 0 ? `${position + 1}. ` : ""}{MUSIC_PROVIDER_LABELS[provider]}
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
+
+export default function MusicSettings({
+    settings,
+    onSettingChange,
+}: MusicSettingsProps) {
+    const [libraryStatus, setLibraryStatus] = useState<string | null>(null);
+    const usesJamendo = settings.musicProviders.includes('jamendo')
+        || Object.values(settings.musicProvidersByShow).some(order => order?.includes('jamendo'));
+
+    const setShowOrder = (showType: string, order: MusicProviderId[]) => {
+        const byShow = { ...settings.musicProvidersByShow };
+        if (order.length > 0) {
+            byShow[showType] = order;
+        } else {
+            delete byShow[showType];
+        }
+        onSettingChange("musicProvidersByShow", byShow);
+    };
+
+    const handleRescan = async () => {
+        setLibraryStatus("扫描中...");
+        try {
+            const response = await fetch('/api/music-library?rescan=1');
+            const data = await response.json() as { count: number };
+            setLibraryStatus(`曲库共 ${data.count} 首`);
+        } catch {
+            setLibraryStatus("扫描失败");
+        }
+    };
+
+    return (
+        <div className="space-y-3 pt-3 border-t border-neutral-800">
+            <label className="text-sm font-medium text-neutral-400">音乐来源</label>
+            <div className="space-y-2">
+                <ProviderChips
+                    order={settings.musicProviders}
+                    onChange={(order) => onSettingChange("musicProviders", order)}
+                />
+                <p className="text-xs text-neutral-500">
+                    按顺序搜索，前一个来源搜不到时使用下一个
+                </p>
+            </div>
+
+            <details className="group">
+                <summary className="text-xs text-neutral-500 cursor-pointer hover:text-neutral-400">
+                    按节目类型单独设置（未选择时使用上面的默认顺序）
+                </summary>
+                <div className="space-y-2 mt-2">
+                    {SHOW_TEMPLATES.map((template) => (
+                        <div key={template.type} className="space-y-1">
+                            <span className="text-xs text-neutral-400">{template.name}</span>
+                            <ProviderChips
+                                order={settings.musicProvidersByShow[template.type] ?? []}
+                                onChange={(order) => setShowOrder(template.type, order)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </details>
+
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-neutral-500">本地曲库目录由服务端 MUSIC_LIBRARY_DIR 指定</span>
+                <button
+                    onClick={handleRescan}
+                    className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400 transition-colors"
+                >
+                    <RefreshCw size={12} />
+                    {libraryStatus ?? "重新扫描"}
+                </button>
+            </div>
+
+            {usesJamendo && (
+                <div className="space-y-2">
+                    <label className="text-xs text-neutral-500">Jamendo Client ID</label>
+                    <input
+                        type="text"
+                        value={settings.jamendoClientId}
+                        onChange={(e) => onSettingChange("jamendoClientId", e.target.value)}
+                        placeholder="在 devportal.jamendo.com 免费申请"
+                        className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-emerald-500 transition-colors"
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -5,7 +5,7 @@ import { IApiSettings } from '@shared/services/storage-service/settings';
 
 interface PreloadSettingsProps {
     settings: IApiSettings;
-    onSettingChange: (field: keyof IApiSettings, value: number) => void;
+    onSettingChange: (field: keyof IApiSettings, value: number | boolean) => void;
 }
 
 export default function PreloadSettings({
@@ -37,6 +37,15 @@ export default function PreloadSettings({
                     数值越大播放越流畅，但消耗更多内存和 API 调用
                 </p>
             </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={settings.streamTimeline}
+                    onChange={(e) => onSettingChange("streamTimeline", e.target.checked)}
+                    className="w-4 h-4 rounded text-emerald-600 focus:ring-emerald-500 bg-neutral-800 border-neutral-700"
+                />
+                <span className="text-xs text-neutral-400">边写边播（首期节目写出第一段即开播）</span>
+            </label>
         </div>
     );
 }
@@ -1,16 +1,36 @@
 "use client";
 
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Zap, Loader2 } from 'lucide-react';
-import { IApiSettings, TTSProvider } from '@shared/services/storage-service/settings';
+import { IApiSettings, LocalTTSEngine, TTSProvider } from '@shared/services/storage-service/settings';
+import { LOCAL_TTS } from '@shared/utils/constants';
+import { CircuitState, ttsProviderChain } from '@features/tts/lib/provider-chain';
 import { TestStatus } from '../types';
 
+const TTS_PROVIDER_LABELS: Record<TTSProvider, string> = {
+    gemini: "Gemini TTS",
+    microsoft: "微软 TTS",
+    local: "本地 TTS",
+};
+
+const TTS_PROVIDER_DESCRIPTIONS: Record<TTSProvider, string> = {
+    gemini: "Google Gemini 原生 TTS，支持情感表达和多音色",
+    microsoft: "微软 Azure Neural TTS，音质优秀，无需配置 API Key",
+    local: "本地 Piper / Coqui TTS 服务，离线可用，无需 API Key",
+};
+
+const CIRCUIT_STATE_LABELS: Record<CircuitState, string> = {
+    closed: "正常",
+    open: "已熔断",
+    half_open: "探测中",
+};
+
 interface TTSSettingsProps {
     settings: IApiSettings;
     ttsTestStatus: TestStatus;
     ttsTestMessage: string;
-    onSettingChange: (field: keyof IApiSettings, value: string | boolean | number) => void;
+    onSettingChange: (field: keyof IApiSettings, value: string | boolean | number | TTSProvider[]) => void;
     onTtsTest: () => Promise<void>;
 }
 
@@ -26,6 +46,16 @@ export default function TTSSettings({
     const hasDirectKey = Boolean(settings.ttsApiKey || settings.apiKey);
     const hasVertexConfig = Boolean(settings.apiKey && settings.gcpProject && settings.gcpLocation);
     const isTtsTestDisabled = ttsTestStatus === "testing" || (isGeminiTts && (useVertex ? !hasVertexConfig : !hasDirectKey));
+    const [providerHealth] = useState(() => ttsProviderChain.getHealth());
+    const fallbackCandidates = (Object.keys(TTS_PROVIDER_LABELS) as TTSProvider[]).filter(p => p !== settings.ttsProvider);
+
+    // 点击切换备用渠道：加入时排到队尾，再次点击移除
+    const toggleFallback = (provider: TTSProvider) => {
+        const order = settings.ttsFallbackOrder.filter(p => p !== settings.ttsProvider);
+        onSettingChange("ttsFallbackOrder", order.includes(provider)
+            ? order.filter(p => p !== provider)
+            : [...order, provider]);
+    };
     return (
         <div className="border-t border-neutral-800 pt-4">
             <h3 className="text-sm font-semibold text-neutral-300 mb-3">🎤 TTS Settings</h3>
@@ -34,7 +64,7 @@ export default function TTSSettings({
             <div className="space-y-2 mb-4">
                 <label className="text-sm font-medium text-neutral-400">TTS 渠道</label>
                 <div className="flex gap-2">
-                    {(["gemini", "microsoft"] as TTSProvider[]).map((provider) => (
+                    {(Object.keys(TTS_PROVIDER_LABELS) as TTSProvider[]).map((provider) => (
                         <button
                             key={provider}
                             onClick={() => onSettingChange("ttsProvider", provider)}
@@ -43,17 +73,50 @@ export default function TTSSettings({
                                     : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
                                 }`}
                         >
-                            {provider === "gemini" ? "Gemini TTS" : "微软 TTS"}
+                            {TTS_PROVIDER_LABELS[provider]}
                         </button>
                     ))}
                 </div>
                 <p className="text-xs text-neutral-500">
-                    {settings.ttsProvider === "gemini"
-                        ? "Google Gemini 原生 TTS，支持情感表达和多音色"
-                        : "微软 Azure Neural TTS，音质优秀，无需配置 API Key"}
+                    {TTS_PROVIDER_DESCRIPTIONS[settings.ttsProvider]}
                 </p>
             </div>
 
+            {/* Fallback Order */}
+            <div className="space-y-2 mb-4">
+                <label className="text-sm font-medium text-neutral-400">备用渠道</label>
+                <div className="flex gap-2">
+                    {fallbackCandidates.map((provider) => {
+                        const position = settings.ttsFallbackOrder.filter(p => p !== settings.ttsProvider).indexOf(provider);
+                        return (
+                            <button
+                                key={provider}
+                                onClick={() => toggleFallback(provider)}
+                                className={`flex-1 px-3 py-2 rounded-xl text-xs transition-all ${position >= 0
+                                        ? "bg-purple-600/30 text-purple-200 border border-purple-500/50"
+                                        : "bg-neutral-800 text-neutral-500 border border-neutral-700 hover:bg-neutral-700"
+                                    }`}
+                            >
+                                {position >= 0 ? `${position + 1}. ` : ""}{TTS_PROVIDER_LABELS[provider]}
+                            </button>
+                        );
+                    })}
+                </div>
+                <p className="text-xs text-neutral-500">主渠道失败（如配额用尽）或熔断时按顺序切换，最后由微软 TTS 兜底，音色按性别与语言自动映射</p>
+                {providerHealth.length > 0 && (
+                    <div className="space-y-1">
+                        {providerHealth.map((health) => (
+                            <div key={health.provider} className="flex items-center justify-between text-xs px-3 py-1.5 rounded-lg bg-neutral-800/60">
+                                <span className="text-neutral-400">{TTS_PROVIDER_LABELS[health.provider]}</span>
+                                <span className={`font-mono ${health.state === 'closed' ? "text-emerald-400" : health.state === 'open' ? "text-red-400" : "text-amber-400"}`}>
+                                    {CIRCUIT_STATE_LABELS[health.state]} · 错误率 {Math.round(health.errorRate * 100)}% · {health.avgLatencyMs} ms
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
             {/* Gemini TTS Settings */}
             {settings.ttsProvider === "gemini" && (
                 <motion.div
@@ -145,6 +208,57 @@ export default function TTSSettings({
                 </motion.div>
             )}
 
+            {/* Local TTS Settings */}
+            {settings.ttsProvider === "local" && (
+                <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: "auto" }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="space-y-4"
+                >
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-neutral-400">服务类型</label>
+                        <div className="flex gap-2">
+                            {(["piper", "coqui"] as LocalTTSEngine[]).map((engine) => (
+                                <button
+                                    key={engine}
+                                    onClick={() => onSettingChange("localTtsEngine", engine)}
+                                    className={`flex-1 px-3 py-2 rounded-xl text-sm transition-all ${settings.localTtsEngine === engine
+                                            ? "bg-purple-600 text-white"
+                                            : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+                                        }`}
+                                >
+                                    {engine === "piper" ? "Piper" : "Coqui"}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-neutral-400">API Endpoint</label>
+                        <input
+                            type="text"
+                            value={settings.localTtsEndpoint}
+                            onChange={(e) => onSettingChange("localTtsEndpoint", e.target.value)}
+                            placeholder={LOCAL_TTS.DEFAULT_ENDPOINT}
+                            className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white placeholder-neutral-500 focus:outline-none focus:border-purple-500 transition-colors"
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-neutral-400">音色元数据 (可选)</label>
+                        <textarea
+                            value={settings.localTtsVoices}
+                            onChange={(e) => onSettingChange("localTtsVoices", e.target.value)}
+                            placeholder={"zh_CN-huayan-medium | female | zh | 温柔\np226 | male | en | Calm"}
+                            rows={3}
+                            className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-xl text-white text-xs font-mono placeholder-neutral-500 focus:outline-none focus:border-purple-500 transition-colors"
+                        />
+                        <p className="text-xs text-neutral-500">每行：音色 ID | 性别 | 语言 | 风格。Piper 会自动列出音色，此处用于补充性别；Coqui 的说话人需在此填写</p>
+                    </div>
+                </motion.div>
+            )}
+
             {/* TTS Test Button */}
             <button
                 onClick={onTtsTest}
@@ -156,7 +270,7 @@ export default function TTSSettings({
                 ) : (
                     <Zap size={14} />
                 )}
-                测试 {settings.ttsProvider === 'gemini' ? 'Gemini' : '微软'} TTS
+                测试 {TTS_PROVIDER_LABELS[settings.ttsProvider]}
             </button>
 
             {/* TTS Test Result */}
@@ -1,4 +1,15 @@
 export { default as APISettings } from './APISettings';
 export { default as TTSSettings } from './TTSSettings';
 export { default as PreloadSettings } from './PreloadSettings';
+export { default as MusicSettings } from './MusicSettings';
+export { default as MixSettings } from './MixSettings';
+export { default as AudioCacheSettings } from './AudioCacheSettings';
+export { default as ProgramClockSettings } from '@features/program-clock/ui/ProgramClockSettings';
+export { default as PodcastSettings } from '@features/podcast/ui/PodcastSettings';
+export { default as SoundEffectSettings } from '@features/sound-effects/ui/SoundEffectSettings';
+export { default as KnowledgeSettings } from '@features/knowledge/ui/KnowledgeSettings';
+export { default as NewsSettings } from '@features/news/ui/NewsSettings';
+export { default as TrendingSettings } from '@features/trending/ui/TrendingSettings';
+export { default as QuoteSettings } from '@features/quotes/ui/QuoteSettings';
+export { default as WeatherSettings } from '@features/weather/ui/WeatherSettings';
 export { default as UserPreferenceSettings } from '@features/user-preferences/ui/UserPreferenceSettings';